@@ -0,0 +1,93 @@
+import { INestApplication, ValidationPipe } from '@nestjs/common';
+import { Test } from '@nestjs/testing';
+import { MemoryRateLimitStore, RateLimitStore } from '@app/common';
+import { Types } from 'mongoose';
+import * as request from 'supertest';
+import JwtAuthGuard from '../guards/jwt-auth.guard';
+import { AccountController } from './account.controller';
+import { AccountService } from './account.service';
+
+describe('AccountController', () => {
+  const user = {
+    _id: new Types.ObjectId(),
+    email: 'user@example.com',
+    password: '$2b$10$hash',
+    roles: ['user'],
+    permissions: [],
+    emailVerified: true,
+    twoFactorEnabled: true,
+    totpSecret: 'JBSWY3DPEHPK3PXP',
+    totpLastStep: 57000000,
+    recoveryCodes: ['$2b$10$code'],
+    tokenVersion: 3,
+  };
+  const secrets = [
+    'password',
+    'totpSecret',
+    'totpLastStep',
+    'recoveryCodes',
+    'tokenVersion',
+  ];
+  const accountService = {
+    updateProfile: jest.fn(async (current, { email }) => ({
+      ...current,
+      email,
+      emailVerified: false,
+    })),
+  };
+  let app: INestApplication;
+
+  beforeAll(async () => {
+    const moduleRef = await Test.createTestingModule({
+      controllers: [AccountController],
+      providers: [
+        { provide: AccountService, useValue: accountService },
+        { provide: RateLimitStore, useClass: MemoryRateLimitStore },
+      ],
+    })
+      .overrideGuard(JwtAuthGuard)
+      .useValue({
+        canActivate: (context) => {
+          context.switchToHttp().getRequest().user = user;
+          return true;
+        },
+      })
+      .compile();
+
+    app = moduleRef.createNestApplication();
+    app.useGlobalPipes(new ValidationPipe({ transform: true }));
+    await app.init();
+  });
+
+  afterAll(() => app.close());
+
+  it('GET /auth/users/me returns the user without their secrets', async () => {
+    const response = await request(app.getHttpServer())
+      .get('/auth/users/me')
+      .expect(200);
+
+    expect(response.body).toMatchObject({
+      _id: user._id.toHexString(),
+      email: user.email,
+      twoFactorEnabled: true,
+    });
+    for (const secret of secrets) {
+      expect(response.body).not.toHaveProperty(secret);
+    }
+  });
+
+  it('PATCH /auth/users/me returns the updated user without their secrets', async () => {
+    const response = await request(app.getHttpServer())
+      .patch('/auth/users/me')
+      .send({ email: 'new@example.com', currentPassword: 'Str0ng!Password' })
+      .expect(200);
+
+    expect(response.body).toMatchObject({
+      email: 'new@example.com',
+      emailVerified: false,
+    });
+    for (const secret of secrets) {
+      expect(response.body).not.toHaveProperty(secret);
+    }
+  });
+});
@@ -0,0 +1,115 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Patch,
+  Post,
+  Res,
+  UseGuards,
+} from '@nestjs/common';
+import { Response } from 'express';
+import { RateLimit, RateLimitGuard, Serialize, UserView } from '@app/common';
+import { clearAuthCookies } from '../auth.service';
+import { CurrentUser } from '../current-user.decorator';
+import JwtAuthGuard from '../guards/jwt-auth.guard';
+import { User } from '../users/models/user.schema';
+import { AccountService } from './account.service';
+import { ChangePasswordReq } from './dto/change-password.req';
+import { DeleteAccountReq } from './dto/delete-account.req';
+import { UpdateProfileReq } from './dto/update-profile.req';
+
+/**
+ * Controller letting the authenticated user manage their own account, under the `/auth/users/me` route.
+ * The user is returned as a `UserView`, without their password hash.
+ * @Controller('auth/users/me') Sets the base route for this controller to `/auth/users/me`.
+ */
+@Controller('auth/users/me')
+@UseGuards(JwtAuthGuard)
+@Serialize(UserView)
+export class AccountController {
+  /**
+   * Constructor for `AccountController`.
+   * @param {AccountService} accountService - Injected `AccountService` instance.
+   */
+  constructor(private readonly accountService: AccountService) {}
+
+  /**
+   * Endpoint returning the authenticated user.
+   * @Get() Defines this method as handling GET requests to '/auth/users/me'.
+   * @param {User} user - The authenticated user.
+   * @returns {User} The user.
+   */
+  @Get()
+  getProfile(@CurrentUser() user: User): User {
+    return user;
+  }
+
+  /**
+   * Endpoint updating the profile of the authenticated user.
+   * A new email address is no longer verified, and a verification email is sent to it.
+   * @Patch() Defines this method as handling PATCH requests to '/auth/users/me'.
+   * @param {User} user - The authenticated user.
+   * @param {UpdateProfileReq} request - The fields to change, with the current password when changing the email address.
+   * @returns {Promise<User>} A Promise that resolves to the updated user.
+   * @throws {ForbiddenException} If the current password is not valid.
+   * @throws {UnprocessableEntityException} If the new email address is already registered.
+   */
+  @Patch()
+  async updateProfile(
+    @CurrentUser() user: User,
+    @Body() request: UpdateProfileReq,
+  ): Promise<User> {
+    return this.accountService.updateProfile(user, request);
+  }
+
+  /**
+   * Endpoint changing the password of the authenticated user, logging out all their devices.
+   * @Post('password') Defines this method as handling POST requests to '/auth/users/me/password'.
+   * @HttpCode(HttpStatus.NO_CONTENT) Answers with `204 No Content`.
+   * @UseGuards(RateLimitGuard) Limits the guesses of the current password with a stolen session.
+   * @RateLimit({ limit: 5, window: 900, by: 'user' }) Accepts 5 attempts per 15 minutes and user, answering `429 Too Many Requests` beyond.
+   * @param {User} user - The authenticated user.
+   * @param {ChangePasswordReq} request - The current and the new password.
+   * @returns {Promise<void>}
+   * @throws {ForbiddenException} If the current password is not valid.
+   */
+  @Post('password')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @UseGuards(RateLimitGuard)
+  @RateLimit({ limit: 5, window: 900, by: 'user' })
+  async changePassword(
+    @CurrentUser() user: User,
+    @Body() request: ChangePasswordReq,
+  ): Promise<void> {
+    await this.accountService.changePassword(user, request);
+  }
+
+  /**
+   * Endpoint deleting the account of the authenticated user, then clearing the authentication cookies.
+   * The other services are asked to erase the personal data they hold about the user with a `USER_DELETED` event.
+   * @Delete() Defines this method as handling DELETE requests to '/auth/users/me'.
+   * @HttpCode(HttpStatus.NO_CONTENT) Answers with `204 No Content`.
+   * @UseGuards(RateLimitGuard) Limits the guesses of the password with a stolen session.
+   * @RateLimit({ limit: 5, window: 900, by: 'user' }) Accepts 5 attempts per 15 minutes and user, answering `429 Too Many Requests` beyond.
+   * @param {User} user - The authenticated user.
+   * @param {DeleteAccountReq} request - The password of the user.
+   * @param {Response} response - The Express `Response` object, used to clear the authentication cookies.
+   * @returns {Promise<void>}
+   * @throws {ForbiddenException} If the password is not valid.
+   */
+  @Delete()
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @UseGuards(RateLimitGuard)
+  @RateLimit({ limit: 5, window: 900, by: 'user' })
+  async deleteAccount(
+    @CurrentUser() user: User,
+    @Body() request: DeleteAccountReq,
+    @Res({ passthrough: true }) response: Response,
+  ): Promise<void> {
+    await this.accountService.deleteAccount(user, request);
+    clearAuthCookies(response);
+  }
+}
@@ -0,0 +1,41 @@
+import { Module } from '@nestjs/common';
+import {
+  BILLING_SERVICE,
+  DatabaseModule,
+  ORDERS_SERVICE,
+  OutboxModule,
+  RateLimitModule,
+  RmqModule,
+} from '@app/common';
+import { AuditLogModule } from '../audit-log/audit-log.module';
+import { ApiKeysModule } from '../api-keys/api-keys.module';
+import { LoginAttemptsModule } from '../login-attempts/login-attempts.module';
+import { SessionsModule } from '../sessions/sessions.module';
+import { UserTokensModule } from '../user-tokens/user-tokens.module';
+import { UsersModule } from '../users/users.module';
+import { AccountController } from './account.controller';
+import { AccountService } from './account.service';
+
+/**
+ * Module letting the users manage their own account.
+ * Deleting an account publishes the `USER_DELETED` event through the transactional outbox,
+ * to the orders and billing services, whose RabbitMQ clients are registered here.
+ */
+@Module({
+  imports: [
+    DatabaseModule,
+    OutboxModule,
+    RmqModule.register({ name: ORDERS_SERVICE }),
+    RmqModule.register({ name: BILLING_SERVICE }),
+    RateLimitModule,
+    AuditLogModule,
+    UsersModule,
+    SessionsModule,
+    UserTokensModule,
+    ApiKeysModule,
+    LoginAttemptsModule,
+  ],
+  controllers: [AccountController],
+  providers: [AccountService],
+})
+export class AccountModule {}
@@ -0,0 +1,102 @@
+import { ForbiddenException } from '@nestjs/common';
+import {
+  BILLING_SERVICE,
+  ORDERS_SERVICE,
+  OutboxService,
+  UnitOfWork,
+  USER_DELETED,
+} from '@app/common';
+import { Types } from 'mongoose';
+import { ApiKeysService } from '../api-keys/api-keys.service';
+import { AuditLogService } from '../audit-log/audit-log.service';
+import { LoginAttemptsService } from '../login-attempts/login-attempts.service';
+import { SessionsService } from '../sessions/sessions.service';
+import { UserTokensService } from '../user-tokens/user-tokens.service';
+import { User } from '../users/models/user.schema';
+import { UsersRepository } from '../users/users.repository';
+import { UsersService } from '../users/users.service';
+import { AccountService } from './account.service';
+
+describe('AccountService', () => {
+  const user = {
+    _id: new Types.ObjectId(),
+    email: 'user@example.com',
+  } as User;
+  const usersService = {
+    verifyPassword: jest.fn(),
+    changeEmail: jest.fn(),
+  };
+  const usersRepository = { purge: jest.fn().mockResolvedValue(1) };
+  const sessionsService = { deleteAll: jest.fn() };
+  const userTokensService = { deleteAll: jest.fn() };
+  const apiKeysService = { deleteAll: jest.fn() };
+  const loginAttemptsService = { unlock: jest.fn() };
+  const auditLogService = { anonymizeActor: jest.fn() };
+  const outboxService = { enqueue: jest.fn() };
+  const unitOfWork = { withTransaction: jest.fn((work) => work()) };
+  const service = new AccountService(
+    usersService as unknown as UsersService,
+    usersRepository as unknown as UsersRepository,
+    sessionsService as unknown as SessionsService,
+    userTokensService as unknown as UserTokensService,
+    apiKeysService as unknown as ApiKeysService,
+    loginAttemptsService as unknown as LoginAttemptsService,
+    auditLogService as unknown as AuditLogService,
+    outboxService as unknown as OutboxService,
+    unitOfWork as unknown as UnitOfWork,
+  );
+
+  beforeEach(() => jest.clearAllMocks());
+
+  it('deletes the user and their sessions and credentials, and notifies the orders and billing services', async () => {
+    const userId = user._id.toHexString();
+
+    await service.deleteAccount(user, { password: 'secret' });
+
+    expect(usersService.verifyPassword).toHaveBeenCalledWith(user, 'secret');
+    expect(usersRepository.purge).toHaveBeenCalledWith({ _id: user._id });
+    expect(sessionsService.deleteAll).toHaveBeenCalledWith(userId);
+    expect(userTokensService.deleteAll).toHaveBeenCalledWith(userId);
+    expect(apiKeysService.deleteAll).toHaveBeenCalledWith(userId);
+    expect(auditLogService.anonymizeActor).toHaveBeenCalledWith(
+      userId,
+      user.email,
+    );
+    expect(outboxService.enqueue.mock.calls).toEqual([
+      [ORDERS_SERVICE, USER_DELETED, { userId }],
+      [BILLING_SERVICE, USER_DELETED, { userId }],
+    ]);
+    expect(unitOfWork.withTransaction).toHaveBeenCalledTimes(1);
+    expect(loginAttemptsService.unlock).toHaveBeenCalledWith(user.email);
+  });
+
+  it('keeps the account when the password is not valid', async () => {
+    usersService.verifyPassword.mockRejectedValueOnce(
+      new ForbiddenException('Password is not valid.'),
+    );
+
+    await expect(
+      service.deleteAccount(user, { password: 'wrong' }),
+    ).rejects.toBeInstanceOf(ForbiddenException);
+    expect(usersRepository.purge).not.toHaveBeenCalled();
+    expect(outboxService.enqueue).not.toHaveBeenCalled();
+  });
+
+  it('only asks for the password when the email address changes', async () => {
+    await expect(service.updateProfile(user, {})).resolves.toBe(user);
+    await expect(
+      service.updateProfile(user, { email: user.email }),
+    ).resolves.toBe(user);
+    expect(usersService.verifyPassword).not.toHaveBeenCalled();
+
+    await service.updateProfile(user, {
+      email: 'new@example.com',
+      currentPassword: 'secret',
+    });
+    expect(usersService.verifyPassword).toHaveBeenCalledWith(user, 'secret');
+    expect(usersService.changeEmail).toHaveBeenCalledWith(
+      user,
+      'new@example.com',
+    );
+  });
+});
@@ -0,0 +1,121 @@
+import { Injectable } from '@nestjs/common';
+import {
+  BILLING_SERVICE,
+  ORDERS_SERVICE,
+  OutboxService,
+  UnitOfWork,
+  USER_DELETED,
+} from '@app/common';
+import { ApiKeysService } from '../api-keys/api-keys.service';
+import { AuditLogService } from '../audit-log/audit-log.service';
+import { LoginAttemptsService } from '../login-attempts/login-attempts.service';
+import { SessionsService } from '../sessions/sessions.service';
+import { UserTokensService } from '../user-tokens/user-tokens.service';
+import { User } from '../users/models/user.schema';
+import { UsersRepository } from '../users/users.repository';
+import { UsersService } from '../users/users.service';
+import { ChangePasswordReq } from './dto/change-password.req';
+import { DeleteAccountReq } from './dto/delete-account.req';
+import { UpdateProfileReq } from './dto/update-profile.req';
+
+/**
+ * Services holding data about the users, which erase it when they receive the `USER_DELETED` event.
+ */
+const USER_DATA_SERVICES = [ORDERS_SERVICE, BILLING_SERVICE];
+
+/**
+ * Injectable service letting the authenticated users manage their own account: profile, password and deletion.
+ */
+@Injectable()
+export class AccountService {
+  /**
+   * Constructor for `AccountService`.
+   * @param {UsersService} usersService - Injected `UsersService` instance, checking the password and updating the user.
+   * @param {UsersRepository} usersRepository - Injected `UsersRepository` instance, deleting the user.
+   * @param {SessionsService} sessionsService - Injected `SessionsService` instance.
+   * @param {UserTokensService} userTokensService - Injected `UserTokensService` instance.
+   * @param {ApiKeysService} apiKeysService - Injected `ApiKeysService` instance.
+   * @param {LoginAttemptsService} loginAttemptsService - Injected `LoginAttemptsService` instance, forgetting the failed logins of the deleted user.
+   * @param {AuditLogService} auditLogService - Injected `AuditLogService` instance, anonymizing the audit log entries of the deleted user.
+   * @param {OutboxService} outboxService - Injected `OutboxService` instance, publishing the `USER_DELETED` event.
+   * @param {UnitOfWork} unitOfWork - Injected `UnitOfWork` instance, deleting the user along with their credentials and the event atomically.
+   */
+  constructor(
+    private readonly usersService: UsersService,
+    private readonly usersRepository: UsersRepository,
+    private readonly sessionsService: SessionsService,
+    private readonly userTokensService: UserTokensService,
+    private readonly apiKeysService: ApiKeysService,
+    private readonly loginAttemptsService: LoginAttemptsService,
+    private readonly auditLogService: AuditLogService,
+    private readonly outboxService: OutboxService,
+    private readonly unitOfWork: UnitOfWork,
+  ) {}
+
+  /**
+   * Updates the profile of a user. Changing the email address requires the current password.
+   * @async
+   * @param {User} user - The authenticated user.
+   * @param {UpdateProfileReq} request - The fields to change.
+   * @returns {Promise<User>} A Promise that resolves to the updated user.
+   * @throws {ForbiddenException} If the current password is not valid.
+   * @throws {UnprocessableEntityException} If the new email address is already registered.
+   */
+  async updateProfile(
+    user: User,
+    { email, currentPassword }: UpdateProfileReq,
+  ): Promise<User> {
+    if (email === undefined || email === user.email) {
+      return user;
+    }
+    await this.usersService.verifyPassword(user, currentPassword);
+    return this.usersService.changeEmail(user, email);
+  }
+
+  /**
+   * Changes the password of a user, who must give their current one.
+   * @async
+   * @param {User} user - The authenticated user.
+   * @param {ChangePasswordReq} request - The current and the new password.
+   * @returns {Promise<void>}
+   * @throws {ForbiddenException} If the current password is not valid.
+   */
+  async changePassword(
+    user: User,
+    { currentPassword, password }: ChangePasswordReq,
+  ): Promise<void> {
+    await this.usersService.verifyPassword(user, currentPassword);
+    await this.usersService.changePassword(user, password);
+  }
+
+  /**
+   * Deletes the account of a user, who must give their password.
+   * The user, their sessions and refresh tokens, emailed tokens and API keys are deleted for good, their audit log entries are anonymized,
+   * and a `USER_DELETED` event is stored in the outbox for each service holding data about them, all in a single transaction.
+   * The orders and invoices of the user are then anonymized by the orders and billing services.
+   * @async
+   * @param {User} user - The authenticated user.
+   * @param {DeleteAccountReq} request - The password of the user.
+   * @returns {Promise<void>}
+   * @throws {ForbiddenException} If the password is not valid.
+   */
+  async deleteAccount(
+    user: User,
+    { password }: DeleteAccountReq,
+  ): Promise<void> {
+    await this.usersService.verifyPassword(user, password);
+    const userId = user._id.toHexString();
+    await this.unitOfWork.withTransaction(async () => {
+      await this.usersRepository.purge({ _id: user._id });
+      await this.sessionsService.deleteAll(userId);
+      await this.userTokensService.deleteAll(userId);
+      await this.apiKeysService.deleteAll(userId);
+      await this.auditLogService.anonymizeActor(userId, user.email);
+      for (const service of USER_DATA_SERVICES) {
+        await this.outboxService.enqueue(service, USER_DELETED, { userId });
+      }
+    });
+    // The failed logins are keyed by email address, which is personal data as well
+    await this.loginAttemptsService.unlock(user.email);
+  }
+}
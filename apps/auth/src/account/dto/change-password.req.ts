@@ -0,0 +1,26 @@
+import { IsNotEmpty, IsString } from 'class-validator';
+
+/**
+ * Data Transfer Object (DTO) for changing the password of the authenticated user.
+ */
+export class ChangePasswordReq {
+  /**
+   * The current password of the user.
+   * @IsString() Decorator that validates if the provided value is a string.
+   * @IsNotEmpty() Decorator that validates if the string is not empty.
+   * @type {string}
+   */
+  @IsString()
+  @IsNotEmpty()
+  currentPassword: string;
+
+  /**
+   * The new password, validated as the password given at registration.
+   * @IsString() Decorator that validates if the provided value is a string.
+   * @IsNotEmpty() Decorator that validates if the string is not empty.
+   * @type {string}
+   */
+  @IsString()
+  @IsNotEmpty()
+  password: string;
+}
@@ -0,0 +1,16 @@
+import { IsNotEmpty, IsString } from 'class-validator';
+
+/**
+ * Data Transfer Object (DTO) confirming the deletion of the account of the authenticated user.
+ */
+export class DeleteAccountReq {
+  /**
+   * The current password of the user, so that a stolen session cannot delete the account.
+   * @IsString() Decorator that validates if the provided value is a string.
+   * @IsNotEmpty() Decorator that validates if the string is not empty.
+   * @type {string}
+   */
+  @IsString()
+  @IsNotEmpty()
+  password: string;
+}
@@ -0,0 +1,34 @@
+import {
+  IsEmail,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  ValidateIf,
+} from 'class-validator';
+
+/**
+ * Data Transfer Object (DTO) for updating the profile of the authenticated user.
+ */
+export class UpdateProfileReq {
+  /**
+   * The new email address, which must be verified again.
+   * @IsOptional() Decorator that leaves the email address unchanged when omitted.
+   * @IsEmail() Decorator that validates if the provided value is a valid email address format.
+   * @type {string}
+   */
+  @IsOptional()
+  @IsEmail()
+  email?: string;
+
+  /**
+   * The current password of the user, required to change the email address, which can be used to reset the password.
+   * @ValidateIf() Decorator that only validates the password when an email address is given.
+   * @IsString() Decorator that validates if the provided value is a string.
+   * @IsNotEmpty() Decorator that validates if the string is not empty.
+   * @type {string}
+   */
+  @ValidateIf((request: UpdateProfileReq) => request.email !== undefined)
+  @IsString()
+  @IsNotEmpty()
+  currentPassword?: string;
+}
@@ -0,0 +1,82 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Post,
+  UseGuards,
+} from '@nestjs/common';
+import { CurrentUser } from '../current-user.decorator';
+import JwtAuthGuard from '../guards/jwt-auth.guard';
+import { User } from '../users/models/user.schema';
+import { ApiKeysService, ApiKeyView, CreatedApiKey } from './api-keys.service';
+import { CreateApiKeyReq } from './dto/create-api-key.req';
+
+/**
+ * Controller managing the API keys of the authenticated user, under the `/auth/api-keys` route.
+ * Keys can only be managed with a JWT, so that a leaked key cannot be used to create new ones.
+ * @Controller('auth/api-keys') Sets the base route for this controller to `/auth/api-keys`.
+ */
+@Controller('auth/api-keys')
+@UseGuards(JwtAuthGuard)
+export class ApiKeysController {
+  /**
+   * Constructor for `ApiKeysController`.
+   * @param {ApiKeysService} apiKeysService - Injected `ApiKeysService` instance.
+   */
+  constructor(private readonly apiKeysService: ApiKeysService) {}
+
+  /**
+   * Endpoint creating an API key. The key is only returned by this response, and must be stored by the client.
+   * @Post() Defines this method as handling POST requests to '/auth/api-keys'.
+   * @param {User} user - The authenticated user, owner of the key.
+   * @param {CreateApiKeyReq} request - The name, scopes and expiration of the key.
+   * @returns {Promise<CreatedApiKey>} A Promise that resolves to the created key.
+   * @throws {ForbiddenException} If a scope is not granted to the user.
+   *
+   * @example
+   * Request Body:
+   * ```json
+   * { "name": "reporting", "scopes": ["orders:read:all"] }
+   * ```
+   * The key is then sent as `Authorization: Bearer ak_...`.
+   */
+  @Post()
+  async createApiKey(
+    @CurrentUser() user: User,
+    @Body() request: CreateApiKeyReq,
+  ): Promise<CreatedApiKey> {
+    return this.apiKeysService.createApiKey(user, request);
+  }
+
+  /**
+   * Endpoint listing the API keys of the authenticated user, without the keys themselves.
+   * @Get() Defines this method as handling GET requests to '/auth/api-keys'.
+   * @param {User} user - The authenticated user.
+   * @returns {Promise<ApiKeyView[]>} A Promise that resolves to the keys of the user.
+   */
+  @Get()
+  async getApiKeys(@CurrentUser() user: User): Promise<ApiKeyView[]> {
+    return this.apiKeysService.getApiKeys(user._id.toHexString());
+  }
+
+  /**
+   * Endpoint revoking an API key of the authenticated user.
+   * @Delete(':id') Defines this method as handling DELETE requests to '/auth/api-keys/:id'.
+   * @param {string} id - Identifier of the key.
+   * @param {User} user - The authenticated user, who must own the key.
+   * @returns {Promise<void>}
+   * @throws {NotFoundException} If the key does not exist or belongs to another user.
+   */
+  @Delete(':id')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async revokeApiKey(
+    @Param('id') id: string,
+    @CurrentUser() user: User,
+  ): Promise<void> {
+    await this.apiKeysService.revokeApiKey(id, user._id.toHexString());
+  }
+}
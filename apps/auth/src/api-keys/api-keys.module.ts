@@ -0,0 +1,24 @@
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import { AuditLogModule } from '../audit-log/audit-log.module';
+import { UsersModule } from '../users/users.module';
+import { ApiKey, ApiKeySchema } from './models/api-key.schema';
+import { ApiKeysController } from './api-keys.controller';
+import { ApiKeysRepository } from './api-keys.repository';
+import { ApiKeysService } from './api-keys.service';
+
+/**
+ * Module managing the API keys authenticating the CLI tools and the services on behalf of a user.
+ * @exports {ApiKeysService} Exports the `ApiKeysService` class, used to validate the keys.
+ */
+@Module({
+  imports: [
+    AuditLogModule,
+    MongooseModule.forFeature([{ name: ApiKey.name, schema: ApiKeySchema }]),
+    UsersModule,
+  ],
+  controllers: [ApiKeysController],
+  providers: [ApiKeysService, ApiKeysRepository],
+  exports: [ApiKeysService],
+})
+export class ApiKeysModule {}
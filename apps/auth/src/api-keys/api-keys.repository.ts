@@ -0,0 +1,68 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectConnection, InjectModel } from '@nestjs/mongoose';
+import { Connection, Model } from 'mongoose';
+import { AbstractRepository } from '@app/common';
+import { ApiKey } from './models/api-key.schema';
+
+/**
+ * Injectable repository for managing `ApiKey` entities in MongoDB.
+ * Extends the `AbstractRepository` to inherit common database operations, specialized for the `ApiKey` model.
+ */
+@Injectable()
+export class ApiKeysRepository extends AbstractRepository<ApiKey> {
+  /**
+   * Logger instance for ApiKeysRepository.
+   * @protected
+   * @readonly
+   */
+  protected readonly logger = new Logger(ApiKeysRepository.name);
+
+  /**
+   * Constructor for `ApiKeysRepository`.
+   * @param {Model<ApiKey>} apiKeyModel - Injected Mongoose model for the `ApiKey` entity.
+   * @param {Connection} connection - Injected Mongoose connection.
+   */
+  constructor(
+    @InjectModel(ApiKey.name) apiKeyModel: Model<ApiKey>,
+    @InjectConnection() connection: Connection,
+  ) {
+    super(apiKeyModel, connection);
+  }
+
+  /**
+   * Finds the keys of a user, without their hash.
+   * @async
+   * @param {string} userId Identifier of the user.
+   * @returns {Promise<ApiKey[]>} A Promise that resolves to the keys, from the most recent.
+   */
+  async findByUser(userId: string): Promise<ApiKey[]> {
+    return this.model.find(
+      this.withoutDeleted({ userId }),
+      { keyHash: 0 },
+      { lean: true, sort: { _id: -1 }, session: this.session },
+    );
+  }
+
+  /**
+   * Records that a key was used, unless it was already recorded less than `interval` milliseconds ago.
+   * The date is bookkeeping, so neither `updatedAt` nor `version` change.
+   * @async
+   * @param {ApiKey} apiKey The used key.
+   * @param {number} interval Minimum delay (in milliseconds) between two recordings.
+   * @returns {Promise<void>}
+   */
+  async touch(apiKey: ApiKey, interval: number): Promise<void> {
+    const now = new Date();
+    await this.model.updateOne(
+      {
+        _id: apiKey._id,
+        $or: [
+          { lastUsedAt: null },
+          { lastUsedAt: { $lt: new Date(now.getTime() - interval) } },
+        ],
+      },
+      { $set: { lastUsedAt: now } },
+      { session: this.session },
+    );
+  }
+}
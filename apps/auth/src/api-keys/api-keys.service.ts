@@ -0,0 +1,169 @@
+import {
+  ForbiddenException,
+  Injectable,
+  NotFoundException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { createHash, randomBytes } from 'crypto';
+import { Types } from 'mongoose';
+import { API_KEY_PREFIX, getPermissions } from '@app/common';
+import { User } from '../users/models/user.schema';
+import { UsersService } from '../users/users.service';
+import { CreateApiKeyReq } from './dto/create-api-key.req';
+import { ApiKey } from './models/api-key.schema';
+import { ApiKeysRepository } from './api-keys.repository';
+
+/**
+ * Minimum delay (in milliseconds) between two recordings of the last use of a key.
+ */
+const LAST_USED_INTERVAL = 60000;
+
+/**
+ * Number of characters of a key kept in clear, prefix included, to tell the keys apart.
+ */
+const DISPLAYED_KEY_LENGTH = 11;
+
+/**
+ * An API key, as listed to its owner.
+ */
+export type ApiKeyView = Omit<ApiKey, 'keyHash'>;
+
+/**
+ * A newly created API key, along with the key itself, which is only ever returned once.
+ */
+export type CreatedApiKey = ApiKeyView & { key: string };
+
+/**
+ * The user an API key acts on behalf of, restricted to the scopes of the key.
+ */
+export type ApiKeyUser = User & { apiKeyId: string };
+
+/**
+ * Injectable service managing the long-lived API keys of the users, and validating them.
+ */
+@Injectable()
+export class ApiKeysService {
+  /**
+   * Constructor for `ApiKeysService`.
+   * @param {ApiKeysRepository} apiKeysRepository - Injected `ApiKeysRepository` instance.
+   * @param {UsersService} usersService - Injected `UsersService` instance, loading the owner of a key.
+   */
+  constructor(
+    private readonly apiKeysRepository: ApiKeysRepository,
+    private readonly usersService: UsersService,
+  ) {}
+
+  /**
+   * Creates an API key for a user.
+   * @async
+   * @param {User} owner - The user the key acts on behalf of.
+   * @param {CreateApiKeyReq} request - The name, scopes and expiration of the key.
+   * @returns {Promise<CreatedApiKey>} A Promise that resolves to the created key, including the key itself.
+   * @throws {ForbiddenException} If a scope is not granted to the user.
+   */
+  async createApiKey(
+    owner: User,
+    { name, scopes = [], expiresAt }: CreateApiKeyReq,
+  ): Promise<CreatedApiKey> {
+    const granted = getPermissions(owner);
+    const ungranted = scopes.filter((scope) => !granted.has(scope));
+    if (ungranted.length) {
+      throw new ForbiddenException(
+        `Scopes not granted to the user: ${ungranted.join(', ')}.`,
+      );
+    }
+    const key = API_KEY_PREFIX + randomBytes(32).toString('base64url');
+    const apiKey: Partial<ApiKey> = await this.apiKeysRepository.create({
+      keyHash: this.hash(key),
+      prefix: key.slice(0, DISPLAYED_KEY_LENGTH),
+      name,
+      userId: owner._id.toHexString(),
+      scopes,
+      expiresAt,
+    });
+    delete apiKey.keyHash;
+    return { ...(apiKey as ApiKeyView), key };
+  }
+
+  /**
+   * Lists the API keys of a user.
+   * @async
+   * @param {string} userId - Identifier of the user.
+   * @returns {Promise<ApiKeyView[]>} A Promise that resolves to the keys, from the most recent.
+   */
+  async getApiKeys(userId: string): Promise<ApiKeyView[]> {
+    return this.apiKeysRepository.findByUser(userId);
+  }
+
+  /**
+   * Revokes an API key of a user.
+   * @async
+   * @param {string} id - Identifier of the key.
+   * @param {string} userId - Identifier of the user, who must own the key.
+   * @returns {Promise<void>}
+   * @throws {NotFoundException} If the key does not exist, is already revoked, or belongs to another user.
+   */
+  async revokeApiKey(id: string, userId: string): Promise<void> {
+    if (!Types.ObjectId.isValid(id)) {
+      throw new NotFoundException('Document not found.');
+    }
+    await this.apiKeysRepository.softDelete({
+      _id: new Types.ObjectId(id),
+      userId,
+    });
+  }
+
+  /**
+   * Deletes every API key of a user, revoked ones included, when their account is deleted.
+   * @async
+   * @param {string} userId - Identifier of the user.
+   * @returns {Promise<void>}
+   */
+  async deleteAll(userId: string): Promise<void> {
+    await this.apiKeysRepository.purge({ userId });
+  }
+
+  /**
+   * Validates an API key and returns the user it acts on behalf of.
+   * The user has no role, and only the permissions of the key scopes that its owner still holds.
+   * @async
+   * @param {string} key - The API key presented by the client.
+   * @returns {Promise<ApiKeyUser>} A Promise that resolves to the user of the key.
+   * @throws {UnauthorizedException} If the key is unknown, revoked or expired, or its owner no longer exists.
+   */
+  async validateApiKey(key: string): Promise<ApiKeyUser> {
+    let apiKey: ApiKey;
+    let owner: User;
+    try {
+      apiKey = await this.apiKeysRepository.findOne({
+        keyHash: this.hash(key),
+      });
+      owner = await this.usersService.getUser({
+        _id: new Types.ObjectId(apiKey.userId),
+      });
+    } catch (err) {
+      throw new UnauthorizedException('API key is not valid.');
+    }
+    if (apiKey.expiresAt && apiKey.expiresAt <= new Date()) {
+      throw new UnauthorizedException('API key has expired.');
+    }
+    await this.apiKeysRepository.touch(apiKey, LAST_USED_INTERVAL);
+    const granted = getPermissions(owner);
+    return {
+      ...owner,
+      roles: [],
+      permissions: apiKey.scopes.filter((scope) => granted.has(scope)),
+      apiKeyId: apiKey._id.toHexString(),
+    };
+  }
+
+  /**
+   * Hashes an API key for storage and lookup. A single SHA-256 round is enough, as keys are 256 random bits that cannot be brute-forced.
+   * @private
+   * @param {string} key The API key.
+   * @returns {string} The SHA-256 hash of the key, in hex.
+   */
+  private hash(key: string): string {
+    return createHash('sha256').update(key).digest('hex');
+  }
+}
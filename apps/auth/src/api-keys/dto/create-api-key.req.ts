@@ -0,0 +1,44 @@
+import { Type } from 'class-transformer';
+import {
+  IsDate,
+  IsEnum,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  MaxLength,
+} from 'class-validator';
+import { Permission } from '@app/common';
+
+/**
+ * Data Transfer Object (DTO) for creating an API key.
+ */
+export class CreateApiKeyReq {
+  /**
+   * Name of the key, to recognize it in the listing.
+   * @IsString() @IsNotEmpty() @MaxLength(64) Decorators that validate the name is a non-empty string of at most 64 characters.
+   * @type {string}
+   */
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(64)
+  name: string;
+
+  /**
+   * Permissions the key is restricted to, among those of its owner.
+   * @IsEnum(Permission, { each: true }) Decorator that validates every scope is a known permission.
+   * @type {Permission[]}
+   */
+  @IsOptional()
+  @IsEnum(Permission, { each: true })
+  scopes?: Permission[];
+
+  /**
+   * Date after which the key can no longer be used. The key is valid until revoked when omitted.
+   * @IsDate() Decorator that validates the value is a date, parsed from an ISO 8601 string.
+   * @type {Date}
+   */
+  @IsOptional()
+  @Type(() => Date)
+  @IsDate()
+  expiresAt?: Date;
+}
@@ -0,0 +1,65 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { AbstractDocument, Permission } from '@app/common';
+
+/**
+ * Mongoose schema definition for the `ApiKey` document.
+ * API keys authenticate the CLI tools and the services on behalf of a user, with a subset of its permissions.
+ * Keys are opaque random strings, only their SHA-256 hash is stored. Revoked keys are soft deleted.
+ * @Schema({ versionKey: false, collection: 'api_keys' }) Decorator that stores the keys in the `api_keys` collection and disables the version key (__v).
+ */
+@Schema({ versionKey: false, collection: 'api_keys' })
+export class ApiKey extends AbstractDocument {
+  /**
+   * SHA-256 hash (hex) of the key.
+   * @type {string}
+   */
+  @Prop({ required: true, unique: true })
+  keyHash: string;
+
+  /**
+   * First characters of the key, to tell the keys apart without revealing them.
+   * @type {string}
+   */
+  @Prop({ required: true })
+  prefix: string;
+
+  /**
+   * Name given to the key by its owner (e.g. `deploy-bot`).
+   * @type {string}
+   */
+  @Prop({ required: true })
+  name: string;
+
+  /**
+   * Identifier of the user the key acts on behalf of.
+   * @type {string}
+   */
+  @Prop({ required: true, index: true })
+  userId: string;
+
+  /**
+   * Permissions the key is restricted to. A key never has more permissions than its owner.
+   * @type {Permission[]}
+   */
+  @Prop({ type: [String], enum: Permission, default: [] })
+  scopes: Permission[];
+
+  /**
+   * Date after which the key can no longer be used. Keys without expiration are valid until revoked.
+   * @type {Date}
+   */
+  @Prop()
+  expiresAt?: Date;
+
+  /**
+   * Date at which the key was last used, refreshed at most once a minute.
+   * @type {Date}
+   */
+  @Prop()
+  lastUsedAt?: Date;
+}
+
+/**
+ * Mongoose `SchemaFactory` for the `ApiKey` class.
+ */
+export const ApiKeySchema = SchemaFactory.createForClass(ApiKey);
@@ -0,0 +1,52 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectConnection, InjectModel } from '@nestjs/mongoose';
+import { Connection, Model } from 'mongoose';
+import { AbstractRepository, ERASED_USER_ID } from '@app/common';
+import { AuditEvent } from './models/audit-event.schema';
+
+/**
+ * Injectable repository for managing `AuditEvent` entities in MongoDB.
+ * Extends the `AbstractRepository` to inherit common database operations, specialized for the `AuditEvent` model.
+ * The `AuditLogService` only creates and searches the entries: the audit log is append-only,
+ * except for the anonymization of the entries of a deleted user.
+ */
+@Injectable()
+export class AuditEventsRepository extends AbstractRepository<AuditEvent> {
+  /**
+   * Logger instance for AuditEventsRepository.
+   * @protected
+   * @readonly
+   */
+  protected readonly logger = new Logger(AuditEventsRepository.name);
+
+  /**
+   * Constructor for `AuditEventsRepository`.
+   * @param {Model<AuditEvent>} auditEventModel - Injected Mongoose model for the `AuditEvent` entity.
+   * @param {Connection} connection - Injected Mongoose connection.
+   */
+  constructor(
+    @InjectModel(AuditEvent.name) auditEventModel: Model<AuditEvent>,
+    @InjectConnection() connection: Connection,
+  ) {
+    super(auditEventModel, connection);
+  }
+
+  /**
+   * Anonymizes the entries of an erased user, within the current transaction if any.
+   * The entries are kept until the end of their retention, but are detached from the user and lose their IP and user agent.
+   * @async
+   * @param {string[]} actors The identifier and the email address of the erased user, either of which may be the actor of an entry.
+   * @returns {Promise<number>} A Promise that resolves to the number of anonymized entries.
+   */
+  async anonymizeActor(actors: string[]): Promise<number> {
+    const { modifiedCount } = await this.model.updateMany(
+      { actor: { $in: actors } },
+      {
+        $set: { actor: ERASED_USER_ID },
+        $unset: { ip: '', userAgent: '' },
+      },
+      { session: this.session },
+    );
+    return modifiedCount;
+  }
+}
@@ -0,0 +1,74 @@
+import { Controller, Get, Logger, Query, UseGuards } from '@nestjs/common';
+import { EventPattern, Payload } from '@nestjs/microservices';
+import {
+  AccessGuard,
+  AUDIT_RECORDED,
+  AuditRecordedEvent,
+  EventValidationPipe,
+  Page,
+  Permission,
+  Permissions,
+} from '@app/common';
+import JwtAuthGuard from '../guards/jwt-auth.guard';
+import { AuditLogService } from './audit-log.service';
+import { GetAuditEventsQuery } from './dto/get-audit-events.query';
+import { AuditEvent } from './models/audit-event.schema';
+
+/**
+ * Controller exposing the security audit log to the administrators, under the `/auth/audit-events` route,
+ * and appending the `AUDIT_RECORDED` events of the other services to it.
+ * @Controller('auth/audit-events') Sets the base route for this controller to `/auth/audit-events`.
+ */
+@Controller('auth/audit-events')
+export class AuditLogController {
+  /**
+   * Logger instance for AuditLogController.
+   * @private
+   * @readonly
+   */
+  private readonly logger = new Logger(AuditLogController.name, {
+    timestamp: true,
+  });
+
+  /**
+   * Constructor for `AuditLogController`.
+   * @param {AuditLogService} auditLogService - Injected `AuditLogService` instance.
+   */
+  constructor(private readonly auditLogService: AuditLogService) {}
+
+  /**
+   * Admin endpoint searching the audit log, from the most recent entry.
+   * @Get() Defines this method as handling GET requests to '/auth/audit-events'.
+   * @UseGuards(JwtAuthGuard, AccessGuard) Authenticates the user with its JWT, then checks it has the `audit:read` permission.
+   * @Query() `query` - The filters and the page of entries to retrieve.
+   * @returns {Promise<Page<AuditEvent>>} A Promise that resolves to a page of entries.
+   */
+  @Get()
+  @UseGuards(JwtAuthGuard, AccessGuard)
+  @Permissions(Permission.AUDIT_READ)
+  async getAuditEvents(
+    @Query() query: GetAuditEventsQuery,
+  ): Promise<Page<AuditEvent>> {
+    return this.auditLogService.search(query);
+  }
+
+  /**
+   * Handles the `AUDIT_RECORDED` events of the other services, appending them to the audit log.
+   * The auth queue is consumed without acknowledgements, so a record that cannot be stored is only logged.
+   * @EventPattern(AUDIT_RECORDED) Decorator that specifies this method as an event handler for the 'AUDIT_RECORDED' pattern.
+   * @param {AuditRecordedEvent} data - The payload of the event, validated against the `AUDIT_RECORDED` contract.
+   * @returns A Promise that resolves once the entry is stored.
+   */
+  @EventPattern(AUDIT_RECORDED)
+  async handleAuditRecorded(
+    @Payload(new EventValidationPipe(AUDIT_RECORDED)) data: AuditRecordedEvent,
+  ) {
+    try {
+      await this.auditLogService.append(data);
+    } catch (err) {
+      this.logger.error(
+        `Could not store the audit record of ${data.action} from ${data.service}: ${err.message}`,
+      );
+    }
+  }
+}
@@ -0,0 +1,30 @@
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import { AuditClient, DatabaseModule } from '@app/common';
+import { AuditEventsRepository } from './audit-events.repository';
+import { AuditLogController } from './audit-log.controller';
+import { AuditLogService } from './audit-log.service';
+import { AuditEvent, AuditEventSchema } from './models/audit-event.schema';
+
+/**
+ * Module storing the security audit log of the application, with a retention of `AUDIT_RETENTION` seconds.
+ * It is imported by every module of the auth service recording actions or using the `JwtAuthGuard`, which records the rejected tokens.
+ * @exports {AuditClient} Exports the `AuditLogService` as the `AuditClient` of the auth service.
+ * @exports {AuditLogService} Exports the `AuditLogService` itself, anonymizing the entries of the deleted users.
+ */
+@Module({
+  imports: [
+    DatabaseModule,
+    MongooseModule.forFeature([
+      { name: AuditEvent.name, schema: AuditEventSchema },
+    ]),
+  ],
+  controllers: [AuditLogController],
+  providers: [
+    AuditLogService,
+    AuditEventsRepository,
+    { provide: AuditClient, useExisting: AuditLogService },
+  ],
+  exports: [AuditClient, AuditLogService],
+})
+export class AuditLogModule {}
@@ -0,0 +1,59 @@
+import { ConfigService } from '@nestjs/config';
+import { AuditEventsRepository } from './audit-events.repository';
+import { AuditLogService } from './audit-log.service';
+
+describe('AuditLogService', () => {
+  const auditEventsRepository = {
+    create: jest.fn((event) => Promise.resolve(event)),
+    paginate: jest.fn(),
+  };
+  const configService = { get: jest.fn().mockReturnValue(3600) };
+  const service = new AuditLogService(
+    auditEventsRepository as unknown as AuditEventsRepository,
+    configService as unknown as ConfigService,
+  );
+
+  beforeEach(() => jest.clearAllMocks());
+
+  it('keeps an entry for the retention period after the action', async () => {
+    const entry = await service.append({
+      service: 'orders',
+      action: 'token_validation',
+      outcome: 'failure',
+      reason: 'jwt expired',
+      occurredAt: '2024-01-01T00:00:00.000Z',
+    });
+
+    expect(entry.occurredAt).toEqual(new Date('2024-01-01T00:00:00.000Z'));
+    expect(entry.expiresAt).toEqual(new Date('2024-01-01T01:00:00.000Z'));
+  });
+
+  it('records the actions of the auth service without failing them', async () => {
+    auditEventsRepository.create.mockRejectedValueOnce(new Error('down'));
+
+    await expect(
+      service.record({ action: 'login', outcome: 'success', actor: 'id' }),
+    ).resolves.toBeUndefined();
+    expect(auditEventsRepository.create).toHaveBeenCalledWith(
+      expect.objectContaining({ service: 'auth', action: 'login' }),
+    );
+  });
+
+  it('searches the entries matching the given filters, from the most recent', async () => {
+    await service.search({
+      actor: 'user@example.com',
+      outcome: 'failure',
+      from: '2024-01-01T00:00:00.000Z',
+      limit: 10,
+    });
+
+    expect(auditEventsRepository.paginate).toHaveBeenCalledWith(
+      {
+        actor: 'user@example.com',
+        outcome: 'failure',
+        occurredAt: { $gte: new Date('2024-01-01T00:00:00.000Z') },
+      },
+      { limit: 10, cursor: undefined, sort: { occurredAt: -1 } },
+    );
+  });
+});
@@ -0,0 +1,129 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { FilterQuery } from 'mongoose';
+import {
+  AuditClient,
+  AuditRecord,
+  AuditRecordedEvent,
+  Page,
+} from '@app/common';
+import { GetAuditEventsQuery } from './dto/get-audit-events.query';
+import { AuditEvent } from './models/audit-event.schema';
+import { AuditEventsRepository } from './audit-events.repository';
+
+/**
+ * Name of the auth service on its own audit records.
+ */
+const AUTH_SERVICE_NAME = 'auth';
+
+/**
+ * Injectable service storing the security audit log: the records of the auth service, and those emitted by the other services.
+ * It is the `AuditClient` of the auth service, writing the records without a round trip through RabbitMQ.
+ */
+@Injectable()
+export class AuditLogService extends AuditClient {
+  /**
+   * Logger instance for AuditLogService, used to report the records that could not be stored.
+   * @private
+   * @readonly
+   */
+  private readonly logger = new Logger(AuditLogService.name, {
+    timestamp: true,
+  });
+
+  /**
+   * Constructor for `AuditLogService`.
+   * @param {AuditEventsRepository} auditEventsRepository - Injected `AuditEventsRepository` instance.
+   * @param {ConfigService} configService - Injected `ConfigService` instance, used to read `AUDIT_RETENTION`.
+   */
+  constructor(
+    private readonly auditEventsRepository: AuditEventsRepository,
+    private readonly configService: ConfigService,
+  ) {
+    super();
+  }
+
+  /**
+   * Records an action of the auth service in the audit log.
+   * @async
+   * @param {AuditRecord} record The audited action.
+   * @returns {Promise<void>} A Promise that resolves once the record is stored, or could not be.
+   */
+  async record(record: AuditRecord): Promise<void> {
+    try {
+      await this.append({
+        ...record,
+        service: AUTH_SERVICE_NAME,
+        occurredAt: new Date().toISOString(),
+      });
+    } catch (err) {
+      this.logger.error(
+        `Could not store the audit record of ${record.action}: ${err.message}`,
+      );
+    }
+  }
+
+  /**
+   * Appends an entry to the audit log, kept for `AUDIT_RETENTION` seconds after the action.
+   * @async
+   * @param {AuditRecordedEvent} event The audited action, stamped with its service and date.
+   * @returns {Promise<AuditEvent>} A Promise that resolves to the stored entry.
+   */
+  async append(event: AuditRecordedEvent): Promise<AuditEvent> {
+    const occurredAt = new Date(event.occurredAt);
+    return this.auditEventsRepository.create({
+      service: event.service,
+      action: event.action,
+      outcome: event.outcome,
+      actor: event.actor,
+      ip: event.ip,
+      userAgent: event.userAgent,
+      reason: event.reason,
+      occurredAt,
+      expiresAt: new Date(
+        occurredAt.getTime() +
+          this.configService.get<number>('AUDIT_RETENTION') * 1000,
+      ),
+    });
+  }
+
+  /**
+   * Anonymizes the entries of a deleted user, who may be the actor by identifier or, for the failed logins, by email address.
+   * @async
+   * @param {string} userId Identifier of the deleted user.
+   * @param {string} email Email address of the deleted user.
+   * @returns {Promise<number>} A Promise that resolves to the number of anonymized entries.
+   */
+  async anonymizeActor(userId: string, email: string): Promise<number> {
+    return this.auditEventsRepository.anonymizeActor([userId, email]);
+  }
+
+  /**
+   * Searches the audit log.
+   * @async
+   * @param {GetAuditEventsQuery} query The filters and the page to retrieve.
+   * @returns {Promise<Page<AuditEvent>>} A Promise that resolves to a page of entries, from the most recent.
+   */
+  async search({
+    limit,
+    cursor,
+    from,
+    to,
+    ...fields
+  }: GetAuditEventsQuery = {}): Promise<Page<AuditEvent>> {
+    const filterQuery: FilterQuery<AuditEvent> = Object.fromEntries(
+      Object.entries(fields).filter(([, value]) => value !== undefined),
+    );
+    if (from || to) {
+      filterQuery.occurredAt = {
+        ...(from ? { $gte: new Date(from) } : {}),
+        ...(to ? { $lt: new Date(to) } : {}),
+      };
+    }
+    return this.auditEventsRepository.paginate(filterQuery, {
+      limit,
+      cursor,
+      sort: { occurredAt: -1 },
+    });
+  }
+}
@@ -0,0 +1,94 @@
+import { AUDIT_OUTCOMES, AuditOutcome } from '@app/common';
+import { Type } from 'class-transformer';
+import {
+  IsDateString,
+  IsIn,
+  IsInt,
+  IsOptional,
+  IsString,
+  Max,
+  Min,
+} from 'class-validator';
+
+/**
+ * Data Transfer Object (DTO) for the query string of the audit log search.
+ * It selects a page of entries, from the most recent, matching all the given filters.
+ */
+export class GetAuditEventsQuery {
+  /**
+   * Maximum number of entries in the page.
+   * @IsInt() @Min(1) @Max(100) Decorators that validate the limit is an integer between 1 and 100.
+   * @type {number}
+   */
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  limit?: number;
+
+  /**
+   * Cursor returned as `nextCursor` by the previous page.
+   * @type {string}
+   */
+  @IsOptional()
+  @IsString()
+  cursor?: string;
+
+  /**
+   * Identifier of the user, or email address, performing the actions.
+   * @type {string}
+   */
+  @IsOptional()
+  @IsString()
+  actor?: string;
+
+  /**
+   * Name of the audited action.
+   * @type {string}
+   */
+  @IsOptional()
+  @IsString()
+  action?: string;
+
+  /**
+   * Name of the service the actions happened in.
+   * @type {string}
+   */
+  @IsOptional()
+  @IsString()
+  service?: string;
+
+  /**
+   * Outcome of the actions.
+   * @IsIn(AUDIT_OUTCOMES) Decorator that validates the outcome is `success` or `failure`.
+   * @type {AuditOutcome}
+   */
+  @IsOptional()
+  @IsIn(AUDIT_OUTCOMES)
+  outcome?: AuditOutcome;
+
+  /**
+   * IP of the client.
+   * @type {string}
+   */
+  @IsOptional()
+  @IsString()
+  ip?: string;
+
+  /**
+   * Earliest date of the actions (inclusive), as an ISO 8601 string.
+   * @type {string}
+   */
+  @IsOptional()
+  @IsDateString()
+  from?: string;
+
+  /**
+   * Latest date of the actions (exclusive), as an ISO 8601 string.
+   * @type {string}
+   */
+  @IsOptional()
+  @IsDateString()
+  to?: string;
+}
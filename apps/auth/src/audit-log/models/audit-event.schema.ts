@@ -0,0 +1,84 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { AbstractDocument, AUDIT_OUTCOMES, AuditOutcome } from '@app/common';
+
+/**
+ * Mongoose schema definition for the `AuditEvent` document, an entry of the security audit log.
+ * Entries are only ever appended, then removed by MongoDB once `expiresAt` is reached, through a TTL index.
+ * The entries of a deleted user are anonymized meanwhile.
+ * @Schema({ versionKey: false, collection: 'audit_events' }) Decorator that stores the entries in the `audit_events` collection and disables the version key (__v).
+ */
+@Schema({ versionKey: false, collection: 'audit_events' })
+export class AuditEvent extends AbstractDocument {
+  /**
+   * Name of the service the action happened in.
+   * @type {string}
+   */
+  @Prop({ required: true })
+  service: string;
+
+  /**
+   * Name of the audited action, e.g. `login`.
+   * @type {string}
+   */
+  @Prop({ required: true })
+  action: string;
+
+  /**
+   * Whether the action succeeded.
+   * @type {AuditOutcome}
+   */
+  @Prop({ required: true, enum: AUDIT_OUTCOMES })
+  outcome: AuditOutcome;
+
+  /**
+   * Identifier of the user performing the action, or the email address given when the user is not known.
+   * @type {string}
+   */
+  @Prop()
+  actor?: string;
+
+  /**
+   * IP of the client.
+   * @type {string}
+   */
+  @Prop()
+  ip?: string;
+
+  /**
+   * `User-Agent` header of the client.
+   * @type {string}
+   */
+  @Prop()
+  userAgent?: string;
+
+  /**
+   * Reason of a failure.
+   * @type {string}
+   */
+  @Prop()
+  reason?: string;
+
+  /**
+   * Date at which the action happened.
+   * @type {Date}
+   */
+  @Prop({ required: true })
+  occurredAt: Date;
+
+  /**
+   * Date after which the entry is removed, set from the `AUDIT_RETENTION` setting.
+   * @type {Date}
+   */
+  @Prop({ required: true })
+  expiresAt: Date;
+}
+
+/**
+ * Mongoose `SchemaFactory` for the `AuditEvent` class.
+ * The entries are searched from the most recent, optionally by actor or IP. The TTL index enforces the retention.
+ */
+export const AuditEventSchema = SchemaFactory.createForClass(AuditEvent);
+AuditEventSchema.index({ occurredAt: -1 });
+AuditEventSchema.index({ actor: 1, occurredAt: -1 });
+AuditEventSchema.index({ ip: 1, occurredAt: -1 });
+AuditEventSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
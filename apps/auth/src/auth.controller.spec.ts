@@ -0,0 +1,137 @@
+import {
+  CallHandler,
+  ExecutionContext,
+  INestApplication,
+  NestInterceptor,
+} from '@nestjs/common';
+import { INTERCEPTORS_METADATA } from '@nestjs/common/constants';
+import { Test } from '@nestjs/testing';
+import { AuditClient, MemoryRateLimitStore, RateLimitStore } from '@app/common';
+import { Types } from 'mongoose';
+import { from, lastValueFrom } from 'rxjs';
+import * as request from 'supertest';
+import { AuthController } from './auth.controller';
+import { AuthService } from './auth.service';
+import { JwtOrApiKeyAuthGuard } from './guards/jwt-or-api-key-auth.guard';
+import { LocalAuthGuard } from './guards/local-auth.guard';
+import { SigningKeysService } from './signing-keys/signing-keys.service';
+
+describe('AuthController', () => {
+  const user = {
+    _id: new Types.ObjectId(),
+    email: 'user@example.com',
+    password: '$2b$10$hash',
+    roles: ['user'],
+    permissions: [],
+  };
+  const authenticated = { ...user, accessToken: 'access-jwt' };
+  const authService = {
+    login: jest.fn().mockResolvedValue(authenticated),
+    refresh: jest.fn().mockResolvedValue(authenticated),
+    loginWithTwoFactor: jest.fn().mockResolvedValue(authenticated),
+  };
+  let app: INestApplication;
+
+  beforeAll(async () => {
+    const moduleRef = await Test.createTestingModule({
+      controllers: [AuthController],
+      providers: [
+        { provide: AuthService, useValue: authService },
+        { provide: SigningKeysService, useValue: {} },
+        { provide: RateLimitStore, useClass: MemoryRateLimitStore },
+        { provide: AuditClient, useValue: { record: jest.fn() } },
+      ],
+    })
+      .overrideGuard(LocalAuthGuard)
+      .useValue({
+        canActivate: (context: ExecutionContext) => {
+          context.switchToHttp().getRequest().user = user;
+          return true;
+        },
+      })
+      .overrideGuard(JwtOrApiKeyAuthGuard)
+      .useValue({ canActivate: () => true })
+      .compile();
+
+    app = moduleRef.createNestApplication();
+    await app.init();
+  });
+
+  afterAll(() => app.close());
+
+  it('POST /auth/login returns the user and its access token without its password', async () => {
+    const response = await request(app.getHttpServer())
+      .post('/auth/login')
+      .set('User-Agent', 'test-agent')
+      .expect(201);
+
+    expect(authService.login).toHaveBeenCalledWith(
+      user,
+      expect.objectContaining({ device: 'test-agent' }),
+      expect.anything(),
+    );
+    expect(response.body).toMatchObject({
+      _id: user._id.toHexString(),
+      email: user.email,
+      accessToken: 'access-jwt',
+    });
+    expect(response.body).not.toHaveProperty('password');
+  });
+
+  it('POST /auth/login returns the challenge of a user with two-factor authentication', async () => {
+    authService.login.mockResolvedValueOnce({
+      twoFactorRequired: true,
+      challengeToken: 'challenge',
+      expiresAt: new Date(),
+    });
+
+    const response = await request(app.getHttpServer())
+      .post('/auth/login')
+      .expect(201);
+
+    expect(response.body).toMatchObject({
+      twoFactorRequired: true,
+      challengeToken: 'challenge',
+    });
+    expect(response.body).not.toHaveProperty('password');
+  });
+
+  it('POST /auth/2fa/login returns the user without its password', async () => {
+    const response = await request(app.getHttpServer())
+      .post('/auth/2fa/login')
+      .send({ challengeToken: 'challenge', code: '123456' })
+      .expect(200);
+
+    expect(response.body.email).toBe(user.email);
+    expect(response.body.accessToken).toBe('access-jwt');
+    expect(response.body).not.toHaveProperty('password');
+  });
+
+  it('POST /auth/refresh returns the user without its password', async () => {
+    const response = await request(app.getHttpServer())
+      .post('/auth/refresh')
+      .expect(200);
+
+    expect(response.body.email).toBe(user.email);
+    expect(response.body.accessToken).toBe('access-jwt');
+    expect(response.body).not.toHaveProperty('password');
+  });
+
+  it('USER_VALIDATE replies with the user without its password', async () => {
+    const controller = app.get(AuthController);
+    const interceptors: NestInterceptor[] = Reflect.getMetadata(
+      INTERCEPTORS_METADATA,
+      controller.validateUser,
+    );
+    const next: CallHandler = {
+      handle: () => from(controller.validateUser(user as any)),
+    };
+
+    expect(interceptors).toHaveLength(1);
+    const reply = await lastValueFrom(
+      await interceptors[0].intercept({} as ExecutionContext, next),
+    );
+    expect(reply.email).toBe(user.email);
+    expect(reply).not.toHaveProperty('password');
+  });
+});
@@ -1,12 +1,39 @@
-import { Controller, Post, Res, UseGuards } from '@nestjs/common';
+import {
+  Body,
+  Controller,
+  Get,
+  Header,
+  HttpCode,
+  HttpStatus,
+  Post,
+  Req,
+  Res,
+  UseGuards,
+} from '@nestjs/common';
 import { MessagePattern } from '@nestjs/microservices';
-import { Response } from 'express';
-import { AuthService } from './auth.service';
+import { Request, Response } from 'express';
+import { AuthenticatedUser, AuthService, REFRESH_COOKIE } from './auth.service';
+import { AuthenticatedUserView } from './authenticated-user.view';
 import { CurrentUser } from './current-user.decorator';
 import JwtAuthGuard from './guards/jwt-auth.guard';
+import { JwtOrApiKeyAuthGuard } from './guards/jwt-or-api-key-auth.guard';
 import { LocalAuthGuard } from './guards/local-auth.guard';
 import { User } from './users/models/user.schema';
-import { USER_VALIDATE } from '@app/common';
+import { getSessionClient, SessionUser } from './sessions/sessions.service';
+import {
+  PublicJwk,
+  SigningKeysService,
+} from './signing-keys/signing-keys.service';
+import { TwoFactorLoginReq } from './two-factor/dto/two-factor-login.req';
+import { TwoFactorChallenge } from './two-factor/two-factor.service';
+import {
+  RateLimit,
+  RateLimitGuard,
+  serialize,
+  Serialize,
+  USER_VALIDATE,
+  UserView,
+} from '@app/common';
 
 /**
  * Controller for handling authentication-related endpoints.
@@ -20,45 +47,180 @@ export class AuthController {
    * Constructor for `AuthController`.
    * @param {AuthService} authService - Injected `AuthService` instance.
    *        Provides the core authentication logic, including login and JWT handling.
+   * @param {SigningKeysService} signingKeysService - Injected `SigningKeysService` instance.
+   *        Provides the public keys verifying the JWTs.
    */
-  constructor(private readonly authService: AuthService) {}
+  constructor(
+    private readonly authService: AuthService,
+    private readonly signingKeysService: SigningKeysService,
+  ) {}
 
   /**
    * Endpoint for user login.
    * This endpoint is protected by the `LocalAuthGuard`, which authenticates users based on local strategy (username/password).
    * Upon successful local authentication, it calls the `authService.login` method to generate and set an authentication cookie.
-   * @UseGuards(LocalAuthGuard) Decorator that applies the `LocalAuthGuard` to this endpoint, enforcing local authentication.
+   * Users with two-factor authentication get a challenge instead, to answer with a code at `POST /auth/2fa/login`.
+   * @UseGuards(RateLimitGuard, LocalAuthGuard) Decorator that limits the login requests per client IP, then enforces local authentication.
+   * @RateLimit({ limit: 20, window: 60 }) Accepts 20 login requests per minute and client IP, on top of the lockout of the accounts.
    * @Post('login') Decorator that maps this method to handle POST requests to `/auth/login`.
    * @param {User} user - The authenticated `User` object, injected by the `CurrentUser` decorator after successful authentication by `LocalAuthGuard`.
    * @CurrentUser() Decorator that injects the currently authenticated user object into the parameter.
+   * @param {Request} request - The Express `Request` object, giving the IP and the device recorded on the session.
    * @param {Response} response - The Express `Response` object, used to set the authentication cookie.
    * @Res({ passthrough: true }) Decorator that injects the `Response` object and allows the controller method to handle `response` processing and bypass default NestJS `response` handling.
    * @async
-   * @returns A Promise that resolves to the authenticated `User` object, which is also sent as the `response` body.
+   * @returns {Promise<AuthenticatedUserView | TwoFactorChallenge>} A Promise that resolves to the `AuthenticatedUserView` of the authenticated user
+   *          (without the password hash, with the access JWT), or to the two-factor challenge, sent as the `response` body.
    */
-  @UseGuards(LocalAuthGuard)
+  @UseGuards(RateLimitGuard, LocalAuthGuard)
+  @RateLimit({ limit: 20, window: 60 })
   @Post('login')
   async login(
     @CurrentUser() user: User,
+    @Req() request: Request,
     @Res({ passthrough: true }) response: Response,
-  ) {
-    await this.authService.login(user, response);
-    response.send(user);
+  ): Promise<AuthenticatedUserView | TwoFactorChallenge> {
+    const result = await this.authService.login(
+      user,
+      getSessionClient(request),
+      response,
+    );
+    // Serialized here rather than with @Serialize(AuthenticatedUserView), which would strip the challenge
+    return 'accessToken' in result
+      ? serialize(AuthenticatedUserView, result)
+      : result;
   }
 
   /**
-   * Message pattern endpoint for validating a user via JWT.
-   * This endpoint is protected by the `JwtAuthGuard`, which verifies the JWT token from the request.
+   * Endpoint completing the login of a user with two-factor authentication.
+   * The challenge token returned by `POST /auth/login` is exchanged, along with a TOTP code or a recovery code, for the authentication cookies.
+   * Wrong codes count as failed logins, locking the account out like wrong passwords.
+   * @UseGuards(RateLimitGuard) Decorator that limits the requests per client IP.
+   * @RateLimit({ limit: 20, window: 60 }) Accepts 20 requests per minute and client IP, as the login does.
+   * @Post('2fa/login') Decorator that maps this method to handle POST requests to `/auth/2fa/login`.
+   * @HttpCode(HttpStatus.OK) Answers with `200 OK`, as no resource is created.
+   * @Serialize(AuthenticatedUserView) Decorator that strips the password hash and the second factor secrets from the `response` body, keeping the access JWT.
+   * @param {TwoFactorLoginReq} body - The challenge token and the code.
+   * @param {Request} request - The Express `Request` object, giving the client IP and device.
+   * @param {Response} response - The Express `Response` object, used to set the authentication cookies.
+   * @returns {Promise<AuthenticatedUser>} A Promise that resolves to the logged in user and its access JWT.
+   * @throws {UnauthorizedException} If the challenge token or the code is not valid.
+   */
+  @UseGuards(RateLimitGuard)
+  @RateLimit({ limit: 20, window: 60 })
+  @Post('2fa/login')
+  @HttpCode(HttpStatus.OK)
+  @Serialize(AuthenticatedUserView)
+  async loginWithTwoFactor(
+    @Body() body: TwoFactorLoginReq,
+    @Req() request: Request,
+    @Res({ passthrough: true }) response: Response,
+  ): Promise<AuthenticatedUser> {
+    return this.authService.loginWithTwoFactor(
+      body.challengeToken,
+      body.code,
+      getSessionClient(request),
+      response,
+    );
+  }
+
+  /**
+   * Endpoint exchanging the refresh token cookie for a new access token and a new refresh token.
+   * A refresh token can only be used once: presenting it again revokes its session, and every token issued since the login.
+   * @Post('refresh') Decorator that maps this method to handle POST requests to `/auth/refresh`.
+   * @param {Request} request - The Express `Request` object, carrying the refresh token cookie and giving the client IP.
+   * @param {Response} response - The Express `Response` object, used to set the new authentication cookies.
+   * @Serialize(AuthenticatedUserView) Decorator that strips the password hash from the `response` body, keeping the new access JWT.
+   * @async
+   * @returns {Promise<AuthenticatedUser>} A Promise that resolves to the authenticated `User` object and its new access JWT.
+   * @throws {UnauthorizedException} If the refresh token is missing, unknown, expired, revoked or already used, or its session was revoked.
+   */
+  @Post('refresh')
+  @HttpCode(HttpStatus.OK)
+  @Serialize(AuthenticatedUserView)
+  async refresh(
+    @Req() request: Request,
+    @Res({ passthrough: true }) response: Response,
+  ): Promise<AuthenticatedUser> {
+    return this.authService.refresh(
+      request.cookies?.[REFRESH_COOKIE],
+      getSessionClient(request),
+      response,
+    );
+  }
+
+  /**
+   * Endpoint for user logout, ending the session of the refresh token cookie and clearing the authentication cookies.
+   * @Post('logout') Decorator that maps this method to handle POST requests to `/auth/logout`.
+   * @param {Request} request - The Express `Request` object, carrying the refresh token cookie and giving the client IP.
+   * @param {Response} response - The Express `Response` object, used to clear the authentication cookies.
+   * @async
+   * @returns {Promise<void>}
+   */
+  @Post('logout')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async logout(
+    @Req() request: Request,
+    @Res({ passthrough: true }) response: Response,
+  ): Promise<void> {
+    await this.authService.logout(
+      request.cookies?.[REFRESH_COOKIE],
+      getSessionClient(request),
+      response,
+    );
+  }
+
+  /**
+   * Endpoint logging the authenticated user out of every device.
+   * Every session of the user is revoked, and the access tokens issued so far are rejected as their token version is stale.
+   * @Post('logout-all') Decorator that maps this method to handle POST requests to `/auth/logout-all`.
+   * @UseGuards(JwtAuthGuard) Decorator that requires an access token.
+   * @param {SessionUser} user - The authenticated user.
+   * @param {Request} request - The Express `Request` object, giving the client IP.
+   * @param {Response} response - The Express `Response` object, used to clear the authentication cookies.
+   * @async
+   * @returns {Promise<void>}
+   */
+  @Post('logout-all')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @UseGuards(JwtAuthGuard)
+  async logoutAll(
+    @CurrentUser() user: SessionUser,
+    @Req() request: Request,
+    @Res({ passthrough: true }) response: Response,
+  ): Promise<void> {
+    await this.authService.logoutAll(user, getSessionClient(request), response);
+  }
+
+  /**
+   * Endpoint publishing the public keys verifying the JWTs, as a JSON Web Key Set (RFC 7517).
+   * It lists the active key and the retired keys which may have signed a token that is still valid.
+   * The other services fetch it to verify the tokens locally, and may cache it for a few minutes.
+   * @Get('.well-known/jwks.json') Decorator that maps this method to handle GET requests to `/auth/.well-known/jwks.json`.
+   * @async
+   * @returns {Promise<{ keys: PublicJwk[] }>} A Promise that resolves to the key set.
+   */
+  @Get('.well-known/jwks.json')
+  @Header('Cache-Control', 'public, max-age=300')
+  async getJwks(): Promise<{ keys: PublicJwk[] }> {
+    return { keys: await this.signingKeysService.getJwks() };
+  }
+
+  /**
+   * Message pattern endpoint for validating a user via JWT or API key.
+   * This endpoint is protected by the `JwtOrApiKeyAuthGuard`, which verifies the JWT token or the API key from the request.
    * It is designed to be used as a microservice endpoint, listening for `validate_user` messages.
-   * Upon successful JWT validation, it returns the authenticated user.
-   * @UseGuards(JwtAuthGuard) Decorator that applies the `JwtAuthGuard` to this endpoint, enforcing JWT-based authentication.
+   * Upon successful validation, it returns the authenticated user. For an API key, the user only has the permissions of the key scopes.
+   * @UseGuards(JwtOrApiKeyAuthGuard) Decorator that applies the `JwtOrApiKeyAuthGuard` to this endpoint, enforcing JWT or API key authentication.
    * @MessagePattern('validate_user') Decorator that makes this method a microservice endpoint, listening for messages with the pattern 'validate_user'.
-   * @param {User} user - The authenticated `User` object, injected by the `CurrentUser` decorator after successful JWT validation by `JwtAuthGuard`.
+   * @param {User} user - The authenticated `User` object, injected by the `CurrentUser` decorator after successful validation by `JwtOrApiKeyAuthGuard`.
    * @CurrentUser() Decorator that injects the currently authenticated `user` object into the parameter.
+   * @Serialize(UserView) Decorator that strips the password hash from the reply, so that it never travels over RabbitMQ.
    * @returns {Promise<User>} A Promise that resolves to the validated `User` object.
    */
-  @UseGuards(JwtAuthGuard)
+  @UseGuards(JwtOrApiKeyAuthGuard)
   @MessagePattern(USER_VALIDATE)
+  @Serialize(UserView)
   async validateUser(@CurrentUser() user: User): Promise<User> {
     return user;
   }
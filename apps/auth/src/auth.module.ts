@@ -1,13 +1,27 @@
 import { Module } from '@nestjs/common';
 import { ConfigModule, ConfigService } from '@nestjs/config';
 import { JwtModule } from '@nestjs/jwt';
-import { RmqModule, DatabaseModule } from '@app/common';
+import {
+  RmqModule,
+  DatabaseModule,
+  JWT_ALGORITHM,
+  MigrationsModule,
+  RateLimitModule,
+} from '@app/common';
 import * as Joi from 'joi';
 import { AuthController } from './auth.controller';
 import { AuthService } from './auth.service';
 import { JwtStrategy } from './strategies/jwt.strategy';
 import { LocalStrategy } from './strategies/local.strategy';
 import { UsersModule } from './users/users.module';
+import { SessionsModule } from './sessions/sessions.module';
+import { SigningKeysModule } from './signing-keys/signing-keys.module';
+import { ApiKeysModule } from './api-keys/api-keys.module';
+import { LoginAttemptsModule } from './login-attempts/login-attempts.module';
+import { TwoFactorModule } from './two-factor/two-factor.module';
+import { AccountModule } from './account/account.module';
+import { AuditLogModule } from './audit-log/audit-log.module';
+import { migrations } from './migrations';
 
 /**
  * Module for authentication functionalities within the application.
@@ -18,16 +32,51 @@ import { UsersModule } from './users/users.module';
 @Module({
   imports: [
     DatabaseModule,
+    // Applies the pending auth migrations at boot when MIGRATE_ON_BOOT is set
+    MigrationsModule.register({ app: 'auth', migrations }),
     UsersModule,
+    SessionsModule,
+    SigningKeysModule,
+    ApiKeysModule,
+    LoginAttemptsModule,
+    TwoFactorModule,
+    AccountModule,
+    AuditLogModule,
+    RateLimitModule,
     RmqModule,
     ConfigModule.forRoot({
       // Configures the ConfigModule as a global module to manage environment variables.
       isGlobal: true,
       validationSchema: Joi.object({
         // Defines a Joi validation schema to ensure required environment variables are set and of the correct type.
-        JWT_SECRET: Joi.string().required(),
         JWT_EXPIRATION: Joi.string().required(),
+        JWT_REFRESH_EXPIRATION: Joi.number().default(604800),
+        JWT_KEY_ROTATION: Joi.number().default(2592000),
         MONGODB_URI: Joi.string().required(),
+        MIGRATE_ON_BOOT: Joi.boolean().default(false),
+        PASSWORD_RESET_EXPIRATION: Joi.number().default(3600),
+        EMAIL_VERIFICATION_EXPIRATION: Joi.number().default(86400),
+        REQUIRE_EMAIL_VERIFICATION: Joi.boolean().default(false),
+        MAILER_TRANSPORT: Joi.string()
+          .valid('console', 'file')
+          .default('console'),
+        MAILER_FROM: Joi.string().default('no-reply@ordering-app.local'),
+        MAILER_FILE_DIR: Joi.string().default('./mails'),
+        LOGIN_DELAY_BASE: Joi.number().default(1),
+        LOGIN_LOCKOUT_THRESHOLD: Joi.number().default(5),
+        LOGIN_IP_LOCKOUT_THRESHOLD: Joi.number().default(50),
+        LOGIN_LOCKOUT_DURATION: Joi.number().default(900),
+        LOGIN_ATTEMPTS_WINDOW: Joi.number().default(3600),
+        TWO_FACTOR_ISSUER: Joi.string().default('Ordering App'),
+        TWO_FACTOR_CHALLENGE_EXPIRATION: Joi.number().default(300),
+        RATE_LIMIT_STORE: Joi.string()
+          .valid('memory', 'mongo')
+          .default('memory'),
+        RABBIT_MQ_URI: Joi.string().required(),
+        RABBIT_MQ_ORDERS_QUEUE: Joi.string().required(),
+        RABBIT_MQ_BILLING_QUEUE: Joi.string().required(),
+        OUTBOX_POLL_INTERVAL: Joi.number(),
+        AUDIT_RETENTION: Joi.number().default(7776000),
       }),
       envFilePath: './apps/auth/.env',
     }),
@@ -35,8 +84,9 @@ import { UsersModule } from './users/users.module';
       // Configures the JwtModule asynchronously to handle JWT signing and verification, using configuration from ConfigService.
       useFactory: (configService: ConfigService) => ({
         // Factory function to create the JwtModule options asynchronously.
-        secret: configService.get<string>('JWT_SECRET'),
+        // The keys are not configured here: tokens are signed and verified with the rotating keys of the SigningKeysService.
         signOptions: {
+          algorithm: JWT_ALGORITHM,
           // Sets the JWT expiration time based on the JWT_EXPIRATION environment variable (appended with 's' for seconds).
           expiresIn: `${configService.get('JWT_EXPIRATION')}s`,
         },
@@ -2,23 +2,77 @@ import { Injectable } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 import { JwtService } from '@nestjs/jwt';
 import { Response } from 'express';
+import { Types } from 'mongoose';
+import {
+  AuditClient,
+  AuditOrigin,
+  JWT_ALGORITHM,
+  TokenPayload,
+} from '@app/common';
 import { User } from './users/models/user.schema';
+import { UsersService } from './users/users.service';
+import { IssuedRefreshToken } from './refresh-tokens/refresh-tokens.service';
+import {
+  SessionClient,
+  SessionsService,
+  SessionUser,
+} from './sessions/sessions.service';
+import { SigningKeysService } from './signing-keys/signing-keys.service';
+import {
+  TwoFactorChallenge,
+  TwoFactorService,
+} from './two-factor/two-factor.service';
 
 /**
- * Interface defining the payload structure for JWT tokens.
- * This payload is embedded within JWTs generated by the `AuthService` and contains essential user identification information.
+ * Name of the cookie carrying the refresh token.
  */
-export interface TokenPayload {
-  /**
-   * The unique identifier of the user.
-   * This ID is typically a string representation of a MongoDB ObjectId.
-   */
-  userId: string;
-}
+export const REFRESH_COOKIE = 'Refresh';
+
+/**
+ * Path the refresh token cookie is restricted to, so that it is only sent to the auth endpoints.
+ */
+const REFRESH_COOKIE_PATH = '/auth';
+
+/**
+ * A logged in user, along with the access JWT also set as the `Authentication` cookie,
+ * returned in the response body for the clients without cookies, which send it as a Bearer token.
+ */
+export type AuthenticatedUser = User & { accessToken: string };
+
+/**
+ * Describes the client of a session for the audit log.
+ * @param {SessionClient} client - The client of the session.
+ * @returns {AuditOrigin} The IP and the `User-Agent` of the client.
+ */
+const toAuditOrigin = ({ ip, device }: SessionClient): AuditOrigin => ({
+  ip,
+  userAgent: device,
+});
+
+/**
+ * Clears the authentication cookies by setting their value to an empty string and immediately expiring them.
+ * @param {Response} response - The Express `Response` object.
+ */
+export const clearAuthCookies = (response: Response): void => {
+  response.cookie('Authentication', '', {
+    httpOnly: true,
+    expires: new Date(),
+  });
+  response.cookie(REFRESH_COOKIE, '', {
+    httpOnly: true,
+    path: REFRESH_COOKIE_PATH,
+    expires: new Date(),
+  });
+};
 
 /**
  * Injectable service for handling authentication-related operations.
  * This service is responsible for user login, JWT token generation, setting authentication cookies, and logout functionalities.
+ * Access tokens are short-lived JWTs, renewed with opaque refresh tokens that are rotated on every use and revoked on logout.
+ * Every login starts a session, whose identifier is carried by the access tokens and is the family of the refresh tokens.
+ * They are signed with the rotating RSA keys of the `SigningKeysService`, so the other services can verify them with the published public keys.
+ * Users with two-factor authentication log in in two steps: the password is answered with a challenge, exchanged for the cookies along with a code.
+ * Logins and logouts are recorded in the audit log.
  * It leverages the `JwtService` for JWT operations and `ConfigService` for retrieving configuration values like JWT expiration time.
  */
 @Injectable()
@@ -29,58 +83,247 @@ export class AuthService {
    *        Used to access application configuration, such as JWT expiration time.
    * @param {JwtService} jwtService - Injected `JwtService` instance.
    *        Provides functionalities for signing and verifying JWT tokens.
+   * @param {SessionsService} sessionsService - Injected `SessionsService` instance.
+   *        Starts, refreshes and ends the sessions, along with their refresh tokens.
+   * @param {UsersService} usersService - Injected `UsersService` instance.
+   *        Used to load the user a refresh token was issued to.
+   * @param {SigningKeysService} signingKeysService - Injected `SigningKeysService` instance.
+   *        Provides the private key signing the access tokens.
+   * @param {TwoFactorService} twoFactorService - Injected `TwoFactorService` instance.
+   *        Issues and checks the challenges of the users with two-factor authentication.
+   * @param {AuditClient} auditClient - Injected `AuditClient` instance.
+   *        Records the logins and logouts in the audit log.
    */
   constructor(
     private readonly configService: ConfigService,
     private readonly jwtService: JwtService,
+    private readonly sessionsService: SessionsService,
+    private readonly usersService: UsersService,
+    private readonly signingKeysService: SigningKeysService,
+    private readonly twoFactorService: TwoFactorService,
+    private readonly auditClient: AuditClient,
   ) {}
 
   /**
-   * Handles user login, generates a JWT, and sets it as an HTTP-only cookie in the `response`.
+   * Handles user login: sets a new access JWT and a refresh token, starting a new token family, as HTTP-only cookies in the `response`.
+   * Users with two-factor authentication get a challenge instead, and no cookie until they answer it with {@link loginWithTwoFactor}.
    * @async
-   * @param {User} user - The User object representing the logged-in user. User details are extracted from this object to form the token payload.
-   * @param {Response} response - The Express `Response` object, used to set the authentication cookie in the HTTP response.
-   * @returns {Promise<void>} A Promise that resolves after successfully logging in the user and setting the authentication cookie.
+   * @param {User} user - The User object representing the user whose password was checked. User details are extracted from this object to form the token payload.
+   * @param {SessionClient} client - The IP and device of the client, recorded on the session.
+   * @param {Response} response - The Express `Response` object, used to set the authentication cookies in the HTTP response.
+   * @returns {Promise<TwoFactorChallenge | AuthenticatedUser>} A Promise that resolves to the challenge to answer, or to the user and its access JWT once the authentication cookies are set.
    */
-  async login(user: User, response: Response): Promise<void> {
+  async login(
+    user: User,
+    client: SessionClient,
+    response: Response,
+  ): Promise<TwoFactorChallenge | AuthenticatedUser> {
+    if (user.twoFactorEnabled) {
+      return this.twoFactorService.createChallenge(user);
+    }
+    return this.startSession(user, client, response);
+  }
+
+  /**
+   * Completes the login of a user with two-factor authentication: sets the authentication cookies once the challenge is answered.
+   * @async
+   * @param {string} challengeToken - The challenge token returned by {@link login}.
+   * @param {string} code - A TOTP code or a recovery code.
+   * @param {SessionClient} client - The client, whose wrong codes count as failed logins of its IP.
+   * @param {Response} response - The Express `Response` object, used to set the authentication cookies.
+   * @returns {Promise<AuthenticatedUser>} A Promise that resolves to the logged in user and its access JWT.
+   * @throws {UnauthorizedException} If the challenge token or the code is not valid.
+   */
+  async loginWithTwoFactor(
+    challengeToken: string,
+    code: string,
+    client: SessionClient,
+    response: Response,
+  ): Promise<AuthenticatedUser> {
+    let user: User;
+    try {
+      user = await this.twoFactorService.answerChallenge(
+        challengeToken,
+        code,
+        client.ip,
+      );
+    } catch (err) {
+      await this.auditClient.record({
+        action: 'login',
+        outcome: 'failure',
+        reason: err.message,
+        ...toAuditOrigin(client),
+      });
+      throw err;
+    }
+    return this.startSession(user, client, response);
+  }
+
+  /**
+   * Exchanges a refresh token for a new access JWT and a new refresh token, set as HTTP-only cookies in the `response`.
+   * @async
+   * @param {string} refreshToken - The refresh token presented by the client.
+   * @param {SessionClient} client - The client, whose IP and last use are recorded on the session.
+   * @param {Response} response - The Express `Response` object, used to set the authentication cookies.
+   * @returns {Promise<AuthenticatedUser>} A Promise that resolves to the user the token was issued to, and its new access JWT.
+   * @throws {UnauthorizedException} If the refresh token is unknown, expired, revoked or already used, or its session was revoked.
+   */
+  async refresh(
+    refreshToken: string,
+    client: SessionClient,
+    response: Response,
+  ): Promise<AuthenticatedUser> {
+    const { sessionId, refreshToken: rotated } =
+      await this.sessionsService.refresh(refreshToken, client);
+    const user = await this.usersService.getUser({
+      _id: new Types.ObjectId(rotated.userId),
+    });
+    const accessToken = await this.setAccessToken(user, sessionId, response);
+    this.setRefreshToken(rotated, response);
+    return { ...user, accessToken };
+  }
+
+  /**
+   * Handles user logout by ending the session of the refresh token and clearing the authentication cookies.
+   * The access JWTs of the session are rejected by the auth service from then on, but services verifying them locally accept them until they expire.
+   * @async
+   * @param {string} refreshToken - The refresh token presented by the client, if any.
+   * @param {SessionClient} client - The client logging out.
+   * @param {Response} response - The Express `Response` object, used to clear the authentication cookies.
+   * @returns {Promise<void>}
+   */
+  async logout(
+    refreshToken: string,
+    client: SessionClient,
+    response: Response,
+  ): Promise<void> {
+    const userId = refreshToken
+      ? await this.sessionsService.end(refreshToken)
+      : undefined;
+    clearAuthCookies(response);
+    await this.auditClient.record({
+      action: 'logout',
+      outcome: 'success',
+      actor: userId,
+      ...toAuditOrigin(client),
+    });
+  }
+
+  /**
+   * Logs a user out of every device, then clears the authentication cookies.
+   * @async
+   * @param {SessionUser} user - The authenticated user.
+   * @param {SessionClient} client - The client logging out.
+   * @param {Response} response - The Express `Response` object, used to clear the authentication cookies.
+   * @returns {Promise<void>}
+   */
+  async logoutAll(
+    user: SessionUser,
+    client: SessionClient,
+    response: Response,
+  ): Promise<void> {
+    const userId = user._id.toHexString();
+    await this.usersService.revokeSessions(userId);
+    clearAuthCookies(response);
+    await this.auditClient.record({
+      action: 'logout_all',
+      outcome: 'success',
+      actor: userId,
+      ...toAuditOrigin(client),
+    });
+  }
+
+  /**
+   * Starts a session, then sets its first access JWT and refresh token as HTTP-only cookies in the `response`.
+   * This completes a login, which is recorded in the audit log.
+   * @private
+   * @async
+   * @param {User} user - The user logging in.
+   * @param {SessionClient} client - The client logging in.
+   * @param {Response} response - The Express `Response` object.
+   * @returns {Promise<AuthenticatedUser>} A Promise that resolves to the user and its access JWT.
+   */
+  private async startSession(
+    user: User,
+    client: SessionClient,
+    response: Response,
+  ): Promise<AuthenticatedUser> {
+    const { sessionId, refreshToken } = await this.sessionsService.start(
+      user._id.toHexString(),
+      client,
+    );
+    const accessToken = await this.setAccessToken(user, sessionId, response);
+    this.setRefreshToken(refreshToken, response);
+    await this.auditClient.record({
+      action: 'login',
+      outcome: 'success',
+      actor: user._id.toHexString(),
+      ...toAuditOrigin(client),
+    });
+    return { ...user, accessToken };
+  }
+
+  /**
+   * Signs an access JWT for a user with the active signing key, and sets it as the `Authentication` cookie.
+   * The token carries the roles and permissions of the user, so that it can be authorized without calling the auth service.
+   * @private
+   * @async
+   * @param {User} user - The user the token is issued to.
+   * @param {string} sessionId - Identifier of the session the token belongs to.
+   * @param {Response} response - The Express `Response` object.
+   * @returns {Promise<string>} A Promise that resolves to the signed JWT.
+   */
+  private async setAccessToken(
+    user: User,
+    sessionId: string,
+    response: Response,
+  ): Promise<string> {
     // Define the payload to be included in the JWT token.
     const tokenPayload: TokenPayload = {
-      // Extracts the user's ObjectId and converts it to a hexadecimal string for use in the token.
       userId: user._id.toHexString(),
+      email: user.email,
+      roles: user.roles,
+      permissions: user.permissions,
+      sessionId,
+      tokenVersion: user.tokenVersion ?? 0,
     };
 
-    // Calculate the expiration date for the JWT token.
-    const expirationDate = new Date();
-    expirationDate.setSeconds(
-      // Adds the JWT expiration time (in seconds) from the configuration to the current time.
-      expirationDate.getSeconds() + this.configService.get('JWT_EXPIRATION'),
-    );
+    // Sign the token with the active key, whose identifier is set as the `kid` header.
+    const { kid, privateKey } = await this.signingKeysService.getSigningKey();
+    const token = this.jwtService.sign(tokenPayload, {
+      privateKey,
+      keyid: kid,
+      algorithm: JWT_ALGORITHM,
+    });
 
-    // Sign the token payload to create a JWT.
-    const token = this.jwtService.sign(tokenPayload);
+    // Calculate the expiration date for the JWT token, from the JWT expiration time (in seconds) of the configuration.
+    const expirationDate = new Date(
+      Date.now() + this.configService.get('JWT_EXPIRATION') * 1000,
+    );
 
-    // Set the JWT as an HTTP-only cookie in the response.
+    // Set the signed JWT as an HTTP-only cookie in the response, expiring with the JWT.
     response.cookie('Authentication', token, {
-      // Marks the cookie as HTTP-only, preventing client-side JavaScript access for security.
       httpOnly: true,
-      // Sets the expiration date of the cookie to match the JWT expiration.
       expires: expirationDate,
     });
+    return token;
   }
 
   /**
-   * Handles user logout by clearing the authentication cookie.
-   * This method invalidates the current authentication session by setting the 'Authentication' cookie to an empty string and expiring it immediately.
-   * @param {Response} response - The Express `Response` object, used to clear the authentication cookie.
+   * Sets a refresh token as the refresh cookie, only sent to the auth endpoints.
+   * @private
+   * @param {IssuedRefreshToken} refreshToken - The issued refresh token.
+   * @param {Response} response - The Express `Response` object.
    * @returns {void}
    */
-  logout(response: Response): void {
-    // Clear the 'Authentication' cookie by setting its value to an empty string and immediately expiring it.
-    response.cookie('Authentication', '', {
-      // Keep httpOnly flag for consistency, though it's not strictly necessary for deletion.
+  private setRefreshToken(
+    { token, expiresAt }: IssuedRefreshToken,
+    response: Response,
+  ): void {
+    response.cookie(REFRESH_COOKIE, token, {
       httpOnly: true,
-      // Set expiration date to now, effectively deleting the cookie.
-      expires: new Date(),
+      path: REFRESH_COOKIE_PATH,
+      expires: expiresAt,
     });
   }
 }
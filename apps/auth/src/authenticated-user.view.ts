@@ -0,0 +1,14 @@
+import { Expose } from 'class-transformer';
+import { UserView } from '@app/common';
+
+/**
+ * Public view of a user who just logged in or refreshed their tokens, with the access JWT set as the `Authentication` cookie.
+ * Clients without cookies send the token in the `Authorization: Bearer` header instead.
+ */
+export class AuthenticatedUserView extends UserView {
+  /**
+   * The access JWT of the user.
+   */
+  @Expose()
+  accessToken: string;
+}
@@ -1,3 +1,57 @@
+import { ExecutionContext, Injectable } from '@nestjs/common';
 import { AuthGuard } from '@nestjs/passport';
+import { AuditClient, getAuditOrigin } from '@app/common';
 
-export default class JwtAuthGuard extends AuthGuard('jwt') {}
+/**
+ * Guard authenticating a request with the Passport JWT strategy.
+ * The rejected tokens are recorded in the audit log, with the reason given by Passport.
+ */
+@Injectable()
+export default class JwtAuthGuard extends AuthGuard('jwt') {
+  /**
+   * Constructor for `JwtAuthGuard`.
+   * @param {AuditClient} auditClient - Injected `AuditClient` instance, recording the rejected tokens.
+   */
+  constructor(protected readonly auditClient: AuditClient) {
+    super();
+  }
+
+  /**
+   * Returns the user authenticated by Passport, after recording a rejected token.
+   * @param err The error raised by the strategy, if any.
+   * @param user The authenticated user, or `false`.
+   * @param info The reason given by `passport-jwt` for a rejected token, e.g. an expired one.
+   * @param {ExecutionContext} context The execution context of the route.
+   * @returns The authenticated user.
+   * @throws {UnauthorizedException} If the token is missing or not valid.
+   */
+  handleRequest(err: any, user: any, info: any, context: ExecutionContext) {
+    if (err || !user) {
+      // Answers without waiting for the audit log, whose client never rejects
+      void this.auditFailure(context, err?.message ?? info?.message);
+    }
+    return super.handleRequest(err, user, info, context);
+  }
+
+  /**
+   * Records a rejected token or API key in the audit log.
+   * @protected
+   * @async
+   * @param {ExecutionContext} context The execution context of the route.
+   * @param {string} [reason] The reason of the rejection.
+   * @returns {Promise<void>}
+   */
+  protected async auditFailure(
+    context: ExecutionContext,
+    reason?: string,
+  ): Promise<void> {
+    await this.auditClient.record({
+      action: 'token_validation',
+      outcome: 'failure',
+      reason,
+      ...(context.getType() === 'http'
+        ? getAuditOrigin(context.switchToHttp().getRequest())
+        : {}),
+    });
+  }
+}
@@ -0,0 +1,51 @@
+import { ExecutionContext, Injectable } from '@nestjs/common';
+import { API_KEY_PREFIX, AuditClient } from '@app/common';
+import { ApiKeysService } from '../api-keys/api-keys.service';
+import JwtAuthGuard from './jwt-auth.guard';
+
+/**
+ * Guard authenticating a request with either a JWT or an API key, told apart by the `ak_` prefix of the keys.
+ * JWTs are handled by the Passport JWT strategy, API keys by the `ApiKeysService`.
+ */
+@Injectable()
+export class JwtOrApiKeyAuthGuard extends JwtAuthGuard {
+  /**
+   * Constructor for `JwtOrApiKeyAuthGuard`.
+   * @param {ApiKeysService} apiKeysService - Injected `ApiKeysService` instance, validating the API keys.
+   * @param {AuditClient} auditClient - Injected `AuditClient` instance, recording the rejected credentials.
+   */
+  constructor(
+    private readonly apiKeysService: ApiKeysService,
+    auditClient: AuditClient,
+  ) {
+    super(auditClient);
+  }
+
+  /**
+   * Authenticates the request, setting the user of the JWT or of the API key on it.
+   * @async
+   * @param {ExecutionContext} context The execution context of the route.
+   * @returns {Promise<boolean>} A Promise that resolves to `true` once the request is authenticated.
+   * @throws {UnauthorizedException} If the JWT or the API key is not valid.
+   */
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    // Like Passport, read the HTTP request, or the RPC data (whose `Authentication` field carries the credentials)
+    const request =
+      context.getType() === 'rpc'
+        ? context.switchToRpc().getData()
+        : context.switchToHttp().getRequest();
+    const credentials: string =
+      request?.Authentication ??
+      request?.headers?.authorization?.match(/^Bearer\s+(\S+)$/i)?.[1];
+    if (!credentials?.startsWith(API_KEY_PREFIX)) {
+      return super.canActivate(context) as Promise<boolean>;
+    }
+    try {
+      request.user = await this.apiKeysService.validateApiKey(credentials);
+    } catch (err) {
+      await this.auditFailure(context, err.message);
+      throw err;
+    }
+    return true;
+  }
+}
@@ -0,0 +1,23 @@
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import {
+  LoginAttempt,
+  LoginAttemptSchema,
+} from './models/login-attempt.schema';
+import { LoginAttemptsRepository } from './login-attempts.repository';
+import { LoginAttemptsService } from './login-attempts.service';
+
+/**
+ * Module tracking the failed logins to delay and lock out brute-force attacks.
+ * @exports {LoginAttemptsService} Exports the `LoginAttemptsService` class, used by the `LocalStrategy` and to unlock accounts.
+ */
+@Module({
+  imports: [
+    MongooseModule.forFeature([
+      { name: LoginAttempt.name, schema: LoginAttemptSchema },
+    ]),
+  ],
+  providers: [LoginAttemptsService, LoginAttemptsRepository],
+  exports: [LoginAttemptsService],
+})
+export class LoginAttemptsModule {}
@@ -0,0 +1,101 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectConnection, InjectModel } from '@nestjs/mongoose';
+import { Connection, Model } from 'mongoose';
+import { AbstractRepository } from '@app/common';
+import { LoginAttempt } from './models/login-attempt.schema';
+
+/**
+ * Injectable repository for managing `LoginAttempt` entities in MongoDB.
+ * Extends the `AbstractRepository` with the atomic operations used by the `LoginAttemptsService`.
+ */
+@Injectable()
+export class LoginAttemptsRepository extends AbstractRepository<LoginAttempt> {
+  /**
+   * Logger instance for LoginAttemptsRepository.
+   * @protected
+   * @readonly
+   */
+  protected readonly logger = new Logger(LoginAttemptsRepository.name);
+
+  /**
+   * Constructor for `LoginAttemptsRepository`.
+   * @param {Model<LoginAttempt>} loginAttemptModel - Injected Mongoose model for the `LoginAttempt` entity.
+   * @param {Connection} connection - Injected Mongoose connection.
+   */
+  constructor(
+    @InjectModel(LoginAttempt.name) loginAttemptModel: Model<LoginAttempt>,
+    @InjectConnection() connection: Connection,
+  ) {
+    super(loginAttemptModel, connection);
+  }
+
+  /**
+   * Finds the records of some keys.
+   * @async
+   * @param {string[]} keys The accounts and client IPs.
+   * @returns {Promise<LoginAttempt[]>} A Promise that resolves to the existing records.
+   */
+  async findByKeys(keys: string[]): Promise<LoginAttempt[]> {
+    return this.model.find({ key: { $in: keys } }, {}, { lean: true });
+  }
+
+  /**
+   * Counts a failed login for a key, creating its record on the first failure.
+   * @async
+   * @param {string} key The account or client IP.
+   * @param {Date} expireAt Date at which the failures are forgotten.
+   * @returns {Promise<number>} A Promise that resolves to the number of consecutive failures, including this one.
+   */
+  async incrementFailures(key: string, expireAt: Date): Promise<number> {
+    const now = new Date();
+    const update = () =>
+      this.model.findOneAndUpdate(
+        { key },
+        {
+          $inc: { failures: 1, version: 1 },
+          $set: { expireAt, updatedAt: now },
+          $setOnInsert: { createdAt: now },
+        },
+        { upsert: true, new: true, lean: true },
+      );
+    try {
+      return (await update()).failures;
+    } catch (err) {
+      if (err?.code !== 11000) {
+        throw err;
+      }
+      // Another failure created the record concurrently: it now exists, so the increment matches it.
+      return (await update()).failures;
+    }
+  }
+
+  /**
+   * Sets the dates before which new logins of a key are refused.
+   * @async
+   * @param {string} key The account or client IP.
+   * @param {Date} nextAttemptAt Date before which a new login is refused.
+   * @param {Date} [lockedUntil] Date until which the key is locked out, if it reached the lockout threshold.
+   * @returns {Promise<void>}
+   */
+  async block(
+    key: string,
+    nextAttemptAt: Date,
+    lockedUntil?: Date,
+  ): Promise<void> {
+    await this.model.updateOne(
+      { key },
+      { $set: { nextAttemptAt, ...(lockedUntil && { lockedUntil }) } },
+    );
+  }
+
+  /**
+   * Forgets the failed logins of a key, lifting its lockout.
+   * @async
+   * @param {string} key The account or client IP.
+   * @returns {Promise<boolean>} A Promise that resolves to `true` if the key had failed logins.
+   */
+  async clear(key: string): Promise<boolean> {
+    const { deletedCount } = await this.model.deleteOne({ key });
+    return deletedCount > 0;
+  }
+}
@@ -0,0 +1,170 @@
+import { HttpException, HttpStatus, Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { LoginAttemptsRepository } from './login-attempts.repository';
+
+/**
+ * Injectable service protecting the login against brute-force attacks.
+ * Failed logins are counted per account and per client IP:
+ * - every failure of an account delays its next login exponentially (`LOGIN_DELAY_BASE` seconds, doubled at each failure);
+ * - an account reaching `LOGIN_LOCKOUT_THRESHOLD` failures, or an IP reaching `LOGIN_IP_LOCKOUT_THRESHOLD` failures,
+ *   is locked out for `LOGIN_LOCKOUT_DURATION` seconds.
+ * Failures are forgotten `LOGIN_ATTEMPTS_WINDOW` seconds after the last one, and those of an account on its next successful login.
+ */
+@Injectable()
+export class LoginAttemptsService {
+  /**
+   * Logger instance for LoginAttemptsService, used to report the lockouts.
+   * @private
+   * @readonly
+   */
+  private readonly logger = new Logger(LoginAttemptsService.name, {
+    timestamp: true,
+  });
+
+  /**
+   * Constructor for `LoginAttemptsService`.
+   * @param {LoginAttemptsRepository} loginAttemptsRepository - Injected `LoginAttemptsRepository` instance.
+   * @param {ConfigService} configService - Injected `ConfigService` instance, used to read the thresholds and durations.
+   */
+  constructor(
+    private readonly loginAttemptsRepository: LoginAttemptsRepository,
+    private readonly configService: ConfigService,
+  ) {}
+
+  /**
+   * Checks that neither the account nor the client IP has to wait before trying to log in again.
+   * @async
+   * @param {string} email The email address the client is logging in with.
+   * @param {string} ip The IP of the client.
+   * @returns {Promise<void>}
+   * @throws {HttpException} With status `429 Too Many Requests` and the seconds to wait in `retryAfter`, if a login is refused.
+   */
+  async assertAllowed(email: string, ip: string): Promise<void> {
+    const now = Date.now();
+    const attempts = await this.loginAttemptsRepository.findByKeys([
+      this.accountKey(email),
+      this.ipKey(ip),
+    ]);
+    const blockedUntil = Math.max(
+      now,
+      ...attempts.flatMap(({ nextAttemptAt, lockedUntil }) => [
+        nextAttemptAt?.getTime() ?? 0,
+        lockedUntil?.getTime() ?? 0,
+      ]),
+    );
+    if (blockedUntil > now) {
+      throw new HttpException(
+        {
+          statusCode: HttpStatus.TOO_MANY_REQUESTS,
+          message: 'Too many failed login attempts, retry later.',
+          retryAfter: Math.ceil((blockedUntil - now) / 1000),
+        },
+        HttpStatus.TOO_MANY_REQUESTS,
+      );
+    }
+  }
+
+  /**
+   * Counts a failed login for the account and the client IP, delaying or locking out their next logins.
+   * @async
+   * @param {string} email The email address the client tried to log in with.
+   * @param {string} ip The IP of the client.
+   * @returns {Promise<void>}
+   */
+  async recordFailure(email: string, ip: string): Promise<void> {
+    const lockout = this.configService.get<number>('LOGIN_LOCKOUT_DURATION');
+    await Promise.all([
+      this.recordKeyFailure(
+        this.accountKey(email),
+        this.configService.get<number>('LOGIN_LOCKOUT_THRESHOLD'),
+        (failures) =>
+          Math.min(
+            this.configService.get<number>('LOGIN_DELAY_BASE') *
+              2 ** (failures - 1),
+            lockout,
+          ),
+      ),
+      // IPs are shared by many users behind a NAT, so they are only locked out past a much higher threshold
+      this.recordKeyFailure(
+        this.ipKey(ip),
+        this.configService.get<number>('LOGIN_IP_LOCKOUT_THRESHOLD'),
+        () => 0,
+      ),
+    ]);
+  }
+
+  /**
+   * Forgets the failed logins of an account after a successful login.
+   * The failures of the client IP are kept, so that an attacker owning one account cannot reset the counter of their IP.
+   * @async
+   * @param {string} email The email address of the account.
+   * @returns {Promise<void>}
+   */
+  async recordSuccess(email: string): Promise<void> {
+    await this.loginAttemptsRepository.clear(this.accountKey(email));
+  }
+
+  /**
+   * Lifts the lockout of an account and forgets its failed logins.
+   * @async
+   * @param {string} email The email address of the account.
+   * @returns {Promise<boolean>} A Promise that resolves to `true` if the account had failed logins.
+   */
+  async unlock(email: string): Promise<boolean> {
+    return this.loginAttemptsRepository.clear(this.accountKey(email));
+  }
+
+  /**
+   * Counts a failed login for a key, then sets its progressive delay and its lockout if it reached the threshold.
+   * @private
+   * @async
+   * @param {string} key The account or client IP.
+   * @param {number} threshold Number of failures locking the key out.
+   * @param {(failures: number) => number} getDelay Returns the delay (in seconds) before the next login, given the failures.
+   * @returns {Promise<void>}
+   */
+  private async recordKeyFailure(
+    key: string,
+    threshold: number,
+    getDelay: (failures: number) => number,
+  ): Promise<void> {
+    const now = Date.now();
+    const lockout = this.configService.get<number>('LOGIN_LOCKOUT_DURATION');
+    const window = this.configService.get<number>('LOGIN_ATTEMPTS_WINDOW');
+    const failures = await this.loginAttemptsRepository.incrementFailures(
+      key,
+      // Keeps the record at least as long as the lockout it may carry
+      new Date(now + Math.max(window, lockout) * 1000),
+    );
+    const lockedUntil =
+      failures >= threshold ? new Date(now + lockout * 1000) : undefined;
+    if (failures === threshold) {
+      this.logger.warn(`Locking out ${key} after ${failures} failed logins`);
+    }
+    await this.loginAttemptsRepository.block(
+      key,
+      new Date(now + getDelay(failures) * 1000),
+      lockedUntil,
+    );
+  }
+
+  /**
+   * Returns the key counting the failures of an account. Emails are compared case-insensitively.
+   * @private
+   * @param {string} email The email address of the account.
+   * @returns {string} The key, as `account:<email>`.
+   */
+  private accountKey(email: string): string {
+    return `account:${String(email).toLowerCase()}`;
+  }
+
+  /**
+   * Returns the key counting the failures of a client IP.
+   * @private
+   * @param {string} ip The IP of the client.
+   * @returns {string} The key, as `ip:<address>`.
+   */
+  private ipKey(ip: string): string {
+    return `ip:${ip}`;
+  }
+}
@@ -0,0 +1,53 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { AbstractDocument } from '@app/common';
+
+/**
+ * Mongoose schema definition for the `LoginAttempt` document.
+ * It tracks the recent failed logins of an account (`account:<email>`) or of a client IP (`ip:<address>`).
+ * Records are removed by MongoDB once `expireAt` is reached, through a TTL index, which forgets the old failures.
+ * @Schema({ versionKey: false, collection: 'login_attempts' }) Decorator that stores the records in the `login_attempts` collection and disables the version key (__v).
+ */
+@Schema({ versionKey: false, collection: 'login_attempts' })
+export class LoginAttempt extends AbstractDocument {
+  /**
+   * The account or client IP the failures are counted for.
+   * @type {string}
+   */
+  @Prop({ required: true, unique: true })
+  key: string;
+
+  /**
+   * Number of consecutive failed logins.
+   * @type {number}
+   */
+  @Prop({ required: true, default: 0 })
+  failures: number;
+
+  /**
+   * Date before which a new login is refused, growing exponentially with the failures.
+   * @type {Date}
+   */
+  @Prop()
+  nextAttemptAt?: Date;
+
+  /**
+   * Date until which the account or IP is locked out, once the failures reached the lockout threshold.
+   * @type {Date}
+   */
+  @Prop()
+  lockedUntil?: Date;
+
+  /**
+   * Date at which MongoDB removes the record.
+   * @type {Date}
+   */
+  @Prop({ required: true })
+  expireAt: Date;
+}
+
+/**
+ * Mongoose `SchemaFactory` for the `LoginAttempt` class.
+ * The TTL index purges the records once their failures are old enough to be forgiven.
+ */
+export const LoginAttemptSchema = SchemaFactory.createForClass(LoginAttempt);
+LoginAttemptSchema.index({ expireAt: 1 }, { expireAfterSeconds: 0 });
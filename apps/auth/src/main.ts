@@ -1,7 +1,8 @@
 import { NestFactory } from '@nestjs/core';
 import { ValidationPipe } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
-import { RmqOptions } from '@nestjs/microservices';
+import * as cookieParser from 'cookie-parser';
+import { CustomStrategy } from '@nestjs/microservices';
 import { QUEUE_AUTH, RmqService } from '@app/common';
 import { AuthModule } from './auth.module';
 
@@ -18,9 +19,13 @@ async function bootstrap() {
   // Retrieve the RmqService instance from the application context to access RabbitMQ configuration utilities.
   const rmqService = app.get<RmqService>(RmqService);
   // Connect the application as a RabbitMQ microservice listener using configurations provided by RmqService.
-  app.connectMicroservice<RmqOptions>(rmqService.getOptions(QUEUE_AUTH, true));
+  app.connectMicroservice<CustomStrategy>(
+    rmqService.getServer(QUEUE_AUTH, true),
+  );
   // Apply a global ValidationPipe to the application. This pipe automatically validates all incoming requests across the application based on DTO validation rules.
-  app.useGlobalPipes(new ValidationPipe());
+  app.useGlobalPipes(new ValidationPipe({ transform: true }));
+  // Parse the cookies, carrying the refresh token sent to `/auth/refresh` and `/auth/logout`.
+  app.use(cookieParser());
   const configService = app.get(ConfigService);
   // Start the RabbitMQ microservice listener.
   await app.startAllMicroservices();
@@ -0,0 +1,30 @@
+import { Migration } from '@app/common';
+
+/**
+ * Declares the unique index on `users.email`, so that concurrent registrations cannot create duplicate accounts.
+ * Fails without creating the index when duplicate accounts already exist, as they must be merged by hand first.
+ */
+export const usersUniqueEmail: Migration = {
+  version: 1,
+  name: 'users-unique-email',
+  async up(connection) {
+    const users = connection.collection('users');
+    const duplicates = await users
+      .aggregate([
+        { $group: { _id: '$email', count: { $sum: 1 } } },
+        { $match: { count: { $gt: 1 } } },
+      ])
+      .toArray();
+    if (duplicates.length) {
+      throw new Error(
+        `Duplicate accounts must be merged first: ${duplicates
+          .map(({ _id }) => _id)
+          .join(', ')}`,
+      );
+    }
+    await users.createIndex({ email: 1 }, { unique: true });
+  },
+  async down(connection) {
+    await connection.collection('users').dropIndex('email_1');
+  },
+};
@@ -0,0 +1,15 @@
+import { backfillDocumentMetadata, Migration } from '@app/common';
+
+/**
+ * Backfills `createdAt`, `updatedAt` and `version` on the users registered before they were maintained by `AbstractRepository`.
+ */
+export const usersBackfillMetadata: Migration = {
+  version: 2,
+  name: 'users-backfill-metadata',
+  async up(connection) {
+    await backfillDocumentMetadata(connection, 'users');
+  },
+  async down() {
+    // The backfilled fields cannot be told apart from the ones set on creation, so they are kept.
+  },
+};
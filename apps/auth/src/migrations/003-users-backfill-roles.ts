@@ -0,0 +1,20 @@
+import { Migration, Role } from '@app/common';
+
+/**
+ * Grants the `user` role to the users registered before roles existed.
+ */
+export const usersBackfillRoles: Migration = {
+  version: 3,
+  name: 'users-backfill-roles',
+  async up(connection) {
+    await connection
+      .collection('users')
+      .updateMany(
+        { roles: { $exists: false } },
+        { $set: { roles: [Role.USER], permissions: [] } },
+      );
+  },
+  async down() {
+    // Roles granted since cannot be told apart from the backfilled ones, so they are kept.
+  },
+};
@@ -0,0 +1,21 @@
+import { Migration } from '@app/common';
+
+/**
+ * Marks the users registered before email verification existed as verified,
+ * so that they can still log in when `REQUIRE_EMAIL_VERIFICATION` is turned on.
+ */
+export const usersEmailVerified: Migration = {
+  version: 4,
+  name: 'users-email-verified',
+  async up(connection) {
+    await connection
+      .collection('users')
+      .updateMany(
+        { emailVerified: { $exists: false } },
+        { $set: { emailVerified: true } },
+      );
+  },
+  async down() {
+    // The backfilled flags cannot be told apart from the verifications completed since, so they are kept.
+  },
+};
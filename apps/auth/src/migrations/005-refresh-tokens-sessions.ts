@@ -0,0 +1,60 @@
+import { Migration } from '@app/common';
+import { Types } from 'mongoose';
+
+/**
+ * Starts a session for every refresh token family still in use, and moves the family to the identifier of the session,
+ * so that the users logged in before the sessions were tracked stay logged in.
+ * Their access tokens carry no session and are rejected, until the client refreshes them.
+ * The sessions are keyed on the family they were started for (`migratedFamily`), so a re-run reuses them,
+ * and the families already moved to a session are skipped.
+ */
+export const refreshTokensSessions: Migration = {
+  version: 5,
+  name: 'refresh-tokens-sessions',
+  async up(connection) {
+    const now = new Date();
+    const refreshTokens = connection.collection('refresh_tokens');
+    const sessions = connection.collection('sessions');
+    const liveTokens = refreshTokens.find({
+      rotatedAt: null,
+      revokedAt: null,
+      expiresAt: { $gt: now },
+    });
+    for await (const token of liveTokens) {
+      const moved =
+        Types.ObjectId.isValid(token.family) &&
+        (await sessions.countDocuments(
+          { _id: new Types.ObjectId(token.family) },
+          { limit: 1 },
+        ));
+      if (moved) {
+        continue;
+      }
+      const { value: session } = await sessions.findOneAndUpdate(
+        { migratedFamily: token.family },
+        {
+          $setOnInsert: {
+            userId: token.userId,
+            lastSeenAt: now,
+            expiresAt: token.expiresAt,
+            createdAt: token.createdAt ?? now,
+            updatedAt: now,
+            version: 0,
+          },
+        },
+        { upsert: true, returnDocument: 'after' },
+      );
+      await refreshTokens.updateMany(
+        { family: token.family },
+        { $set: { family: session._id.toHexString() } },
+      );
+    }
+  },
+  async down(connection) {
+    // The refresh tokens keep their new family, which works without the sessions as well.
+    // Only the sessions started by this migration are deleted, the ones started by logins since are kept.
+    await connection
+      .collection('sessions')
+      .deleteMany({ migratedFamily: { $exists: true } });
+  },
+};
@@ -0,0 +1,17 @@
+import { Migration } from '@app/common';
+import { usersUniqueEmail } from './001-users-unique-email';
+import { usersBackfillMetadata } from './002-users-backfill-metadata';
+import { usersBackfillRoles } from './003-users-backfill-roles';
+import { usersEmailVerified } from './004-users-email-verified';
+import { refreshTokensSessions } from './005-refresh-tokens-sessions';
+
+/**
+ * Migrations of the auth database, applied with `pnpm migrate auth up`.
+ */
+export const migrations: Migration[] = [
+  usersUniqueEmail,
+  usersBackfillMetadata,
+  usersBackfillRoles,
+  usersEmailVerified,
+  refreshTokensSessions,
+];
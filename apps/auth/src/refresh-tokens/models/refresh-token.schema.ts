@@ -0,0 +1,61 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { AbstractDocument } from '@app/common';
+
+/**
+ * Mongoose schema definition for the `RefreshToken` document.
+ * Refresh tokens are opaque random strings, only their SHA-256 hash is stored.
+ * Every rotation issues a new token in the same `family`, which is revoked as a whole when a rotated token is reused.
+ * Records are removed by MongoDB once `expiresAt` is reached, through a TTL index.
+ * @Schema({ versionKey: false, collection: 'refresh_tokens' }) Decorator that stores the tokens in the `refresh_tokens` collection and disables the version key (__v).
+ */
+@Schema({ versionKey: false, collection: 'refresh_tokens' })
+export class RefreshToken extends AbstractDocument {
+  /**
+   * SHA-256 hash (hex) of the token.
+   * @type {string}
+   */
+  @Prop({ required: true, unique: true })
+  tokenHash: string;
+
+  /**
+   * Identifier of the user the token was issued to.
+   * @type {string}
+   */
+  @Prop({ required: true, index: true })
+  userId: string;
+
+  /**
+   * Identifier shared by the token issued at login and all the tokens it was rotated into.
+   * @type {string}
+   */
+  @Prop({ required: true, index: true })
+  family: string;
+
+  /**
+   * Date after which the token can no longer be used.
+   * @type {Date}
+   */
+  @Prop({ required: true })
+  expiresAt: Date;
+
+  /**
+   * Date at which the token was exchanged for a new one. A rotated token must not be presented again.
+   * @type {Date}
+   */
+  @Prop()
+  rotatedAt?: Date;
+
+  /**
+   * Date at which the token was revoked, by a logout or the detection of a reuse.
+   * @type {Date}
+   */
+  @Prop()
+  revokedAt?: Date;
+}
+
+/**
+ * Mongoose `SchemaFactory` for the `RefreshToken` class.
+ * The TTL index purges the expired tokens.
+ */
+export const RefreshTokenSchema = SchemaFactory.createForClass(RefreshToken);
+RefreshTokenSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
@@ -0,0 +1,25 @@
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import { DatabaseModule } from '@app/common';
+import {
+  RefreshToken,
+  RefreshTokenSchema,
+} from './models/refresh-token.schema';
+import { RefreshTokensRepository } from './refresh-tokens.repository';
+import { RefreshTokensService } from './refresh-tokens.service';
+
+/**
+ * Module managing the refresh tokens exchanged for new access tokens.
+ * @exports {RefreshTokensService} Exports the `RefreshTokensService` class, used by the `SessionsService` to issue, rotate and revoke the tokens of the sessions.
+ */
+@Module({
+  imports: [
+    DatabaseModule,
+    MongooseModule.forFeature([
+      { name: RefreshToken.name, schema: RefreshTokenSchema },
+    ]),
+  ],
+  providers: [RefreshTokensService, RefreshTokensRepository],
+  exports: [RefreshTokensService],
+})
+export class RefreshTokensModule {}
@@ -0,0 +1,70 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectConnection, InjectModel } from '@nestjs/mongoose';
+import { Connection, FilterQuery, Model } from 'mongoose';
+import { AbstractRepository } from '@app/common';
+import { RefreshToken } from './models/refresh-token.schema';
+
+/**
+ * Injectable repository for managing `RefreshToken` entities in MongoDB.
+ * Extends the `AbstractRepository` to inherit common database operations, specialized for the `RefreshToken` model.
+ */
+@Injectable()
+export class RefreshTokensRepository extends AbstractRepository<RefreshToken> {
+  /**
+   * Logger instance for RefreshTokensRepository.
+   * @protected
+   * @readonly
+   */
+  protected readonly logger = new Logger(RefreshTokensRepository.name);
+
+  /**
+   * Constructor for `RefreshTokensRepository`.
+   * @param {Model<RefreshToken>} refreshTokenModel - Injected Mongoose model for the `RefreshToken` entity.
+   * @param {Connection} connection - Injected Mongoose connection.
+   */
+  constructor(
+    @InjectModel(RefreshToken.name) refreshTokenModel: Model<RefreshToken>,
+    @InjectConnection() connection: Connection,
+  ) {
+    super(refreshTokenModel, connection);
+  }
+
+  /**
+   * Revokes every token of a family that is not revoked yet.
+   * @async
+   * @param {string} family The family of the tokens.
+   * @returns {Promise<number>} A Promise that resolves to the number of revoked tokens.
+   */
+  async revokeFamily(family: string): Promise<number> {
+    return this.revokeMany({ family });
+  }
+
+  /**
+   * Revokes every token of a user that is not revoked yet.
+   * @async
+   * @param {string} userId Identifier of the user.
+   * @returns {Promise<number>} A Promise that resolves to the number of revoked tokens.
+   */
+  async revokeUser(userId: string): Promise<number> {
+    return this.revokeMany({ userId });
+  }
+
+  /**
+   * Revokes the tokens matching a filter that are not revoked yet.
+   * @private
+   * @async
+   * @param {FilterQuery<RefreshToken>} filterQuery The filter query selecting the tokens.
+   * @returns {Promise<number>} A Promise that resolves to the number of revoked tokens.
+   */
+  private async revokeMany(
+    filterQuery: FilterQuery<RefreshToken>,
+  ): Promise<number> {
+    const now = new Date();
+    const { modifiedCount } = await this.model.updateMany(
+      { ...filterQuery, revokedAt: null },
+      { $set: { revokedAt: now, updatedAt: now }, $inc: { version: 1 } },
+      { session: this.session },
+    );
+    return modifiedCount;
+  }
+}
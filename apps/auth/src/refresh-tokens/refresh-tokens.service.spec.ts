@@ -0,0 +1,116 @@
+import {
+  ConflictException,
+  Logger,
+  NotFoundException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { UnitOfWork } from '@app/common';
+import { createHash } from 'crypto';
+import { Types } from 'mongoose';
+import { RefreshTokensRepository } from './refresh-tokens.repository';
+import { RefreshTokensService } from './refresh-tokens.service';
+
+describe('RefreshTokensService', () => {
+  const userId = new Types.ObjectId().toHexString();
+  const family = new Types.ObjectId().toHexString();
+  const stored = (state: object = {}) => ({
+    _id: new Types.ObjectId(),
+    tokenHash: createHash('sha256').update('token').digest('hex'),
+    userId,
+    family,
+    version: 0,
+    expiresAt: new Date(Date.now() + 60000),
+    ...state,
+  });
+  const refreshTokensRepository = {
+    create: jest.fn(),
+    findOne: jest.fn(),
+    findOneAndUpdate: jest.fn(),
+    revokeFamily: jest.fn(),
+  };
+  const unitOfWork = { withTransaction: jest.fn((work) => work()) };
+  const service = new RefreshTokensService(
+    refreshTokensRepository as unknown as RefreshTokensRepository,
+    { get: () => 3600 } as unknown as ConfigService,
+    unitOfWork as unknown as UnitOfWork,
+  );
+
+  beforeAll(() => jest.spyOn(Logger.prototype, 'warn').mockReturnValue());
+  beforeEach(() => jest.clearAllMocks());
+
+  it('rotates a token into a new one of the same family', async () => {
+    const current = stored();
+    refreshTokensRepository.findOne.mockResolvedValueOnce(current);
+
+    const rotated = await service.rotate('token');
+
+    expect(refreshTokensRepository.findOne).toHaveBeenCalledWith({
+      tokenHash: current.tokenHash,
+    });
+    expect(refreshTokensRepository.findOneAndUpdate).toHaveBeenCalledWith(
+      { _id: current._id, version: 0 },
+      { $set: { rotatedAt: expect.any(Date) } },
+    );
+    expect(rotated).toMatchObject({ userId, family });
+    expect(rotated.token).not.toBe('token');
+    expect(refreshTokensRepository.create).toHaveBeenCalledWith(
+      expect.objectContaining({
+        tokenHash: createHash('sha256').update(rotated.token).digest('hex'),
+        family,
+      }),
+    );
+    expect(refreshTokensRepository.revokeFamily).not.toHaveBeenCalled();
+  });
+
+  it.each([
+    ['rotated', { rotatedAt: new Date() }],
+    ['revoked', { revokedAt: new Date() }],
+  ])(
+    'revokes the whole family when a %s token is presented again',
+    async (_, state) => {
+      refreshTokensRepository.findOne.mockResolvedValueOnce(stored(state));
+      refreshTokensRepository.revokeFamily.mockResolvedValueOnce(2);
+
+      await expect(service.rotate('token')).rejects.toBeInstanceOf(
+        UnauthorizedException,
+      );
+      expect(refreshTokensRepository.revokeFamily).toHaveBeenCalledWith(family);
+      expect(refreshTokensRepository.create).not.toHaveBeenCalled();
+    },
+  );
+
+  it('revokes the whole family when a token is rotated twice concurrently', async () => {
+    refreshTokensRepository.findOne.mockResolvedValueOnce(stored());
+    refreshTokensRepository.findOneAndUpdate.mockRejectedValueOnce(
+      new ConflictException(),
+    );
+
+    await expect(service.rotate('token')).rejects.toBeInstanceOf(
+      UnauthorizedException,
+    );
+    expect(refreshTokensRepository.revokeFamily).toHaveBeenCalledWith(family);
+    expect(refreshTokensRepository.create).not.toHaveBeenCalled();
+  });
+
+  it('rejects an expired token without revoking its family', async () => {
+    refreshTokensRepository.findOne.mockResolvedValueOnce(
+      stored({ expiresAt: new Date(Date.now() - 1000) }),
+    );
+
+    await expect(service.rotate('token')).rejects.toBeInstanceOf(
+      UnauthorizedException,
+    );
+    expect(refreshTokensRepository.revokeFamily).not.toHaveBeenCalled();
+  });
+
+  it('rejects an unknown token', async () => {
+    refreshTokensRepository.findOne.mockRejectedValueOnce(
+      new NotFoundException(),
+    );
+
+    await expect(service.rotate('unknown')).rejects.toBeInstanceOf(
+      UnauthorizedException,
+    );
+  });
+});
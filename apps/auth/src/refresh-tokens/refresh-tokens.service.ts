@@ -0,0 +1,217 @@
+import {
+  ConflictException,
+  Injectable,
+  Logger,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { createHash, randomBytes, randomUUID } from 'crypto';
+import { UnitOfWork } from '@app/common';
+import { RefreshToken } from './models/refresh-token.schema';
+import { RefreshTokensRepository } from './refresh-tokens.repository';
+
+/**
+ * A refresh token handed to a client.
+ */
+export interface IssuedRefreshToken {
+  /**
+   * The opaque token, never stored as is.
+   */
+  token: string;
+
+  /**
+   * Identifier of the user the token was issued to.
+   */
+  userId: string;
+
+  /**
+   * Family of the token, which is the identifier of its session.
+   */
+  family: string;
+
+  /**
+   * Date after which the token can no longer be used.
+   */
+  expiresAt: Date;
+}
+
+/**
+ * Injectable service issuing, rotating and revoking the refresh tokens.
+ * A refresh token can be exchanged once for a new one. Presenting it again means it leaked, so its whole family is revoked,
+ * logging out both the legitimate client and the attacker.
+ */
+@Injectable()
+export class RefreshTokensService {
+  /**
+   * Logger instance for RefreshTokensService, used to report the reuse of rotated tokens.
+   * @private
+   * @readonly
+   */
+  private readonly logger = new Logger(RefreshTokensService.name, {
+    timestamp: true,
+  });
+
+  /**
+   * Constructor for `RefreshTokensService`.
+   * @param {RefreshTokensRepository} refreshTokensRepository - Injected `RefreshTokensRepository` instance.
+   * @param {ConfigService} configService - Injected `ConfigService` instance, used to read `JWT_REFRESH_EXPIRATION`.
+   * @param {UnitOfWork} unitOfWork - Injected `UnitOfWork` instance, rotating a token and issuing its successor atomically.
+   */
+  constructor(
+    private readonly refreshTokensRepository: RefreshTokensRepository,
+    private readonly configService: ConfigService,
+    private readonly unitOfWork: UnitOfWork,
+  ) {}
+
+  /**
+   * Issues a new refresh token.
+   * @async
+   * @param {string} userId Identifier of the user.
+   * @param {string} [family] Family of the token: the session started at login, or the family of the rotated token. A new family is started when omitted.
+   * @returns {Promise<IssuedRefreshToken>} A Promise that resolves to the issued token.
+   */
+  async issue(
+    userId: string,
+    family: string = randomUUID(),
+  ): Promise<IssuedRefreshToken> {
+    const token = randomBytes(32).toString('base64url');
+    const expiresAt = new Date(
+      Date.now() + this.configService.get('JWT_REFRESH_EXPIRATION') * 1000,
+    );
+    await this.refreshTokensRepository.create({
+      tokenHash: this.hash(token),
+      userId,
+      family,
+      expiresAt,
+    });
+    return { token, userId, family, expiresAt };
+  }
+
+  /**
+   * Exchanges a refresh token for a new one of the same family.
+   * @async
+   * @param {string} token The refresh token presented by the client.
+   * @returns {Promise<IssuedRefreshToken>} A Promise that resolves to the new token.
+   * @throws {UnauthorizedException} If the token is unknown, expired, revoked or already rotated. The family is revoked in the latter case.
+   */
+  async rotate(token: string): Promise<IssuedRefreshToken> {
+    const current = await this.findToken(token);
+    if (current.rotatedAt || current.revokedAt) {
+      return this.rejectReuse(current);
+    }
+    if (current.expiresAt <= new Date()) {
+      throw new UnauthorizedException('Refresh token has expired.');
+    }
+    const rotated = await this.unitOfWork.withTransaction(async () => {
+      try {
+        await this.refreshTokensRepository.findOneAndUpdate(
+          { _id: current._id, version: current.version },
+          { $set: { rotatedAt: new Date() } },
+        );
+      } catch (err) {
+        if (err instanceof ConflictException) {
+          // Rotated concurrently: the token was presented twice
+          return undefined;
+        }
+        throw err;
+      }
+      return this.issue(current.userId, current.family);
+    });
+    return rotated ?? this.rejectReuse(current);
+  }
+
+  /**
+   * Returns the user and the family of a refresh token, whatever its state.
+   * @async
+   * @param {string} token The refresh token presented by the client.
+   * @returns {Promise<Pick<RefreshToken, 'userId' | 'family'> | undefined>} A Promise that resolves to the user and the family, or `undefined` if the token is unknown.
+   */
+  async inspect(
+    token: string,
+  ): Promise<Pick<RefreshToken, 'userId' | 'family'> | undefined> {
+    try {
+      const { userId, family } = await this.findToken(token);
+      return { userId, family };
+    } catch (err) {
+      return undefined;
+    }
+  }
+
+  /**
+   * Revokes every token of a family, ending the session it belongs to.
+   * @async
+   * @param {string} family The family of the tokens.
+   * @returns {Promise<void>}
+   */
+  async revokeFamily(family: string): Promise<void> {
+    await this.refreshTokensRepository.revokeFamily(family);
+  }
+
+  /**
+   * Revokes every refresh token of a user, logging them out of all their devices.
+   * @async
+   * @param {string} userId Identifier of the user.
+   * @returns {Promise<void>}
+   */
+  async revokeAll(userId: string): Promise<void> {
+    await this.refreshTokensRepository.revokeUser(userId);
+  }
+
+  /**
+   * Deletes every refresh token of a user, revoked ones included, when their account is deleted.
+   * @async
+   * @param {string} userId Identifier of the user.
+   * @returns {Promise<void>}
+   */
+  async deleteAll(userId: string): Promise<void> {
+    await this.refreshTokensRepository.purge({ userId });
+  }
+
+  /**
+   * Finds a refresh token by its hash.
+   * @private
+   * @async
+   * @param {string} token The refresh token presented by the client.
+   * @returns {Promise<RefreshToken>} A Promise that resolves to the stored token.
+   * @throws {UnauthorizedException} If the token is unknown.
+   */
+  private async findToken(token: string): Promise<RefreshToken> {
+    try {
+      return await this.refreshTokensRepository.findOne({
+        tokenHash: this.hash(token),
+      });
+    } catch (err) {
+      throw new UnauthorizedException('Refresh token is not valid.');
+    }
+  }
+
+  /**
+   * Revokes the family of a reused token and rejects the request.
+   * @private
+   * @async
+   * @param {RefreshToken} reused The token presented after being rotated or revoked.
+   * @returns {Promise<never>}
+   * @throws {UnauthorizedException} Always.
+   */
+  private async rejectReuse(reused: RefreshToken): Promise<never> {
+    const revoked = await this.refreshTokensRepository.revokeFamily(
+      reused.family,
+    );
+    if (revoked) {
+      this.logger.warn(
+        `Refresh token reused for user ${reused.userId}, revoked ${revoked} token(s) of family ${reused.family}`,
+      );
+    }
+    throw new UnauthorizedException('Refresh token is not valid.');
+  }
+
+  /**
+   * Hashes a refresh token. Tokens are 256 random bits, so a fast unsalted hash is enough to make a leaked collection useless.
+   * @private
+   * @param {string} token The refresh token.
+   * @returns {string} The SHA-256 hash of the token, in hex.
+   */
+  private hash(token: string): string {
+    return createHash('sha256').update(token).digest('hex');
+  }
+}
@@ -0,0 +1,61 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { AbstractDocument } from '@app/common';
+
+/**
+ * Mongoose schema definition for the `Session` document.
+ * A session starts at login and lasts as long as its refresh tokens, whose `family` is the identifier of the session.
+ * The access tokens carry the identifier of their session, so revoking it rejects them at once.
+ * Records are removed by MongoDB once `expiresAt` is reached, through a TTL index.
+ * @Schema({ versionKey: false, collection: 'sessions' }) Decorator that stores the sessions in the `sessions` collection and disables the version key (__v).
+ */
+@Schema({ versionKey: false, collection: 'sessions' })
+export class Session extends AbstractDocument {
+  /**
+   * Identifier of the user who logged in.
+   * @type {string}
+   */
+  @Prop({ required: true, index: true })
+  userId: string;
+
+  /**
+   * Device of the client, as described by its `User-Agent` header.
+   * @type {string}
+   */
+  @Prop()
+  device?: string;
+
+  /**
+   * IP of the client at its last login or token refresh.
+   * @type {string}
+   */
+  @Prop()
+  ip?: string;
+
+  /**
+   * Date at which the client last used the session.
+   * @type {Date}
+   */
+  @Prop({ required: true })
+  lastSeenAt: Date;
+
+  /**
+   * Date at which the last refresh token of the session expires.
+   * @type {Date}
+   */
+  @Prop({ required: true })
+  expiresAt: Date;
+
+  /**
+   * Date at which the session was revoked, by a logout or the reuse of a refresh token.
+   * @type {Date}
+   */
+  @Prop()
+  revokedAt?: Date;
+}
+
+/**
+ * Mongoose `SchemaFactory` for the `Session` class.
+ * The TTL index purges the expired sessions.
+ */
+export const SessionSchema = SchemaFactory.createForClass(Session);
+SessionSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
@@ -0,0 +1,58 @@
+import {
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  UseGuards,
+} from '@nestjs/common';
+import { CurrentUser } from '../current-user.decorator';
+import JwtAuthGuard from '../guards/jwt-auth.guard';
+import { SessionsService, SessionUser, SessionView } from './sessions.service';
+
+/**
+ * Controller managing the sessions of the authenticated user, under the `/auth/sessions` route.
+ * Logging out of every session at once is handled by `POST /auth/logout-all` of the `AuthController`.
+ * @Controller('auth/sessions') Sets the base route for this controller to `/auth/sessions`.
+ */
+@Controller('auth/sessions')
+@UseGuards(JwtAuthGuard)
+export class SessionsController {
+  /**
+   * Constructor for `SessionsController`.
+   * @param {SessionsService} sessionsService - Injected `SessionsService` instance.
+   */
+  constructor(private readonly sessionsService: SessionsService) {}
+
+  /**
+   * Endpoint listing the active sessions of the authenticated user, with their device, IP and last use.
+   * @Get() Defines this method as handling GET requests to '/auth/sessions'.
+   * @param {SessionUser} user - The authenticated user, along with the session of their access token, flagged as `current`.
+   * @returns {Promise<SessionView[]>} A Promise that resolves to the sessions, from the most recently used.
+   */
+  @Get()
+  async getSessions(@CurrentUser() user: SessionUser): Promise<SessionView[]> {
+    return this.sessionsService.getSessions(
+      user._id.toHexString(),
+      user.sessionId,
+    );
+  }
+
+  /**
+   * Endpoint revoking a session of the authenticated user: its refresh token and access token are rejected from then on.
+   * @Delete(':id') Defines this method as handling DELETE requests to '/auth/sessions/:id'.
+   * @param {string} id - Identifier of the session.
+   * @param {SessionUser} user - The authenticated user, who must own the session.
+   * @returns {Promise<void>}
+   * @throws {NotFoundException} If the session does not exist, is no longer active, or belongs to another user.
+   */
+  @Delete(':id')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async revokeSession(
+    @Param('id') id: string,
+    @CurrentUser() user: SessionUser,
+  ): Promise<void> {
+    await this.sessionsService.revoke(id, user._id.toHexString());
+  }
+}
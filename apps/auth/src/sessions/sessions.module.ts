@@ -0,0 +1,26 @@
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import { DatabaseModule } from '@app/common';
+import { AuditLogModule } from '../audit-log/audit-log.module';
+import { RefreshTokensModule } from '../refresh-tokens/refresh-tokens.module';
+import { Session, SessionSchema } from './models/session.schema';
+import { SessionsController } from './sessions.controller';
+import { SessionsRepository } from './sessions.repository';
+import { SessionsService } from './sessions.service';
+
+/**
+ * Module tracking the sessions of the users, each of them owning a family of refresh tokens.
+ * @exports {SessionsService} Exports the `SessionsService` class, used to start, refresh and revoke the sessions, and by the `JwtStrategy` to reject the tokens of revoked sessions.
+ */
+@Module({
+  imports: [
+    DatabaseModule,
+    AuditLogModule,
+    RefreshTokensModule,
+    MongooseModule.forFeature([{ name: Session.name, schema: SessionSchema }]),
+  ],
+  controllers: [SessionsController],
+  providers: [SessionsService, SessionsRepository],
+  exports: [SessionsService],
+})
+export class SessionsModule {}
@@ -0,0 +1,109 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectConnection, InjectModel } from '@nestjs/mongoose';
+import { Connection, FilterQuery, Model, Types } from 'mongoose';
+import { AbstractRepository } from '@app/common';
+import { Session } from './models/session.schema';
+
+/**
+ * Injectable repository for managing `Session` entities in MongoDB.
+ * Extends the `AbstractRepository` to inherit common database operations, specialized for the `Session` model.
+ */
+@Injectable()
+export class SessionsRepository extends AbstractRepository<Session> {
+  /**
+   * Logger instance for SessionsRepository.
+   * @protected
+   * @readonly
+   */
+  protected readonly logger = new Logger(SessionsRepository.name);
+
+  /**
+   * Constructor for `SessionsRepository`.
+   * @param {Model<Session>} sessionModel - Injected Mongoose model for the `Session` entity.
+   * @param {Connection} connection - Injected Mongoose connection.
+   */
+  constructor(
+    @InjectModel(Session.name) sessionModel: Model<Session>,
+    @InjectConnection() connection: Connection,
+  ) {
+    super(sessionModel, connection);
+  }
+
+  /**
+   * Finds the sessions of a user that are neither revoked nor expired.
+   * @async
+   * @param {string} userId Identifier of the user.
+   * @returns {Promise<Session[]>} A Promise that resolves to the sessions, from the most recently used.
+   */
+  async findActiveByUser(userId: string): Promise<Session[]> {
+    return this.model.find(
+      this.withoutDeleted({
+        userId,
+        revokedAt: null,
+        expiresAt: { $gt: new Date() },
+      }),
+      {},
+      { lean: true, sort: { lastSeenAt: -1 }, session: this.session },
+    );
+  }
+
+  /**
+   * Records that a session was used, unless it was already recorded less than `interval` milliseconds ago.
+   * The date is bookkeeping, so neither `updatedAt` nor `version` change.
+   * @async
+   * @param {Session} session The used session.
+   * @param {number} interval Minimum delay (in milliseconds) between two recordings.
+   * @returns {Promise<void>}
+   */
+  async touch(session: Session, interval: number): Promise<void> {
+    const now = new Date();
+    await this.model.updateOne(
+      {
+        _id: session._id,
+        lastSeenAt: { $lt: new Date(now.getTime() - interval) },
+      },
+      { $set: { lastSeenAt: now } },
+      { session: this.session },
+    );
+  }
+
+  /**
+   * Revokes a session, unless it is already revoked.
+   * @async
+   * @param {string} id Identifier of the session.
+   * @returns {Promise<number>} A Promise that resolves to the number of revoked sessions.
+   */
+  async revokeSession(id: string): Promise<number> {
+    if (!Types.ObjectId.isValid(id)) {
+      return 0;
+    }
+    return this.revokeMany({ _id: new Types.ObjectId(id) });
+  }
+
+  /**
+   * Revokes every session of a user that is not revoked yet.
+   * @async
+   * @param {string} userId Identifier of the user.
+   * @returns {Promise<number>} A Promise that resolves to the number of revoked sessions.
+   */
+  async revokeUser(userId: string): Promise<number> {
+    return this.revokeMany({ userId });
+  }
+
+  /**
+   * Revokes the sessions matching a filter that are not revoked yet.
+   * @private
+   * @async
+   * @param {FilterQuery<Session>} filterQuery The filter query selecting the sessions.
+   * @returns {Promise<number>} A Promise that resolves to the number of revoked sessions.
+   */
+  private async revokeMany(filterQuery: FilterQuery<Session>): Promise<number> {
+    const now = new Date();
+    const { modifiedCount } = await this.model.updateMany(
+      { ...filterQuery, revokedAt: null },
+      { $set: { revokedAt: now, updatedAt: now }, $inc: { version: 1 } },
+      { session: this.session },
+    );
+    return modifiedCount;
+  }
+}
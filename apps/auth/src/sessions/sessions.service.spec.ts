@@ -0,0 +1,85 @@
+import { NotFoundException, UnauthorizedException } from '@nestjs/common';
+import { UnitOfWork } from '@app/common';
+import { Types } from 'mongoose';
+import { RefreshTokensService } from '../refresh-tokens/refresh-tokens.service';
+import { SessionsRepository } from './sessions.repository';
+import { SessionsService } from './sessions.service';
+
+describe('SessionsService', () => {
+  const userId = new Types.ObjectId().toHexString();
+  const sessionId = new Types.ObjectId().toHexString();
+  const client = { ip: '127.0.0.1', device: 'test-agent' };
+  const sessionsRepository = {
+    findOne: jest.fn(),
+    findOneAndUpdate: jest.fn(),
+    touch: jest.fn(),
+    revokeSession: jest.fn(),
+  };
+  const refreshTokensService = {
+    rotate: jest.fn(),
+    inspect: jest.fn(),
+    revokeFamily: jest.fn(),
+  };
+  const unitOfWork = { withTransaction: jest.fn((work) => work()) };
+  const service = new SessionsService(
+    sessionsRepository as unknown as SessionsRepository,
+    refreshTokensService as unknown as RefreshTokensService,
+    unitOfWork as unknown as UnitOfWork,
+  );
+
+  beforeEach(() => jest.clearAllMocks());
+
+  it('ends the session of a refresh token that cannot be rotated', async () => {
+    refreshTokensService.rotate.mockRejectedValueOnce(
+      new UnauthorizedException('Refresh token is not valid.'),
+    );
+    refreshTokensService.inspect.mockResolvedValueOnce({
+      userId,
+      family: sessionId,
+    });
+
+    await expect(service.refresh('reused', client)).rejects.toBeInstanceOf(
+      UnauthorizedException,
+    );
+    expect(sessionsRepository.revokeSession).toHaveBeenCalledWith(sessionId);
+    expect(refreshTokensService.revokeFamily).toHaveBeenCalledWith(sessionId);
+  });
+
+  it('rejects the refresh of a revoked session', async () => {
+    refreshTokensService.rotate.mockResolvedValueOnce({
+      userId,
+      family: sessionId,
+      expiresAt: new Date(),
+    });
+    sessionsRepository.findOneAndUpdate.mockRejectedValueOnce(
+      new NotFoundException('Document not found.'),
+    );
+
+    await expect(service.refresh('token', client)).rejects.toBeInstanceOf(
+      UnauthorizedException,
+    );
+    expect(refreshTokensService.revokeFamily).toHaveBeenCalledWith(sessionId);
+  });
+
+  it('rejects the access tokens of an inactive session', async () => {
+    sessionsRepository.findOne.mockRejectedValueOnce(
+      new NotFoundException('Document not found.'),
+    );
+
+    await expect(
+      service.assertActive(sessionId, userId),
+    ).rejects.toBeInstanceOf(UnauthorizedException);
+    expect(sessionsRepository.touch).not.toHaveBeenCalled();
+  });
+
+  it('only revokes the active sessions of the user', async () => {
+    sessionsRepository.findOne.mockRejectedValueOnce(
+      new NotFoundException('Document not found.'),
+    );
+
+    await expect(service.revoke(sessionId, userId)).rejects.toBeInstanceOf(
+      NotFoundException,
+    );
+    expect(sessionsRepository.revokeSession).not.toHaveBeenCalled();
+  });
+});
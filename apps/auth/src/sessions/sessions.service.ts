@@ -0,0 +1,310 @@
+import {
+  Injectable,
+  NotFoundException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { Request } from 'express';
+import { FilterQuery, Types } from 'mongoose';
+import { UnitOfWork } from '@app/common';
+import {
+  IssuedRefreshToken,
+  RefreshTokensService,
+} from '../refresh-tokens/refresh-tokens.service';
+import { User } from '../users/models/user.schema';
+import { Session } from './models/session.schema';
+import { SessionsRepository } from './sessions.repository';
+
+/**
+ * Minimum delay (in milliseconds) between two recordings of the last use of a session.
+ */
+const LAST_SEEN_INTERVAL = 60000;
+
+/**
+ * Maximum length of the device description kept from the `User-Agent` header.
+ */
+const MAX_DEVICE_LENGTH = 256;
+
+/**
+ * The client starting or refreshing a session.
+ */
+export interface SessionClient {
+  /**
+   * IP of the client.
+   */
+  ip: string;
+
+  /**
+   * Device of the client, as described by its `User-Agent` header.
+   */
+  device?: string;
+}
+
+/**
+ * A session started or refreshed, with the refresh token to hand to the client.
+ */
+export interface SessionTokens {
+  /**
+   * Identifier of the session, carried by the access tokens.
+   */
+  sessionId: string;
+
+  /**
+   * The new refresh token of the session.
+   */
+  refreshToken: IssuedRefreshToken;
+}
+
+/**
+ * A session, as listed to its user.
+ */
+export type SessionView = Pick<
+  Session,
+  '_id' | 'device' | 'ip' | 'createdAt' | 'lastSeenAt' | 'expiresAt'
+> & {
+  /**
+   * Whether the session is the one of the access token listing the sessions.
+   */
+  current: boolean;
+};
+
+/**
+ * The user of an access token, along with the session the token belongs to.
+ */
+export type SessionUser = User & { sessionId: string };
+
+/**
+ * Describes the client of an HTTP request.
+ * @param {Request} request - The Express `Request` object.
+ * @returns {SessionClient} The IP and the `User-Agent` of the client.
+ */
+export const getSessionClient = (request: Request): SessionClient => ({
+  ip: request.ip,
+  device: request.headers['user-agent']?.slice(0, MAX_DEVICE_LENGTH),
+});
+
+/**
+ * Injectable service tracking the sessions of the users, from their login to their logout.
+ * Each session owns a family of refresh tokens, so ending a session revokes its refresh tokens,
+ * and the access tokens carrying its identifier are rejected by the `JwtStrategy`.
+ */
+@Injectable()
+export class SessionsService {
+  /**
+   * Constructor for `SessionsService`.
+   * @param {SessionsRepository} sessionsRepository - Injected `SessionsRepository` instance.
+   * @param {RefreshTokensService} refreshTokensService - Injected `RefreshTokensService` instance, issuing the refresh tokens of the sessions.
+   * @param {UnitOfWork} unitOfWork - Injected `UnitOfWork` instance, storing a session along with its first refresh token.
+   */
+  constructor(
+    private readonly sessionsRepository: SessionsRepository,
+    private readonly refreshTokensService: RefreshTokensService,
+    private readonly unitOfWork: UnitOfWork,
+  ) {}
+
+  /**
+   * Starts a session at login, along with its first refresh token.
+   * @async
+   * @param {string} userId - Identifier of the user logging in.
+   * @param {SessionClient} client - The client logging in.
+   * @returns {Promise<SessionTokens>} A Promise that resolves to the session and its refresh token.
+   */
+  async start(userId: string, client: SessionClient): Promise<SessionTokens> {
+    return this.unitOfWork.withTransaction(async () => {
+      const now = new Date();
+      const session = await this.sessionsRepository.create({
+        userId,
+        device: client.device,
+        ip: client.ip,
+        lastSeenAt: now,
+        // Pushed back to the expiration of the refresh token right below
+        expiresAt: now,
+      });
+      const sessionId = session._id.toHexString();
+      const refreshToken = await this.refreshTokensService.issue(
+        userId,
+        sessionId,
+      );
+      await this.sessionsRepository.findOneAndUpdate(
+        { _id: session._id },
+        { $set: { expiresAt: refreshToken.expiresAt } },
+      );
+      return { sessionId, refreshToken };
+    });
+  }
+
+  /**
+   * Exchanges a refresh token for a new one, extending its session.
+   * A refresh token that cannot be exchanged (reused, revoked or expired) ends its session.
+   * @async
+   * @param {string} token - The refresh token presented by the client.
+   * @param {SessionClient} client - The client refreshing its tokens.
+   * @returns {Promise<SessionTokens>} A Promise that resolves to the session and its new refresh token.
+   * @throws {UnauthorizedException} If the refresh token is not valid, or its session was revoked.
+   */
+  async refresh(token: string, client: SessionClient): Promise<SessionTokens> {
+    let refreshToken: IssuedRefreshToken;
+    try {
+      refreshToken = await this.refreshTokensService.rotate(token);
+    } catch (err) {
+      const inspected = await this.refreshTokensService.inspect(token);
+      if (inspected) {
+        await this.revokeSession(inspected.family);
+      }
+      throw err;
+    }
+    const sessionId = refreshToken.family;
+    try {
+      await this.sessionsRepository.findOneAndUpdate(
+        this.activeFilter(sessionId, refreshToken.userId),
+        {
+          $set: {
+            ip: client.ip,
+            lastSeenAt: new Date(),
+            expiresAt: refreshToken.expiresAt,
+          },
+        },
+      );
+    } catch (err) {
+      if (!(err instanceof NotFoundException)) {
+        throw err;
+      }
+      await this.revokeSession(sessionId);
+      throw new UnauthorizedException('Session has been revoked.');
+    }
+    return { sessionId, refreshToken };
+  }
+
+  /**
+   * Checks that the session of an access token is still active, and records its use.
+   * @async
+   * @param {string} sessionId - Identifier of the session carried by the access token.
+   * @param {string} userId - Identifier of the user of the access token.
+   * @returns {Promise<void>}
+   * @throws {UnauthorizedException} If the session is unknown, revoked or expired.
+   */
+  async assertActive(sessionId: string, userId: string): Promise<void> {
+    let session: Session;
+    try {
+      session = await this.sessionsRepository.findOne(
+        this.activeFilter(sessionId, userId),
+      );
+    } catch (err) {
+      throw new UnauthorizedException('Session has been revoked.');
+    }
+    await this.sessionsRepository.touch(session, LAST_SEEN_INTERVAL);
+  }
+
+  /**
+   * Lists the active sessions of a user.
+   * @async
+   * @param {string} userId - Identifier of the user.
+   * @param {string} currentSessionId - Identifier of the session listing the sessions.
+   * @returns {Promise<SessionView[]>} A Promise that resolves to the sessions, from the most recently used.
+   */
+  async getSessions(
+    userId: string,
+    currentSessionId: string,
+  ): Promise<SessionView[]> {
+    const sessions = await this.sessionsRepository.findActiveByUser(userId);
+    return sessions.map(
+      ({ _id, device, ip, createdAt, lastSeenAt, expiresAt }) => ({
+        _id,
+        device,
+        ip,
+        createdAt,
+        lastSeenAt,
+        expiresAt,
+        current: _id.toHexString() === currentSessionId,
+      }),
+    );
+  }
+
+  /**
+   * Revokes an active session of a user, logging out its device.
+   * @async
+   * @param {string} id - Identifier of the session.
+   * @param {string} userId - Identifier of the user, who must own the session.
+   * @returns {Promise<void>}
+   * @throws {NotFoundException} If the session does not exist, is no longer active, or belongs to another user.
+   */
+  async revoke(id: string, userId: string): Promise<void> {
+    // Throws a NotFoundException unless the session is an active session of the user
+    await this.sessionsRepository.findOne(this.activeFilter(id, userId));
+    await this.revokeSession(id);
+  }
+
+  /**
+   * Ends the session of a refresh token, at logout. Unknown tokens are ignored.
+   * @async
+   * @param {string} token - The refresh token presented by the client.
+   * @returns {Promise<string | undefined>} A Promise that resolves to the identifier of the user of the session, or `undefined` if the token is unknown.
+   */
+  async end(token: string): Promise<string | undefined> {
+    const inspected = await this.refreshTokensService.inspect(token);
+    if (inspected) {
+      await this.revokeSession(inspected.family);
+    }
+    return inspected?.userId;
+  }
+
+  /**
+   * Revokes every session of a user, along with their refresh tokens.
+   * @async
+   * @param {string} userId - Identifier of the user.
+   * @returns {Promise<void>}
+   */
+  async revokeAll(userId: string): Promise<void> {
+    await this.unitOfWork.withTransaction(async () => {
+      await this.sessionsRepository.revokeUser(userId);
+      await this.refreshTokensService.revokeAll(userId);
+    });
+  }
+
+  /**
+   * Deletes every session of a user, along with their refresh tokens, when their account is deleted.
+   * The sessions record the IP and the device of the user, which are personal data.
+   * @async
+   * @param {string} userId - Identifier of the user.
+   * @returns {Promise<void>}
+   */
+  async deleteAll(userId: string): Promise<void> {
+    await this.sessionsRepository.purge({ userId });
+    await this.refreshTokensService.deleteAll(userId);
+  }
+
+  /**
+   * Revokes a session and its refresh tokens.
+   * @private
+   * @async
+   * @param {string} sessionId - Identifier of the session, which is the family of its refresh tokens.
+   * @returns {Promise<void>}
+   */
+  private async revokeSession(sessionId: string): Promise<void> {
+    await this.unitOfWork.withTransaction(async () => {
+      await this.sessionsRepository.revokeSession(sessionId);
+      await this.refreshTokensService.revokeFamily(sessionId);
+    });
+  }
+
+  /**
+   * Builds the filter matching a session of a user that is neither revoked nor expired.
+   * Malformed identifiers match no session.
+   * @private
+   * @param {string} sessionId - Identifier of the session.
+   * @param {string} userId - Identifier of the user.
+   * @returns {FilterQuery<Session>} The filter query.
+   */
+  private activeFilter(
+    sessionId: string,
+    userId: string,
+  ): FilterQuery<Session> {
+    return {
+      _id: Types.ObjectId.isValid(sessionId)
+        ? new Types.ObjectId(sessionId)
+        : null,
+      userId,
+      revokedAt: null,
+      expiresAt: { $gt: new Date() },
+    };
+  }
+}
@@ -0,0 +1,53 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { AbstractDocument } from '@app/common';
+
+/**
+ * Mongoose schema definition for the `SigningKey` document.
+ * An RSA key pair signing the access tokens until `activeUntil`, then only published in the JWKS
+ * until the last token it signed has expired. Records are removed by MongoDB once `expireAt` is reached, through a TTL index.
+ * @Schema({ versionKey: false, collection: 'signing_keys' }) Decorator that stores the keys in the `signing_keys` collection and disables the version key (__v).
+ */
+@Schema({ versionKey: false, collection: 'signing_keys' })
+export class SigningKey extends AbstractDocument {
+  /**
+   * Identifier of the key, set as the `kid` header of the tokens it signs.
+   * @type {string}
+   */
+  @Prop({ required: true, unique: true })
+  kid: string;
+
+  /**
+   * Public key, as a PEM encoded SPKI structure.
+   * @type {string}
+   */
+  @Prop({ required: true })
+  publicKey: string;
+
+  /**
+   * Private key, as a PEM encoded PKCS#8 structure. It never leaves the auth service.
+   * @type {string}
+   */
+  @Prop({ required: true })
+  privateKey: string;
+
+  /**
+   * Date until which the key signs the new tokens.
+   * @type {Date}
+   */
+  @Prop({ required: true })
+  activeUntil: Date;
+
+  /**
+   * Date at which the last token signed by the key expires, and MongoDB removes the key.
+   * @type {Date}
+   */
+  @Prop({ required: true })
+  expireAt: Date;
+}
+
+/**
+ * Mongoose `SchemaFactory` for the `SigningKey` class.
+ * The TTL index purges the keys once no valid token can refer to them.
+ */
+export const SigningKeySchema = SchemaFactory.createForClass(SigningKey);
+SigningKeySchema.index({ expireAt: 1 }, { expireAfterSeconds: 0 });
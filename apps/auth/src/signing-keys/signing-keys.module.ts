@@ -0,0 +1,20 @@
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import { SigningKey, SigningKeySchema } from './models/signing-key.schema';
+import { SigningKeysRepository } from './signing-keys.repository';
+import { SigningKeysService } from './signing-keys.service';
+
+/**
+ * Module managing the rotating RSA keys signing the access tokens.
+ * @exports {SigningKeysService} Exports the `SigningKeysService` class, used to sign and verify the tokens and to publish the JWKS.
+ */
+@Module({
+  imports: [
+    MongooseModule.forFeature([
+      { name: SigningKey.name, schema: SigningKeySchema },
+    ]),
+  ],
+  providers: [SigningKeysService, SigningKeysRepository],
+  exports: [SigningKeysService],
+})
+export class SigningKeysModule {}
@@ -0,0 +1,53 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectConnection, InjectModel } from '@nestjs/mongoose';
+import { Connection, Model } from 'mongoose';
+import { AbstractRepository } from '@app/common';
+import { SigningKey } from './models/signing-key.schema';
+
+/**
+ * Injectable repository for managing `SigningKey` entities in MongoDB.
+ * Extends the `AbstractRepository` to inherit common database operations, specialized for the `SigningKey` model.
+ */
+@Injectable()
+export class SigningKeysRepository extends AbstractRepository<SigningKey> {
+  /**
+   * Logger instance for SigningKeysRepository.
+   * @protected
+   * @readonly
+   */
+  protected readonly logger = new Logger(SigningKeysRepository.name);
+
+  /**
+   * Constructor for `SigningKeysRepository`.
+   * @param {Model<SigningKey>} signingKeyModel - Injected Mongoose model for the `SigningKey` entity.
+   * @param {Connection} connection - Injected Mongoose connection.
+   */
+  constructor(
+    @InjectModel(SigningKey.name) signingKeyModel: Model<SigningKey>,
+    @InjectConnection() connection: Connection,
+  ) {
+    super(signingKeyModel, connection);
+  }
+
+  /**
+   * Finds the most recent key still signing tokens.
+   * @async
+   * @returns {Promise<SigningKey | null>} A Promise that resolves to the active key, or `null` if every key is retired.
+   */
+  async findActive(): Promise<SigningKey | null> {
+    return this.model.findOne(
+      this.withoutDeleted({ activeUntil: { $gt: new Date() } }),
+      {},
+      { lean: true, sort: { activeUntil: -1 }, session: this.session },
+    );
+  }
+
+  /**
+   * Finds the keys which may have signed a token that is still valid.
+   * @async
+   * @returns {Promise<SigningKey[]>} A Promise that resolves to the published keys.
+   */
+  async findPublished(): Promise<SigningKey[]> {
+    return this.find({ expireAt: { $gt: new Date() } });
+  }
+}
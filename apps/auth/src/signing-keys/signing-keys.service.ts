@@ -0,0 +1,132 @@
+import { Injectable, Logger, OnApplicationBootstrap } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import {
+  createPublicKey,
+  generateKeyPair,
+  JsonWebKey,
+  randomUUID,
+} from 'crypto';
+import { promisify } from 'util';
+import { JWT_ALGORITHM } from '@app/common';
+import { SigningKey } from './models/signing-key.schema';
+import { SigningKeysRepository } from './signing-keys.repository';
+
+const generateKeyPairAsync = promisify(generateKeyPair);
+
+/**
+ * A public key in the JWK format, as published by the JWKS endpoint.
+ */
+export type PublicJwk = JsonWebKey & { kid: string; alg: string; use: 'sig' };
+
+/**
+ * Injectable service managing the RSA keys signing the access tokens.
+ * A new key is generated once the active one has signed tokens for `JWT_KEY_ROTATION` seconds.
+ * Retired keys stay published until the last token they signed has expired, so that tokens survive a rotation.
+ */
+@Injectable()
+export class SigningKeysService implements OnApplicationBootstrap {
+  /**
+   * Logger instance for SigningKeysService, used to trace the key rotations.
+   * @private
+   * @readonly
+   */
+  private readonly logger = new Logger(SigningKeysService.name, {
+    timestamp: true,
+  });
+
+  /**
+   * The key currently signing the tokens, cached until it retires.
+   * @private
+   */
+  private activeKey?: SigningKey;
+
+  /**
+   * Constructor for `SigningKeysService`.
+   * @param {SigningKeysRepository} signingKeysRepository - Injected `SigningKeysRepository` instance.
+   * @param {ConfigService} configService - Injected `ConfigService` instance, used to read the key rotation period and the token lifetime.
+   */
+  constructor(
+    private readonly signingKeysRepository: SigningKeysRepository,
+    private readonly configService: ConfigService,
+  ) {}
+
+  /**
+   * Makes sure a key is active, so that it is published before the first token it signs.
+   * @async
+   * @returns {Promise<void>}
+   */
+  async onApplicationBootstrap(): Promise<void> {
+    await this.getSigningKey();
+  }
+
+  /**
+   * Returns the key signing the new tokens, generating one when every key has retired.
+   * Instances rotating concurrently may each generate a key: all of them are published, and the most recent one is used.
+   * @async
+   * @returns {Promise<SigningKey>} A Promise that resolves to the active key.
+   */
+  async getSigningKey(): Promise<SigningKey> {
+    if (this.activeKey?.activeUntil > new Date()) {
+      return this.activeKey;
+    }
+    this.activeKey =
+      (await this.signingKeysRepository.findActive()) ??
+      (await this.generateKey());
+    return this.activeKey;
+  }
+
+  /**
+   * Returns the public key of a published key.
+   * @async
+   * @param {string} kid Identifier of the key, read from the `kid` header of a token.
+   * @returns {Promise<string | undefined>} A Promise that resolves to the PEM encoded public key, or `undefined` if the key is unknown or expired.
+   */
+  async getPublicKey(kid: string): Promise<string | undefined> {
+    const keys = await this.signingKeysRepository.findPublished();
+    return keys.find((key) => key.kid === kid)?.publicKey;
+  }
+
+  /**
+   * Returns the published public keys, in the JWK format.
+   * @async
+   * @returns {Promise<PublicJwk[]>} A Promise that resolves to the keys which may have signed a valid token.
+   */
+  async getJwks(): Promise<PublicJwk[]> {
+    const keys = await this.signingKeysRepository.findPublished();
+    return keys.map(({ kid, publicKey }) => ({
+      ...createPublicKey(publicKey).export({ format: 'jwk' }),
+      kid,
+      alg: JWT_ALGORITHM,
+      use: 'sig',
+    }));
+  }
+
+  /**
+   * Generates and stores a new RSA key pair.
+   * @private
+   * @async
+   * @returns {Promise<SigningKey>} A Promise that resolves to the new key.
+   */
+  private async generateKey(): Promise<SigningKey> {
+    const { publicKey, privateKey } = await generateKeyPairAsync('rsa', {
+      modulusLength: 2048,
+      publicKeyEncoding: { type: 'spki', format: 'pem' },
+      privateKeyEncoding: { type: 'pkcs8', format: 'pem' },
+    });
+    const now = Date.now();
+    const activeUntil = new Date(
+      now + this.configService.get('JWT_KEY_ROTATION') * 1000,
+    );
+    const key = await this.signingKeysRepository.create({
+      kid: randomUUID(),
+      publicKey,
+      privateKey,
+      activeUntil,
+      expireAt: new Date(
+        activeUntil.getTime() + this.configService.get('JWT_EXPIRATION') * 1000,
+      ),
+    });
+    this.logger.log(`Generated signing key ${key.kid}`);
+    return key;
+  }
+}
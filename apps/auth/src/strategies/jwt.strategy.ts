@@ -1,9 +1,11 @@
 import { Injectable, UnauthorizedException } from '@nestjs/common';
-import { ConfigService } from '@nestjs/config';
+import { JwtService } from '@nestjs/jwt';
 import { PassportStrategy } from '@nestjs/passport';
 import { ExtractJwt, Strategy } from 'passport-jwt';
 import { Types } from 'mongoose';
-import { TokenPayload } from '../auth.service';
+import { JWT_ALGORITHM, TokenPayload } from '@app/common';
+import { SigningKeysService } from '../signing-keys/signing-keys.service';
+import { SessionsService, SessionUser } from '../sessions/sessions.service';
 import { UsersService } from '../users/users.service';
 import { User } from '../users/models/user.schema';
 
@@ -16,33 +18,62 @@ import { User } from '../users/models/user.schema';
 export class JwtStrategy extends PassportStrategy(Strategy) {
   /**
    * Constructor for `JwtStrategy`.
-   * @param {ConfigService} configService - Injected `ConfigService` instance.
-   *        Used to access application configuration, specifically the JWT secret key.
+   * @param {JwtService} jwtService - Injected `JwtService` instance.
+   *        Used to read the `kid` header of the JWT.
+   * @param {SigningKeysService} signingKeysService - Injected `SigningKeysService` instance.
+   *        Provides the public key of the signing key a JWT refers to.
    * @param {UsersService} usersService - Injected `UsersService` instance.
    *        Used to retrieve user information based on the userId extracted from the JWT payload.
+   * @param {SessionsService} sessionsService - Injected `SessionsService` instance.
+   *        Checks that the session of the JWT has not been revoked.
    */
   constructor(
-    configService: ConfigService,
+    jwtService: JwtService,
+    signingKeysService: SigningKeysService,
     private readonly usersService: UsersService,
+    private readonly sessionsService: SessionsService,
   ) {
     super({
       /**
        * Configures how the JWT is extracted from the incoming `request`.
-       * Here, it uses an extractor function that looks for the JWT in the 'Authentication' cookie.
+       * Here, it uses extractor functions that look for the JWT in the 'Authentication' cookie or the 'Authorization: Bearer' header of HTTP requests,
+       * or the 'Authentication' field of RPC data.
        * `ExtractJwt.fromExtractors` - Creates an extractor that tries multiple extractors in order.
        */
       jwtFromRequest: ExtractJwt.fromExtractors([
         (request: any) => {
-          // Extracts the JWT from the 'Authentication' cookie of the request. Added by libs/common/src/auth/jwt-auth.guard
+          // Extracts the JWT from the 'Authentication' cookie of HTTP requests to the auth service
+          return request?.cookies?.Authentication;
+        },
+        // Extracts the JWT from the 'Authorization: Bearer' header of HTTP requests, for the clients without cookies
+        ExtractJwt.fromAuthHeaderAsBearerToken(),
+        (request: any) => {
+          // Extracts the JWT from the 'Authentication' field of the RPC data. Added by libs/common/src/auth/jwt-auth.guard
           return request?.Authentication;
         },
       ]),
       /**
-       * Specifies the secret key used to verify the JWT signature.
-       * The `secretOrKey` is obtained from the application configuration via `ConfigService`.
-       * This key must match the secret used to sign the JWT.
+       * Provides the public key used to verify the JWT signature: the one of the signing key named by the `kid` header.
+       * Tokens referring to an unknown or expired key are rejected.
        */
-      secretOrKey: configService.get('JWT_SECRET'),
+      secretOrKeyProvider: (
+        _request: any,
+        rawJwtToken: string,
+        done: (err: any, key?: string) => void,
+      ) => {
+        const decoded = jwtService.decode(rawJwtToken, { complete: true }) as {
+          header?: { kid?: string };
+        };
+        signingKeysService
+          .getPublicKey(decoded?.header?.kid)
+          .then((publicKey) =>
+            publicKey
+              ? done(null, publicKey)
+              : done(new UnauthorizedException('Unknown signing key.')),
+          )
+          .catch(done);
+      },
+      algorithms: [JWT_ALGORITHM],
     });
   }
 
@@ -50,19 +81,29 @@ export class JwtStrategy extends PassportStrategy(Strategy) {
    * Validates the JWT payload.
    * This method is automatically called by Passport after verifying the JWT signature and decoding the payload.
    * It receives the decoded JWT payload and uses the `userId` from the payload to fetch the user from the `UsersService`.
+   * Tokens issued before the user logged out of every device carry a stale token version, and tokens of a revoked session are rejected as well.
    * @async
    * @param {TokenPayload} payload - The decoded JWT payload. It should contain a 'userId' property as defined in TokenPayload interface.
-   * @returns {Promise<User>} A Promise that resolves to the user object if the user is found and authentication is successful.
-   * @throws {UnauthorizedException} If the user cannot be found or any other error occurs during user retrieval, indicating invalid JWT or user.
+   * @returns {Promise<SessionUser>} A Promise that resolves to the user object, along with the session of the token, if authentication is successful.
+   * @throws {UnauthorizedException} If the user cannot be found, the token version is stale or the session was revoked.
    */
-  async validate({ userId }: TokenPayload): Promise<User> {
+  async validate({
+    userId,
+    sessionId,
+    tokenVersion,
+  }: TokenPayload): Promise<SessionUser> {
+    let user: User;
     try {
-      const user = await this.usersService.getUser({
+      user = await this.usersService.getUser({
         _id: new Types.ObjectId(userId),
       });
-      return user;
     } catch (err) {
       throw new UnauthorizedException(err);
     }
+    if ((tokenVersion ?? 0) !== (user.tokenVersion ?? 0)) {
+      throw new UnauthorizedException('Token has been revoked.');
+    }
+    await this.sessionsService.assertActive(sessionId, userId);
+    return { ...user, sessionId };
   }
 }
@@ -1,6 +1,10 @@
-import { Injectable } from '@nestjs/common';
+import { Injectable, UnauthorizedException } from '@nestjs/common';
 import { PassportStrategy } from '@nestjs/passport';
+import { Request } from 'express';
+import { AuditClient, getAuditOrigin } from '@app/common';
 import { Strategy } from 'passport-local';
+import { LoginAttemptsService } from '../login-attempts/login-attempts.service';
+import { User } from '../users/models/user.schema';
 import { UsersService } from '../users/users.service';
 
 /**
@@ -8,6 +12,9 @@ import { UsersService } from '../users/users.service';
  * This strategy is responsible for validating user credentials (username and password)
  * against a user database, typically for handling traditional username/password login scenarios.
  * It extends `PassportStrategy(Strategy)` from `@nestjs/passport` and `passport-local`.
+ * Failed logins are tracked by the `LoginAttemptsService`, which delays and locks out brute-force attacks.
+ * The failures of a user with two-factor authentication are cleared by the `TwoFactorService` once the challenge is answered.
+ * Failed logins are recorded in the audit log along with their reason, the successful ones by the `AuthService` once the session starts.
  */
 @Injectable()
 export class LocalStrategy extends PassportStrategy(Strategy) {
@@ -16,10 +23,17 @@ export class LocalStrategy extends PassportStrategy(Strategy) {
    * @param {UsersService} usersService - Injected UsersService instance.
    *        This service is used to validate user credentials against the user database.
    *        It is expected to have a method like `validateUser` that checks if the provided email and password are valid.
+   * @param {LoginAttemptsService} loginAttemptsService - Injected `LoginAttemptsService` instance, counting the failed logins.
+   * @param {AuditClient} auditClient - Injected `AuditClient` instance, recording the failed logins.
    */
-  constructor(private readonly usersService: UsersService) {
-    // Configures the strategy to use 'email' as the username field instead of the default 'username'.
-    super({ usernameField: 'email' });
+  constructor(
+    private readonly usersService: UsersService,
+    private readonly loginAttemptsService: LoginAttemptsService,
+    private readonly auditClient: AuditClient,
+  ) {
+    // Configures the strategy to use 'email' as the username field instead of the default 'username',
+    // and passes the request to `validate` to read the client IP.
+    super({ usernameField: 'email', passReqToCallback: true });
   }
 
   /**
@@ -27,13 +41,46 @@ export class LocalStrategy extends PassportStrategy(Strategy) {
    * This method is automatically called by Passport when the local strategy is used.
    * It receives the `username` (which is 'email' as configured) and `password` from the authentication request.
    * It then delegates the actual validation to the `usersService.validateUser` method.
+   * The login is refused beforehand if the account or the client IP has to wait after previous failures.
    * @async
+   * @param {Request} request - The login request, giving the client IP and `User-Agent`.
    * @param  email - The `email` address provided by the user during login (used as `username` field).
    * @param  password - The `password` provided by the user during login.
    * @returns A Promise that resolves to the user object if credentials are valid.
    * If validation fails, it should throw an exception (e.g., `UnauthorizedException`), which Passport will handle.
+   * @throws {HttpException} With status `429 Too Many Requests` if the account or the client IP is delayed or locked out.
    */
-  async validate(email: string, password: string) {
-    return this.usersService.validateUser(email, password);
+  async validate(
+    request: Request,
+    email: string,
+    password: string,
+  ): Promise<User> {
+    const origin = getAuditOrigin(request);
+    let user: User;
+    try {
+      await this.loginAttemptsService.assertAllowed(email, request.ip);
+      try {
+        user = await this.usersService.validateUser(email, password);
+      } catch (err) {
+        if (err instanceof UnauthorizedException) {
+          await this.loginAttemptsService.recordFailure(email, request.ip);
+        }
+        throw err;
+      }
+    } catch (err) {
+      await this.auditClient.record({
+        action: 'login',
+        outcome: 'failure',
+        actor: email,
+        reason: err.message,
+        ...origin,
+      });
+      throw err;
+    }
+    // The password alone does not log in a user with two-factor authentication, or codes could be guessed on a reset counter
+    if (!user.twoFactorEnabled) {
+      await this.loginAttemptsService.recordSuccess(email);
+    }
+    return user;
   }
 }
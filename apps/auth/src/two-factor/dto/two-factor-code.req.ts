@@ -0,0 +1,16 @@
+import { IsNotEmpty, IsString } from 'class-validator';
+
+/**
+ * Data Transfer Object (DTO) carrying a second factor code.
+ */
+export class TwoFactorCodeReq {
+  /**
+   * A TOTP code of the authenticator app, or a recovery code where accepted.
+   * @IsString() Decorator that validates if the provided value is a string.
+   * @IsNotEmpty() Decorator that validates if the string is not empty.
+   * @type {string}
+   */
+  @IsString()
+  @IsNotEmpty()
+  code: string;
+}
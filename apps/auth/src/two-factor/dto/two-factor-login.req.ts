@@ -0,0 +1,17 @@
+import { IsNotEmpty, IsString } from 'class-validator';
+import { TwoFactorCodeReq } from './two-factor-code.req';
+
+/**
+ * Data Transfer Object (DTO) for completing a login with a second factor.
+ */
+export class TwoFactorLoginReq extends TwoFactorCodeReq {
+  /**
+   * The challenge token returned by `POST /auth/login`.
+   * @IsString() Decorator that validates if the provided value is a string.
+   * @IsNotEmpty() Decorator that validates if the string is not empty.
+   * @type {string}
+   */
+  @IsString()
+  @IsNotEmpty()
+  challengeToken: string;
+}
@@ -0,0 +1,48 @@
+import {
+  base32Decode,
+  base32Encode,
+  generateTotp,
+  generateTotpSecret,
+  getOtpauthUri,
+  verifyTotp,
+} from './totp';
+
+describe('totp', () => {
+  // Secret of the RFC 6238 test vectors for HMAC-SHA1
+  const secret = base32Encode(Buffer.from('12345678901234567890'));
+
+  it('encodes and decodes base32', () => {
+    expect(secret).toBe('GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ');
+    expect(base32Decode(secret.toLowerCase()).toString()).toBe(
+      '12345678901234567890',
+    );
+  });
+
+  it('matches the RFC 6238 test vectors', () => {
+    // The RFC lists 8-digit codes, of which the 6 last digits are the 6-digit codes
+    expect(generateTotp(secret, 59 * 1000)).toBe('287082');
+    expect(generateTotp(secret, 1111111109 * 1000)).toBe('081804');
+    expect(generateTotp(secret, 2000000000 * 1000)).toBe('279037');
+  });
+
+  it('accepts the codes of the current and neighbouring time steps only', () => {
+    const now = Date.now();
+
+    expect(verifyTotp(secret, generateTotp(secret, now))).toBeDefined();
+    expect(verifyTotp(secret, generateTotp(secret, now - 30000))).toBeDefined();
+    expect(
+      verifyTotp(secret, generateTotp(secret, now - 120000)),
+    ).toBeUndefined();
+    expect(verifyTotp(secret, 'abcdef')).toBeUndefined();
+  });
+
+  it('generates secrets of 160 bits', () => {
+    expect(base32Decode(generateTotpSecret())).toHaveLength(20);
+  });
+
+  it('builds the otpauth URI imported by authenticator apps', () => {
+    expect(getOtpauthUri(secret, 'user@example.com', 'Ordering App')).toBe(
+      `otpauth://totp/Ordering%20App:user%40example.com?secret=${secret}&issuer=Ordering+App&algorithm=SHA1&digits=6&period=30`,
+    );
+  });
+});
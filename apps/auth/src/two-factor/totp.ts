@@ -0,0 +1,141 @@
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+
+/**
+ * Alphabet of the base32 encoding (RFC 4648), used by authenticator apps for the secrets.
+ */
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+/**
+ * Duration (in seconds) during which a TOTP code is valid.
+ */
+export const TOTP_PERIOD = 30;
+
+/**
+ * Number of digits of a TOTP code.
+ */
+export const TOTP_DIGITS = 6;
+
+/**
+ * Encodes bytes in base32, without padding.
+ * @param {Buffer} buffer The bytes to encode.
+ * @returns {string} The base32 string.
+ */
+export const base32Encode = (buffer: Buffer): string => {
+  let bits = '';
+  buffer.forEach((byte) => (bits += byte.toString(2).padStart(8, '0')));
+  let encoded = '';
+  for (let i = 0; i < bits.length; i += 5) {
+    encoded +=
+      BASE32_ALPHABET[parseInt(bits.slice(i, i + 5).padEnd(5, '0'), 2)];
+  }
+  return encoded;
+};
+
+/**
+ * Decodes a base32 string, ignoring case, spaces and padding.
+ * @param {string} encoded The base32 string.
+ * @returns {Buffer} The decoded bytes.
+ * @throws {Error} If the string holds a character outside of the base32 alphabet.
+ */
+export const base32Decode = (encoded: string): Buffer => {
+  let bits = '';
+  for (const char of encoded.toUpperCase().replace(/[\s=]/g, '')) {
+    const value = BASE32_ALPHABET.indexOf(char);
+    if (value < 0) {
+      throw new Error(`Invalid base32 character "${char}".`);
+    }
+    bits += value.toString(2).padStart(5, '0');
+  }
+  const bytes = [];
+  for (let i = 0; i + 8 <= bits.length; i += 8) {
+    bytes.push(parseInt(bits.slice(i, i + 8), 2));
+  }
+  return Buffer.from(bytes);
+};
+
+/**
+ * Generates a new TOTP secret of 160 bits, the size of an HMAC-SHA1 key recommended by RFC 4226.
+ * @returns {string} The secret, in base32.
+ */
+export const generateTotpSecret = (): string => base32Encode(randomBytes(20));
+
+/**
+ * Computes the HOTP code (RFC 4226) of a counter.
+ * @param {Buffer} key The shared secret.
+ * @param {number} counter The counter, i.e. the time step for TOTP.
+ * @returns {string} The code, left-padded with zeros to {@link TOTP_DIGITS} digits.
+ */
+const hotp = (key: Buffer, counter: number): string => {
+  const message = Buffer.alloc(8);
+  message.writeBigUInt64BE(BigInt(counter));
+  const hmac = createHmac('sha1', key).update(message).digest();
+  // Dynamic truncation: the low nibble of the last byte picks 4 bytes of the HMAC
+  const offset = hmac[hmac.length - 1] & 0xf;
+  const code = (hmac.readUInt32BE(offset) & 0x7fffffff) % 10 ** TOTP_DIGITS;
+  return String(code).padStart(TOTP_DIGITS, '0');
+};
+
+/**
+ * Returns the time step of a date.
+ * @param {number} [time=Date.now()] The date, in milliseconds since the epoch.
+ * @returns {number} The number of {@link TOTP_PERIOD} elapsed since the epoch.
+ */
+export const getTotpStep = (time: number = Date.now()): number =>
+  Math.floor(time / 1000 / TOTP_PERIOD);
+
+/**
+ * Computes the TOTP code (RFC 6238) of a secret at a date.
+ * @param {string} secret The shared secret, in base32.
+ * @param {number} [time=Date.now()] The date, in milliseconds since the epoch.
+ * @returns {string} The code.
+ */
+export const generateTotp = (secret: string, time: number = Date.now()) =>
+  hotp(base32Decode(secret), getTotpStep(time));
+
+/**
+ * Checks a TOTP code against the current time step and its neighbours, tolerating the clock drift of the user's device.
+ * @param {string} secret The shared secret, in base32.
+ * @param {string} code The code entered by the user.
+ * @param {number} [window=1] Number of steps accepted before and after the current one.
+ * @returns {number | undefined} The time step the code matches, or `undefined` if it matches none.
+ */
+export const verifyTotp = (
+  secret: string,
+  code: string,
+  window = 1,
+): number | undefined => {
+  if (!new RegExp(`^\\d{${TOTP_DIGITS}}$`).test(code)) {
+    return undefined;
+  }
+  const key = base32Decode(secret);
+  const current = getTotpStep();
+  for (let step = current - window; step <= current + window; step++) {
+    if (timingSafeEqual(Buffer.from(hotp(key, step)), Buffer.from(code))) {
+      return step;
+    }
+  }
+  return undefined;
+};
+
+/**
+ * Builds the `otpauth://` URI of a secret, which authenticator apps import (usually scanned as a QR code).
+ * @param {string} secret The shared secret, in base32.
+ * @param {string} account The account the secret belongs to, displayed by the app.
+ * @param {string} issuer The service the account belongs to, displayed by the app.
+ * @returns {string} The key URI.
+ */
+export const getOtpauthUri = (
+  secret: string,
+  account: string,
+  issuer: string,
+): string => {
+  const label = `${encodeURIComponent(issuer)}:${encodeURIComponent(account)}`;
+  const params = new URLSearchParams({
+    secret,
+    issuer,
+    algorithm: 'SHA1',
+    digits: String(TOTP_DIGITS),
+    period: String(TOTP_PERIOD),
+  });
+  return `otpauth://totp/${label}?${params}`;
+};
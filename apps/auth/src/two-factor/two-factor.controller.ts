@@ -0,0 +1,81 @@
+import {
+  Body,
+  Controller,
+  HttpCode,
+  HttpStatus,
+  Post,
+  UseGuards,
+} from '@nestjs/common';
+import { CurrentUser } from '../current-user.decorator';
+import JwtAuthGuard from '../guards/jwt-auth.guard';
+import { User } from '../users/models/user.schema';
+import { TwoFactorCodeReq } from './dto/two-factor-code.req';
+import { TwoFactorEnrollment, TwoFactorService } from './two-factor.service';
+
+/**
+ * Controller managing the two-factor authentication of the authenticated user, under the `/auth/2fa` route.
+ * The login with a second factor itself is handled by `POST /auth/2fa/login` of the `AuthController`.
+ * @Controller('auth/2fa') Sets the base route for this controller to `/auth/2fa`.
+ */
+@Controller('auth/2fa')
+@UseGuards(JwtAuthGuard)
+export class TwoFactorController {
+  /**
+   * Constructor for `TwoFactorController`.
+   * @param {TwoFactorService} twoFactorService - Injected `TwoFactorService` instance.
+   */
+  constructor(private readonly twoFactorService: TwoFactorService) {}
+
+  /**
+   * Endpoint generating a TOTP secret, to be added to an authenticator app and confirmed with `POST /auth/2fa/verify`.
+   * @Post('enroll') Defines this method as handling POST requests to '/auth/2fa/enroll'.
+   * @param {User} user - The authenticated user.
+   * @returns {Promise<TwoFactorEnrollment>} A Promise that resolves to the secret and its `otpauth://` URI.
+   * @throws {ConflictException} If two-factor authentication is already enabled.
+   */
+  @Post('enroll')
+  async enroll(@CurrentUser() user: User): Promise<TwoFactorEnrollment> {
+    return this.twoFactorService.enroll(user._id.toHexString());
+  }
+
+  /**
+   * Endpoint enabling two-factor authentication with a code of the enrolled authenticator app.
+   * @Post('verify') Defines this method as handling POST requests to '/auth/2fa/verify'.
+   * @HttpCode(HttpStatus.OK) Answers with `200 OK`, as no resource is created.
+   * @param {User} user - The authenticated user.
+   * @param {TwoFactorCodeReq} request - A TOTP code of the authenticator app.
+   * @returns {Promise<{ recoveryCodes: string[] }>} A Promise that resolves to the recovery codes, which the user must keep safe.
+   * @throws {BadRequestException} If the user did not enroll, or the code is not valid.
+   */
+  @Post('verify')
+  @HttpCode(HttpStatus.OK)
+  async verify(
+    @CurrentUser() user: User,
+    @Body() request: TwoFactorCodeReq,
+  ): Promise<{ recoveryCodes: string[] }> {
+    return {
+      recoveryCodes: await this.twoFactorService.confirm(
+        user._id.toHexString(),
+        request.code,
+      ),
+    };
+  }
+
+  /**
+   * Endpoint disabling two-factor authentication.
+   * @Post('disable') Defines this method as handling POST requests to '/auth/2fa/disable'.
+   * @HttpCode(HttpStatus.NO_CONTENT) Answers with `204 No Content`.
+   * @param {User} user - The authenticated user.
+   * @param {TwoFactorCodeReq} request - A TOTP code or a recovery code.
+   * @returns {Promise<void>}
+   * @throws {BadRequestException} If two-factor authentication is not enabled, or the code is not valid.
+   */
+  @Post('disable')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async disable(
+    @CurrentUser() user: User,
+    @Body() request: TwoFactorCodeReq,
+  ): Promise<void> {
+    await this.twoFactorService.disable(user._id.toHexString(), request.code);
+  }
+}
@@ -0,0 +1,19 @@
+import { Module } from '@nestjs/common';
+import { AuditLogModule } from '../audit-log/audit-log.module';
+import { LoginAttemptsModule } from '../login-attempts/login-attempts.module';
+import { UserTokensModule } from '../user-tokens/user-tokens.module';
+import { UsersModule } from '../users/users.module';
+import { TwoFactorController } from './two-factor.controller';
+import { TwoFactorService } from './two-factor.service';
+
+/**
+ * Module managing the TOTP two-factor authentication of the users.
+ * @exports {TwoFactorService} Exports the `TwoFactorService` class, used by the `AuthService` to challenge the users at login.
+ */
+@Module({
+  imports: [AuditLogModule, UsersModule, UserTokensModule, LoginAttemptsModule],
+  controllers: [TwoFactorController],
+  providers: [TwoFactorService],
+  exports: [TwoFactorService],
+})
+export class TwoFactorModule {}
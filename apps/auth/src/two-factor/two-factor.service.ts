@@ -0,0 +1,338 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  NotFoundException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { createHash, randomBytes } from 'crypto';
+import { Types } from 'mongoose';
+import { LoginAttemptsService } from '../login-attempts/login-attempts.service';
+import { UserTokenPurpose } from '../user-tokens/models/user-token.schema';
+import { UserTokensService } from '../user-tokens/user-tokens.service';
+import { User } from '../users/models/user.schema';
+import { UsersRepository } from '../users/users.repository';
+import {
+  base32Encode,
+  generateTotpSecret,
+  getOtpauthUri,
+  verifyTotp,
+} from './totp';
+
+/**
+ * Number of recovery codes generated when two-factor authentication is enabled.
+ */
+const RECOVERY_CODES = 10;
+
+/**
+ * Secret returned by the enrollment, to be added to an authenticator app.
+ */
+export interface TwoFactorEnrollment {
+  /**
+   * The base32 secret, for the apps into which it is typed.
+   */
+  secret: string;
+
+  /**
+   * The `otpauth://` URI of the secret, usually displayed as a QR code.
+   */
+  otpauthUri: string;
+}
+
+/**
+ * Challenge returned by the login of a user with two-factor authentication, instead of the authentication cookies.
+ */
+export interface TwoFactorChallenge {
+  /**
+   * Always `true`, telling the client to ask for a code.
+   */
+  twoFactorRequired: true;
+
+  /**
+   * The token to exchange, along with a code, for the authentication cookies at `POST /auth/2fa/login`.
+   */
+  challengeToken: string;
+
+  /**
+   * Date after which the challenge token can no longer be used.
+   */
+  expiresAt: Date;
+}
+
+/**
+ * Injectable service managing the TOTP two-factor authentication of the users.
+ * Enrollment is two-step: `enroll` generates a secret, which `confirm` enables once the user proved their app generates valid codes.
+ * The user then gets single-use recovery codes, stored hashed, to log in without their app.
+ */
+@Injectable()
+export class TwoFactorService {
+  /**
+   * Constructor for `TwoFactorService`.
+   * @param {UsersRepository} usersRepository - Injected `UsersRepository` instance, storing the secret and recovery codes of the users.
+   * @param {UserTokensService} userTokensService - Injected `UserTokensService` instance, issuing the login challenge tokens.
+   * @param {LoginAttemptsService} loginAttemptsService - Injected `LoginAttemptsService` instance, locking out the guessing of codes.
+   * @param {ConfigService} configService - Injected `ConfigService` instance, used to read `TWO_FACTOR_ISSUER` and `TWO_FACTOR_CHALLENGE_EXPIRATION`.
+   */
+  constructor(
+    private readonly usersRepository: UsersRepository,
+    private readonly userTokensService: UserTokensService,
+    private readonly loginAttemptsService: LoginAttemptsService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  /**
+   * Generates a new TOTP secret for a user. It is only used for logins once confirmed with {@link confirm}.
+   * Enrolling again before confirming replaces the pending secret.
+   * @async
+   * @param {string} userId - Identifier of the user.
+   * @returns {Promise<TwoFactorEnrollment>} A Promise that resolves to the secret to add to an authenticator app.
+   * @throws {ConflictException} If two-factor authentication is already enabled.
+   */
+  async enroll(userId: string): Promise<TwoFactorEnrollment> {
+    const secret = generateTotpSecret();
+    let user: User;
+    try {
+      user = await this.usersRepository.findOneAndUpdate(
+        // Users created before two-factor authentication have no `twoFactorEnabled` field
+        { _id: new Types.ObjectId(userId), twoFactorEnabled: { $ne: true } },
+        { $set: { totpSecret: secret } },
+      );
+    } catch (err) {
+      if (err instanceof NotFoundException) {
+        throw new ConflictException(
+          'Two-factor authentication is already enabled.',
+        );
+      }
+      throw err;
+    }
+    return {
+      secret,
+      otpauthUri: getOtpauthUri(
+        secret,
+        user.email,
+        this.configService.get('TWO_FACTOR_ISSUER'),
+      ),
+    };
+  }
+
+  /**
+   * Enables two-factor authentication, once the user entered a code generated from the enrolled secret.
+   * @async
+   * @param {string} userId - Identifier of the user.
+   * @param {string} code - A TOTP code of the authenticator app.
+   * @returns {Promise<string[]>} A Promise that resolves to the recovery codes, only ever returned here.
+   * @throws {ConflictException} If two-factor authentication is already enabled.
+   * @throws {BadRequestException} If the user did not enroll, or the code is not valid.
+   */
+  async confirm(userId: string, code: string): Promise<string[]> {
+    const user = await this.usersRepository.findOne({
+      _id: new Types.ObjectId(userId),
+    });
+    if (user.twoFactorEnabled) {
+      throw new ConflictException(
+        'Two-factor authentication is already enabled.',
+      );
+    }
+    if (!user.totpSecret) {
+      throw new BadRequestException(
+        'Enroll in two-factor authentication first.',
+      );
+    }
+    const step = verifyTotp(user.totpSecret, code);
+    if (step === undefined) {
+      throw new BadRequestException('Code is not valid.');
+    }
+    const recoveryCodes = Array.from({ length: RECOVERY_CODES }, () =>
+      this.generateRecoveryCode(),
+    );
+    await this.usersRepository.findOneAndUpdate(
+      { _id: user._id, version: user.version },
+      {
+        $set: {
+          twoFactorEnabled: true,
+          totpLastStep: step,
+          recoveryCodes: recoveryCodes.map((recoveryCode) =>
+            this.hash(recoveryCode),
+          ),
+        },
+      },
+    );
+    return recoveryCodes;
+  }
+
+  /**
+   * Disables two-factor authentication and forgets the secret and recovery codes.
+   * @async
+   * @param {string} userId - Identifier of the user.
+   * @param {string} code - A TOTP code or a recovery code, proving the request does not come from a stolen session only.
+   * @returns {Promise<void>}
+   * @throws {BadRequestException} If two-factor authentication is not enabled, or the code is not valid.
+   */
+  async disable(userId: string, code: string): Promise<void> {
+    const user = await this.usersRepository.findOne({
+      _id: new Types.ObjectId(userId),
+    });
+    if (!user.twoFactorEnabled) {
+      throw new BadRequestException(
+        'Two-factor authentication is not enabled.',
+      );
+    }
+    if (!(await this.verifyCode(user, code))) {
+      throw new BadRequestException('Code is not valid.');
+    }
+    await this.usersRepository.findOneAndUpdate(
+      { _id: user._id },
+      {
+        $set: { twoFactorEnabled: false, recoveryCodes: [] },
+        $unset: { totpSecret: '', totpLastStep: '' },
+      },
+    );
+  }
+
+  /**
+   * Issues the challenge a user with two-factor authentication must answer after their password was checked.
+   * @async
+   * @param {User} user - The user logging in.
+   * @returns {Promise<TwoFactorChallenge>} A Promise that resolves to the challenge.
+   */
+  async createChallenge(user: User): Promise<TwoFactorChallenge> {
+    const expiration = this.configService.get<number>(
+      'TWO_FACTOR_CHALLENGE_EXPIRATION',
+    );
+    const expiresAt = new Date(Date.now() + expiration * 1000);
+    const challengeToken = await this.userTokensService.issue(
+      user._id.toHexString(),
+      UserTokenPurpose.TWO_FACTOR_CHALLENGE,
+      expiration,
+    );
+    return { twoFactorRequired: true, challengeToken, expiresAt };
+  }
+
+  /**
+   * Answers a login challenge with a TOTP code or a recovery code.
+   * Wrong codes count as failed logins of the account, so that they cannot be guessed within the lifetime of the challenge.
+   * The failed logins of the account are only cleared here, once the second factor is checked.
+   * @async
+   * @param {string} challengeToken - The challenge token returned by the login.
+   * @param {string} code - A TOTP code or a recovery code.
+   * @param {string} ip - The IP of the client.
+   * @returns {Promise<User>} A Promise that resolves to the user, who can now be logged in.
+   * @throws {UnauthorizedException} If the challenge token or the code is not valid.
+   * @throws {HttpException} With status `429 Too Many Requests` if the account or the client IP is locked out.
+   */
+  async answerChallenge(
+    challengeToken: string,
+    code: string,
+    ip: string,
+  ): Promise<User> {
+    let userId: string;
+    try {
+      userId = await this.userTokensService.find(
+        challengeToken,
+        UserTokenPurpose.TWO_FACTOR_CHALLENGE,
+      );
+    } catch (err) {
+      throw new UnauthorizedException('Challenge is not valid or has expired.');
+    }
+    const user = await this.usersRepository.findOne({
+      _id: new Types.ObjectId(userId),
+    });
+    await this.loginAttemptsService.assertAllowed(user.email, ip);
+    if (!(await this.verifyCode(user, code))) {
+      await this.loginAttemptsService.recordFailure(user.email, ip);
+      throw new UnauthorizedException('Code is not valid.');
+    }
+    try {
+      await this.userTokensService.consume(
+        challengeToken,
+        UserTokenPurpose.TWO_FACTOR_CHALLENGE,
+      );
+    } catch (err) {
+      // Answered concurrently: only the first answer logs in
+      throw new UnauthorizedException('Challenge is not valid or has expired.');
+    }
+    await this.loginAttemptsService.recordSuccess(user.email);
+    return user;
+  }
+
+  /**
+   * Checks a second factor code, consuming it so that it cannot be used again.
+   * Six-digit codes are checked as TOTP codes, newer than the last one accepted; other codes as recovery codes.
+   * @private
+   * @async
+   * @param {User} user - The user, with two-factor authentication enabled.
+   * @param {string} code - A TOTP code or a recovery code.
+   * @returns {Promise<boolean>} A Promise that resolves to `true` if the code is valid and was not used yet.
+   */
+  private async verifyCode(user: User, code: string): Promise<boolean> {
+    if (/^\d{6}$/.test(code)) {
+      const step = verifyTotp(user.totpSecret, code);
+      return (
+        step !== undefined &&
+        this.consumeCode(
+          user,
+          { totpLastStep: { $not: { $gte: step } } },
+          { $set: { totpLastStep: step } },
+        )
+      );
+    }
+    const hash = this.hash(code);
+    return this.consumeCode(
+      user,
+      { recoveryCodes: hash },
+      { $pull: { recoveryCodes: hash } },
+    );
+  }
+
+  /**
+   * Atomically applies the update consuming a code, provided the user still matches the filter.
+   * @private
+   * @async
+   * @param {User} user - The user.
+   * @param {object} filter - The condition under which the code is still valid.
+   * @param {object} update - The update consuming the code.
+   * @returns {Promise<boolean>} A Promise that resolves to `true` if the code was consumed.
+   */
+  private async consumeCode(
+    user: User,
+    filter: object,
+    update: object,
+  ): Promise<boolean> {
+    try {
+      await this.usersRepository.findOneAndUpdate(
+        { _id: user._id, ...filter },
+        update,
+      );
+      return true;
+    } catch (err) {
+      if (err instanceof NotFoundException) {
+        return false;
+      }
+      throw err;
+    }
+  }
+
+  /**
+   * Generates a recovery code of 50 random bits, formatted as `XXXXX-XXXXX`.
+   * @private
+   * @returns {string} The recovery code.
+   */
+  private generateRecoveryCode(): string {
+    const code = base32Encode(randomBytes(7)).slice(0, 10);
+    return `${code.slice(0, 5)}-${code.slice(5)}`;
+  }
+
+  /**
+   * Hashes a recovery code, ignoring its case and dashes so that the user can type it loosely.
+   * Recovery codes are random and single-use, which a fast hash is enough to protect, unlike passwords.
+   * @private
+   * @param {string} code The recovery code.
+   * @returns {string} The SHA-256 hash of the normalized code, in hex.
+   */
+  private hash(code: string): string {
+    return createHash('sha256')
+      .update(code.toUpperCase().replace(/[^A-Z2-7]/g, ''))
+      .digest('hex');
+  }
+}
@@ -0,0 +1,73 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { AbstractDocument } from '@app/common';
+
+/**
+ * Actions a user token proves the user is entitled to.
+ */
+export enum UserTokenPurpose {
+  /**
+   * Sets a new password, for a user who forgot theirs.
+   */
+  PASSWORD_RESET = 'password_reset',
+
+  /**
+   * Proves the user owns the email address they registered with.
+   */
+  EMAIL_VERIFICATION = 'email_verification',
+
+  /**
+   * Completes a login with a second factor, after the password was checked.
+   */
+  TWO_FACTOR_CHALLENGE = 'two_factor_challenge',
+}
+
+/**
+ * Mongoose schema definition for the `UserToken` document.
+ * User tokens are single-use random strings sent by email, only their SHA-256 hash is stored.
+ * Records are removed by MongoDB once `expiresAt` is reached, through a TTL index.
+ * @Schema({ versionKey: false, collection: 'user_tokens' }) Decorator that stores the tokens in the `user_tokens` collection and disables the version key (__v).
+ */
+@Schema({ versionKey: false, collection: 'user_tokens' })
+export class UserToken extends AbstractDocument {
+  /**
+   * SHA-256 hash (hex) of the token.
+   * @type {string}
+   */
+  @Prop({ required: true, unique: true })
+  tokenHash: string;
+
+  /**
+   * Identifier of the user the token was issued to.
+   * @type {string}
+   */
+  @Prop({ required: true, index: true })
+  userId: string;
+
+  /**
+   * Action the token can be used for.
+   * @type {UserTokenPurpose}
+   */
+  @Prop({ type: String, enum: UserTokenPurpose, required: true })
+  purpose: UserTokenPurpose;
+
+  /**
+   * Date after which the token can no longer be used.
+   * @type {Date}
+   */
+  @Prop({ required: true })
+  expiresAt: Date;
+
+  /**
+   * Date at which the token was used, or superseded by a newer token of the same purpose.
+   * @type {Date}
+   */
+  @Prop()
+  usedAt?: Date;
+}
+
+/**
+ * Mongoose `SchemaFactory` for the `UserToken` class.
+ * The TTL index purges the expired tokens.
+ */
+export const UserTokenSchema = SchemaFactory.createForClass(UserToken);
+UserTokenSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
@@ -0,0 +1,20 @@
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import { UserToken, UserTokenSchema } from './models/user-token.schema';
+import { UserTokensRepository } from './user-tokens.repository';
+import { UserTokensService } from './user-tokens.service';
+
+/**
+ * Module managing the single-use tokens used to reset passwords and verify email addresses.
+ * @exports {UserTokensService} Exports the `UserTokensService` class, used by the `UsersService` to issue and consume the tokens.
+ */
+@Module({
+  imports: [
+    MongooseModule.forFeature([
+      { name: UserToken.name, schema: UserTokenSchema },
+    ]),
+  ],
+  providers: [UserTokensService, UserTokensRepository],
+  exports: [UserTokensService],
+})
+export class UserTokensModule {}
@@ -0,0 +1,48 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectConnection, InjectModel } from '@nestjs/mongoose';
+import { Connection, Model } from 'mongoose';
+import { AbstractRepository } from '@app/common';
+import { UserToken, UserTokenPurpose } from './models/user-token.schema';
+
+/**
+ * Injectable repository for managing `UserToken` entities in MongoDB.
+ * Extends the `AbstractRepository` to inherit common database operations, specialized for the `UserToken` model.
+ */
+@Injectable()
+export class UserTokensRepository extends AbstractRepository<UserToken> {
+  /**
+   * Logger instance for UserTokensRepository.
+   * @protected
+   * @readonly
+   */
+  protected readonly logger = new Logger(UserTokensRepository.name);
+
+  /**
+   * Constructor for `UserTokensRepository`.
+   * @param {Model<UserToken>} userTokenModel - Injected Mongoose model for the `UserToken` entity.
+   * @param {Connection} connection - Injected Mongoose connection.
+   */
+  constructor(
+    @InjectModel(UserToken.name) userTokenModel: Model<UserToken>,
+    @InjectConnection() connection: Connection,
+  ) {
+    super(userTokenModel, connection);
+  }
+
+  /**
+   * Marks as used every unused token of a user for a purpose.
+   * @async
+   * @param {string} userId Identifier of the user.
+   * @param {UserTokenPurpose} purpose Purpose of the tokens.
+   * @returns {Promise<number>} A Promise that resolves to the number of invalidated tokens.
+   */
+  async invalidate(userId: string, purpose: UserTokenPurpose): Promise<number> {
+    const now = new Date();
+    const { modifiedCount } = await this.model.updateMany(
+      { userId, purpose, usedAt: null },
+      { $set: { usedAt: now, updatedAt: now }, $inc: { version: 1 } },
+      { session: this.session },
+    );
+    return modifiedCount;
+  }
+}
@@ -0,0 +1,59 @@
+import { BadRequestException, NotFoundException } from '@nestjs/common';
+import { UserTokenPurpose } from './models/user-token.schema';
+import { UserTokensRepository } from './user-tokens.repository';
+import { UserTokensService } from './user-tokens.service';
+
+describe('UserTokensService', () => {
+  const userTokensRepository = {
+    invalidate: jest.fn().mockResolvedValue(1),
+    create: jest.fn().mockResolvedValue(undefined),
+    findOneAndUpdate: jest.fn(),
+  };
+  const service = new UserTokensService(
+    userTokensRepository as unknown as UserTokensRepository,
+  );
+
+  beforeEach(() => jest.clearAllMocks());
+
+  it('stores the hash of an issued token and invalidates the previous ones', async () => {
+    const token = await service.issue(
+      'user-id',
+      UserTokenPurpose.PASSWORD_RESET,
+      3600,
+    );
+
+    expect(userTokensRepository.invalidate).toHaveBeenCalledWith(
+      'user-id',
+      UserTokenPurpose.PASSWORD_RESET,
+    );
+    const [stored] = userTokensRepository.create.mock.calls[0];
+    expect(stored.tokenHash).toMatch(/^[0-9a-f]{64}$/);
+    expect(stored.tokenHash).not.toContain(token);
+    expect(stored.expiresAt.getTime()).toBeGreaterThan(Date.now());
+  });
+
+  it('consumes an unused and unexpired token of the same purpose', async () => {
+    userTokensRepository.findOneAndUpdate.mockResolvedValue({
+      userId: 'user-id',
+    });
+
+    await expect(
+      service.consume('token', UserTokenPurpose.EMAIL_VERIFICATION),
+    ).resolves.toBe('user-id');
+    const [filter] = userTokensRepository.findOneAndUpdate.mock.calls[0];
+    expect(filter).toMatchObject({
+      purpose: UserTokenPurpose.EMAIL_VERIFICATION,
+      usedAt: null,
+    });
+  });
+
+  it('rejects a token that is unknown, expired or already used', async () => {
+    userTokensRepository.findOneAndUpdate.mockRejectedValue(
+      new NotFoundException(),
+    );
+
+    await expect(
+      service.consume('token', UserTokenPurpose.PASSWORD_RESET),
+    ).rejects.toBeInstanceOf(BadRequestException);
+  });
+});
@@ -0,0 +1,130 @@
+import {
+  BadRequestException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { createHash, randomBytes } from 'crypto';
+import { FilterQuery } from 'mongoose';
+import { UserToken, UserTokenPurpose } from './models/user-token.schema';
+import { UserTokensRepository } from './user-tokens.repository';
+
+/**
+ * Injectable service issuing and consuming the single-use tokens sent by email to the users.
+ * Issuing a token invalidates the previous tokens of the same purpose, so only the last email sent can be used.
+ */
+@Injectable()
+export class UserTokensService {
+  /**
+   * Constructor for `UserTokensService`.
+   * @param {UserTokensRepository} userTokensRepository - Injected `UserTokensRepository` instance.
+   */
+  constructor(private readonly userTokensRepository: UserTokensRepository) {}
+
+  /**
+   * Issues a new token.
+   * @async
+   * @param {string} userId Identifier of the user.
+   * @param {UserTokenPurpose} purpose Action the token can be used for.
+   * @param {number} expiration Lifetime of the token, in seconds.
+   * @returns {Promise<string>} A Promise that resolves to the token, to be sent to the user.
+   */
+  async issue(
+    userId: string,
+    purpose: UserTokenPurpose,
+    expiration: number,
+  ): Promise<string> {
+    const token = randomBytes(32).toString('base64url');
+    await this.userTokensRepository.invalidate(userId, purpose);
+    await this.userTokensRepository.create({
+      tokenHash: this.hash(token),
+      userId,
+      purpose,
+      expiresAt: new Date(Date.now() + expiration * 1000),
+    });
+    return token;
+  }
+
+  /**
+   * Finds the user a valid token was issued to, without consuming the token.
+   * @async
+   * @param {string} token The token presented by the user.
+   * @param {UserTokenPurpose} purpose Action the token is presented for.
+   * @returns {Promise<string>} A Promise that resolves to the identifier of the user the token was issued to.
+   * @throws {BadRequestException} If the token is unknown, expired, already used or issued for another purpose.
+   */
+  async find(token: string, purpose: UserTokenPurpose): Promise<string> {
+    try {
+      const { userId } = await this.userTokensRepository.findOne(
+        this.validTokenFilter(token, purpose),
+      );
+      return userId;
+    } catch (err) {
+      if (err instanceof NotFoundException) {
+        throw new BadRequestException('Token is not valid or has expired.');
+      }
+      throw err;
+    }
+  }
+
+  /**
+   * Consumes a token. The token is marked as used atomically, so concurrent requests cannot use it twice.
+   * @async
+   * @param {string} token The token presented by the user.
+   * @param {UserTokenPurpose} purpose Action the token is presented for.
+   * @returns {Promise<string>} A Promise that resolves to the identifier of the user the token was issued to.
+   * @throws {BadRequestException} If the token is unknown, expired, already used or issued for another purpose.
+   */
+  async consume(token: string, purpose: UserTokenPurpose): Promise<string> {
+    try {
+      const { userId } = await this.userTokensRepository.findOneAndUpdate(
+        this.validTokenFilter(token, purpose),
+        { $set: { usedAt: new Date() } },
+      );
+      return userId;
+    } catch (err) {
+      if (err instanceof NotFoundException) {
+        throw new BadRequestException('Token is not valid or has expired.');
+      }
+      throw err;
+    }
+  }
+
+  /**
+   * Deletes every token of a user, whatever its purpose, when their account is deleted.
+   * @async
+   * @param {string} userId Identifier of the user.
+   * @returns {Promise<void>}
+   */
+  async deleteAll(userId: string): Promise<void> {
+    await this.userTokensRepository.purge({ userId });
+  }
+
+  /**
+   * Builds the filter matching a token that can still be used for a purpose.
+   * @private
+   * @param {string} token The token presented by the user.
+   * @param {UserTokenPurpose} purpose Action the token is presented for.
+   * @returns {FilterQuery<UserToken>} The filter query.
+   */
+  private validTokenFilter(
+    token: string,
+    purpose: UserTokenPurpose,
+  ): FilterQuery<UserToken> {
+    return {
+      tokenHash: this.hash(token),
+      purpose,
+      usedAt: null,
+      expiresAt: { $gt: new Date() },
+    };
+  }
+
+  /**
+   * Hashes a token, which holds 256 random bits like the refresh tokens.
+   * @private
+   * @param {string} token The token.
+   * @returns {string} The SHA-256 hash of the token, in hex.
+   */
+  private hash(token: string): string {
+    return createHash('sha256').update(token).digest('hex');
+  }
+}
@@ -0,0 +1,14 @@
+import { IsEmail } from 'class-validator';
+
+/**
+ * Data Transfer Object (DTO) for requesting a password reset email.
+ */
+export class ForgotPasswordReq {
+  /**
+   * Email address of the account to recover.
+   * @IsEmail() Decorator that validates if the provided value is a valid email address format.
+   * @type {string}
+   */
+  @IsEmail()
+  email: string;
+}
@@ -0,0 +1,29 @@
+import { Type } from 'class-transformer';
+import { IsInt, IsOptional, IsString, Max, Min } from 'class-validator';
+
+/**
+ * Data Transfer Object (DTO) for the query string of the user listing.
+ * It selects a page of users, from the most recently registered.
+ */
+export class GetUsersQuery {
+  /**
+   * Maximum number of users in the page.
+   * @IsInt() @Min(1) @Max(100) Decorators that validate the limit is an integer between 1 and 100.
+   * @type {number}
+   */
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  limit?: number;
+
+  /**
+   * Cursor returned as `nextCursor` by the previous page.
+   * @IsString() Decorator that validates the cursor is a string.
+   * @type {string}
+   */
+  @IsOptional()
+  @IsString()
+  cursor?: string;
+}
@@ -0,0 +1,14 @@
+import { IsEmail } from 'class-validator';
+
+/**
+ * Data Transfer Object (DTO) for requesting a new verification email.
+ */
+export class ResendVerificationReq {
+  /**
+   * Email address to verify.
+   * @IsEmail() Decorator that validates if the provided value is a valid email address format.
+   * @type {string}
+   */
+  @IsEmail()
+  email: string;
+}
@@ -0,0 +1,26 @@
+import { IsNotEmpty, IsString } from 'class-validator';
+
+/**
+ * Data Transfer Object (DTO) for setting a new password with the token of a password reset email.
+ */
+export class ResetPasswordReq {
+  /**
+   * The token received by email.
+   * @IsString() Decorator that validates if the provided value is a string.
+   * @IsNotEmpty() Decorator that validates if the string is not empty.
+   * @type {string}
+   */
+  @IsString()
+  @IsNotEmpty()
+  token: string;
+
+  /**
+   * The new password, validated as the password given at registration.
+   * @IsString() Decorator that validates if the provided value is a string.
+   * @IsNotEmpty() Decorator that validates if the string is not empty.
+   * @type {string}
+   */
+  @IsString()
+  @IsNotEmpty()
+  password: string;
+}
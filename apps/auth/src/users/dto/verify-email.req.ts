@@ -0,0 +1,16 @@
+import { IsNotEmpty, IsString } from 'class-validator';
+
+/**
+ * Data Transfer Object (DTO) for verifying an email address with the token of a verification email.
+ */
+export class VerifyEmailReq {
+  /**
+   * The token received by email.
+   * @IsString() Decorator that validates if the provided value is a string.
+   * @IsNotEmpty() Decorator that validates if the string is not empty.
+   * @type {string}
+   */
+  @IsString()
+  @IsNotEmpty()
+  token: string;
+}
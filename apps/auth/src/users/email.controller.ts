@@ -0,0 +1,60 @@
+import {
+  Body,
+  Controller,
+  HttpCode,
+  HttpStatus,
+  Post,
+  UseGuards,
+} from '@nestjs/common';
+import { RateLimit, RateLimitGuard, Serialize, UserView } from '@app/common';
+import { ResendVerificationReq } from './dto/resend-verification.req';
+import { VerifyEmailReq } from './dto/verify-email.req';
+import { User } from './models/user.schema';
+import { UsersService } from './users.service';
+
+/**
+ * Controller verifying the email addresses of the users, under the `/auth/email` route.
+ * @Controller('auth/email') Sets the base route for this controller to `/auth/email`.
+ */
+@Controller('auth/email')
+export class EmailController {
+  /**
+   * Constructor for `EmailController`.
+   * @param {UsersService} usersService - Injected `UsersService` instance, running the email verification flow.
+   */
+  constructor(private readonly usersService: UsersService) {}
+
+  /**
+   * Endpoint verifying an email address with the token sent at signup.
+   * @Post('verify') Defines this method as handling POST requests to '/auth/email/verify'.
+   * @HttpCode(HttpStatus.OK) Answers with `200 OK`, as no resource is created.
+   * @Serialize(UserView) Decorator that strips the password hash from the verified user.
+   * @Body() `request` - The token of the verification email.
+   * @returns {Promise<User>} A Promise that resolves to the verified user.
+   */
+  @Post('verify')
+  @HttpCode(HttpStatus.OK)
+  @Serialize(UserView)
+  async verifyEmail(@Body() request: VerifyEmailReq): Promise<User> {
+    return this.usersService.verifyEmail(request.token);
+  }
+
+  /**
+   * Endpoint sending a new verification email, the previous one being no longer valid.
+   * It answers the same way whether the email is registered or not.
+   * @Post('verify/resend') Defines this method as handling POST requests to '/auth/email/verify/resend'.
+   * @HttpCode(HttpStatus.ACCEPTED) Answers with `202 Accepted`, the email being sent if the address awaits verification.
+   * @RateLimit({ limit: 5, window: 3600 }) Accepts 5 requests per hour and client IP, so that verification emails cannot be used to spam an address.
+   * @Body() `request` - The email address to verify.
+   * @returns {Promise<void>}
+   */
+  @Post('verify/resend')
+  @HttpCode(HttpStatus.ACCEPTED)
+  @UseGuards(RateLimitGuard)
+  @RateLimit({ limit: 5, window: 3600 })
+  async resendEmailVerification(
+    @Body() request: ResendVerificationReq,
+  ): Promise<void> {
+    await this.usersService.resendEmailVerification(request.email);
+  }
+}
@@ -1,5 +1,5 @@
 import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
-import { AbstractDocument } from '@app/common';
+import { AbstractDocument, Permission, Role } from '@app/common';
 
 /**
  * Mongoose schema definition for the `User` document.
@@ -10,11 +10,11 @@ import { AbstractDocument } from '@app/common';
 @Schema({ versionKey: false })
 export class User extends AbstractDocument {
   /**
-   * Email address of the user.
-   * @Prop() Decorator that defines this property as a field in the Mongoose schema.
+   * Email address of the user, unique across accounts (index declared by the `users-unique-email` migration).
+   * @Prop({ unique: true }) Decorator that defines this property as a uniquely indexed field in the Mongoose schema.
    * @type {string}
    */
-  @Prop()
+  @Prop({ unique: true })
   email: string;
 
   /**
@@ -24,6 +24,70 @@ export class User extends AbstractDocument {
    */
   @Prop()
   password: string;
+
+  /**
+   * Roles of the user, checked against the `@Roles()` of the routes.
+   * @Prop() Decorator that defines this property as an array of roles, every user having the `user` role.
+   * @type {Role[]}
+   */
+  @Prop({ type: [String], enum: Role, default: [Role.USER] })
+  roles: Role[];
+
+  /**
+   * Permissions granted to the user on top of those of its roles, checked against the `@Permissions()` of the routes.
+   * @Prop() Decorator that defines this property as an array of permissions.
+   * @type {Permission[]}
+   */
+  @Prop({ type: [String], enum: Permission, default: [] })
+  permissions: Permission[];
+
+  /**
+   * Whether the user proved they own their email address, by following a verification or password reset email.
+   * @Prop() Decorator that defines this property as a boolean, `false` at registration.
+   * @type {boolean}
+   */
+  @Prop({ default: false })
+  emailVerified: boolean;
+
+  /**
+   * Whether the user must enter a TOTP code, or a recovery code, after their password to log in.
+   * @Prop() Decorator that defines this property as a boolean, set once the user confirmed their enrollment.
+   * @type {boolean}
+   */
+  @Prop({ default: false })
+  twoFactorEnabled: boolean;
+
+  /**
+   * Base32 secret shared with the authenticator app of the user, set at enrollment.
+   * @Prop() Decorator that defines this property as an optional string.
+   * @type {string}
+   */
+  @Prop()
+  totpSecret?: string;
+
+  /**
+   * Time step of the last TOTP code accepted, so that a code cannot be replayed within its validity period.
+   * @Prop() Decorator that defines this property as an optional number.
+   * @type {number}
+   */
+  @Prop()
+  totpLastStep?: number;
+
+  /**
+   * SHA-256 hashes of the unused recovery codes, each of them replacing a TOTP code once.
+   * @Prop() Decorator that defines this property as an array of strings.
+   * @type {string[]}
+   */
+  @Prop({ type: [String], default: [] })
+  recoveryCodes?: string[];
+
+  /**
+   * Version of the access tokens of the user, incremented to reject all of them at once (e.g. when logging out of every device).
+   * @Prop() Decorator that defines this property as a number, missing on the users registered before it existed.
+   * @type {number}
+   */
+  @Prop({ default: 0 })
+  tokenVersion?: number;
 }
 
 /**
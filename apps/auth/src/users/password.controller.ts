@@ -0,0 +1,55 @@
+import {
+  Body,
+  Controller,
+  HttpCode,
+  HttpStatus,
+  Post,
+  UseGuards,
+} from '@nestjs/common';
+import { RateLimit, RateLimitGuard } from '@app/common';
+import { ForgotPasswordReq } from './dto/forgot-password.req';
+import { ResetPasswordReq } from './dto/reset-password.req';
+import { UsersService } from './users.service';
+
+/**
+ * Controller letting users who forgot their password choose a new one, under the `/auth/password` route.
+ * @Controller('auth/password') Sets the base route for this controller to `/auth/password`.
+ */
+@Controller('auth/password')
+export class PasswordController {
+  /**
+   * Constructor for `PasswordController`.
+   * @param {UsersService} usersService - Injected `UsersService` instance, running the password reset flow.
+   */
+  constructor(private readonly usersService: UsersService) {}
+
+  /**
+   * Endpoint sending a password reset email.
+   * It answers the same way whether the email is registered or not.
+   * @Post('forgot') Defines this method as handling POST requests to '/auth/password/forgot'.
+   * @HttpCode(HttpStatus.ACCEPTED) Answers with `202 Accepted`, the email being sent if the account exists.
+   * @RateLimit({ limit: 5, window: 3600 }) Accepts 5 requests per hour and client IP, so that the endpoint cannot flood mailboxes.
+   * @Body() `request` - The email address of the account to recover.
+   * @returns {Promise<void>}
+   */
+  @Post('forgot')
+  @HttpCode(HttpStatus.ACCEPTED)
+  @UseGuards(RateLimitGuard)
+  @RateLimit({ limit: 5, window: 3600 })
+  async forgotPassword(@Body() request: ForgotPasswordReq): Promise<void> {
+    await this.usersService.forgotPassword(request.email);
+  }
+
+  /**
+   * Endpoint setting a new password with the token of a password reset email. The user is logged out of every device.
+   * @Post('reset') Defines this method as handling POST requests to '/auth/password/reset'.
+   * @HttpCode(HttpStatus.NO_CONTENT) Answers with `204 No Content`, the user logging in again with the new password.
+   * @Body() `request` - The token and the new password.
+   * @returns {Promise<void>}
+   */
+  @Post('reset')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async resetPassword(@Body() request: ResetPasswordReq): Promise<void> {
+    await this.usersService.resetPassword(request.token, request.password);
+  }
+}
@@ -0,0 +1,68 @@
+import { INestApplication, ValidationPipe } from '@nestjs/common';
+import { Test } from '@nestjs/testing';
+import { Types } from 'mongoose';
+import * as request from 'supertest';
+import JwtAuthGuard from '../guards/jwt-auth.guard';
+import { UsersController } from './users.controller';
+import { UsersService } from './users.service';
+
+describe('UsersController', () => {
+  const user = {
+    _id: new Types.ObjectId(),
+    email: 'user@example.com',
+    password: '$2b$10$hash',
+    roles: ['user'],
+    permissions: [],
+  };
+  const usersService = {
+    createUser: jest.fn().mockResolvedValue(user),
+    getUsers: jest
+      .fn()
+      .mockResolvedValue({ items: [user], total: 1, next: null }),
+  };
+  let app: INestApplication;
+
+  beforeAll(async () => {
+    const moduleRef = await Test.createTestingModule({
+      controllers: [UsersController],
+      providers: [{ provide: UsersService, useValue: usersService }],
+    })
+      .overrideGuard(JwtAuthGuard)
+      .useValue({
+        canActivate: (context) => {
+          context.switchToHttp().getRequest().user = {
+            roles: ['admin'],
+            permissions: [],
+          };
+          return true;
+        },
+      })
+      .compile();
+
+    app = moduleRef.createNestApplication();
+    app.useGlobalPipes(new ValidationPipe({ transform: true }));
+    await app.init();
+  });
+
+  afterAll(() => app.close());
+
+  it('POST /auth/users returns the created user without its password', async () => {
+    const response = await request(app.getHttpServer())
+      .post('/auth/users')
+      .send({ email: user.email, password: 'Str0ng!Password' })
+      .expect(201);
+
+    expect(response.body.email).toBe(user.email);
+    expect(response.body).not.toHaveProperty('password');
+  });
+
+  it('GET /auth/users returns a page of users without their password', async () => {
+    const response = await request(app.getHttpServer())
+      .get('/auth/users')
+      .expect(200);
+
+    expect(response.body.total).toBe(1);
+    expect(response.body.items[0].email).toBe(user.email);
+    expect(response.body.items[0]).not.toHaveProperty('password');
+  });
+});
@@ -1,5 +1,29 @@
-import { Body, Controller, Post } from '@nestjs/common';
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Post,
+  Query,
+  Req,
+  UseGuards,
+} from '@nestjs/common';
+import { Request } from 'express';
+import {
+  AccessGuard,
+  getAuditOrigin,
+  Page,
+  Permission,
+  Permissions,
+  Serialize,
+  UserView,
+} from '@app/common';
+import JwtAuthGuard from '../guards/jwt-auth.guard';
 import { CreateUserReq } from './dto/create-user.req';
+import { GetUsersQuery } from './dto/get-users.query';
 import { UsersService } from './users.service';
 import { User } from './models/user.schema';
 
@@ -7,9 +31,11 @@ import { User } from './models/user.schema';
  * Controller for handling user-related actions within the authentication context.
  * This controller is responsible for managing user registration and potentially other user management tasks
  * specifically within the authentication domain, under the `/auth/users` route.
+ * Users are returned as `UserView`s, without their password hash.
  * @Controller('auth/users') Sets the base route for this controller to `/auth/users`.
  */
 @Controller('auth/users')
+@Serialize(UserView)
 export class UsersController {
   /**
    * Constructor for `UsersController`.
@@ -23,10 +49,44 @@ export class UsersController {
    * @Post() Defines this method as handling POST requests to '/auth/users'.
    * @Body() `request` - Data transfer object in the `request` body containing user creation details.
    *        The `CreateUserReq` DTO is used to validate and structure the incoming user creation `request` data.
+   * @Req() `httpRequest` - The Express `Request` object, giving the client IP and `User-Agent` recorded in the audit log.
    * @returns {Promise<User>} A Promise that resolves to the newly created `User` object.
    */
   @Post()
-  async createUser(@Body() request: CreateUserReq): Promise<User> {
-    return this.usersService.createUser(request);
+  async createUser(
+    @Body() request: CreateUserReq,
+    @Req() httpRequest: Request,
+  ): Promise<User> {
+    return this.usersService.createUser(request, getAuditOrigin(httpRequest));
+  }
+
+  /**
+   * Admin endpoint listing the user accounts, from the most recently registered.
+   * @Get() Defines this method as handling GET requests to '/auth/users'.
+   * @UseGuards(JwtAuthGuard, AccessGuard) Authenticates the user with its JWT, then checks it has the `users:read` permission.
+   * @Query() `query` - The page of users to retrieve.
+   * @returns {Promise<Page<User>>} A Promise that resolves to a page of users, without their password.
+   */
+  @Get()
+  @UseGuards(JwtAuthGuard, AccessGuard)
+  @Permissions(Permission.USERS_READ)
+  async getUsers(@Query() query: GetUsersQuery): Promise<Page<User>> {
+    return this.usersService.getUsers(query);
+  }
+
+  /**
+   * Admin endpoint lifting the login lockout of a user, after brute-force attempts on their account.
+   * @Delete(':id/lockout') Defines this method as handling DELETE requests to '/auth/users/:id/lockout'.
+   * @UseGuards(JwtAuthGuard, AccessGuard) Authenticates the user with its JWT, then checks it has the `users:unlock` permission.
+   * @param {string} id - Identifier of the locked out user.
+   * @returns {Promise<void>}
+   * @throws {NotFoundException} If the user does not exist.
+   */
+  @Delete(':id/lockout')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @UseGuards(JwtAuthGuard, AccessGuard)
+  @Permissions(Permission.USERS_UNLOCK)
+  async unlockUser(@Param('id') id: string): Promise<void> {
+    await this.usersService.unlockUser(id);
   }
 }
@@ -1,6 +1,13 @@
 import { Module } from '@nestjs/common';
 import { MongooseModule } from '@nestjs/mongoose';
+import { DatabaseModule, MailerModule, RateLimitModule } from '@app/common';
+import { AuditLogModule } from '../audit-log/audit-log.module';
+import { LoginAttemptsModule } from '../login-attempts/login-attempts.module';
+import { SessionsModule } from '../sessions/sessions.module';
+import { UserTokensModule } from '../user-tokens/user-tokens.module';
 import { User, UserSchema } from './models/user.schema';
+import { EmailController } from './email.controller';
+import { PasswordController } from './password.controller';
 import { UsersController } from './users.controller';
 import { UsersService } from './users.service';
 import { UsersRepository } from './users.repository';
@@ -10,15 +17,24 @@ import { UsersRepository } from './users.repository';
  * This module is responsible for encapsulating user account management, including user creation, retrieval, and validation.
  * It configures Mongoose for database interaction with the `User` entity, sets up controllers for API endpoints,
  * and provides services and repositories for business logic and data access.
+ * Verification and password reset emails are sent through the `Mailer` of the `MailerModule`.
  * @exports {UsersModule} Exports the `UsersModule` class, making it available for import in other modules.
  * @exports {UsersService} Exports the `UsersService` class, allowing other modules to utilize user-related functionalities.
+ * @exports {UsersRepository} Exports the `UsersRepository` class, used by the `TwoFactorService` to update the second factor of the users atomically.
  */
 @Module({
   imports: [
+    DatabaseModule,
+    MailerModule,
+    RateLimitModule,
+    AuditLogModule,
+    SessionsModule,
+    UserTokensModule,
+    LoginAttemptsModule,
     MongooseModule.forFeature([{ name: User.name, schema: UserSchema }]),
   ],
-  controllers: [UsersController],
+  controllers: [UsersController, PasswordController, EmailController],
   providers: [UsersService, UsersRepository],
-  exports: [UsersService],
+  exports: [UsersService, UsersRepository],
 })
 export class UsersModule {}
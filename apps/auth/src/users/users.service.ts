@@ -1,47 +1,156 @@
 import {
+  ForbiddenException,
   Injectable,
+  Logger,
+  NotFoundException,
   UnauthorizedException,
   UnprocessableEntityException,
 } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
 import * as bcrypt from 'bcrypt';
+import { Types } from 'mongoose';
+import {
+  AuditClient,
+  AuditOrigin,
+  Mailer,
+  Page,
+  Role,
+  UnitOfWork,
+} from '@app/common';
+import { LoginAttemptsService } from '../login-attempts/login-attempts.service';
+import { SessionsService } from '../sessions/sessions.service';
+import { UserTokenPurpose } from '../user-tokens/models/user-token.schema';
+import { UserTokensService } from '../user-tokens/user-tokens.service';
 import { UsersRepository } from './users.repository';
 import { CreateUserReq } from './dto/create-user.req';
+import { GetUsersQuery } from './dto/get-users.query';
 import { User } from './models/user.schema';
 
+/**
+ * Code of the MongoDB error raised when a write violates a unique index.
+ */
+const DUPLICATE_KEY_ERROR = 11000;
+
+/**
+ * Fields of the users returned by the user listing, which never includes the password hash.
+ */
+const USER_LISTING_FIELDS = [
+  'email',
+  'roles',
+  'permissions',
+  'emailVerified',
+  'twoFactorEnabled',
+  'createdAt',
+  'updatedAt',
+];
+
 /**
  * Injectable service for managing user accounts and authentication.
  * This service is responsible for user creation, email validation during registration,
  * password hashing, and user validation during login. It interacts with the `UsersRepository`
  * to persist and retrieve user data from the database.
+ * It also runs the flows proving the ownership of an email address: email verification and password reset.
  */
 @Injectable()
 export class UsersService {
+  /**
+   * Logger instance for UsersService, used to report the emails that could not be sent.
+   * @private
+   * @readonly
+   */
+  private readonly logger = new Logger(UsersService.name, { timestamp: true });
+
   /**
    * Constructor for `UsersService`.
    * @param {UsersRepository} usersRepository - Injected `UsersRepository` instance.
    *        Provides data access methods for User entities, abstracting database interactions.
+   * @param {UserTokensService} userTokensService - Injected `UserTokensService` instance, issuing the tokens sent by email.
+   * @param {SessionsService} sessionsService - Injected `SessionsService` instance, logging users out when their password changes.
+   * @param {Mailer} mailer - Injected `Mailer`, sending the verification and password reset emails.
+   * @param {ConfigService} configService - Injected `ConfigService` instance, used to read the lifetime of the tokens and `REQUIRE_EMAIL_VERIFICATION`.
+   * @param {UnitOfWork} unitOfWork - Injected `UnitOfWork` instance, consuming a token and applying its action atomically.
+   * @param {LoginAttemptsService} loginAttemptsService - Injected `LoginAttemptsService` instance, lifting the login lockouts.
+   * @param {AuditClient} auditClient - Injected `AuditClient` instance, recording the signups in the audit log.
    */
-  constructor(private readonly usersRepository: UsersRepository) {}
+  constructor(
+    private readonly usersRepository: UsersRepository,
+    private readonly userTokensService: UserTokensService,
+    private readonly sessionsService: SessionsService,
+    private readonly mailer: Mailer,
+    private readonly configService: ConfigService,
+    private readonly unitOfWork: UnitOfWork,
+    private readonly loginAttemptsService: LoginAttemptsService,
+    private readonly auditClient: AuditClient,
+  ) {}
 
   /**
    * Creates a new user account.
    * This method first validates the user creation request to ensure the `email` is not already registered.
    * Then, it hashes the user's password using bcrypt before creating the user record in the database.
+   * Concurrent registrations of the same `email` pass the validation, the unique `email` index then rejects all of them but one.
+   * A verification email is then sent to the user. The signup is recorded in the audit log, whatever its outcome.
    * @async
    * @param {CreateUserReq} request - Data transfer object containing user registration details (email, password, etc.).
+   * @param {AuditOrigin} [origin] - The client signing up.
    * @returns {Promise<User>} A Promise that resolves to the newly created `User` object.
    * @throws {UnprocessableEntityException} If a user with the provided `email` already exists.
    */
-  async createUser(request: CreateUserReq): Promise<User> {
-    await this.validateCreateUserRequest(request);
-    const user = await this.usersRepository.create({
-      ...request,
-      // Hash the password before saving to the database
-      password: await bcrypt.hash(request.password, 10),
+  async createUser(
+    request: CreateUserReq,
+    origin: AuditOrigin = {},
+  ): Promise<User> {
+    let user: User;
+    try {
+      await this.validateCreateUserRequest(request);
+      user = await this.insertUser(request);
+    } catch (err) {
+      await this.auditClient.record({
+        action: 'signup',
+        outcome: 'failure',
+        actor: request.email,
+        reason: err.message,
+        ...origin,
+      });
+      throw err;
+    }
+    await this.auditClient.record({
+      action: 'signup',
+      outcome: 'success',
+      actor: user._id.toHexString(),
+      ...origin,
     });
+    await this.trySendEmailVerification(user);
     return user;
   }
 
+  /**
+   * Inserts a new user with a hashed password and the `user` role.
+   * @private
+   * @async
+   * @param {CreateUserReq} request - The registration details.
+   * @returns {Promise<User>} A Promise that resolves to the created user.
+   * @throws {UnprocessableEntityException} If a user with the provided `email` was registered concurrently.
+   */
+  private async insertUser(request: CreateUserReq): Promise<User> {
+    try {
+      // New users only get the `user` role, whatever the request body holds
+      return await this.usersRepository.create({
+        email: request.email,
+        // Hash the password before saving to the database
+        password: await bcrypt.hash(request.password, 10),
+        roles: [Role.USER],
+        permissions: [],
+        emailVerified: false,
+        twoFactorEnabled: false,
+      });
+    } catch (err) {
+      if (err?.code === DUPLICATE_KEY_ERROR) {
+        throw new UnprocessableEntityException('Email already exists.');
+      }
+      throw err;
+    }
+  }
+
   /**
    * Validates the user creation request to prevent duplicate email registration.
    * It checks if a user with the given `email` already exists in the database.
@@ -77,9 +186,10 @@ export class UsersService {
    * @param {string} password - The `password` provided by the user for login.
    * @returns {Promise<User>} A Promise that resolves to the User object if credentials are valid.
    * @throws {UnauthorizedException} If the provided `password` does not match the stored hashed password or if the user is not found.
+   * @throws {UnauthorizedException} If `REQUIRE_EMAIL_VERIFICATION` is set and the user has not verified their email address.
    */
   async validateUser(email: string, password: string): Promise<User> {
-    const user = await this.usersRepository.findOne({ email });
+    const user = await this.findByEmail(email);
     if (!user) {
       throw new UnauthorizedException('Credentials are not valid.');
     }
@@ -87,9 +197,279 @@ export class UsersService {
     if (!passwordIsValid) {
       throw new UnauthorizedException('Credentials are not valid.');
     }
+    // Checked after the password, so that it does not tell whether an email is registered
+    if (
+      this.configService.get<boolean>('REQUIRE_EMAIL_VERIFICATION') &&
+      !user.emailVerified
+    ) {
+      throw new UnauthorizedException('Email is not verified.');
+    }
     return user;
   }
 
+  /**
+   * Checks the password of an authenticated user, before a sensitive change of their account.
+   * @async
+   * @param {User} user - The user, along with their password hash.
+   * @param {string} password - The password given by the user.
+   * @returns {Promise<void>} A Promise that resolves if the password is the one of the user.
+   * @throws {ForbiddenException} If the password is not valid.
+   */
+  async verifyPassword(user: User, password: string): Promise<void> {
+    if (!password || !(await bcrypt.compare(password, user.password))) {
+      throw new ForbiddenException('Password is not valid.');
+    }
+  }
+
+  /**
+   * Changes the email address of a user.
+   * The new address is not verified until the user follows the verification email sent to it.
+   * @async
+   * @param {User} user - The user changing their email address.
+   * @param {string} email - The new email address.
+   * @returns {Promise<User>} A Promise that resolves to the updated user, unchanged if the address is the same.
+   * @throws {UnprocessableEntityException} If the address is already registered by another user.
+   */
+  async changeEmail(user: User, email: string): Promise<User> {
+    if (email === user.email) {
+      return user;
+    }
+    let updated: User;
+    try {
+      updated = await this.usersRepository.findOneAndUpdate(
+        { _id: user._id },
+        { $set: { email, emailVerified: false } },
+      );
+    } catch (err) {
+      if (err?.code === DUPLICATE_KEY_ERROR) {
+        throw new UnprocessableEntityException('Email already exists.');
+      }
+      throw err;
+    }
+    await this.trySendEmailVerification(updated);
+    return updated;
+  }
+
+  /**
+   * Sets a new password for a user, then logs them out of every device, the current one included.
+   * @async
+   * @param {User} user - The user changing their password.
+   * @param {string} password - The new password.
+   * @returns {Promise<void>}
+   */
+  async changePassword(user: User, password: string): Promise<void> {
+    await this.usersRepository.findOneAndUpdate(
+      { _id: user._id },
+      { $set: { password: await bcrypt.hash(password, 10) } },
+    );
+    await this.revokeSessions(user._id.toHexString());
+  }
+
+  /**
+   * Logs a user out of every device: their sessions are revoked and their token version incremented,
+   * so that both their refresh tokens and their access tokens are rejected from then on.
+   * @async
+   * @param {string} userId - Identifier of the user.
+   * @returns {Promise<void>}
+   * @throws {NotFoundException} If the user does not exist.
+   */
+  async revokeSessions(userId: string): Promise<void> {
+    await this.unitOfWork.withTransaction(async () => {
+      await this.usersRepository.findOneAndUpdate(
+        { _id: new Types.ObjectId(userId) },
+        { $inc: { tokenVersion: 1 } },
+      );
+      await this.sessionsService.revokeAll(userId);
+    });
+  }
+
+  /**
+   * Lifts the login lockout of a user, who can then try to log in again right away.
+   * @async
+   * @param {string} id - Identifier of the user.
+   * @returns {Promise<void>}
+   * @throws {NotFoundException} If the user does not exist.
+   */
+  async unlockUser(id: string): Promise<void> {
+    if (!Types.ObjectId.isValid(id)) {
+      throw new NotFoundException('Document not found.');
+    }
+    const user = await this.usersRepository.findOne({
+      _id: new Types.ObjectId(id),
+    });
+    await this.loginAttemptsService.unlock(user.email);
+  }
+
+  /**
+   * Sends a new verification email to a user who has not verified their email address yet.
+   * Unknown and already verified addresses are ignored silently, so that the endpoint does not tell whether an email is registered.
+   * @async
+   * @param {string} email - The email address to verify.
+   * @returns {Promise<void>}
+   */
+  async resendEmailVerification(email: string): Promise<void> {
+    const user = await this.findByEmail(email);
+    if (user && !user.emailVerified) {
+      await this.sendEmailVerification(user);
+    }
+  }
+
+  /**
+   * Marks the email address of a user as verified.
+   * @async
+   * @param {string} token - The token of the verification email.
+   * @returns {Promise<User>} A Promise that resolves to the verified user.
+   * @throws {BadRequestException} If the token is not valid or has expired.
+   */
+  async verifyEmail(token: string): Promise<User> {
+    return this.unitOfWork.withTransaction(async () => {
+      const userId = await this.userTokensService.consume(
+        token,
+        UserTokenPurpose.EMAIL_VERIFICATION,
+      );
+      return this.usersRepository.findOneAndUpdate(
+        { _id: new Types.ObjectId(userId) },
+        { $set: { emailVerified: true } },
+      );
+    });
+  }
+
+  /**
+   * Sends a password reset email.
+   * Unknown addresses are ignored silently, so that the endpoint does not tell whether an email is registered.
+   * @async
+   * @param {string} email - The email address of the account to recover.
+   * @returns {Promise<void>}
+   */
+  async forgotPassword(email: string): Promise<void> {
+    const user = await this.findByEmail(email);
+    if (!user) {
+      return;
+    }
+    const expiration = this.configService.get<number>(
+      'PASSWORD_RESET_EXPIRATION',
+    );
+    const token = await this.userTokensService.issue(
+      user._id.toHexString(),
+      UserTokenPurpose.PASSWORD_RESET,
+      expiration,
+    );
+    await this.mailer.send({
+      to: user.email,
+      subject: 'Reset your password',
+      text: [
+        'Someone asked to reset the password of your account. If it was not you, ignore this email.',
+        `Otherwise, use this token within ${this.formatExpiration(
+          expiration,
+        )} to choose a new password:`,
+        token,
+      ].join('\n\n'),
+    });
+  }
+
+  /**
+   * Sets a new password with the token of a password reset email.
+   * Receiving the email proves the ownership of the address, which is therefore marked as verified.
+   * The sessions of the user are revoked, logging out every device, including the one of whoever knew the old password.
+   * @async
+   * @param {string} token - The token of the password reset email.
+   * @param {string} password - The new password.
+   * @returns {Promise<void>}
+   * @throws {BadRequestException} If the token is not valid or has expired.
+   */
+  async resetPassword(token: string, password: string): Promise<void> {
+    const hash = await bcrypt.hash(password, 10);
+    const userId = await this.unitOfWork.withTransaction(async () => {
+      const userId = await this.userTokensService.consume(
+        token,
+        UserTokenPurpose.PASSWORD_RESET,
+      );
+      await this.usersRepository.findOneAndUpdate(
+        { _id: new Types.ObjectId(userId) },
+        { $set: { password: hash, emailVerified: true } },
+      );
+      return userId;
+    });
+    await this.revokeSessions(userId);
+  }
+
+  /**
+   * Issues an email verification token and sends it to the user.
+   * @private
+   * @async
+   * @param {User} user - The user to send the verification email to.
+   * @returns {Promise<void>}
+   */
+  private async sendEmailVerification(user: User): Promise<void> {
+    const expiration = this.configService.get<number>(
+      'EMAIL_VERIFICATION_EXPIRATION',
+    );
+    const token = await this.userTokensService.issue(
+      user._id.toHexString(),
+      UserTokenPurpose.EMAIL_VERIFICATION,
+      expiration,
+    );
+    await this.mailer.send({
+      to: user.email,
+      subject: 'Verify your email address',
+      text: [
+        'Welcome! Please confirm that this email address is yours.',
+        `Use this token within ${this.formatExpiration(
+          expiration,
+        )} to verify it:`,
+        token,
+      ].join('\n\n'),
+    });
+  }
+
+  /**
+   * Sends a verification email, logging a failure instead of throwing it.
+   * The account is already saved at this point: the user can ask for another verification email.
+   * @private
+   * @async
+   * @param {User} user - The user to send the verification email to.
+   * @returns {Promise<void>}
+   */
+  private async trySendEmailVerification(user: User): Promise<void> {
+    try {
+      await this.sendEmailVerification(user);
+    } catch (err) {
+      this.logger.error(
+        `Failed to send the verification email to user ${user._id}`,
+        err?.stack,
+      );
+    }
+  }
+
+  /**
+   * Finds a user by email address.
+   * @private
+   * @async
+   * @param {string} email - The email address of the user.
+   * @returns {Promise<User | undefined>} A Promise that resolves to the user, or `undefined` if the address is not registered.
+   */
+  private async findByEmail(email: string): Promise<User | undefined> {
+    try {
+      return await this.usersRepository.findOne({ email });
+    } catch (err) {
+      return undefined;
+    }
+  }
+
+  /**
+   * Formats the lifetime of a token for the emails.
+   * @private
+   * @param {number} expiration - The lifetime of the token, in seconds.
+   * @returns {string} The lifetime in hours, or in minutes below one hour.
+   */
+  private formatExpiration(expiration: number): string {
+    const [value, unit] =
+      expiration < 3600
+        ? [Math.ceil(expiration / 60), 'minute']
+        : [Math.floor(expiration / 3600), 'hour'];
+    return `${value} ${unit}${value > 1 ? 's' : ''}`;
+  }
+
   /**
    * Retrieves a user from the database based on partial user information.
    * This method allows fetching a `User` document using any properties of the `User` entity as a filter.
@@ -100,4 +480,23 @@ export class UsersService {
   async getUser(getUserArgs: Partial<User>): Promise<User> {
     return this.usersRepository.findOne(getUserArgs);
   }
+
+  /**
+   * Retrieves a page of users, from the most recently registered, without their password.
+   * @async
+   * @param {GetUsersQuery} [query] - The page of users to retrieve.
+   * @returns {Promise<Page<User>>} A Promise that resolves to a page of users.
+   * @throws {BadRequestException} If the cursor is malformed.
+   */
+  async getUsers(query: GetUsersQuery = {}): Promise<Page<User>> {
+    return this.usersRepository.paginate(
+      {},
+      {
+        limit: query.limit,
+        cursor: query.cursor,
+        sort: { _id: -1 },
+        projection: USER_LISTING_FIELDS,
+      },
+    );
+  }
 }
@@ -1,12 +1,25 @@
-import { Controller, UseGuards } from '@nestjs/common';
+import { Controller, UseFilters } from '@nestjs/common';
 import { Ctx, EventPattern, Payload, RmqContext } from '@nestjs/microservices';
 import { BillingService } from './billing.service';
-import { JwtAuthGuard, ORDER_CREATED, RmqService } from '@app/common';
+import {
+  EventValidationPipe,
+  Idempotent,
+  ORDER_CANCELLED,
+  ORDER_CREATED,
+  OrderCancelledEvent,
+  OrderCreatedEvent,
+  RmqRetryFilter,
+  RmqService,
+  USER_DELETED,
+  UserDeletedEvent,
+} from '@app/common';
+import { InvoicesService } from './invoices/invoices.service';
 
 /**
  * Controller for handling billing-related events.
  * This controller is responsible for listening to and processing specific events,
- * particularly the `ORDER_CREATED` event, to trigger billing operations.
+ * particularly the `ORDER_CREATED` and `ORDER_CANCELLED` events, to bill and refund orders,
+ * and the `USER_DELETED` event, to anonymize the invoices of a deleted user.
  * It uses RabbitMQ as the transport layer for event-based communication.
  */
 @Controller()
@@ -17,29 +30,95 @@ export class BillingController {
    *        Provides the core billing logic to be executed upon receiving relevant events.
    * @param {RmqService} rmqService - Injected RmqService instance.
    *        Provides utility functions for RabbitMQ, specifically for acknowledging messages.
+   * @param {InvoicesService} invoicesService - Injected InvoicesService instance, anonymizing the invoices of the deleted users.
    */
   constructor(
     private readonly billingService: BillingService,
     private readonly rmqService: RmqService,
+    private readonly invoicesService: InvoicesService,
   ) {}
 
   /**
    * Handles the `ORDER_CREATED` event.
    * This method is decorated with `@EventPattern(ORDER_CREATED)`, making it a listener for messages
    * on the RabbitMQ exchange matching the `ORDER_CREATED` pattern. When an order creation event is received,
-   * this method processes the billing for the created order and acknowledges the message to RabbitMQ.
+   * this method issues the invoice of the created order and acknowledges the message to RabbitMQ.
+   * If the billing fails, the `RmqRetryFilter` schedules the message for a delayed retry,
+   * and dead-letters it into the billing dead-letter queue once the attempts are exhausted.
+   * When the last attempt fails, the orders service is notified with a `BILLING_FAILED` event.
+   * The orders service validated the user when the order was placed, so the event carries the owner of the order and no user credentials:
+   * billing must bill it even once the access token of the user has expired or their session was revoked.
    * @EventPattern(ORDER_CREATED) Decorator that specifies this method as an event handler for the 'ORDER_CREATED' pattern.
-   * @param {any} data - The payload of the incoming RabbitMQ message, expected to contain order creation data.
-   * @Payload() Decorator that extracts the message payload from the `RmqContext`.
+   * @UseFilters(RmqRetryFilter) Decorator that retries or dead-letters the message when an exception is thrown.
+   * @Idempotent() Decorator that acknowledges and skips a redelivered message, so an order is never billed twice.
+   * @param {OrderCreatedEvent} data - The payload of the incoming RabbitMQ message, containing the created order.
+   * @Payload(new EventValidationPipe(ORDER_CREATED)) Decorator that extracts the message payload and validates it against the `ORDER_CREATED` contract.
+   *        Payloads failing validation are dead-lettered right away by the `RmqRetryFilter`.
    * @param {RmqContext} context - The `RmqContext` object provided by NestJS, containing context information about the incoming RabbitMQ message, including the channel and original message.
    * @Ctx() Decorator that injects the `RmqContext` object.
    * @async
    * @returns A Promise that resolves after processing the order creation event and acknowledging the message.
    */
   @EventPattern(ORDER_CREATED)
-  @UseGuards(JwtAuthGuard) // will throw if no jwt is provided
-  async handleOrderCreated(@Payload() data: any, @Ctx() context: RmqContext) {
-    this.billingService.bill(data); // Delegates the billing processing to the BillingService, passing the received order data.
-    this.rmqService.ack(context); // Acknowledges the RabbitMQ message to confirm successful processing and remove it from the queue.
+  @UseFilters(RmqRetryFilter)
+  @Idempotent()
+  async handleOrderCreated(
+    @Payload(new EventValidationPipe(ORDER_CREATED)) data: OrderCreatedEvent,
+    @Ctx() context: RmqContext,
+  ) {
+    try {
+      await this.billingService.bill(data); // Delegates the billing processing to the BillingService, passing the received order data.
+    } catch (err) {
+      if (this.rmqService.isLastAttempt(context)) {
+        // The message is about to be dead-lettered, let the orders service fail the order
+        await this.billingService.fail(data.orderId, err.message);
+      }
+      throw err;
+    }
+    this.rmqService.ack(context); // Acknowledges the RabbitMQ message only once the billing succeeded.
+  }
+
+  /**
+   * Handles the `ORDER_CANCELLED` event, refunding the cancelled order.
+   * The orders service checked the ownership and the status of the order, so the event carries no user credentials.
+   * @EventPattern(ORDER_CANCELLED) Decorator that specifies this method as an event handler for the 'ORDER_CANCELLED' pattern.
+   * @UseFilters(RmqRetryFilter) Decorator that retries or dead-letters the message when an exception is thrown.
+   * @Idempotent() Decorator that acknowledges and skips a redelivered message, so an order is never refunded twice.
+   * @param {OrderCancelledEvent} data - The payload of the event, validated against the `ORDER_CANCELLED` contract.
+   * @param {RmqContext} context - The `RmqContext` of the message, used to acknowledge it.
+   * @async
+   * @returns A Promise that resolves after refunding the order and acknowledging the message.
+   */
+  @EventPattern(ORDER_CANCELLED)
+  @UseFilters(RmqRetryFilter)
+  @Idempotent()
+  async handleOrderCancelled(
+    @Payload(new EventValidationPipe(ORDER_CANCELLED))
+    data: OrderCancelledEvent,
+    @Ctx() context: RmqContext,
+  ) {
+    await this.billingService.refund(data);
+    this.rmqService.ack(context);
+  }
+  /**
+   * Handles the `USER_DELETED` event of the auth service.
+   * The invoices must be kept for the legal retention period, so they are anonymized rather than deleted.
+   * @EventPattern(USER_DELETED) Decorator that specifies this method as an event handler for the 'USER_DELETED' pattern.
+   * @UseFilters(RmqRetryFilter) Decorator that retries or dead-letters the message when an exception is thrown.
+   * @Idempotent() Decorator that acknowledges and skips a redelivered message.
+   * @param {UserDeletedEvent} data - The payload of the event, validated against the `USER_DELETED` contract.
+   * @param {RmqContext} context - The `RmqContext` of the message, used to acknowledge it.
+   * @async
+   * @returns A Promise that resolves after anonymizing the invoices and acknowledging the message.
+   */
+  @EventPattern(USER_DELETED)
+  @UseFilters(RmqRetryFilter)
+  @Idempotent()
+  async handleUserDeleted(
+    @Payload(new EventValidationPipe(USER_DELETED)) data: UserDeletedEvent,
+    @Ctx() context: RmqContext,
+  ) {
+    await this.invoicesService.anonymizeUserInvoices(data.userId);
+    this.rmqService.ack(context);
   }
 }
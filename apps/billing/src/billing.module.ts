@@ -2,14 +2,27 @@ import { Module } from '@nestjs/common';
 import { RmqModule } from '@app/common/rmq/rmq.module';
 import { BillingController } from './billing.controller';
 import { BillingService } from './billing.service';
+import { CancellationsModule } from './cancellations/cancellations.module';
+import { InvoicesModule } from './invoices/invoices.module';
+import { PAYMENT_PROVIDERS, PaymentsModule } from './payments/payments.module';
 import { ConfigModule } from '@nestjs/config';
 import * as Joi from 'joi';
-import { AuthModule } from '@app/common';
+import {
+  AuditModule,
+  AuthModule,
+  DatabaseModule,
+  IdempotencyModule,
+  MigrationsModule,
+  ORDERS_SERVICE,
+  RMQ_RETRY_DELAYS_PATTERN,
+} from '@app/common';
+import { migrations } from './migrations';
 
 /**
  * Module for handling billing functionalities within the application.
  * This module is responsible for configuring the billing microservice, including environment variable validation,
- * integration with authentication services, and setting up RabbitMQ for message queue communication.
+ * integration with authentication services, setting up RabbitMQ for message queue communication,
+ * and the database storing the issued invoices and the handled message ids.
  * It aggregates controllers and services related to billing processes.
  * @exports {BillingModule} Exports the `BillingModule` class, making it available for import in other modules.
  */
@@ -20,11 +33,43 @@ import { AuthModule } from '@app/common';
       validationSchema: Joi.object({
         RABBIT_MQ_URI: Joi.string().required(),
         RABBIT_MQ_BILLING_QUEUE: Joi.string().required(),
+        RABBIT_MQ_ORDERS_QUEUE: Joi.string().required(),
+        RABBIT_MQ_RETRY_DELAYS: Joi.string().pattern(RMQ_RETRY_DELAYS_PATTERN),
+        RABBIT_MQ_MAX_ATTEMPTS: Joi.number().integer().min(1),
+        MONGODB_URI: Joi.string().required(),
+        IDEMPOTENCY_TTL: Joi.number(),
+        PORT: Joi.number().required(),
+        BILLING_TAX_RATE: Joi.number().min(0),
+        MIGRATE_ON_BOOT: Joi.boolean().default(false),
+        AUTH_VERIFICATION: Joi.string().valid('local', 'rpc').default('rpc'),
+        AUTH_JWKS_URI: Joi.string().uri().when('AUTH_VERIFICATION', {
+          is: 'local',
+          then: Joi.required(),
+        }),
+        AUTH_JWKS_CACHE_TTL: Joi.number(),
+        PAYMENT_PROVIDER: Joi.string()
+          .valid(...Object.keys(PAYMENT_PROVIDERS))
+          .default('fake'),
       }),
       envFilePath: './apps/billing/.env',
     }),
     AuthModule,
+    // Records the tokens rejected by the JwtAuthGuard in the audit log of the auth service
+    AuditModule.register({ service: 'billing' }),
     RmqModule,
+    // Registers RmqModule for RabbitMQ communication with the orders service, receiving the billing replies
+    RmqModule.register({ name: ORDERS_SERVICE }),
+    DatabaseModule,
+    // Applies the pending billing migrations at boot when MIGRATE_ON_BOOT is set
+    MigrationsModule.register({ app: 'billing', migrations }),
+    // Remembers the handled message ids to skip redelivered events
+    IdempotencyModule,
+    // Issues an invoice for each billed order and exposes them over HTTP
+    InvoicesModule,
+    // Charges the invoices through the payment provider selected by PAYMENT_PROVIDER
+    PaymentsModule,
+    // Records the cancelled orders, which are no longer charged
+    CancellationsModule,
   ],
   controllers: [BillingController],
   providers: [BillingService],
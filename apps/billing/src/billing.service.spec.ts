@@ -0,0 +1,126 @@
+import { ClientProxy } from '@nestjs/microservices';
+import { Types } from 'mongoose';
+import { of } from 'rxjs';
+import {
+  BILLING_COMPLETED,
+  BILLING_FAILED,
+  OrderCreatedEvent,
+  REFUND_COMPLETED,
+} from '@app/common';
+import { BillingService } from './billing.service';
+import { CancellationsService } from './cancellations/cancellations.service';
+import { InvoicesService } from './invoices/invoices.service';
+import { InvoiceStatus } from './invoices/models/invoice-status';
+import { PaymentStatus } from './payments/models/payment-status';
+import { PaymentsService } from './payments/payments.service';
+
+describe('BillingService', () => {
+  const orderId = new Types.ObjectId().toHexString();
+  const order = {
+    orderId,
+    userId: new Types.ObjectId().toHexString(),
+  } as OrderCreatedEvent;
+  const invoice = (status: InvoiceStatus) => ({
+    _id: new Types.ObjectId(),
+    number: 'INV-000001',
+    orderId,
+    total: 1000,
+    status,
+  });
+  const invoicesService = {
+    issueForOrder: jest.fn(),
+    findByOrder: jest.fn(),
+    updateStatus: jest.fn(),
+  };
+  const paymentsService = { charge: jest.fn() };
+  const cancellationsService = {
+    record: jest.fn(),
+    isCancelled: jest.fn(),
+  };
+  const ordersClient = { emit: jest.fn(() => of(undefined)) };
+  const service = new BillingService(
+    invoicesService as unknown as InvoicesService,
+    paymentsService as unknown as PaymentsService,
+    cancellationsService as unknown as CancellationsService,
+    ordersClient as unknown as ClientProxy,
+  );
+
+  beforeEach(() => jest.clearAllMocks());
+
+  it('marks a charged invoice as paid and completes the order', async () => {
+    const issued = invoice(InvoiceStatus.ISSUED);
+    invoicesService.issueForOrder.mockResolvedValueOnce(issued);
+    paymentsService.charge.mockResolvedValueOnce({
+      status: PaymentStatus.CAPTURED,
+    });
+
+    await service.bill(order);
+
+    expect(invoicesService.updateStatus).toHaveBeenCalledWith(
+      issued._id.toHexString(),
+      InvoiceStatus.PAID,
+    );
+    expect(ordersClient.emit).toHaveBeenCalledWith(
+      BILLING_COMPLETED,
+      expect.objectContaining({ orderId }),
+    );
+  });
+
+  it('only emits the reply again for a paid invoice', async () => {
+    invoicesService.issueForOrder.mockResolvedValueOnce(
+      invoice(InvoiceStatus.PAID),
+    );
+
+    await service.bill(order);
+
+    expect(paymentsService.charge).not.toHaveBeenCalled();
+    expect(ordersClient.emit).toHaveBeenCalledWith(
+      BILLING_COMPLETED,
+      expect.objectContaining({ orderId }),
+    );
+  });
+
+  it('does not charge a void invoice again', async () => {
+    invoicesService.issueForOrder.mockResolvedValueOnce(
+      invoice(InvoiceStatus.VOID),
+    );
+
+    await service.bill(order);
+
+    expect(paymentsService.charge).not.toHaveBeenCalled();
+    expect(ordersClient.emit).toHaveBeenCalledWith(
+      BILLING_FAILED,
+      expect.objectContaining({ orderId }),
+    );
+  });
+
+  it('voids the invoice of an order cancelled before being charged', async () => {
+    const issued = invoice(InvoiceStatus.ISSUED);
+    invoicesService.issueForOrder.mockResolvedValueOnce(issued);
+    cancellationsService.isCancelled.mockResolvedValueOnce(true);
+
+    await service.bill(order);
+
+    expect(paymentsService.charge).not.toHaveBeenCalled();
+    expect(invoicesService.updateStatus).toHaveBeenCalledWith(
+      issued._id.toHexString(),
+      InvoiceStatus.VOID,
+    );
+    expect(ordersClient.emit).not.toHaveBeenCalled();
+  });
+
+  it('records the cancellation of an order which is not invoiced yet', async () => {
+    invoicesService.findByOrder.mockResolvedValueOnce(undefined);
+
+    await service.refund({ orderId, reason: 'Changed my mind' });
+
+    expect(cancellationsService.record).toHaveBeenCalledWith(
+      orderId,
+      'Changed my mind',
+    );
+    expect(ordersClient.emit).toHaveBeenCalledWith(
+      REFUND_COMPLETED,
+      expect.objectContaining({ orderId, amount: 0 }),
+    );
+  });
+});
@@ -1,12 +1,210 @@
-import { Injectable, Logger } from '@nestjs/common';
+import { Inject, Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { ClientProxy } from '@nestjs/microservices';
+import { lastValueFrom } from 'rxjs';
+import {
+  BILLING_COMPLETED,
+  BILLING_FAILED,
+  emitEvent,
+  OrderCancelledEvent,
+  OrderCreatedEvent,
+  ORDERS_SERVICE,
+  REFUND_COMPLETED,
+} from '@app/common';
+import { CancellationsService } from './cancellations/cancellations.service';
+import { InvoicesService } from './invoices/invoices.service';
+import { Invoice } from './invoices/models/invoice.schema';
+import { InvoiceStatus } from './invoices/models/invoice-status';
+import { Payment } from './payments/models/payment.schema';
+import { PaymentStatus } from './payments/models/payment-status';
+import { PaymentsService } from './payments/payments.service';
 
+/**
+ * Injectable service billing the created orders and reporting the outcome to the orders service.
+ */
 @Injectable()
 export class BillingService {
   private readonly logger = new Logger(BillingService.name, {
     timestamp: true,
   });
 
-  bill(data: any) {
-    this.logger.log('Billing...', data);
+  /**
+   * Constructor for BillingService.
+   * @param {ClientProxy} ordersClient - Injected ClientProxy for the ORDERS_SERVICE, receiving the billing replies.
+   * @param {InvoicesService} invoicesService - Injected InvoicesService instance, recording what is billed.
+   * @param {PaymentsService} paymentsService - Injected PaymentsService instance, charging the invoices.
+   * @param {CancellationsService} cancellationsService - Injected CancellationsService instance, recording the cancelled orders.
+   */
+  constructor(
+    private readonly invoicesService: InvoicesService,
+    private readonly paymentsService: PaymentsService,
+    private readonly cancellationsService: CancellationsService,
+    @Inject(ORDERS_SERVICE) private readonly ordersClient: ClientProxy,
+  ) {}
+
+  /**
+   * Bills a created order: issues its invoice and charges it through the payment gateway.
+   * Once paid, a `BILLING_COMPLETED` event is emitted to the orders service; a declined payment voids the invoice and fails the order.
+   * A payment awaiting an action of the customer (e.g. 3-D Secure) leaves the order pending.
+   * A redelivered order resumes from its invoice: a paid invoice only gets the `BILLING_COMPLETED` reply emitted again,
+   * a void one the `BILLING_FAILED` reply, and an issued one resumes from its recorded payment instead of being charged again.
+   * An order cancelled before being charged is not charged: its invoice is voided and no reply is emitted.
+   * @async
+   * @param {OrderCreatedEvent} data - The created order, with the user who placed it.
+   * @returns {Promise<void>} A Promise that resolves once the order is billed and the reply emitted.
+   * @throws {PaymentGatewayException} If the payment provider cannot be reached, so that the message is retried.
+   */
+  async bill(data: OrderCreatedEvent): Promise<void> {
+    const invoice = await this.invoicesService.issueForOrder(data);
+    this.logger.log(
+      `Issued invoice ${invoice.number} for order ${data.orderId}`,
+    );
+    switch (invoice.status) {
+      case InvoiceStatus.ISSUED:
+        break;
+      case InvoiceStatus.PAID:
+        return this.complete(data.orderId);
+      case InvoiceStatus.VOID:
+        return this.fail(data.orderId, `Invoice ${invoice.number} is void.`);
+      default:
+        this.logger.warn(
+          `Invoice ${invoice.number} is ${invoice.status}, order ${data.orderId} is not charged`,
+        );
+        return;
+    }
+    const invoiceId = invoice._id.toHexString();
+    if (await this.cancellationsService.isCancelled(data.orderId)) {
+      this.logger.warn(
+        `Order ${data.orderId} is cancelled, voiding invoice ${invoice.number}`,
+      );
+      await this.invoicesService.updateStatus(invoiceId, InvoiceStatus.VOID);
+      return;
+    }
+    const payment = await this.paymentsService.charge(invoice);
+    if (payment.status === PaymentStatus.DECLINED) {
+      await this.invoicesService.updateStatus(invoiceId, InvoiceStatus.VOID);
+      return this.fail(data.orderId, payment.reason);
+    }
+    if (payment.status === PaymentStatus.PENDING) {
+      this.logger.warn(
+        `Payment of invoice ${invoice.number} awaits the customer: ${payment.reason}`,
+      );
+      return;
+    }
+    if (payment.status !== PaymentStatus.CAPTURED) {
+      this.logger.warn(
+        `Payment of invoice ${invoice.number} is ${payment.status}, order ${data.orderId} is not completed`,
+      );
+      return;
+    }
+    await this.invoicesService.updateStatus(invoiceId, InvoiceStatus.PAID);
+    return this.complete(data.orderId);
+  }
+
+  /**
+   * Refunds a cancelled order, then emits a `REFUND_COMPLETED` event to the orders service.
+   * The cancellation is recorded first, so that an order which is not invoiced yet is never charged (see {@link bill}).
+   * A paid invoice is refunded by `amount`, or entirely when omitted. An invoice still awaiting its payment is voided instead.
+   * An order is cancelled once, so an invoice which was already refunded or voided only gets the confirmation emitted again.
+   * @async
+   * @param {OrderCancelledEvent} data - The cancelled order.
+   * @returns {Promise<void>} A Promise that resolves once the order is refunded and the confirmation emitted.
+   * @throws {Error} If the payment provider declines the refund.
+   */
+  async refund({
+    orderId,
+    amount,
+    reason,
+  }: OrderCancelledEvent): Promise<void> {
+    await this.cancellationsService.record(orderId, reason);
+    const invoice = await this.invoicesService.findByOrder(orderId);
+    if (!invoice) {
+      this.logger.log(`Order ${orderId} is cancelled before being invoiced`);
+      return this.confirmRefund(orderId, 0);
+    }
+    let refunded = invoice.refunded ?? 0;
+    if (invoice.status === InvoiceStatus.PAID && !refunded) {
+      refunded = Math.min(amount ?? invoice.total, invoice.total);
+      const payment = await this.paymentsService.refund(invoice, refunded);
+      if (payment.status !== PaymentStatus.REFUNDED) {
+        throw new Error(
+          `Refund of invoice ${invoice.number} declined: ${payment.reason}`,
+        );
+      }
+      await this.invoicesService.recordRefund(invoice, refunded);
+    } else if (invoice.status === InvoiceStatus.ISSUED) {
+      const payment = await this.voidAuthorization(invoice);
+      if (payment && payment.status !== PaymentStatus.VOIDED) {
+        throw new Error(
+          `Void of invoice ${invoice.number} declined: ${payment.reason}`,
+        );
+      }
+      await this.invoicesService.updateStatus(
+        invoice._id.toHexString(),
+        InvoiceStatus.VOID,
+      );
+    }
+    this.logger.log(`Refunded ${refunded} on invoice ${invoice.number}`);
+    return this.confirmRefund(orderId, refunded);
+  }
+
+  /**
+   * Reports to the orders service that an order cannot be billed, by emitting a `BILLING_FAILED` event.
+   * @async
+   * @param {string} orderId - Identifier of the order.
+   * @param {string} reason - Reason of the failure.
+   * @returns {Promise<void>} A Promise that resolves once the reply is emitted.
+   */
+  async fail(orderId: string, reason: string): Promise<void> {
+    this.logger.warn(`Billing failed for order ${orderId}: ${reason}`);
+    await lastValueFrom(
+      emitEvent(this.ordersClient, BILLING_FAILED, { orderId, reason }),
+    );
+  }
+
+  /**
+   * Reports to the orders service that an order is paid, by emitting a `BILLING_COMPLETED` event.
+   * @private
+   * @async
+   * @param {string} orderId - Identifier of the order.
+   * @returns {Promise<void>} A Promise that resolves once the reply is emitted.
+   */
+  private async complete(orderId: string): Promise<void> {
+    await lastValueFrom(
+      emitEvent(this.ordersClient, BILLING_COMPLETED, { orderId }),
+    );
+  }
+
+  /**
+   * Releases the authorization of an invoice, if it was authorized at all.
+   * @private
+   * @async
+   * @param {Invoice} invoice - The issued invoice.
+   * @returns {Promise<Payment | undefined>} A Promise that resolves to the recorded void, or `undefined` if nothing was authorized.
+   */
+  private async voidAuthorization(
+    invoice: Invoice,
+  ): Promise<Payment | undefined> {
+    try {
+      return await this.paymentsService.void(invoice);
+    } catch (err) {
+      if (err instanceof NotFoundException) {
+        return undefined;
+      }
+      throw err;
+    }
+  }
+
+  /**
+   * Confirms the refund of a cancelled order to the orders service, by emitting a `REFUND_COMPLETED` event.
+   * @private
+   * @async
+   * @param {string} orderId - Identifier of the order.
+   * @param {number} amount - The refunded amount, `0` when nothing was charged.
+   * @returns {Promise<void>} A Promise that resolves once the confirmation is emitted.
+   */
+  private async confirmRefund(orderId: string, amount: number): Promise<void> {
+    await lastValueFrom(
+      emitEvent(this.ordersClient, REFUND_COMPLETED, { orderId, amount }),
+    );
   }
 }
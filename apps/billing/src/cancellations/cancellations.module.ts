@@ -0,0 +1,24 @@
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import { CancellationsRepository } from './cancellations.repository';
+import { CancellationsService } from './cancellations.service';
+import {
+  OrderCancellation,
+  OrderCancellationSchema,
+} from './models/order-cancellation.schema';
+
+/**
+ * Module recording the cancelled orders.
+ * It configures Mongoose for the `OrderCancellation` entity.
+ * @exports {CancellationsService} Exports the `CancellationsService` class, allowing the billing to check whether an order is cancelled.
+ */
+@Module({
+  imports: [
+    MongooseModule.forFeature([
+      { name: OrderCancellation.name, schema: OrderCancellationSchema },
+    ]),
+  ],
+  providers: [CancellationsService, CancellationsRepository],
+  exports: [CancellationsService],
+})
+export class CancellationsModule {}
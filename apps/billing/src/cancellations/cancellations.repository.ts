@@ -0,0 +1,34 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectConnection, InjectModel } from '@nestjs/mongoose';
+import { Connection, Model } from 'mongoose';
+import { AbstractRepository } from '@app/common';
+import { OrderCancellation } from './models/order-cancellation.schema';
+
+/**
+ * Injectable repository for managing `OrderCancellation` entities in MongoDB.
+ * Extends the `AbstractRepository` to inherit common database operations.
+ */
+@Injectable()
+export class CancellationsRepository extends AbstractRepository<OrderCancellation> {
+  /**
+   * Logger instance for CancellationsRepository, used for logging repository operations and potential issues.
+   * @protected
+   * @readonly
+   */
+  protected readonly logger = new Logger(CancellationsRepository.name, {
+    timestamp: true,
+  });
+
+  /**
+   * Constructor for `CancellationsRepository`.
+   * @param {Model<OrderCancellation>} cancellationModel - Injected Mongoose model for the `OrderCancellation` entity.
+   * @param {Connection} connection - Injected Mongoose connection, used for transaction management.
+   */
+  constructor(
+    @InjectModel(OrderCancellation.name)
+    cancellationModel: Model<OrderCancellation>,
+    @InjectConnection() connection: Connection,
+  ) {
+    super(cancellationModel, connection);
+  }
+}
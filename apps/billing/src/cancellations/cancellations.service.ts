@@ -0,0 +1,38 @@
+import { Injectable } from '@nestjs/common';
+import { CancellationsRepository } from './cancellations.repository';
+
+/**
+ * Injectable service recording the cancelled orders, so that billing stops charging them.
+ */
+@Injectable()
+export class CancellationsService {
+  /**
+   * Constructor for `CancellationsService`.
+   * @param {CancellationsRepository} cancellationsRepository - Injected `CancellationsRepository` instance, storing the cancellations.
+   */
+  constructor(
+    private readonly cancellationsRepository: CancellationsRepository,
+  ) {}
+
+  /**
+   * Records the cancellation of an order. Recording it again is a no-op.
+   * @async
+   * @param {string} orderId - Identifier of the cancelled order.
+   * @param {string} [reason] - Reason of the cancellation.
+   * @returns {Promise<void>} A Promise that resolves once the cancellation is stored.
+   */
+  async record(orderId: string, reason?: string): Promise<void> {
+    await this.cancellationsRepository.upsert({ orderId }, { orderId, reason });
+  }
+
+  /**
+   * Tells whether an order has been cancelled.
+   * @async
+   * @param {string} orderId - Identifier of the order.
+   * @returns {Promise<boolean>} A Promise that resolves to `true` if a cancellation is recorded for the order.
+   */
+  async isCancelled(orderId: string): Promise<boolean> {
+    const cancellations = await this.cancellationsRepository.find({ orderId });
+    return cancellations.length > 0;
+  }
+}
@@ -0,0 +1,31 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { AbstractDocument } from '@app/common';
+
+/**
+ * Mongoose schema definition for the `OrderCancellation` document.
+ * A cancellation is recorded for every cancelled order, whether or not the order is invoiced yet,
+ * so that an order created before being cancelled is never charged.
+ * @Schema({ versionKey: false, collection: 'order_cancellations' }) Decorator that stores the cancellations in the `order_cancellations` collection and disables the version key (__v).
+ */
+@Schema({ versionKey: false, collection: 'order_cancellations' })
+export class OrderCancellation extends AbstractDocument {
+  /**
+   * Identifier of the cancelled order.
+   * @type {string}
+   */
+  @Prop({ required: true, unique: true })
+  orderId: string;
+
+  /**
+   * Reason of the cancellation.
+   * @type {string}
+   */
+  @Prop()
+  reason?: string;
+}
+
+/**
+ * Mongoose `SchemaFactory` for the `OrderCancellation` class.
+ */
+export const OrderCancellationSchema =
+  SchemaFactory.createForClass(OrderCancellation);
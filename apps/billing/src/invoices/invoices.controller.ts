@@ -0,0 +1,46 @@
+import { Controller, Get, Param, Req, UseGuards } from '@nestjs/common';
+import { JwtAuthGuard } from '@app/common';
+import { InvoicesService } from './invoices.service';
+import { Invoice } from './models/invoice.schema';
+
+/**
+ * Controller exposing the invoices of the authenticated user under the `/billing/invoices` route.
+ * Every endpoint is protected by the common `JwtAuthGuard`, which sets `request.user`.
+ * @Controller('billing/invoices') Sets the base route for this controller to `/billing/invoices`.
+ */
+@Controller('billing/invoices')
+@UseGuards(JwtAuthGuard)
+export class InvoicesController {
+  /**
+   * Constructor for `InvoicesController`.
+   * @param {InvoicesService} invoicesService - Injected `InvoicesService` instance, providing access to the invoices.
+   */
+  constructor(private readonly invoicesService: InvoicesService) {}
+
+  /**
+   * Endpoint to list the invoices of the authenticated user.
+   * @Get() Decorator that maps this method to handle GET requests to `/billing/invoices`.
+   * @param {any} request - The request object, whose `user` is set by the `JwtAuthGuard`.
+   * @returns {Promise<Invoice[]>} A Promise that resolves to the invoices of the user.
+   */
+  @Get()
+  async getInvoices(@Req() request: any): Promise<Invoice[]> {
+    return this.invoicesService.getInvoices(request.user._id);
+  }
+
+  /**
+   * Endpoint to retrieve an invoice of the authenticated user.
+   * @Get(':id') Decorator that maps this method to handle GET requests to `/billing/invoices/:id`.
+   * @param {string} id - Identifier of the invoice.
+   * @param {any} request - The request object, whose `user` is set by the `JwtAuthGuard`.
+   * @returns {Promise<Invoice>} A Promise that resolves to the invoice.
+   * @throws {NotFoundException} If the invoice does not exist or belongs to another user.
+   */
+  @Get(':id')
+  async getInvoice(
+    @Param('id') id: string,
+    @Req() request: any,
+  ): Promise<Invoice> {
+    return this.invoicesService.getInvoice(id, request.user._id);
+  }
+}
@@ -0,0 +1,36 @@
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import { AuditModule, AuthModule, DatabaseModule } from '@app/common';
+import { Invoice, InvoiceSchema } from './models/invoice.schema';
+import {
+  InvoiceCounter,
+  InvoiceCounterSchema,
+} from './models/invoice-counter.schema';
+import { InvoicesController } from './invoices.controller';
+import { InvoicesRepository } from './invoices.repository';
+import { InvoicesService } from './invoices.service';
+
+/**
+ * Module for managing the invoices issued by the billing service.
+ * It configures Mongoose for the `Invoice` entity and its numbering sequence, exposes the invoices over HTTP,
+ * and provides the `InvoicesService` used to issue them.
+ * @exports {InvoicesService} Exports the `InvoicesService` class, allowing other modules to issue and retrieve invoices.
+ */
+@Module({
+  imports: [
+    MongooseModule.forFeature([
+      { name: Invoice.name, schema: InvoiceSchema },
+      { name: InvoiceCounter.name, schema: InvoiceCounterSchema },
+    ]),
+    // Common module to handle jwt cookies
+    AuthModule,
+    // Records the tokens rejected by the JwtAuthGuard in the audit log of the auth service
+    AuditModule.register({ service: 'billing' }),
+    // Provides the UnitOfWork numbering and storing the invoices in a single transaction
+    DatabaseModule,
+  ],
+  controllers: [InvoicesController],
+  providers: [InvoicesService, InvoicesRepository],
+  exports: [InvoicesService],
+})
+export class InvoicesModule {}
@@ -0,0 +1,75 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectConnection, InjectModel } from '@nestjs/mongoose';
+import { Connection, Model } from 'mongoose';
+import { AbstractRepository, ERASED_USER_ID } from '@app/common';
+import { Invoice } from './models/invoice.schema';
+import { InvoiceCounter } from './models/invoice-counter.schema';
+
+/**
+ * Name of the sequence numbering the invoices.
+ */
+const INVOICE_SEQUENCE = 'invoice';
+
+/**
+ * Injectable repository for managing `Invoice` entities in MongoDB.
+ * Extends the `AbstractRepository` to inherit common database operations, and hands out sequential invoice numbers.
+ */
+@Injectable()
+export class InvoicesRepository extends AbstractRepository<Invoice> {
+  /**
+   * Logger instance for InvoicesRepository, used for logging repository operations and potential issues.
+   * @protected
+   * @readonly
+   */
+  protected readonly logger = new Logger(InvoicesRepository.name, {
+    timestamp: true,
+  });
+
+  /**
+   * Constructor for `InvoicesRepository`.
+   * @param {Model<Invoice>} invoiceModel - Injected Mongoose model for the `Invoice` entity.
+   * @param {Model<InvoiceCounter>} counterModel - Injected Mongoose model for the sequences, used to number invoices.
+   * @param {Connection} connection - Injected Mongoose connection, used for transaction management.
+   */
+  constructor(
+    @InjectModel(Invoice.name) invoiceModel: Model<Invoice>,
+    @InjectModel(InvoiceCounter.name)
+    private readonly counterModel: Model<InvoiceCounter>,
+    @InjectConnection() connection: Connection,
+  ) {
+    super(invoiceModel, connection);
+  }
+
+  /**
+   * Hands out the next invoice number.
+   * The sequence is incremented atomically, so concurrent invoices never share a number.
+   * Within a `UnitOfWork`, the number is only consumed if the transaction commits, so the sequence has no gaps.
+   * @async
+   * @returns {Promise<string>} A Promise that resolves to the next invoice number (e.g. `INV-000042`).
+   */
+  async nextNumber(): Promise<string> {
+    const { seq } = await this.counterModel.findOneAndUpdate(
+      { _id: INVOICE_SEQUENCE },
+      { $inc: { seq: 1 } },
+      { lean: true, new: true, upsert: true, session: this.session },
+    );
+    return `INV-${String(seq).padStart(6, '0')}`;
+  }
+  /**
+   * Anonymizes the invoices of an erased user, which are kept for the legal retention period but detached from the user.
+   * @async
+   * @param {string} userId Identifier of the erased user.
+   * @returns {Promise<number>} A Promise that resolves to the number of anonymized invoices.
+   */
+  async anonymizeUser(userId: string): Promise<number> {
+    const { modifiedCount } = await this.model.updateMany(
+      { userId },
+      {
+        $set: { userId: ERASED_USER_ID, updatedAt: new Date() },
+        $inc: { version: 1 },
+      },
+      { session: this.session },
+    );
+    return modifiedCount;
+  }
+}
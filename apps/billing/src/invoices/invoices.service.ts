@@ -0,0 +1,155 @@
+import { Injectable, NotFoundException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Types } from 'mongoose';
+import { OrderCreatedEvent, UnitOfWork } from '@app/common';
+import { InvoicesRepository } from './invoices.repository';
+import { Invoice } from './models/invoice.schema';
+import { InvoiceLine } from './models/invoice-line.schema';
+import { InvoiceStatus } from './models/invoice-status';
+
+/**
+ * Injectable service for issuing and retrieving invoices.
+ */
+@Injectable()
+export class InvoicesService {
+  /**
+   * Constructor for `InvoicesService`.
+   * @param {InvoicesRepository} invoicesRepository - Injected `InvoicesRepository` instance, providing data access for invoices.
+   * @param {ConfigService} configService - Injected `ConfigService` instance, used to read the tax rate.
+   * @param {UnitOfWork} unitOfWork - Injected `UnitOfWork` instance, numbering and storing an invoice in a single transaction.
+   */
+  constructor(
+    private readonly invoicesRepository: InvoicesRepository,
+    private readonly configService: ConfigService,
+    private readonly unitOfWork: UnitOfWork,
+  ) {}
+
+  /**
+   * Issues the invoice of a created order, in the currency of the order.
+   * The tax is computed on the discounted subtotal from the `BILLING_TAX_RATE` setting (in percent).
+   * An order is billed once: if its invoice already exists, it is returned as is.
+   * @async
+   * @param {OrderCreatedEvent} order - The created order, with amounts in minor units and the user who placed it.
+   * @returns {Promise<Invoice>} A Promise that resolves to the invoice of the order.
+   */
+  async issueForOrder(order: OrderCreatedEvent): Promise<Invoice> {
+    const existing = await this.findByOrder(order.orderId);
+    if (existing) {
+      return existing;
+    }
+    const lines: InvoiceLine[] = order.lines.map(
+      ({ sku, name, quantity, unitPrice, total }) => ({
+        sku,
+        description: name,
+        quantity,
+        unitPrice,
+        total,
+      }),
+    );
+    const taxRate = Number(this.configService.get('BILLING_TAX_RATE') ?? 0);
+    const tax = Math.round((order.total * taxRate) / 100);
+    // Consume the invoice number only if the invoice is stored
+    return this.unitOfWork.withTransaction(async () =>
+      this.invoicesRepository.create({
+        number: await this.invoicesRepository.nextNumber(),
+        orderId: order.orderId,
+        userId: order.userId,
+        lines,
+        currency: order.currency,
+        subtotal: order.subtotal,
+        discount: order.discount,
+        taxRate,
+        tax,
+        total: order.total + tax,
+        status: InvoiceStatus.ISSUED,
+        issuedAt: new Date(),
+      }),
+    );
+  }
+
+  /**
+   * Updates the status of an invoice.
+   * @async
+   * @param {string} id - Identifier of the invoice.
+   * @param {InvoiceStatus} status - The new status.
+   * @returns {Promise<Invoice>} A Promise that resolves to the updated invoice.
+   */
+  async updateStatus(id: string, status: InvoiceStatus): Promise<Invoice> {
+    return this.invoicesRepository.findOneAndUpdate(
+      { _id: new Types.ObjectId(id) },
+      { $set: { status } },
+    );
+  }
+
+  /**
+   * Records an amount refunded on an invoice. The invoice becomes `REFUNDED` once its total is refunded.
+   * @async
+   * @param {Invoice} invoice - The refunded invoice.
+   * @param {number} amount - The refunded amount, in minor units.
+   * @returns {Promise<Invoice>} A Promise that resolves to the updated invoice.
+   * @throws {ConflictException} If the invoice was updated since it was read.
+   */
+  async recordRefund(invoice: Invoice, amount: number): Promise<Invoice> {
+    const refunded = (invoice.refunded ?? 0) + amount;
+    return this.invoicesRepository.findOneAndUpdate(
+      // The refunded amount is computed from the invoice as read, so it must not have changed since
+      { _id: invoice._id, version: invoice.version },
+      {
+        $set: {
+          refunded,
+          status:
+            refunded >= invoice.total ? InvoiceStatus.REFUNDED : invoice.status,
+        },
+      },
+    );
+  }
+
+  /**
+   * Retrieves the invoices of a user.
+   * @async
+   * @param {string} userId - Identifier of the user.
+   * @returns {Promise<Invoice[]>} A Promise that resolves to the invoices of the user.
+   */
+  async getInvoices(userId: string): Promise<Invoice[]> {
+    return this.invoicesRepository.find({ userId });
+  }
+
+  /**
+   * Retrieves an invoice of a user.
+   * @async
+   * @param {string} id - Identifier of the invoice.
+   * @param {string} userId - Identifier of the user, who must own the invoice.
+   * @returns {Promise<Invoice>} A Promise that resolves to the invoice.
+   * @throws {NotFoundException} If the invoice does not exist or belongs to another user.
+   */
+  async getInvoice(id: string, userId: string): Promise<Invoice> {
+    if (!Types.ObjectId.isValid(id)) {
+      throw new NotFoundException('Document not found.');
+    }
+    return this.invoicesRepository.findOne({
+      _id: new Types.ObjectId(id),
+      userId,
+    });
+  }
+
+  /**
+   * Retrieves the invoice of an order, if any.
+   * @async
+   * @param {string} orderId - Identifier of the order.
+   * @returns {Promise<Invoice | undefined>} A Promise that resolves to the invoice, or `undefined` if the order is not billed.
+   */
+  async findByOrder(orderId: string): Promise<Invoice | undefined> {
+    const [invoice] = await this.invoicesRepository.find({ orderId });
+    return invoice;
+  }
+
+  /**
+   * Detaches the invoices of a user who deleted their account from them, without deleting the invoices.
+   * @async
+   * @param {string} userId - Identifier of the deleted user.
+   * @returns {Promise<number>} A Promise that resolves to the number of anonymized invoices.
+   */
+  async anonymizeUserInvoices(userId: string): Promise<number> {
+    return this.invoicesRepository.anonymizeUser(userId);
+  }
+}
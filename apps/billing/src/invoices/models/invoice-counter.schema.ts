@@ -0,0 +1,28 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+
+/**
+ * Mongoose schema definition for a named sequence, used to number invoices without gaps or duplicates.
+ * @Schema({ versionKey: false, collection: 'counters' }) Decorator that stores the sequences in the `counters` collection and disables the version key (__v).
+ */
+@Schema({ versionKey: false, collection: 'counters' })
+export class InvoiceCounter {
+  /**
+   * Name of the sequence.
+   * @type {string}
+   */
+  @Prop()
+  _id: string;
+
+  /**
+   * Last value handed out by the sequence.
+   * @type {number}
+   */
+  @Prop({ required: true })
+  seq: number;
+}
+
+/**
+ * Mongoose `SchemaFactory` for the `InvoiceCounter` class.
+ */
+export const InvoiceCounterSchema =
+  SchemaFactory.createForClass(InvoiceCounter);
@@ -0,0 +1,49 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+
+/**
+ * Mongoose schema definition for a line of an `Invoice`, embedded in the invoice document.
+ * Amounts are integers in minor units of the invoice currency (e.g. cents).
+ * @Schema({ _id: false }) Decorator that defines this class as a sub-document schema without its own `_id`.
+ */
+@Schema({ _id: false })
+export class InvoiceLine {
+  /**
+   * Stock keeping unit of the billed item.
+   * @type {string}
+   */
+  @Prop({ required: true })
+  sku: string;
+
+  /**
+   * Description of the billed item.
+   * @type {string}
+   */
+  @Prop({ required: true })
+  description: string;
+
+  /**
+   * Billed quantity.
+   * @type {number}
+   */
+  @Prop({ required: true })
+  quantity: number;
+
+  /**
+   * Unit price, in minor units.
+   * @type {number}
+   */
+  @Prop({ required: true })
+  unitPrice: number;
+
+  /**
+   * Line total (`quantity` × `unitPrice`), in minor units.
+   * @type {number}
+   */
+  @Prop({ required: true })
+  total: number;
+}
+
+/**
+ * Mongoose `SchemaFactory` for the `InvoiceLine` class.
+ */
+export const InvoiceLineSchema = SchemaFactory.createForClass(InvoiceLine);
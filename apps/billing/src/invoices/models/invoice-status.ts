@@ -0,0 +1,21 @@
+/**
+ * Status of an `Invoice`.
+ */
+export enum InvoiceStatus {
+  /**
+   * The invoice has been issued for an order.
+   */
+  ISSUED = 'ISSUED',
+  /**
+   * The invoice has been paid.
+   */
+  PAID = 'PAID',
+  /**
+   * The paid amount has been fully refunded.
+   */
+  REFUNDED = 'REFUNDED',
+  /**
+   * The invoice has been cancelled before being paid.
+   */
+  VOID = 'VOID',
+}
@@ -0,0 +1,108 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { AbstractDocument } from '@app/common';
+import { InvoiceLine, InvoiceLineSchema } from './invoice-line.schema';
+import { InvoiceStatus } from './invoice-status';
+
+/**
+ * Mongoose schema definition for the `Invoice` document.
+ * An invoice records what was billed for an order. Amounts are integers in minor units of `currency` (e.g. cents).
+ * @Schema({ versionKey: false }) Decorator that defines this class as a Mongoose schema and disables the version key (__v) in documents.
+ */
+@Schema({ versionKey: false })
+export class Invoice extends AbstractDocument {
+  /**
+   * Sequential invoice number (e.g. `INV-000042`).
+   * @type {string}
+   */
+  @Prop({ required: true, unique: true })
+  number: string;
+
+  /**
+   * Identifier of the billed order. An order is billed by a single invoice.
+   * @type {string}
+   */
+  @Prop({ required: true, unique: true })
+  orderId: string;
+
+  /**
+   * Identifier of the billed user.
+   * @type {string}
+   */
+  @Prop({ required: true, index: true })
+  userId: string;
+
+  /**
+   * Billed lines.
+   * @type {InvoiceLine[]}
+   */
+  @Prop({ type: [InvoiceLineSchema], required: true })
+  lines: InvoiceLine[];
+
+  /**
+   * ISO 4217 currency code of the amounts.
+   * @type {string}
+   */
+  @Prop({ required: true })
+  currency: string;
+
+  /**
+   * Sum of the line totals, in minor units.
+   * @type {number}
+   */
+  @Prop({ required: true })
+  subtotal: number;
+
+  /**
+   * Discount granted on the subtotal, in minor units.
+   * @type {number}
+   */
+  @Prop({ default: 0 })
+  discount: number;
+
+  /**
+   * Tax rate applied to the discounted subtotal, in percent.
+   * @type {number}
+   */
+  @Prop({ required: true })
+  taxRate: number;
+
+  /**
+   * Tax amount, in minor units.
+   * @type {number}
+   */
+  @Prop({ required: true })
+  tax: number;
+
+  /**
+   * Amount due (`subtotal` - `discount` + `tax`), in minor units.
+   * @type {number}
+   */
+  @Prop({ required: true })
+  total: number;
+
+  /**
+   * Amount refunded so far, in minor units.
+   * @type {number}
+   */
+  @Prop({ default: 0 })
+  refunded?: number;
+
+  /**
+   * Status of the invoice.
+   * @type {InvoiceStatus}
+   */
+  @Prop({ type: String, enum: InvoiceStatus, required: true })
+  status: InvoiceStatus;
+
+  /**
+   * Date at which the invoice was issued.
+   * @type {Date}
+   */
+  @Prop({ required: true })
+  issuedAt: Date;
+}
+
+/**
+ * Mongoose `SchemaFactory` for the `Invoice` class.
+ */
+export const InvoiceSchema = SchemaFactory.createForClass(Invoice);
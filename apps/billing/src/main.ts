@@ -1,4 +1,6 @@
 import { NestFactory } from '@nestjs/core';
+import { ValidationPipe } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
 import { BillingModule } from './billing.module';
 import { RmqService } from '@app/common/rmq/rmq.service';
 import { QUEUE_BILLING } from '@app/common';
@@ -6,7 +8,11 @@ import { QUEUE_BILLING } from '@app/common';
 async function bootstrap() {
   const app = await NestFactory.create(BillingModule);
   const rmqService = app.get<RmqService>(RmqService);
-  app.connectMicroservice(rmqService.getOptions(QUEUE_BILLING));
+  app.connectMicroservice(rmqService.getServer(QUEUE_BILLING));
+  app.useGlobalPipes(new ValidationPipe());
+  const configService = app.get(ConfigService);
   await app.startAllMicroservices();
+  // Serve the invoices over HTTP
+  await app.listen(configService.get('PORT'));
 }
 bootstrap();
@@ -0,0 +1,31 @@
+import { Migration } from '@app/common';
+
+/**
+ * Declares the indexes of `invoices` and `payments`.
+ * The unique `orderId` index guarantees a single invoice per order, even when `ORDER_CREATED` is handled twice concurrently.
+ */
+export const billingIndexes: Migration = {
+  version: 1,
+  name: 'billing-indexes',
+  async up(connection) {
+    await connection
+      .collection('invoices')
+      .createIndexes([
+        { key: { number: 1 }, unique: true },
+        { key: { orderId: 1 }, unique: true },
+        { key: { userId: 1 } },
+      ]);
+    await connection
+      .collection('payments')
+      .createIndexes([{ key: { invoiceId: 1 } }, { key: { orderId: 1 } }]);
+  },
+  async down(connection) {
+    const invoices = connection.collection('invoices');
+    await invoices.dropIndex('number_1');
+    await invoices.dropIndex('orderId_1');
+    await invoices.dropIndex('userId_1');
+    const payments = connection.collection('payments');
+    await payments.dropIndex('invoiceId_1');
+    await payments.dropIndex('orderId_1');
+  },
+};
@@ -0,0 +1,16 @@
+import { backfillDocumentMetadata, Migration } from '@app/common';
+
+/**
+ * Backfills `createdAt`, `updatedAt` and `version` on the invoices and payments recorded before they were maintained by `AbstractRepository`.
+ */
+export const billingBackfillMetadata: Migration = {
+  version: 2,
+  name: 'billing-backfill-metadata',
+  async up(connection) {
+    await backfillDocumentMetadata(connection, 'invoices');
+    await backfillDocumentMetadata(connection, 'payments');
+  },
+  async down() {
+    // The backfilled fields cannot be told apart from the ones set on creation, so they are kept.
+  },
+};
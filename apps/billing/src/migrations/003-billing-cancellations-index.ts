@@ -0,0 +1,17 @@
+import { Migration } from '@app/common';
+
+/**
+ * Declares the unique `orderId` index of `order_cancellations`, so that a redelivered `ORDER_CANCELLED` event records a single cancellation.
+ */
+export const billingCancellationsIndex: Migration = {
+  version: 3,
+  name: 'billing-cancellations-index',
+  async up(connection) {
+    await connection
+      .collection('order_cancellations')
+      .createIndex({ orderId: 1 }, { unique: true });
+  },
+  async down(connection) {
+    await connection.collection('order_cancellations').dropIndex('orderId_1');
+  },
+};
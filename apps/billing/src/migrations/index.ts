@@ -0,0 +1,13 @@
+import { Migration } from '@app/common';
+import { billingIndexes } from './001-billing-indexes';
+import { billingBackfillMetadata } from './002-billing-backfill-metadata';
+import { billingCancellationsIndex } from './003-billing-cancellations-index';
+
+/**
+ * Migrations of the billing database, applied with `pnpm migrate billing up`.
+ */
+export const migrations: Migration[] = [
+  billingIndexes,
+  billingBackfillMetadata,
+  billingCancellationsIndex,
+];
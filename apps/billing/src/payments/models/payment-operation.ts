@@ -0,0 +1,9 @@
+/**
+ * Operation requested from a `PaymentGateway`.
+ */
+export enum PaymentOperation {
+  AUTHORIZE = 'AUTHORIZE',
+  CAPTURE = 'CAPTURE',
+  REFUND = 'REFUND',
+  VOID = 'VOID',
+}
@@ -0,0 +1,33 @@
+/**
+ * Outcome of an operation performed by a `PaymentGateway`.
+ */
+export enum PaymentStatus {
+  /**
+   * The funds have been reserved and can be captured.
+   */
+  AUTHORIZED = 'AUTHORIZED',
+  /**
+   * The authorization awaits an action of the customer (e.g. a 3-D Secure challenge).
+   */
+  PENDING = 'PENDING',
+  /**
+   * The funds have been collected.
+   */
+  CAPTURED = 'CAPTURED',
+  /**
+   * The captured funds have been (partially) given back.
+   */
+  REFUNDED = 'REFUNDED',
+  /**
+   * The authorization has been released without collecting the funds.
+   */
+  VOIDED = 'VOIDED',
+  /**
+   * The provider refused the operation.
+   */
+  DECLINED = 'DECLINED',
+  /**
+   * The provider could not be reached or did not answer in time. The operation may be retried.
+   */
+  FAILED = 'FAILED',
+}
@@ -0,0 +1,87 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { AbstractDocument } from '@app/common';
+import { PaymentOperation } from './payment-operation';
+import { PaymentStatus } from './payment-status';
+
+/**
+ * Mongoose schema definition for the `Payment` document.
+ * A payment records an operation performed by the `PaymentGateway` for an invoice, and its outcome.
+ * @Schema({ versionKey: false }) Decorator that defines this class as a Mongoose schema and disables the version key (__v) in documents.
+ */
+@Schema({ versionKey: false })
+export class Payment extends AbstractDocument {
+  /**
+   * Identifier of the paid invoice.
+   * @type {string}
+   */
+  @Prop({ required: true, index: true })
+  invoiceId: string;
+
+  /**
+   * Identifier of the paid order.
+   * @type {string}
+   */
+  @Prop({ required: true, index: true })
+  orderId: string;
+
+  /**
+   * Name of the provider which performed the operation.
+   * @type {string}
+   */
+  @Prop({ required: true })
+  provider: string;
+
+  /**
+   * Operation requested from the provider.
+   * @type {PaymentOperation}
+   */
+  @Prop({ type: String, enum: PaymentOperation, required: true })
+  operation: PaymentOperation;
+
+  /**
+   * Outcome of the operation.
+   * @type {PaymentStatus}
+   */
+  @Prop({ type: String, enum: PaymentStatus, required: true })
+  status: PaymentStatus;
+
+  /**
+   * Identifier of the transaction at the provider. Missing when the provider could not be reached.
+   * @type {string}
+   */
+  @Prop()
+  transactionId?: string;
+
+  /**
+   * Amount of the operation, in minor units of `currency`.
+   * @type {number}
+   */
+  @Prop({ required: true })
+  amount: number;
+
+  /**
+   * ISO 4217 currency code of the amount.
+   * @type {string}
+   */
+  @Prop({ required: true })
+  currency: string;
+
+  /**
+   * Reason given for a declined, pending or failed operation.
+   * @type {string}
+   */
+  @Prop()
+  reason?: string;
+
+  /**
+   * Date at which the operation was performed.
+   * @type {Date}
+   */
+  @Prop({ required: true })
+  processedAt: Date;
+}
+
+/**
+ * Mongoose `SchemaFactory` for the `Payment` class.
+ */
+export const PaymentSchema = SchemaFactory.createForClass(Payment);
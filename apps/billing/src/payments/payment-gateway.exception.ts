@@ -0,0 +1,14 @@
+/**
+ * Exception thrown by a `PaymentGateway` when the provider cannot be reached or does not answer in time.
+ * Unlike a decline, the outcome of the operation is unknown, so the message being handled is retried.
+ */
+export class PaymentGatewayException extends Error {
+  /**
+   * Constructor for `PaymentGatewayException`.
+   * @param {string} provider The name of the provider.
+   * @param {string} message The description of the failure.
+   */
+  constructor(readonly provider: string, message: string) {
+    super(`${provider}: ${message}`);
+  }
+}
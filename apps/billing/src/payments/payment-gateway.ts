@@ -0,0 +1,88 @@
+import { PaymentStatus } from './models/payment-status';
+
+/**
+ * Injection token of the configured `PaymentGateway` implementation.
+ */
+export const PAYMENT_GATEWAY = 'PAYMENT_GATEWAY';
+
+/**
+ * Request to authorize a payment.
+ */
+export interface AuthorizeRequest {
+  /**
+   * Identifier of the paid order. Providers use it as idempotency key, so authorizing an order twice charges it once.
+   */
+  orderId: string;
+
+  /**
+   * Amount to authorize, in minor units of `currency` (e.g. cents).
+   */
+  amount: number;
+
+  /**
+   * ISO 4217 currency code of the amount.
+   */
+  currency: string;
+}
+
+/**
+ * Result of an operation performed by a `PaymentGateway`.
+ */
+export interface PaymentResult {
+  /**
+   * Outcome of the operation.
+   */
+  status: PaymentStatus;
+
+  /**
+   * Identifier of the transaction at the provider, referenced by the subsequent operations (capture, refund, void).
+   */
+  transactionId: string;
+
+  /**
+   * Reason given by the provider when the operation is declined or pending.
+   */
+  reason?: string;
+}
+
+/**
+ * Abstraction of a payment provider.
+ * Implementations report business outcomes (declines, pending authorizations) through the returned `PaymentResult`,
+ * and throw a `PaymentGatewayException` when the provider cannot be reached, so that the operation is retried.
+ */
+export interface PaymentGateway {
+  /**
+   * Name of the provider, recorded with every payment.
+   */
+  readonly provider: string;
+
+  /**
+   * Reserves the funds of a payment.
+   * @param {AuthorizeRequest} request The payment to authorize.
+   * @returns {Promise<PaymentResult>} `AUTHORIZED`, `PENDING` or `DECLINED`.
+   */
+  authorize(request: AuthorizeRequest): Promise<PaymentResult>;
+
+  /**
+   * Collects the funds of an authorization.
+   * @param {string} transactionId The authorized transaction.
+   * @param {number} amount The amount to collect, in minor units.
+   * @returns {Promise<PaymentResult>} `CAPTURED` or `DECLINED`.
+   */
+  capture(transactionId: string, amount: number): Promise<PaymentResult>;
+
+  /**
+   * Gives back the collected funds of a transaction, fully or partially.
+   * @param {string} transactionId The captured transaction.
+   * @param {number} amount The amount to give back, in minor units.
+   * @returns {Promise<PaymentResult>} `REFUNDED` or `DECLINED`.
+   */
+  refund(transactionId: string, amount: number): Promise<PaymentResult>;
+
+  /**
+   * Releases an authorization without collecting its funds.
+   * @param {string} transactionId The authorized transaction.
+   * @returns {Promise<PaymentResult>} `VOIDED` or `DECLINED`.
+   */
+  void(transactionId: string): Promise<PaymentResult>;
+}
@@ -0,0 +1,47 @@
+import { Module } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { ModuleRef } from '@nestjs/core';
+import { MongooseModule } from '@nestjs/mongoose';
+import { Payment, PaymentSchema } from './models/payment.schema';
+import { PAYMENT_GATEWAY, PaymentGateway } from './payment-gateway';
+import { PaymentsRepository } from './payments.repository';
+import { PaymentsService } from './payments.service';
+import { FakePaymentGateway } from './providers/fake-payment.gateway';
+
+/**
+ * Available `PaymentGateway` implementations, keyed by the value of the `PAYMENT_PROVIDER` setting.
+ * Adapters for real providers are registered here.
+ */
+export const PAYMENT_PROVIDERS = {
+  fake: FakePaymentGateway,
+};
+
+/**
+ * Module charging the invoices through a pluggable payment provider.
+ * It provides the `PaymentGateway` selected by the `PAYMENT_PROVIDER` setting under the `PAYMENT_GATEWAY` token,
+ * and configures Mongoose for the `Payment` entity recording the outcome of every operation.
+ * @exports {PaymentsService} Exports the `PaymentsService` class, allowing other modules to charge invoices.
+ */
+@Module({
+  imports: [
+    MongooseModule.forFeature([{ name: Payment.name, schema: PaymentSchema }]),
+  ],
+  providers: [
+    ...Object.values(PAYMENT_PROVIDERS),
+    {
+      provide: PAYMENT_GATEWAY,
+      useFactory: (
+        configService: ConfigService,
+        moduleRef: ModuleRef,
+      ): PaymentGateway =>
+        moduleRef.get(
+          PAYMENT_PROVIDERS[configService.get<string>('PAYMENT_PROVIDER')],
+        ),
+      inject: [ConfigService, ModuleRef],
+    },
+    PaymentsService,
+    PaymentsRepository,
+  ],
+  exports: [PaymentsService],
+})
+export class PaymentsModule {}
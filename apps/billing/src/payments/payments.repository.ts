@@ -0,0 +1,33 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectConnection, InjectModel } from '@nestjs/mongoose';
+import { Connection, Model } from 'mongoose';
+import { AbstractRepository } from '@app/common';
+import { Payment } from './models/payment.schema';
+
+/**
+ * Injectable repository for managing `Payment` entities in MongoDB.
+ * Extends the `AbstractRepository` to inherit common database operations.
+ */
+@Injectable()
+export class PaymentsRepository extends AbstractRepository<Payment> {
+  /**
+   * Logger instance for PaymentsRepository, used for logging repository operations and potential issues.
+   * @protected
+   * @readonly
+   */
+  protected readonly logger = new Logger(PaymentsRepository.name, {
+    timestamp: true,
+  });
+
+  /**
+   * Constructor for `PaymentsRepository`.
+   * @param {Model<Payment>} paymentModel - Injected Mongoose model for the `Payment` entity.
+   * @param {Connection} connection - Injected Mongoose connection, used for transaction management.
+   */
+  constructor(
+    @InjectModel(Payment.name) paymentModel: Model<Payment>,
+    @InjectConnection() connection: Connection,
+  ) {
+    super(paymentModel, connection);
+  }
+}
@@ -0,0 +1,121 @@
+import { Types } from 'mongoose';
+import { Invoice } from '../invoices/models/invoice.schema';
+import { PaymentOperation } from './models/payment-operation';
+import { PaymentStatus } from './models/payment-status';
+import { PaymentGatewayException } from './payment-gateway.exception';
+import { PaymentsRepository } from './payments.repository';
+import { PaymentsService } from './payments.service';
+import { FakePaymentGateway } from './providers/fake-payment.gateway';
+
+describe('PaymentsService', () => {
+  const invoice = (total: number) =>
+    ({
+      _id: new Types.ObjectId(),
+      number: 'INV-000001',
+      orderId: new Types.ObjectId().toHexString(),
+      total,
+      currency: 'EUR',
+    } as Invoice);
+  const paymentsRepository = {
+    find: jest.fn(),
+    create: jest.fn(async (payment) => payment),
+  };
+  const gateway = new FakePaymentGateway();
+  const service = new PaymentsService(
+    gateway,
+    paymentsRepository as unknown as PaymentsRepository,
+  );
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    paymentsRepository.find.mockResolvedValue([]);
+  });
+
+  it('authorizes and captures an invoice', async () => {
+    const payment = await service.charge(invoice(1000));
+
+    expect(payment).toMatchObject({
+      operation: PaymentOperation.CAPTURE,
+      status: PaymentStatus.CAPTURED,
+    });
+    expect(paymentsRepository.create).toHaveBeenCalledTimes(2);
+  });
+
+  it('does not capture a declined authorization', async () => {
+    const payment = await service.charge(invoice(1001));
+
+    expect(payment).toMatchObject({
+      operation: PaymentOperation.AUTHORIZE,
+      status: PaymentStatus.DECLINED,
+      reason: 'Card declined',
+    });
+    expect(paymentsRepository.create).toHaveBeenCalledTimes(1);
+  });
+
+  it('records a failed operation and rethrows when the provider times out', async () => {
+    await expect(service.charge(invoice(1002))).rejects.toBeInstanceOf(
+      PaymentGatewayException,
+    );
+    expect(paymentsRepository.create).toHaveBeenCalledWith(
+      expect.objectContaining({
+        operation: PaymentOperation.AUTHORIZE,
+        status: PaymentStatus.FAILED,
+      }),
+    );
+  });
+
+  it('leaves an authorization awaiting 3-D Secure pending', async () => {
+    const payment = await service.charge(invoice(1003));
+
+    expect(payment).toMatchObject({
+      operation: PaymentOperation.AUTHORIZE,
+      status: PaymentStatus.PENDING,
+    });
+    expect(paymentsRepository.create).toHaveBeenCalledTimes(1);
+  });
+
+  it('captures a recorded authorization without authorizing again', async () => {
+    const charged = invoice(1000);
+    const authorize = jest.spyOn(gateway, 'authorize');
+    paymentsRepository.find.mockResolvedValueOnce([
+      {
+        operation: PaymentOperation.AUTHORIZE,
+        status: PaymentStatus.AUTHORIZED,
+        transactionId: 'fake_tx',
+      },
+    ]);
+
+    const payment = await service.charge(charged);
+
+    expect(authorize).not.toHaveBeenCalled();
+    expect(payment).toMatchObject({
+      operation: PaymentOperation.CAPTURE,
+      status: PaymentStatus.CAPTURED,
+      transactionId: 'fake_tx',
+    });
+  });
+
+  it('does not charge an invoice again once captured', async () => {
+    const captured = {
+      operation: PaymentOperation.CAPTURE,
+      status: PaymentStatus.CAPTURED,
+    };
+    paymentsRepository.find.mockResolvedValueOnce([captured]);
+
+    await expect(service.charge(invoice(1000))).resolves.toBe(captured);
+    expect(paymentsRepository.create).not.toHaveBeenCalled();
+  });
+
+  it('voids an authorization awaiting 3-D Secure', async () => {
+    paymentsRepository.find.mockResolvedValueOnce([
+      { status: PaymentStatus.PENDING, transactionId: 'fake_tx' },
+    ]);
+
+    const payment = await service.void(invoice(1003));
+
+    expect(payment).toMatchObject({
+      operation: PaymentOperation.VOID,
+      status: PaymentStatus.VOIDED,
+    });
+  });
+});
@@ -0,0 +1,201 @@
+import { Inject, Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { Invoice } from '../invoices/models/invoice.schema';
+import { PaymentOperation } from './models/payment-operation';
+import { Payment } from './models/payment.schema';
+import { PaymentStatus } from './models/payment-status';
+import {
+  PAYMENT_GATEWAY,
+  PaymentGateway,
+  PaymentResult,
+} from './payment-gateway';
+import { PaymentsRepository } from './payments.repository';
+
+/**
+ * Injectable service performing the payment operations of invoices through the configured `PaymentGateway`,
+ * and recording every outcome as a `Payment`.
+ */
+@Injectable()
+export class PaymentsService {
+  private readonly logger = new Logger(PaymentsService.name, {
+    timestamp: true,
+  });
+
+  /**
+   * Constructor for `PaymentsService`.
+   * @param {PaymentGateway} paymentGateway - Injected `PaymentGateway`, selected by the `PAYMENT_PROVIDER` setting.
+   * @param {PaymentsRepository} paymentsRepository - Injected `PaymentsRepository` instance, recording the operations.
+   */
+  constructor(
+    @Inject(PAYMENT_GATEWAY) private readonly paymentGateway: PaymentGateway,
+    private readonly paymentsRepository: PaymentsRepository,
+  ) {}
+
+  /**
+   * Charges an invoice: authorizes its total and captures it right away.
+   * The capture is skipped when the authorization is declined or pending.
+   * Charging resumes from the operations already recorded for the invoice: an authorization is captured without
+   * authorizing again, and any other outcome (captured, declined, pending...) is returned as is, so a redelivered
+   * order is never charged twice.
+   * @async
+   * @param {Invoice} invoice - The invoice to charge.
+   * @returns {Promise<Payment>} A Promise that resolves to the last recorded operation (`CAPTURED`, `DECLINED` or `PENDING`).
+   * @throws {PaymentGatewayException} If the provider cannot be reached. The failed operation is recorded before rethrowing.
+   */
+  async charge(invoice: Invoice): Promise<Payment> {
+    const previous = await this.findOutcome(invoice);
+    if (previous && previous.status !== PaymentStatus.AUTHORIZED) {
+      return previous;
+    }
+    const authorization =
+      previous ??
+      (await this.record(
+        invoice,
+        PaymentOperation.AUTHORIZE,
+        invoice.total,
+        () =>
+          this.paymentGateway.authorize({
+            orderId: invoice.orderId,
+            amount: invoice.total,
+            currency: invoice.currency,
+          }),
+      ));
+    if (authorization.status !== PaymentStatus.AUTHORIZED) {
+      return authorization;
+    }
+    return this.record(invoice, PaymentOperation.CAPTURE, invoice.total, () =>
+      this.paymentGateway.capture(authorization.transactionId, invoice.total),
+    );
+  }
+
+  /**
+   * Refunds a charged invoice, fully or partially.
+   * @async
+   * @param {Invoice} invoice - The charged invoice.
+   * @param {number} amount - The amount to refund, in minor units.
+   * @returns {Promise<Payment>} A Promise that resolves to the recorded operation (`REFUNDED` or `DECLINED`).
+   * @throws {NotFoundException} If the invoice has not been captured.
+   * @throws {PaymentGatewayException} If the provider cannot be reached. The failed operation is recorded before rethrowing.
+   */
+  async refund(invoice: Invoice, amount: number): Promise<Payment> {
+    const capture = await this.findTransaction(invoice, PaymentStatus.CAPTURED);
+    return this.record(invoice, PaymentOperation.REFUND, amount, () =>
+      this.paymentGateway.refund(capture.transactionId, amount),
+    );
+  }
+
+  /**
+   * Releases the authorization of an invoice which has not been captured (e.g. still awaiting a 3-D Secure challenge).
+   * @async
+   * @param {Invoice} invoice - The authorized invoice.
+   * @returns {Promise<Payment>} A Promise that resolves to the recorded operation (`VOIDED` or `DECLINED`).
+   * @throws {NotFoundException} If the invoice has not been authorized.
+   * @throws {PaymentGatewayException} If the provider cannot be reached. The failed operation is recorded before rethrowing.
+   */
+  async void(invoice: Invoice): Promise<Payment> {
+    const authorization = await this.findTransaction(
+      invoice,
+      PaymentStatus.AUTHORIZED,
+      PaymentStatus.PENDING,
+    );
+    return this.record(invoice, PaymentOperation.VOID, invoice.total, () =>
+      this.paymentGateway.void(authorization.transactionId),
+    );
+  }
+
+  /**
+   * Retrieves the operations recorded for an invoice, in the order they were performed.
+   * @async
+   * @param {string} invoiceId - Identifier of the invoice.
+   * @returns {Promise<Payment[]>} A Promise that resolves to the recorded operations.
+   */
+  async getPayments(invoiceId: string): Promise<Payment[]> {
+    return this.paymentsRepository.find({ invoiceId });
+  }
+
+  /**
+   * Retrieves the last operation of an invoice which reached the provider, skipping the `FAILED` ones.
+   * @private
+   * @async
+   * @param {Invoice} invoice - The invoice.
+   * @returns {Promise<Payment | undefined>} A Promise that resolves to the operation, or `undefined` if none reached the provider.
+   */
+  private async findOutcome(invoice: Invoice): Promise<Payment | undefined> {
+    const payments = await this.paymentsRepository.find({
+      invoiceId: invoice._id.toHexString(),
+      status: { $ne: PaymentStatus.FAILED },
+    });
+    return payments[payments.length - 1];
+  }
+
+  /**
+   * Retrieves the last operation of an invoice which ended with one of the given statuses.
+   * @private
+   * @async
+   * @param {Invoice} invoice - The invoice.
+   * @param {...PaymentStatus} statuses - The accepted statuses.
+   * @returns {Promise<Payment>} A Promise that resolves to the matching operation.
+   * @throws {NotFoundException} If no operation of the invoice ended with one of the statuses.
+   */
+  private async findTransaction(
+    invoice: Invoice,
+    ...statuses: PaymentStatus[]
+  ): Promise<Payment> {
+    const payments = await this.paymentsRepository.find({
+      invoiceId: invoice._id.toHexString(),
+      status: { $in: statuses },
+    });
+    if (!payments.length) {
+      throw new NotFoundException(
+        `No ${statuses.join(' or ')} payment for invoice ${invoice.number}.`,
+      );
+    }
+    return payments[payments.length - 1];
+  }
+
+  /**
+   * Performs a gateway operation and records its outcome.
+   * When the provider cannot be reached, a `FAILED` operation is recorded and the exception is rethrown.
+   * @private
+   * @async
+   * @param {Invoice} invoice - The invoice the operation is performed for.
+   * @param {PaymentOperation} operation - The performed operation.
+   * @param {number} amount - The amount of the operation, in minor units.
+   * @param {() => Promise<PaymentResult>} perform - Calls the gateway.
+   * @returns {Promise<Payment>} A Promise that resolves to the recorded operation.
+   */
+  private async record(
+    invoice: Invoice,
+    operation: PaymentOperation,
+    amount: number,
+    perform: () => Promise<PaymentResult>,
+  ): Promise<Payment> {
+    const payment = {
+      invoiceId: invoice._id.toHexString(),
+      orderId: invoice.orderId,
+      provider: this.paymentGateway.provider,
+      operation,
+      amount,
+      currency: invoice.currency,
+    };
+    let result: PaymentResult;
+    try {
+      result = await perform();
+    } catch (err) {
+      await this.paymentsRepository.create({
+        ...payment,
+        status: PaymentStatus.FAILED,
+        reason: err.message,
+        processedAt: new Date(),
+      });
+      throw err;
+    }
+    this.logger.log(
+      `${operation} ${result.status} for invoice ${invoice.number} (${result.transactionId})`,
+    );
+    return this.paymentsRepository.create({
+      ...payment,
+      ...result,
+      processedAt: new Date(),
+    });
+  }
+}
@@ -0,0 +1,139 @@
+import { Injectable } from '@nestjs/common';
+import { createHash } from 'crypto';
+import { PaymentStatus } from '../models/payment-status';
+import { PaymentGatewayException } from '../payment-gateway.exception';
+import {
+  AuthorizeRequest,
+  PaymentGateway,
+  PaymentResult,
+} from '../payment-gateway';
+
+/**
+ * Minor units (the last two digits of the amount) triggering the simulated failures of the `FakePaymentGateway`.
+ */
+export const FAKE_PAYMENT_TRIGGERS = {
+  /**
+   * The authorization is declined (e.g. `10.01`).
+   */
+  DECLINE: 1,
+  /**
+   * The provider times out on every operation (e.g. `10.02`).
+   */
+  TIMEOUT: 2,
+  /**
+   * The authorization awaits a 3-D Secure challenge (e.g. `10.03`).
+   */
+  REQUIRES_ACTION: 3,
+};
+
+/**
+ * In-process payment provider used for local development and to exercise the failure paths without any outside service.
+ * It is deterministic: the outcome only depends on the last two digits of the amount (see {@link FAKE_PAYMENT_TRIGGERS}),
+ * and the transaction id only depends on the order, so replaying an operation gives the same result.
+ * Any other amount is authorized, captured, refunded and voided successfully.
+ */
+@Injectable()
+export class FakePaymentGateway implements PaymentGateway {
+  readonly provider = 'fake';
+
+  /**
+   * Authorizes the payment, unless its amount triggers a decline, a timeout or a pending 3-D Secure challenge.
+   * @async
+   * @param {AuthorizeRequest} request The payment to authorize.
+   * @returns {Promise<PaymentResult>} The simulated result.
+   * @throws {PaymentGatewayException} If the amount triggers a timeout.
+   */
+  async authorize({
+    orderId,
+    amount,
+  }: AuthorizeRequest): Promise<PaymentResult> {
+    const transactionId = this.getTransactionId(orderId);
+    switch (this.getTrigger(amount)) {
+      case FAKE_PAYMENT_TRIGGERS.DECLINE:
+        return {
+          status: PaymentStatus.DECLINED,
+          transactionId,
+          reason: 'Card declined',
+        };
+      case FAKE_PAYMENT_TRIGGERS.TIMEOUT:
+        throw new PaymentGatewayException(this.provider, 'Request timed out');
+      case FAKE_PAYMENT_TRIGGERS.REQUIRES_ACTION:
+        return {
+          status: PaymentStatus.PENDING,
+          transactionId,
+          reason: '3-D Secure authentication required',
+        };
+      default:
+        return { status: PaymentStatus.AUTHORIZED, transactionId };
+    }
+  }
+
+  /**
+   * Captures the authorization.
+   * @async
+   * @param {string} transactionId The authorized transaction.
+   * @param {number} amount The amount to collect, in minor units.
+   * @returns {Promise<PaymentResult>} The simulated result.
+   * @throws {PaymentGatewayException} If the amount triggers a timeout.
+   */
+  async capture(transactionId: string, amount: number): Promise<PaymentResult> {
+    this.simulateTimeout(amount);
+    return { status: PaymentStatus.CAPTURED, transactionId };
+  }
+
+  /**
+   * Refunds the captured transaction.
+   * @async
+   * @param {string} transactionId The captured transaction.
+   * @param {number} amount The amount to give back, in minor units.
+   * @returns {Promise<PaymentResult>} The simulated result.
+   * @throws {PaymentGatewayException} If the amount triggers a timeout.
+   */
+  async refund(transactionId: string, amount: number): Promise<PaymentResult> {
+    this.simulateTimeout(amount);
+    return { status: PaymentStatus.REFUNDED, transactionId };
+  }
+
+  /**
+   * Voids the authorization.
+   * @async
+   * @param {string} transactionId The authorized transaction.
+   * @returns {Promise<PaymentResult>} The simulated result.
+   */
+  async void(transactionId: string): Promise<PaymentResult> {
+    return { status: PaymentStatus.VOIDED, transactionId };
+  }
+
+  /**
+   * Returns the trigger encoded in the minor units of an amount.
+   * @private
+   * @param {number} amount The amount, in minor units.
+   * @returns {number} The last two digits of the amount.
+   */
+  private getTrigger(amount: number): number {
+    return amount % 100;
+  }
+
+  /**
+   * Throws like a provider not answering in time when the amount triggers a timeout.
+   * @private
+   * @param {number} amount The amount, in minor units.
+   * @throws {PaymentGatewayException} If the amount triggers a timeout.
+   */
+  private simulateTimeout(amount: number): void {
+    if (this.getTrigger(amount) === FAKE_PAYMENT_TRIGGERS.TIMEOUT) {
+      throw new PaymentGatewayException(this.provider, 'Request timed out');
+    }
+  }
+
+  /**
+   * Derives a stable transaction id from the order.
+   * @private
+   * @param {string} orderId Identifier of the paid order.
+   * @returns {string} The transaction id (e.g. `fake_3f1c...`).
+   */
+  private getTransactionId(orderId: string): string {
+    const hash = createHash('sha256').update(orderId).digest('hex');
+    return `${this.provider}_${hash.slice(0, 24)}`;
+  }
+}
@@ -0,0 +1,20 @@
+import {
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsPositive,
+  IsString,
+} from 'class-validator';
+
+export class CancelOrderReq {
+  // Minor units of the order currency, everything is refunded when omitted
+  @IsOptional()
+  @IsInt()
+  @IsPositive()
+  amount?: number;
+
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  reason?: string;
+}
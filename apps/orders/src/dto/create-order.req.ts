@@ -1,17 +1,28 @@
+import { Type } from 'class-transformer';
 import {
-  IsNotEmpty,
+  ArrayNotEmpty,
+  IsInt,
+  IsOptional,
   IsPhoneNumber,
-  IsPositive,
-  IsString,
+  Min,
+  Validate,
+  ValidateNested,
 } from 'class-validator';
+import { OrderLineReq } from './order-line.req';
+import { SameCurrencyConstraint } from './same-currency.validator';
 
 export class CreateOrderReq {
-  @IsString()
-  @IsNotEmpty()
-  name: string;
+  @ArrayNotEmpty()
+  @ValidateNested({ each: true })
+  @Type(() => OrderLineReq)
+  @Validate(SameCurrencyConstraint)
+  lines: OrderLineReq[];
 
-  @IsPositive()
-  price: number;
+  // Minor units of the currency, capped to the subtotal
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  discount?: number;
 
   @IsPhoneNumber()
   phoneNumber: string;
@@ -0,0 +1,86 @@
+import { Transform, Type } from 'class-transformer';
+import {
+  IsDate,
+  IsEnum,
+  IsIn,
+  IsInt,
+  IsOptional,
+  IsString,
+  Max,
+  Min,
+} from 'class-validator';
+import { OrderStatus } from '../models/order-status';
+
+// Sortable fields, descending when prefixed with `-`
+export const ORDER_SORTS = ['createdAt', '-createdAt', 'total', '-total'];
+
+// Fields which can be selected with `fields`
+export const ORDER_FIELDS = [
+  'lines',
+  'currency',
+  'subtotal',
+  'discount',
+  'total',
+  'phoneNumber',
+  'status',
+  'failureReason',
+  'cancellationReason',
+  'refundedAmount',
+];
+
+export class GetOrdersQuery {
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  limit?: number;
+
+  // Cursor returned as `nextCursor` by the previous page
+  @IsOptional()
+  @IsString()
+  cursor?: string;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(0)
+  offset?: number;
+
+  @IsOptional()
+  @IsIn(ORDER_SORTS)
+  sort?: string;
+
+  // Comma separated list of fields to return
+  @IsOptional()
+  @Transform(({ value }) => String(value).split(','))
+  @IsIn(ORDER_FIELDS, { each: true })
+  fields?: string[];
+
+  @IsOptional()
+  @IsEnum(OrderStatus)
+  status?: OrderStatus;
+
+  // Bounds of the order total, in minor units
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(0)
+  minPrice?: number;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(0)
+  maxPrice?: number;
+
+  @IsOptional()
+  @Type(() => Date)
+  @IsDate()
+  createdFrom?: Date;
+
+  @IsOptional()
+  @Type(() => Date)
+  @IsDate()
+  createdTo?: Date;
+}
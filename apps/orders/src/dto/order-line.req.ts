@@ -0,0 +1,31 @@
+import {
+  IsInt,
+  IsNotEmpty,
+  IsPositive,
+  IsString,
+  Matches,
+  Min,
+} from 'class-validator';
+
+export class OrderLineReq {
+  @IsString()
+  @IsNotEmpty()
+  sku: string;
+
+  @IsString()
+  @IsNotEmpty()
+  name: string;
+
+  @IsInt()
+  @IsPositive()
+  quantity: number;
+
+  // Minor units of the currency (e.g. cents)
+  @IsInt()
+  @Min(0)
+  unitPrice: number;
+
+  // ISO 4217 currency code
+  @Matches(/^[A-Z]{3}$/)
+  currency: string;
+}
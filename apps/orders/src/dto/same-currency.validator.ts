@@ -0,0 +1,37 @@
+import {
+  ValidationArguments,
+  ValidatorConstraint,
+  ValidatorConstraintInterface,
+} from 'class-validator';
+
+/**
+ * Validation constraint checking that every line of an order is priced in the same currency.
+ * @example
+ * ```ts
+ * @Validate(SameCurrencyConstraint)
+ * lines: OrderLineReq[];
+ * ```
+ */
+@ValidatorConstraint({ name: 'sameCurrency' })
+export class SameCurrencyConstraint implements ValidatorConstraintInterface {
+  /**
+   * Validates the lines.
+   * @param {{ currency: string }[]} lines The lines of the order.
+   * @returns {boolean} `true` if all the lines share the same currency.
+   */
+  validate(lines: { currency: string }[]): boolean {
+    return (
+      Array.isArray(lines) &&
+      new Set(lines.map((line) => line?.currency)).size <= 1
+    );
+  }
+
+  /**
+   * Builds the error message of a failed validation.
+   * @param {ValidationArguments} args The arguments of the validation.
+   * @returns {string} The error message.
+   */
+  defaultMessage(args: ValidationArguments): string {
+    return `${args.property} must all be priced in the same currency`;
+  }
+}
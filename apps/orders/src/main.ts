@@ -2,11 +2,17 @@ import { NestFactory } from '@nestjs/core';
 import { OrdersModule } from './orders.module';
 import { ValidationPipe } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
+import { QUEUE_ORDERS, RmqService } from '@app/common';
 
 async function bootstrap() {
   const app = await NestFactory.create(OrdersModule);
-  app.useGlobalPipes(new ValidationPipe());
+  const rmqService = app.get<RmqService>(RmqService);
+  // Listen to the replies of the billing service
+  app.connectMicroservice(rmqService.getServer(QUEUE_ORDERS));
+  // Transform the payloads into their DTO, so that query parameters are converted to numbers and dates
+  app.useGlobalPipes(new ValidationPipe({ transform: true }));
   const configService = app.get(ConfigService);
+  await app.startAllMicroservices();
   await app.listen(configService.get('PORT'));
 }
 bootstrap();
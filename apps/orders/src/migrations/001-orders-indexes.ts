@@ -0,0 +1,19 @@
+import { Migration } from '@app/common';
+
+/**
+ * Declares the indexes of `orders`: the orders of a user, and the pending orders scanned by the timeout job.
+ */
+export const ordersIndexes: Migration = {
+  version: 1,
+  name: 'orders-indexes',
+  async up(connection) {
+    await connection
+      .collection('orders')
+      .createIndexes([{ key: { userId: 1 } }, { key: { status: 1, _id: 1 } }]);
+  },
+  async down(connection) {
+    const orders = connection.collection('orders');
+    await orders.dropIndex('userId_1');
+    await orders.dropIndex('status_1__id_1');
+  },
+};
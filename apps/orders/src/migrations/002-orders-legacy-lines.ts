@@ -0,0 +1,58 @@
+import { Migration } from '@app/common';
+
+// Single-line orders predate currencies, their price was in major units
+const LEGACY_SKU = 'LEGACY';
+const LEGACY_CURRENCY = 'USD';
+
+/**
+ * Converts the legacy single-item orders (`name`, `price`) into orders with `lines` and amounts in minor units.
+ */
+export const ordersLegacyLines: Migration = {
+  version: 2,
+  name: 'orders-legacy-lines',
+  async up(connection) {
+    await connection
+      .collection('orders')
+      .updateMany({ lines: { $exists: false }, price: { $exists: true } }, [
+        { $set: { amount: { $round: [{ $multiply: ['$price', 100] }, 0] } } },
+        {
+          $set: {
+            lines: [
+              {
+                sku: LEGACY_SKU,
+                name: '$name',
+                quantity: 1,
+                unitPrice: '$amount',
+                total: '$amount',
+              },
+            ],
+            currency: LEGACY_CURRENCY,
+            subtotal: '$amount',
+            discount: 0,
+            total: '$amount',
+            refundedAmount: {
+              $round: [
+                { $multiply: [{ $ifNull: ['$refundedAmount', 0] }, 100] },
+                0,
+              ],
+            },
+          },
+        },
+        { $unset: ['name', 'price', 'amount'] },
+      ]);
+  },
+  async down(connection) {
+    await connection
+      .collection('orders')
+      .updateMany({ 'lines.0.sku': LEGACY_SKU, lines: { $size: 1 } }, [
+        {
+          $set: {
+            name: { $arrayElemAt: ['$lines.name', 0] },
+            price: { $divide: ['$total', 100] },
+            refundedAmount: { $divide: ['$refundedAmount', 100] },
+          },
+        },
+        { $unset: ['lines', 'currency', 'subtotal', 'discount', 'total'] },
+      ]);
+  },
+};
@@ -0,0 +1,15 @@
+import { backfillDocumentMetadata, Migration } from '@app/common';
+
+/**
+ * Backfills `createdAt`, `updatedAt` and `version` on the orders placed before they were maintained by `AbstractRepository`.
+ */
+export const ordersBackfillMetadata: Migration = {
+  version: 3,
+  name: 'orders-backfill-metadata',
+  async up(connection) {
+    await backfillDocumentMetadata(connection, 'orders');
+  },
+  async down() {
+    // The backfilled fields cannot be told apart from the ones set on creation, so they are kept.
+  },
+};
@@ -0,0 +1,13 @@
+import { Migration } from '@app/common';
+import { ordersIndexes } from './001-orders-indexes';
+import { ordersLegacyLines } from './002-orders-legacy-lines';
+import { ordersBackfillMetadata } from './003-orders-backfill-metadata';
+
+/**
+ * Migrations of the orders database, applied with `pnpm migrate orders up`.
+ */
+export const migrations: Migration[] = [
+  ordersIndexes,
+  ordersLegacyLines,
+  ordersBackfillMetadata,
+];
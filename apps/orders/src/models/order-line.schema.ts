@@ -0,0 +1,22 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+
+// Amounts are integers in minor units of the order currency (e.g. cents)
+@Schema({ _id: false })
+export class OrderLine {
+  @Prop({ required: true })
+  sku: string;
+
+  @Prop({ required: true })
+  name: string;
+
+  @Prop({ required: true })
+  quantity: number;
+
+  @Prop({ required: true })
+  unitPrice: number;
+
+  @Prop({ required: true })
+  total: number;
+}
+
+export const OrderLineSchema = SchemaFactory.createForClass(OrderLine);
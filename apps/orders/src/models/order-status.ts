@@ -0,0 +1,51 @@
+/**
+ * Lifecycle status of an `Order`.
+ */
+export enum OrderStatus {
+  /**
+   * The order is created and waits for billing.
+   */
+  PENDING = 'PENDING',
+  /**
+   * The billing service billed the order.
+   */
+  BILLED = 'BILLED',
+  /**
+   * The order has been delivered, as marked by an admin through `POST /orders/:id/fulfill`.
+   */
+  FULFILLED = 'FULFILLED',
+  /**
+   * The order could not be billed, or billing did not answer in time.
+   */
+  FAILED = 'FAILED',
+  /**
+   * The order has been cancelled.
+   */
+  CANCELLED = 'CANCELLED',
+}
+
+/**
+ * Allowed transitions of the order lifecycle, keyed by source status.
+ * `FULFILLED`, `FAILED` and `CANCELLED` are final.
+ */
+export const ORDER_TRANSITIONS: Record<OrderStatus, OrderStatus[]> = {
+  [OrderStatus.PENDING]: [
+    OrderStatus.BILLED,
+    OrderStatus.FAILED,
+    OrderStatus.CANCELLED,
+  ],
+  [OrderStatus.BILLED]: [OrderStatus.FULFILLED, OrderStatus.CANCELLED],
+  [OrderStatus.FULFILLED]: [],
+  [OrderStatus.FAILED]: [],
+  [OrderStatus.CANCELLED]: [],
+};
+
+/**
+ * Returns the statuses an order can move to `status` from.
+ * @param {OrderStatus} status The target status.
+ * @returns {OrderStatus[]} The source statuses allowed by {@link ORDER_TRANSITIONS}.
+ */
+export const getSourceStatuses = (status: OrderStatus): OrderStatus[] =>
+  (Object.keys(ORDER_TRANSITIONS) as OrderStatus[]).filter((source) =>
+    ORDER_TRANSITIONS[source].includes(status),
+  );
@@ -1,16 +1,44 @@
 import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
 import { AbstractDocument } from '@app/common';
+import { OrderLine, OrderLineSchema } from './order-line.schema';
+import { OrderStatus } from './order-status';
 
 @Schema({ versionKey: false })
 export class Order extends AbstractDocument {
+  @Prop({ type: [OrderLineSchema] })
+  lines: OrderLine[];
+
+  // ISO 4217 currency code of the amounts, which are integers in minor units
+  @Prop()
+  currency: string;
+
   @Prop()
-  name: string;
+  subtotal: number;
+
+  @Prop({ default: 0 })
+  discount: number;
 
   @Prop()
-  price: number;
+  total: number;
 
   @Prop()
   phoneNumber: string;
+
+  @Prop({ index: true })
+  userId: string;
+
+  @Prop({ type: String, enum: OrderStatus, default: OrderStatus.PENDING })
+  status: OrderStatus;
+
+  @Prop()
+  failureReason?: string;
+
+  @Prop()
+  cancellationReason?: string;
+
+  @Prop({ default: 0 })
+  refundedAmount?: number;
 }
 
 export const OrderSchema = SchemaFactory.createForClass(Order);
+OrderSchema.index({ status: 1, _id: 1 });
@@ -0,0 +1,113 @@
+import {
+  ConflictException,
+  Injectable,
+  Logger,
+  OnApplicationBootstrap,
+  OnApplicationShutdown,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { OrdersRepository } from './orders.repository';
+import { OrdersService } from './orders.service';
+
+/**
+ * Default duration (in seconds) after which a pending order is failed.
+ */
+const DEFAULT_PENDING_TIMEOUT = 300;
+
+/**
+ * Injectable worker failing the orders that stay `PENDING` for too long.
+ * Billing may never answer for an order (e.g. its `ORDER_CREATED` event was dead-lettered), so the saga gives up
+ * after `ORDER_PENDING_TIMEOUT` seconds and marks the order as `FAILED`. Orders are checked every tenth of the timeout.
+ * Billing is told to void or refund the failed orders, in case it bills them after all.
+ */
+@Injectable()
+export class OrderTimeoutService
+  implements OnApplicationBootstrap, OnApplicationShutdown
+{
+  private readonly logger = new Logger(OrderTimeoutService.name, {
+    timestamp: true,
+  });
+
+  /**
+   * Handle of the checking interval, cleared on shutdown.
+   * @private
+   */
+  private timer: NodeJS.Timer;
+
+  /**
+   * Constructor for OrderTimeoutService.
+   * @param {OrdersRepository} ordersRepository - Injected OrdersRepository instance, used to find the stale orders.
+   * @param {OrdersService} ordersService - Injected OrdersService instance, used to fail the stale orders.
+   * @param {ConfigService} configService - Injected ConfigService instance, used to read the timeout.
+   */
+  constructor(
+    private readonly ordersRepository: OrdersRepository,
+    private readonly ordersService: OrdersService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  /**
+   * Starts checking the pending orders once the application has bootstrapped.
+   */
+  onApplicationBootstrap() {
+    this.timer = setInterval(
+      () => this.failStaleOrders(),
+      (this.getTimeout() * 1000) / 10,
+    );
+  }
+
+  /**
+   * Stops checking the pending orders when the application shuts down.
+   */
+  onApplicationShutdown() {
+    clearInterval(this.timer);
+  }
+
+  /**
+   * Fails the orders pending for longer than the timeout.
+   * An order billing answered for in the meantime is left as is.
+   * @async
+   * @returns {Promise<void>} A Promise that resolves once the orders are updated. Errors are logged, never thrown.
+   */
+  async failStaleOrders(): Promise<void> {
+    try {
+      const timeout = this.getTimeout();
+      const orders = await this.ordersRepository.findPendingCreatedBefore(
+        new Date(Date.now() - timeout * 1000),
+      );
+      let failed = 0;
+      for (const order of orders) {
+        try {
+          await this.ordersService.failTimedOutOrder(
+            order._id.toHexString(),
+            `Billing did not complete within ${timeout}s`,
+          );
+          failed++;
+        } catch (err) {
+          if (!(err instanceof ConflictException)) {
+            throw err;
+          }
+        }
+      }
+      if (failed) {
+        this.logger.warn(
+          `Failed ${failed} order(s) pending for over ${timeout}s`,
+        );
+      }
+    } catch (err) {
+      this.logger.error('Failed to check the pending orders', err?.stack);
+    }
+  }
+
+  /**
+   * Reads the timeout from the `ORDER_PENDING_TIMEOUT` setting.
+   * @private
+   * @returns {number} The timeout in seconds.
+   */
+  private getTimeout(): number {
+    return (
+      Number(this.configService.get('ORDER_PENDING_TIMEOUT')) ||
+      DEFAULT_PENDING_TIMEOUT
+    );
+  }
+}
@@ -1,23 +1,72 @@
-import { Body, Controller, Get, Post, Req, UseGuards } from '@nestjs/common';
+import {
+  Body,
+  ConflictException,
+  Controller,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Logger,
+  Param,
+  Post,
+  Query,
+  Req,
+  UseFilters,
+  UseGuards,
+} from '@nestjs/common';
+import { Ctx, EventPattern, Payload, RmqContext } from '@nestjs/microservices';
 import { OrdersService } from './orders.service';
 import { CreateOrderReq } from './dto/create-order.req';
-import { JwtAuthGuard } from '@app/common';
+import { CancelOrderReq } from './dto/cancel-order.req';
+import { GetOrdersQuery } from './dto/get-orders.query';
+import {
+  BILLING_COMPLETED,
+  BILLING_FAILED,
+  BillingCompletedEvent,
+  BillingFailedEvent,
+  EventValidationPipe,
+  FreshUser,
+  Idempotent,
+  JwtAuthGuard,
+  Page,
+  Permission,
+  Permissions,
+  RateLimit,
+  RateLimitGuard,
+  REFUND_COMPLETED,
+  RefundCompletedEvent,
+  RmqRetryFilter,
+  RmqService,
+  USER_DELETED,
+  UserDeletedEvent,
+} from '@app/common';
 import { Order } from './models/order.schema';
+import { OrderStatus } from './models/order-status';
 
 /**
  * Controller for handling order-related API endpoints.
- * This controller manages operations related to orders, such as creating new orders and retrieving existing orders.
+ * This controller manages operations related to orders, such as creating, retrieving and cancelling orders.
  * It exposes endpoints under the '/orders' route and utilizes the OrdersService for business logic.
+ * It also consumes the replies of the billing service, which move orders along their lifecycle,
+ * and the `USER_DELETED` event of the auth service, which anonymizes the orders of a deleted user.
  * @Controller('orders') Decorator that sets the base route for this controller to '/orders'.
  */
 @Controller('orders')
 export class OrdersController {
+  private readonly logger = new Logger(OrdersController.name, {
+    timestamp: true,
+  });
+
   /**
    * Constructor for OrdersController.
    * @param {OrdersService} ordersService - Injected OrdersService instance.
    *        Provides the business logic for order operations like creating and retrieving orders.
+   * @param {RmqService} rmqService - Injected RmqService instance.
+   *        Provides utility functions for RabbitMQ, specifically for acknowledging messages.
    */
-  constructor(private readonly ordersService: OrdersService) {}
+  constructor(
+    private readonly ordersService: OrdersService,
+    private readonly rmqService: RmqService,
+  ) {}
 
   /**
    * Endpoint to create a new order.
@@ -25,21 +74,27 @@ export class OrdersController {
    * @Post() Decorator that maps this method to handle POST requests to '/orders'.
    * @UseGuards(JwtAuthGuard) Decorator that applies the JwtAuthGuard to this endpoint, protecting it to only authenticated users.
    *        Note: This guard is imported from the `@app/common` library, indicating a shared authentication guard module.
+   * @UseGuards(RateLimitGuard) Decorator that then counts the orders of the authenticated user.
+   * @RateLimit({ limit: 30, window: 60, by: 'user' }) Accepts 30 orders per minute and user, answering `429 Too Many Requests` beyond.
+   * @FreshUser() Decorator that makes the JwtAuthGuard ask the auth service, so that the token of a revoked session cannot place orders.
    * @param {CreateOrderReq} body - The request body containing order creation details.
    *        @Body() Decorator that extracts and validates the request body, expecting a `CreateOrderReq` object.
    *        `CreateOrderReq` is a Data Transfer Object (DTO) defining the structure for creating an order.
    * @param {Request} request - The request object, automatically injected by NestJS.
    *        @Req() Decorator that injects the request object, providing access to request-specific data, such as cookies or headers.
-   *        In this case, it is used to potentially access authentication information, although the user information is typically handled by the `JwtAuthGuard`.
+   *        It gives the user validated by the `JwtAuthGuard`, who owns the order.
    * @returns {Promise<Order>} A Promise that resolves to the newly created Order object.
    *
    * @example
-   * Request Body (example `CreateOrderReq`):
+   * Request Body (example `CreateOrderReq`, amounts in minor units):
    * ```json
    * {
-   *   "name": "Laptop",
-   *   "price": 1200,
-   *   "phoneNumber": "01234"
+   *   "lines": [
+   *     { "sku": "LPT-13", "name": "Laptop", "quantity": 1, "unitPrice": 120000, "currency": "EUR" },
+   *     { "sku": "MSE-01", "name": "Mouse", "quantity": 2, "unitPrice": 2500, "currency": "EUR" }
+   *   ],
+   *   "discount": 5000,
+   *   "phoneNumber": "+393331234567"
    * }
    * ```
    *
@@ -47,53 +102,266 @@ export class OrdersController {
    * ```json
    * {
    *   "_id": "654c1e6a7b1e9b7b5d3a0e1a",
-   *   "name": "Laptop",
-   *   "price": 1200,
-   *   "phoneNumber": "01234",
+   *   "lines": [
+   *     { "sku": "LPT-13", "name": "Laptop", "quantity": 1, "unitPrice": 120000, "total": 120000 },
+   *     { "sku": "MSE-01", "name": "Mouse", "quantity": 2, "unitPrice": 2500, "total": 5000 }
+   *   ],
+   *   "currency": "EUR",
+   *   "subtotal": 125000,
+   *   "discount": 5000,
+   *   "total": 120000,
+   *   "phoneNumber": "+393331234567",
+   *   "userId": "654c1d2f7b1e9b7b5d3a0e19",
+   *   "status": "PENDING"
    * }
    * ```
    */
   @Post()
-  @UseGuards(JwtAuthGuard) // Applying JwtAuthGuard to secure this endpoint
+  @UseGuards(JwtAuthGuard, RateLimitGuard) // Applying JwtAuthGuard to secure this endpoint, then limiting the orders per user
+  @RateLimit({ limit: 30, window: 60, by: 'user' })
+  @FreshUser()
   async createOrder(
     @Body() body: CreateOrderReq,
     @Req() request: any,
   ): Promise<Order> {
-    console.log(request.user);
     return this.ordersService.createOrder(
       body,
-      // Passing the Authentication cookie, although JWT guard should handle authentication, cookie might be used for context or further processing.
-      request.cookies?.Authentication,
+      // The owner of the order is the user validated by the JwtAuthGuard
+      request.user._id,
     );
   }
 
   /**
-   * Endpoint to retrieve all orders.
-   * This endpoint is currently open and does not require authentication.
+   * Endpoint to retrieve a page of the orders of the authenticated user.
+   * Pages are addressed by the `nextCursor` of the previous page, or by `offset`. Amounts are in minor units.
    * @Get() Decorator that maps this method to handle GET requests to `/orders`.
-   * @returns {Promise<Order[]>} A Promise that resolves to an array of `Order` objects, representing all orders in the system.
+   * @UseGuards(JwtAuthGuard) Decorator that applies the JwtAuthGuard to this endpoint, protecting it to only authenticated users.
+   * @param {GetOrdersQuery} query - The validated query parameters: `limit`, `cursor`, `offset`, `sort`, `fields`, `status`,
+   *        `minPrice`, `maxPrice`, `createdFrom` and `createdTo`.
+   * @param {Request} request - The request object, whose `user` is set by the `JwtAuthGuard`.
+   * @returns {Promise<Page<Order>>} A Promise that resolves to a page of `Order` objects, representing the orders of the user.
+   * @throws {BadRequestException} If a query parameter is invalid.
    *
    * @example
-   * Response Body (example `Order[]`):
+   * Request: `GET /orders?limit=2&sort=-total&minPrice=5000&fields=total,status`
+   *
+   * Response Body (example `Page<Order>`):
    * ```json
-   * [
-   *   {
-   *     "_id": "654c1e6a7b1e9b7b5d3a0e1a",
-   *     "name": "Laptop",
-   *     "price": 1200,
-   *     "phoneNumber": "01234",
-   *   },
-   *   {
-   *     "_id": "654c1e7c7b1e9b7b5d3a0e1b",
-   *     "name": "Keyboard",
-   *     "price": 75,
-   *     "phoneNumber": "56789",
-   *   }
-   * ]
+   * {
+   *   "items": [
+   *     { "_id": "654c1e6a7b1e9b7b5d3a0e1a", "total": 120000, "status": "BILLED" },
+   *     { "_id": "654c1e7c7b1e9b7b5d3a0e1b", "total": 7500, "status": "PENDING" }
+   *   ],
+   *   "total": 3,
+   *   "limit": 2,
+   *   "nextCursor": "Wzc1MDAseyIkb2lkIjoiNjU0YzFlN2M3YjFlOWI3YjVkM2EwZTFiIn1d"
+   * }
    * ```
    */
   @Get()
-  async getOrders(): Promise<Order[]> {
-    return this.ordersService.getOrders();
+  @UseGuards(JwtAuthGuard)
+  async getOrders(
+    @Query() query: GetOrdersQuery,
+    @Req() request: any,
+  ): Promise<Page<Order>> {
+    return this.ordersService.getOrders(request.user._id, query);
+  }
+
+  /**
+   * Admin endpoint to retrieve a page of the orders of every user, filtered and sorted as by `GET /orders`.
+   * @Get('all') Decorator that maps this method to handle GET requests to `/orders/all`.
+   * @UseGuards(JwtAuthGuard) Decorator that applies the JwtAuthGuard to this endpoint, which also enforces the `orders:read:all` permission.
+   * @FreshUser() Decorator that makes the JwtAuthGuard check the current permissions of the user, so that a revoked admin loses access at once.
+   * @param {GetOrdersQuery} query - The validated query parameters, as for `GET /orders`.
+   * @returns {Promise<Page<Order>>} A Promise that resolves to a page of `Order` objects.
+   * @throws {ForbiddenException} If the user lacks the `orders:read:all` permission.
+   */
+  @Get('all')
+  @UseGuards(JwtAuthGuard)
+  @Permissions(Permission.ORDERS_READ_ALL)
+  @FreshUser()
+  async getAllOrders(@Query() query: GetOrdersQuery): Promise<Page<Order>> {
+    return this.ordersService.getAllOrders(query);
+  }
+
+  /**
+   * Endpoint to retrieve an order of the authenticated user.
+   * @Get(':id') Decorator that maps this method to handle GET requests to `/orders/:id`.
+   * @UseGuards(JwtAuthGuard) Decorator that applies the JwtAuthGuard to this endpoint, protecting it to only authenticated users.
+   * @param {string} id - Identifier of the order.
+   * @param {Request} request - The request object, whose `user` is set by the `JwtAuthGuard`.
+   * @returns {Promise<Order>} A Promise that resolves to the Order object.
+   * @throws {NotFoundException} If the order does not exist or belongs to another user.
+   */
+  @Get(':id')
+  @UseGuards(JwtAuthGuard)
+  async getOrder(@Param('id') id: string, @Req() request: any): Promise<Order> {
+    return this.ordersService.getOrder(id, request.user._id);
+  }
+
+  /**
+   * Endpoint to cancel an order of the authenticated user.
+   * Only pending and billed orders can be cancelled. The billing microservice then refunds the order,
+   * fully or by the given `amount`, and confirms with a `REFUND_COMPLETED` event.
+   * @Post(':id/cancel') Decorator that maps this method to handle POST requests to '/orders/:id/cancel'.
+   * @UseGuards(JwtAuthGuard) Decorator that applies the JwtAuthGuard to this endpoint, protecting it to only authenticated users.
+   * @FreshUser() Decorator that makes the JwtAuthGuard reject the tokens of revoked sessions and stale token versions.
+   * @param {string} id - Identifier of the order.
+   * @param {CancelOrderReq} body - The amount to refund (everything when omitted) and the reason of the cancellation.
+   * @param {Request} request - The request object, whose `user` is set by the `JwtAuthGuard`.
+   * @returns {Promise<Order>} A Promise that resolves to the cancelled Order object.
+   * @throws {NotFoundException} If the order does not exist or belongs to another user.
+   * @throws {BadRequestException} If the amount to refund exceeds the total of the order.
+   * @throws {ConflictException} If the order can no longer be cancelled.
+   *
+   * @example
+   * Request Body (example `CancelOrderReq`, refunding part of the order, in minor units):
+   * ```json
+   * {
+   *   "amount": 20000,
+   *   "reason": "Damaged on delivery"
+   * }
+   * ```
+   */
+  @Post(':id/cancel')
+  @HttpCode(HttpStatus.OK)
+  @UseGuards(JwtAuthGuard)
+  @FreshUser()
+  async cancelOrder(
+    @Param('id') id: string,
+    @Body() body: CancelOrderReq,
+    @Req() request: any,
+  ): Promise<Order> {
+    return this.ordersService.cancelOrder(id, request.user._id, body);
+  }
+
+  /**
+   * Admin endpoint to mark a billed order as fulfilled once it has been delivered.
+   * @Post(':id/fulfill') Decorator that maps this method to handle POST requests to '/orders/:id/fulfill'.
+   * @UseGuards(JwtAuthGuard) Decorator that applies the JwtAuthGuard to this endpoint, which also enforces the `orders:fulfill` permission.
+   * @FreshUser() Decorator that makes the JwtAuthGuard check the current permissions of the user, so that a revoked admin loses access at once.
+   * @param {string} id - Identifier of the order.
+   * @returns {Promise<Order>} A Promise that resolves to the fulfilled Order object.
+   * @throws {ForbiddenException} If the user lacks the `orders:fulfill` permission.
+   * @throws {NotFoundException} If the order does not exist.
+   * @throws {ConflictException} If the order is not billed.
+   */
+  @Post(':id/fulfill')
+  @HttpCode(HttpStatus.OK)
+  @UseGuards(JwtAuthGuard)
+  @Permissions(Permission.ORDERS_FULFILL)
+  @FreshUser()
+  async fulfillOrder(@Param('id') id: string): Promise<Order> {
+    return this.ordersService.fulfillOrder(id);
+  }
+
+  /**
+   * Handles the `BILLING_COMPLETED` event, moving the billed order to `BILLED`.
+   * @EventPattern(BILLING_COMPLETED) Decorator that specifies this method as an event handler for the 'BILLING_COMPLETED' pattern.
+   * @UseFilters(RmqRetryFilter) Decorator that retries or dead-letters the message when an exception is thrown.
+   * @Idempotent() Decorator that acknowledges and skips a redelivered message.
+   * @param {BillingCompletedEvent} data - The payload of the event, validated against the `BILLING_COMPLETED` contract.
+   * @param {RmqContext} context - The `RmqContext` of the message, used to acknowledge it.
+   * @returns A Promise that resolves after updating the order and acknowledging the message.
+   */
+  @EventPattern(BILLING_COMPLETED)
+  @UseFilters(RmqRetryFilter)
+  @Idempotent()
+  async handleBillingCompleted(
+    @Payload(new EventValidationPipe(BILLING_COMPLETED))
+    data: BillingCompletedEvent,
+    @Ctx() context: RmqContext,
+  ) {
+    await this.applyTransition(data.orderId, OrderStatus.BILLED);
+    this.rmqService.ack(context);
+  }
+
+  /**
+   * Handles the `BILLING_FAILED` event, moving the order to `FAILED`.
+   * @EventPattern(BILLING_FAILED) Decorator that specifies this method as an event handler for the 'BILLING_FAILED' pattern.
+   * @UseFilters(RmqRetryFilter) Decorator that retries or dead-letters the message when an exception is thrown.
+   * @Idempotent() Decorator that acknowledges and skips a redelivered message.
+   * @param {BillingFailedEvent} data - The payload of the event, validated against the `BILLING_FAILED` contract.
+   * @param {RmqContext} context - The `RmqContext` of the message, used to acknowledge it.
+   * @returns A Promise that resolves after updating the order and acknowledging the message.
+   */
+  @EventPattern(BILLING_FAILED)
+  @UseFilters(RmqRetryFilter)
+  @Idempotent()
+  async handleBillingFailed(
+    @Payload(new EventValidationPipe(BILLING_FAILED)) data: BillingFailedEvent,
+    @Ctx() context: RmqContext,
+  ) {
+    await this.applyTransition(data.orderId, OrderStatus.FAILED, {
+      failureReason: data.reason,
+    });
+    this.rmqService.ack(context);
+  }
+
+  /**
+   * Handles the `REFUND_COMPLETED` event, recording the amount refunded for a cancelled order.
+   * @EventPattern(REFUND_COMPLETED) Decorator that specifies this method as an event handler for the 'REFUND_COMPLETED' pattern.
+   * @UseFilters(RmqRetryFilter) Decorator that retries or dead-letters the message when an exception is thrown.
+   * @Idempotent() Decorator that acknowledges and skips a redelivered message, so a refund is never recorded twice.
+   * @param {RefundCompletedEvent} data - The payload of the event, validated against the `REFUND_COMPLETED` contract.
+   * @param {RmqContext} context - The `RmqContext` of the message, used to acknowledge it.
+   * @returns A Promise that resolves after updating the order and acknowledging the message.
+   */
+  @EventPattern(REFUND_COMPLETED)
+  @UseFilters(RmqRetryFilter)
+  @Idempotent()
+  async handleRefundCompleted(
+    @Payload(new EventValidationPipe(REFUND_COMPLETED))
+    data: RefundCompletedEvent,
+    @Ctx() context: RmqContext,
+  ) {
+    await this.ordersService.recordRefund(data.orderId, data.amount);
+    this.rmqService.ack(context);
+  }
+
+  /**
+   * Handles the `USER_DELETED` event of the auth service, anonymizing the orders of the deleted user.
+   * @EventPattern(USER_DELETED) Decorator that specifies this method as an event handler for the 'USER_DELETED' pattern.
+   * @UseFilters(RmqRetryFilter) Decorator that retries or dead-letters the message when an exception is thrown.
+   * @Idempotent() Decorator that acknowledges and skips a redelivered message.
+   * @param {UserDeletedEvent} data - The payload of the event, validated against the `USER_DELETED` contract.
+   * @param {RmqContext} context - The `RmqContext` of the message, used to acknowledge it.
+   * @returns A Promise that resolves after anonymizing the orders and acknowledging the message.
+   */
+  @EventPattern(USER_DELETED)
+  @UseFilters(RmqRetryFilter)
+  @Idempotent()
+  async handleUserDeleted(
+    @Payload(new EventValidationPipe(USER_DELETED)) data: UserDeletedEvent,
+    @Ctx() context: RmqContext,
+  ) {
+    const count = await this.ordersService.anonymizeUserOrders(data.userId);
+    this.logger.log(`Anonymized ${count} orders of a deleted user`);
+    this.rmqService.ack(context);
+  }
+
+  /**
+   * Applies a transition requested by a billing reply.
+   * A reply for an order that already moved on (e.g. failed by the timeout) is stale: it is logged and dropped rather than retried.
+   * @private
+   * @async
+   * @param {string} orderId - Identifier of the order.
+   * @param {OrderStatus} status - The target status.
+   * @param {Partial<Order>} [update] - Additional fields to set along with the status.
+   * @returns {Promise<void>}
+   */
+  private async applyTransition(
+    orderId: string,
+    status: OrderStatus,
+    update?: Partial<Order>,
+  ): Promise<void> {
+    try {
+      await this.ordersService.updateStatus(orderId, status, update);
+    } catch (err) {
+      if (!(err instanceof ConflictException)) {
+        throw err;
+      }
+      this.logger.warn(`Ignoring stale billing reply: ${err.message}`);
+    }
   }
 }
@@ -3,20 +3,28 @@ import { ConfigModule } from '@nestjs/config';
 import { MongooseModule } from '@nestjs/mongoose';
 import * as Joi from 'joi';
 import {
+  AuditModule,
   AuthModule,
   BILLING_SERVICE,
   DatabaseModule,
+  IdempotencyModule,
+  MigrationsModule,
+  OutboxModule,
+  RateLimitModule,
+  RMQ_RETRY_DELAYS_PATTERN,
   RmqModule,
 } from '@app/common';
 import { OrdersController } from './orders.controller';
 import { OrdersService } from './orders.service';
 import { OrdersRepository } from './orders.repository';
+import { OrderTimeoutService } from './order-timeout.service';
 import { Order, OrderSchema } from './models/order.schema';
+import { migrations } from './migrations';
 
 /**
  * Module for managing orders within the application.
  * This module aggregates functionalities related to order creation, retrieval, and processing.
- * It configures auth guards for jwt, database interaction, RabbitMQ communication for billing, and input validation via Joi.
+ * It configures auth guards for jwt, database interaction, RabbitMQ communication with billing, the transactional outbox, and input validation via Joi.
  * @exports {OrdersModule} Exports the `OrdersModule` class, making it available for import in other modules.
  */
 @Module({
@@ -27,19 +35,46 @@ import { Order, OrderSchema } from './models/order.schema';
       validationSchema: Joi.object({
         MONGODB_URI: Joi.string().required(),
         PORT: Joi.number().required(),
+        OUTBOX_POLL_INTERVAL: Joi.number(),
+        RABBIT_MQ_URI: Joi.string().required(),
+        RABBIT_MQ_ORDERS_QUEUE: Joi.string().required(),
+        RABBIT_MQ_RETRY_DELAYS: Joi.string().pattern(RMQ_RETRY_DELAYS_PATTERN),
+        RABBIT_MQ_MAX_ATTEMPTS: Joi.number().integer().min(1),
+        ORDER_PENDING_TIMEOUT: Joi.number(),
+        MIGRATE_ON_BOOT: Joi.boolean().default(false),
+        AUTH_VERIFICATION: Joi.string().valid('local', 'rpc').default('rpc'),
+        AUTH_JWKS_URI: Joi.string().uri().when('AUTH_VERIFICATION', {
+          is: 'local',
+          then: Joi.required(),
+        }),
+        AUTH_JWKS_CACHE_TTL: Joi.number(),
+        RATE_LIMIT_STORE: Joi.string()
+          .valid('memory', 'mongo')
+          .default('memory'),
       }),
       envFilePath: './apps/orders/.env',
     }),
     // Common module to handle jwt cookies
     AuthModule,
+    // Records the tokens rejected by the JwtAuthGuard in the audit log of the auth service
+    AuditModule.register({ service: 'orders' }),
     DatabaseModule,
+    // Applies the pending orders migrations at boot when MIGRATE_ON_BOOT is set
+    MigrationsModule.register({ app: 'orders', migrations }),
     // Registers Mongoose module for the Order entity and schema
     MongooseModule.forFeature([{ name: Order.name, schema: OrderSchema }]),
     // Registers RmqModule for RabbitMQ communication with the billing service
     RmqModule.register({ name: BILLING_SERVICE }),
+    // Stores the events in the order transaction and relays them to the billing service
+    OutboxModule,
+    // Remembers the handled message ids to skip redelivered billing replies
+    IdempotencyModule,
+    // Limits the number of orders a user can place
+    RateLimitModule,
   ],
   controllers: [OrdersController],
-  // Declares the OrdersService and OrdersRepository to provide business logic and data access for orders
-  providers: [OrdersService, OrdersRepository],
+  // Declares the OrdersService and OrdersRepository to provide business logic and data access for orders,
+  // and the OrderTimeoutService failing the orders billing never answered for
+  providers: [OrdersService, OrdersRepository, OrderTimeoutService],
 })
 export class OrdersModule {}
@@ -1,8 +1,9 @@
 import { Injectable, Logger } from '@nestjs/common';
 import { InjectConnection, InjectModel } from '@nestjs/mongoose';
-import { Connection, Model } from 'mongoose';
-import { AbstractRepository } from '@app/common';
+import { Connection, Model, Types } from 'mongoose';
+import { AbstractRepository, ERASED_USER_ID } from '@app/common';
 import { Order } from './models/order.schema';
+import { OrderStatus } from './models/order-status';
 
 @Injectable()
 export class OrdersRepository extends AbstractRepository<Order> {
@@ -15,4 +16,42 @@ export class OrdersRepository extends AbstractRepository<Order> {
   ) {
     super(orderModel, connection);
   }
+
+  /**
+   * Finds the orders still pending that were created before `createdBefore`.
+   * The creation date is read from the timestamp embedded in the order's ObjectId.
+   * @async
+   * @param {Date} createdBefore Orders created before this date are returned.
+   * @returns {Promise<Order[]>} A Promise that resolves to the pending orders.
+   */
+  async findPendingCreatedBefore(createdBefore: Date): Promise<Order[]> {
+    return this.find({
+      status: OrderStatus.PENDING,
+      _id: {
+        $lt: Types.ObjectId.createFromTime(
+          Math.floor(createdBefore.getTime() / 1000),
+        ),
+      },
+    });
+  }
+
+  /**
+   * Anonymizes the orders of an erased user, soft deleted ones included.
+   * The orders are kept for the bookkeeping, but are detached from the user and lose their phone number and cancellation reason.
+   * @async
+   * @param {string} userId Identifier of the erased user.
+   * @returns {Promise<number>} A Promise that resolves to the number of anonymized orders.
+   */
+  async anonymizeUser(userId: string): Promise<number> {
+    const { modifiedCount } = await this.model.updateMany(
+      { userId },
+      {
+        $set: { userId: ERASED_USER_ID, updatedAt: new Date() },
+        $unset: { phoneNumber: '', cancellationReason: '' },
+        $inc: { version: 1 },
+      },
+      { session: this.session },
+    );
+    return modifiedCount;
+  }
 }
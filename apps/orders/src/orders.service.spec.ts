@@ -0,0 +1,99 @@
+import { ConflictException, NotFoundException } from '@nestjs/common';
+import {
+  BILLING_SERVICE,
+  ORDER_CREATED,
+  OutboxService,
+  UnitOfWork,
+} from '@app/common';
+import { Types } from 'mongoose';
+import { OrderStatus } from './models/order-status';
+import { OrdersRepository } from './orders.repository';
+import { OrdersService } from './orders.service';
+
+describe('OrdersService', () => {
+  const userId = new Types.ObjectId().toHexString();
+  const ordersRepository = {
+    create: jest.fn(async (order) => ({ _id: new Types.ObjectId(), ...order })),
+    findOne: jest.fn(),
+    findOneAndUpdate: jest.fn(),
+  };
+  const outboxService = { enqueue: jest.fn() };
+  const unitOfWork = { withTransaction: jest.fn((work) => work()) };
+  const service = new OrdersService(
+    ordersRepository as unknown as OrdersRepository,
+    outboxService as unknown as OutboxService,
+    unitOfWork as unknown as UnitOfWork,
+  );
+
+  beforeEach(() => jest.clearAllMocks());
+
+  it('stores the owner of a created order in its event, without credentials', async () => {
+    const order = await service.createOrder(
+      {
+        lines: [
+          {
+            sku: 'MSE-01',
+            name: 'Mouse',
+            quantity: 2,
+            unitPrice: 2500,
+            currency: 'EUR',
+          },
+        ],
+        discount: 1000,
+        phoneNumber: '+393331234567',
+      },
+      userId,
+    );
+
+    expect(order).toMatchObject({ status: OrderStatus.PENDING, total: 4000 });
+    expect(outboxService.enqueue).toHaveBeenCalledWith(
+      BILLING_SERVICE,
+      ORDER_CREATED,
+      expect.objectContaining({
+        orderId: order._id.toHexString(),
+        userId,
+        total: 4000,
+      }),
+    );
+    expect(outboxService.enqueue.mock.calls[0][2]).not.toHaveProperty(
+      'Authentication',
+    );
+  });
+
+  it('moves a billed order to fulfilled', async () => {
+    const orderId = new Types.ObjectId().toHexString();
+    ordersRepository.findOneAndUpdate.mockResolvedValueOnce({
+      status: OrderStatus.FULFILLED,
+    });
+
+    await service.fulfillOrder(orderId);
+
+    expect(ordersRepository.findOneAndUpdate).toHaveBeenCalledWith(
+      {
+        _id: new Types.ObjectId(orderId),
+        status: { $in: [OrderStatus.BILLED] },
+      },
+      { $set: { status: OrderStatus.FULFILLED } },
+    );
+  });
+
+  it('does not fulfill an order which is not billed', async () => {
+    ordersRepository.findOneAndUpdate.mockRejectedValueOnce(
+      new NotFoundException('Document not found.'),
+    );
+    ordersRepository.findOne.mockResolvedValueOnce({
+      status: OrderStatus.PENDING,
+    });
+
+    await expect(
+      service.fulfillOrder(new Types.ObjectId().toHexString()),
+    ).rejects.toBeInstanceOf(ConflictException);
+  });
+
+  it('answers not found for a malformed order identifier', async () => {
+    await expect(service.fulfillOrder('42')).rejects.toBeInstanceOf(
+      NotFoundException,
+    );
+    expect(ordersRepository.findOneAndUpdate).not.toHaveBeenCalled();
+  });
+});
@@ -1,14 +1,31 @@
-import { Inject, Injectable } from '@nestjs/common';
-import { ClientProxy } from '@nestjs/microservices';
-import { lastValueFrom } from 'rxjs';
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { FilterQuery, Types } from 'mongoose';
 import { OrdersRepository } from './orders.repository';
 import { CreateOrderReq } from './dto/create-order.req';
-import { BILLING_SERVICE, ORDER_CREATED } from '@app/common';
+import { CancelOrderReq } from './dto/cancel-order.req';
+import { GetOrdersQuery } from './dto/get-orders.query';
+import {
+  BILLING_SERVICE,
+  ORDER_CANCELLED,
+  ORDER_CREATED,
+  OutboxService,
+  Page,
+  SortSpec,
+  UnitOfWork,
+} from '@app/common';
 import { Order } from './models/order.schema';
+import { OrderLine } from './models/order-line.schema';
+import { getSourceStatuses, OrderStatus } from './models/order-status';
 
 /**
  * Injectable service for managing orders within the application.
- * This service handles order creation, retrieval, and interactions with the billing microservice.
+ * This service handles order creation, retrieval, status transitions, and interactions with the billing microservice.
+ * Events for the billing microservice are written to the transactional outbox, and published by the outbox relay.
  */
 @Injectable()
 export class OrdersService {
@@ -16,59 +33,323 @@ export class OrdersService {
    * Constructor for OrdersService.
    * @param {OrdersRepository} ordersRepository - Injected OrdersRepository instance.
    *        Provides data access methods for Order entities, interacting with the database.
-   * @param {ClientProxy} billingClient - Injected ClientProxy for the BILLING_SERVICE.
-   *        Enables communication with the billing microservice to trigger billing events.
-   * @Inject(BILLING_SERVICE) - Inject decorator to obtain the ClientProxy configured for BILLING_SERVICE.
+   * @param {OutboxService} outboxService - Injected OutboxService instance.
+   *        Stores the events for the billing microservice within the order transaction.
+   * @param {UnitOfWork} unitOfWork - Injected UnitOfWork instance.
+   *        Runs the writes of the orders and of the outbox in a single transaction.
    */
   constructor(
     private readonly ordersRepository: OrdersRepository,
-    @Inject(BILLING_SERVICE) private billingClient: ClientProxy,
+    private readonly outboxService: OutboxService,
+    private readonly unitOfWork: UnitOfWork,
   ) {}
 
   /**
    * Creates a new order and initiates the billing process.
-   * This method starts a database transaction to ensure atomicity, creates the order in the database,
-   * emits an 'ORDER_CREATED' event to the billing microservice, and commits the transaction upon success.
-   * If any error occurs, it aborts the transaction and propagates the error.
+   * The line totals, the subtotal, the discount and the total are computed from the requested lines (see {@link priceOrder}).
+   * This method runs a unit of work to ensure atomicity: it creates the order in the database and
+   * stores an 'ORDER_CREATED' event for the billing microservice in the outbox, within the same transaction.
+   * The event is published by the outbox relay once committed, so billing is notified if, and only if, the order exists.
+   * The user was validated when placing the order, so the event carries their identifier and never their credentials,
+   * which could expire or be revoked before the event is delivered.
+   * If any error occurs, the transaction is aborted and the error propagated.
    * @async
    * @param {CreateOrderReq} request - Data transfer object containing the details of the order to be created.
+   * @param {string} userId - Identifier of the user placing the order, who owns it.
    * @returns {Promise<Order>} A Promise that resolves to the newly created Order object.
-   * @throws {Error} If any error occurs during order creation or billing event emission, the transaction is aborted and the error is thrown.
+   * @throws {Error} If any error occurs during order creation or outbox write, the transaction is aborted and the error is thrown.
    */
-  async createOrder(
-    request: CreateOrderReq,
-    authentication: string,
+  async createOrder(request: CreateOrderReq, userId: string): Promise<Order> {
+    // Run the order and outbox writes in a single transaction
+    return this.unitOfWork.withTransaction(async () => {
+      // Create the order document in the database within the transaction
+      const order = await this.ordersRepository.create({
+        ...this.priceOrder(request),
+        phoneNumber: request.phoneNumber,
+        userId,
+        status: OrderStatus.PENDING,
+      });
+      // Store the ORDER_CREATED event for the billing microservice within the same transaction
+      await this.outboxService.enqueue(BILLING_SERVICE, ORDER_CREATED, {
+        // Pass the created order with its full breakdown and owner as payload
+        orderId: order._id.toHexString(),
+        userId,
+        lines: order.lines,
+        currency: order.currency,
+        subtotal: order.subtotal,
+        discount: order.discount,
+        total: order.total,
+        phoneNumber: order.phoneNumber,
+      });
+      return order;
+    });
+  }
+
+  /**
+   * Retrieves a page of the orders of a user from the database.
+   * Orders are filtered by status, total and creation date, and sorted from the most recent by default.
+   * The creation date is read from the order `_id`, whose ObjectId embeds its creation time.
+   * @async
+   * @param {string} userId - Identifier of the user.
+   * @param {GetOrdersQuery} [query] - The filters, sort, projection and page to retrieve.
+   * @returns {Promise<Page<Order>>} A Promise that resolves to a page of Order objects owned by the user.
+   * @throws {BadRequestException} If the cursor is malformed.
+   */
+  async getOrders(
+    userId: string,
+    query: GetOrdersQuery = {},
+  ): Promise<Page<Order>> {
+    return this.findOrders({ userId }, query);
+  }
+
+  /**
+   * Retrieves a page of the orders of every user, filtered and sorted as by {@link getOrders}.
+   * @async
+   * @param {GetOrdersQuery} [query] - The filters, sort, projection and page to retrieve.
+   * @returns {Promise<Page<Order>>} A Promise that resolves to a page of Order objects.
+   * @throws {BadRequestException} If the cursor is malformed.
+   */
+  async getAllOrders(query: GetOrdersQuery = {}): Promise<Page<Order>> {
+    return this.findOrders({}, query);
+  }
+
+  /**
+   * Retrieves an order of a user.
+   * @async
+   * @param {string} orderId - Identifier of the order.
+   * @param {string} userId - Identifier of the user, who must own the order.
+   * @returns {Promise<Order>} A Promise that resolves to the order.
+   * @throws {NotFoundException} If the order does not exist or belongs to another user.
+   */
+  async getOrder(orderId: string, userId: string): Promise<Order> {
+    if (!Types.ObjectId.isValid(orderId)) {
+      throw new NotFoundException('Document not found.');
+    }
+    return this.ordersRepository.findOne({
+      _id: new Types.ObjectId(orderId),
+      userId,
+    });
+  }
+
+  /**
+   * Cancels an order of a user and requests its refund from the billing microservice.
+   * The order moves to `CANCELLED` and an 'ORDER_CANCELLED' event is stored in the outbox within the same transaction.
+   * The billing microservice refunds what was paid (or only `amount`) and confirms with a 'REFUND_COMPLETED' event.
+   * @async
+   * @param {string} orderId - Identifier of the order.
+   * @param {string} userId - Identifier of the user, who must own the order.
+   * @param {CancelOrderReq} request - The amount to refund (everything when omitted) and the reason of the cancellation.
+   * @returns {Promise<Order>} A Promise that resolves to the cancelled order.
+   * @throws {NotFoundException} If the order does not exist or belongs to another user.
+   * @throws {BadRequestException} If the amount to refund exceeds the total of the order.
+   * @throws {ConflictException} If the order can no longer be cancelled (e.g. it is fulfilled or failed).
+   */
+  async cancelOrder(
+    orderId: string,
+    userId: string,
+    { amount, reason }: CancelOrderReq,
+  ): Promise<Order> {
+    const order = await this.getOrder(orderId, userId);
+    if (amount > order.total) {
+      throw new BadRequestException(
+        `Cannot refund more than the order total (${order.total} ${order.currency}).`,
+      );
+    }
+    return this.unitOfWork.withTransaction(async () => {
+      const cancelled = await this.updateStatus(
+        orderId,
+        OrderStatus.CANCELLED,
+        { cancellationReason: reason },
+      );
+      await this.outboxService.enqueue(BILLING_SERVICE, ORDER_CANCELLED, {
+        orderId,
+        amount,
+        reason,
+      });
+      return cancelled;
+    });
+  }
+
+  /**
+   * Fails an order billing did not answer for in time, and tells the billing microservice to give up on it.
+   * Billing may still charge the order later (e.g. a retried `ORDER_CREATED` event), so an 'ORDER_CANCELLED' event
+   * is stored in the outbox within the same transaction, voiding or refunding whatever gets billed for the order.
+   * @async
+   * @param {string} orderId - Identifier of the order.
+   * @param {string} reason - The failure reason recorded on the order.
+   * @returns {Promise<Order>} A Promise that resolves to the failed order.
+   * @throws {ConflictException} If the order is no longer pending (e.g. billing answered meanwhile).
+   */
+  async failTimedOutOrder(orderId: string, reason: string): Promise<Order> {
+    return this.unitOfWork.withTransaction(async () => {
+      const failed = await this.updateStatus(orderId, OrderStatus.FAILED, {
+        failureReason: reason,
+      });
+      await this.outboxService.enqueue(BILLING_SERVICE, ORDER_CANCELLED, {
+        orderId,
+        reason,
+      });
+      return failed;
+    });
+  }
+
+  /**
+   * Marks a billed order as delivered, completing its lifecycle.
+   * @async
+   * @param {string} orderId - Identifier of the order.
+   * @returns {Promise<Order>} A Promise that resolves to the fulfilled order.
+   * @throws {NotFoundException} If the order does not exist.
+   * @throws {ConflictException} If the order is not billed (e.g. still pending, or cancelled).
+   */
+  async fulfillOrder(orderId: string): Promise<Order> {
+    if (!Types.ObjectId.isValid(orderId)) {
+      throw new NotFoundException('Document not found.');
+    }
+    return this.updateStatus(orderId, OrderStatus.FULFILLED);
+  }
+
+  /**
+   * Records an amount refunded for an order by the billing microservice.
+   * @async
+   * @param {string} orderId - Identifier of the order.
+   * @param {number} amount - The refunded amount, in minor units of the order currency.
+   * @returns {Promise<Order>} A Promise that resolves to the updated order.
+   * @throws {NotFoundException} If the order does not exist.
+   */
+  async recordRefund(orderId: string, amount: number): Promise<Order> {
+    return this.ordersRepository.findOneAndUpdate(
+      { _id: new Types.ObjectId(orderId) },
+      { $inc: { refundedAmount: amount } },
+    );
+  }
+
+  /**
+   * Anonymizes the orders of a user who deleted their account.
+   * @async
+   * @param {string} userId - Identifier of the deleted user.
+   * @returns {Promise<number>} A Promise that resolves to the number of anonymized orders.
+   */
+  async anonymizeUserOrders(userId: string): Promise<number> {
+    return this.ordersRepository.anonymizeUser(userId);
+  }
+
+  /**
+   * Moves an order to a new status, enforcing the transitions of the order lifecycle (see `ORDER_TRANSITIONS`).
+   * The current status is checked within the update, so concurrent transitions cannot both succeed.
+   * @async
+   * @param {string} orderId - Identifier of the order.
+   * @param {OrderStatus} status - The target status.
+   * @param {Partial<Order>} [update] - Additional fields to set along with the status (e.g. `failureReason`).
+   * @returns {Promise<Order>} A Promise that resolves to the updated order.
+   * @throws {NotFoundException} If the order does not exist.
+   * @throws {ConflictException} If the order cannot move from its current status to `status`.
+   */
+  async updateStatus(
+    orderId: string,
+    status: OrderStatus,
+    update: Partial<Order> = {},
   ): Promise<Order> {
-    // Start a new database transaction
-    const session = await this.ordersRepository.startTransaction();
+    const _id = new Types.ObjectId(orderId);
     try {
-      // Create the order document in the database within the transaction
-      const order = await this.ordersRepository.create(request, { session });
-      // Emit an ORDER_CREATED event to the billing microservice via RabbitMQ
-      await lastValueFrom(
-        // Use clientProxy to emit the event
-        this.billingClient.emit(ORDER_CREATED, {
-          // Pass the order creation request and jwt as payload
-          request,
-          Authentication: authentication,
-        }),
+      return await this.ordersRepository.findOneAndUpdate(
+        { _id, status: { $in: getSourceStatuses(status) } },
+        { $set: { ...update, status } },
       );
-      // Commit the transaction if both order creation and event emission are successful
-      session.commitTransaction();
-      return order;
     } catch (err) {
-      // Abort the transaction if any error occurred
-      await session.abortTransaction();
-      throw err;
+      if (!(err instanceof NotFoundException)) {
+        throw err;
+      }
+      // Throws a NotFoundException if the order does not exist at all
+      const order = await this.ordersRepository.findOne({ _id });
+      throw new ConflictException(
+        `Order ${orderId} cannot move from ${order.status} to ${status}.`,
+      );
     }
   }
 
   /**
-   * Retrieves all orders from the database.
+   * Retrieves a page of the orders matching a base filter, narrowed by the filters of the query.
+   * @private
    * @async
-   * @returns {Promise<Order[]>} A Promise that resolves to an array of Order objects representing all orders in the database.
+   * @param {FilterQuery<Order>} filterQuery - The base filter (e.g. the owner of the orders).
+   * @param {GetOrdersQuery} query - The filters, sort, projection and page to retrieve.
+   * @returns {Promise<Page<Order>>} A Promise that resolves to a page of Order objects.
+   * @throws {BadRequestException} If the cursor is malformed.
+   */
+  private async findOrders(
+    filterQuery: FilterQuery<Order>,
+    query: GetOrdersQuery,
+  ): Promise<Page<Order>> {
+    if (query.status) {
+      filterQuery.status = query.status;
+    }
+    if (query.minPrice !== undefined || query.maxPrice !== undefined) {
+      filterQuery.total = {
+        ...(query.minPrice !== undefined && { $gte: query.minPrice }),
+        ...(query.maxPrice !== undefined && { $lte: query.maxPrice }),
+      };
+    }
+    if (query.createdFrom || query.createdTo) {
+      filterQuery._id = {
+        ...(query.createdFrom && {
+          $gte: Types.ObjectId.createFromTime(
+            Math.floor(query.createdFrom.getTime() / 1000),
+          ),
+        }),
+        // ObjectIds only hold seconds, so the bound is the start of the next second
+        ...(query.createdTo && {
+          $lt: Types.ObjectId.createFromTime(
+            Math.floor(query.createdTo.getTime() / 1000) + 1,
+          ),
+        }),
+      };
+    }
+    return this.ordersRepository.paginate(filterQuery, {
+      limit: query.limit,
+      cursor: query.cursor,
+      offset: query.offset,
+      sort: this.toSortSpec(query.sort ?? '-createdAt'),
+      projection: query.fields,
+    });
+  }
+
+  /**
+   * Computes the amounts of an order from its requested lines.
+   * All amounts are integers in minor units, so the totals are exact. The discount is capped to the subtotal.
+   * @private
+   * @param {CreateOrderReq} request - The requested order, whose lines share the same currency.
+   * @returns The priced lines, the currency, the subtotal, the discount and the total of the order.
+   */
+  private priceOrder({ lines, discount = 0 }: CreateOrderReq) {
+    const pricedLines: OrderLine[] = lines.map(
+      ({ sku, name, quantity, unitPrice }) => ({
+        sku,
+        name,
+        quantity,
+        unitPrice,
+        total: quantity * unitPrice,
+      }),
+    );
+    const subtotal = pricedLines.reduce((sum, line) => sum + line.total, 0);
+    const cappedDiscount = Math.min(discount, subtotal);
+    return {
+      lines: pricedLines,
+      currency: lines[0].currency,
+      subtotal,
+      discount: cappedDiscount,
+      total: subtotal - cappedDiscount,
+    };
+  }
+
+  /**
+   * Converts a sort of the `GET /orders` query (e.g. `-total`) to a sort specification.
+   * @private
+   * @param {string} sort - The field to sort by, descending when prefixed with `-`.
+   * @returns {SortSpec} The sort specification, sorting by `_id` for the creation date.
    */
-  async getOrders(): Promise<Order[]> {
-    return this.ordersRepository.find({});
+  private toSortSpec(sort: string): SortSpec {
+    const descending = sort.startsWith('-');
+    const field = descending ? sort.slice(1) : sort;
+    return { [field === 'createdAt' ? '_id' : field]: descending ? -1 : 1 };
   }
 }
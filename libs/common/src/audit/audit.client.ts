@@ -0,0 +1,50 @@
+import { AuditRecordedEvent } from '../events/dto/audit-recorded.event';
+
+/**
+ * An audited action, as given to an `AuditClient`. The client stamps it with its service and the current date.
+ */
+export type AuditRecord = Omit<AuditRecordedEvent, 'service' | 'occurredAt'>;
+
+/**
+ * The client an audited action originates from.
+ */
+export type AuditOrigin = Pick<AuditRecord, 'ip' | 'userAgent'>;
+
+/**
+ * Maximum length of the `User-Agent` header kept in the audit log.
+ */
+const MAX_USER_AGENT_LENGTH = 256;
+
+/**
+ * Describes the origin of an HTTP request for the audit log.
+ * @param request The HTTP request.
+ * @returns {AuditOrigin} The IP and the `User-Agent` of the client.
+ */
+export const getAuditOrigin = (request: {
+  ip?: string;
+  headers?: Record<string, string | string[] | undefined>;
+}): AuditOrigin => {
+  const userAgent = request?.headers?.['user-agent'];
+  return {
+    ip: request?.ip,
+    userAgent:
+      typeof userAgent === 'string'
+        ? userAgent.slice(0, MAX_USER_AGENT_LENGTH)
+        : undefined,
+  };
+};
+
+/**
+ * Records security relevant actions in the audit log of the auth service, injected by services with `AuditClient` as token.
+ * The auth service appends the records to its store directly, the other services emit them with the `AuditModule`.
+ */
+export abstract class AuditClient {
+  /**
+   * Records an audited action. The returned Promise never rejects: a record that cannot be stored is logged,
+   * so that the audit log never fails the action it records.
+   * @async
+   * @param {AuditRecord} record The audited action.
+   * @returns {Promise<void>} A Promise that resolves once the record was handed over.
+   */
+  abstract record(record: AuditRecord): Promise<void>;
+}
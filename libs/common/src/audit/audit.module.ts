@@ -0,0 +1,40 @@
+import { DynamicModule, Module } from '@nestjs/common';
+import { AUTH_SERVICE } from '../constants/services';
+import { RmqModule } from '../rmq/rmq.module';
+import { AuditClient } from './audit.client';
+import { AUDIT_SERVICE_NAME, RmqAuditClient } from './rmq-audit.client';
+
+/**
+ * Options of `AuditModule.register`.
+ */
+interface AuditModuleOptions {
+  /**
+   * Name of the service, stored on its audit records.
+   */
+  service: string;
+}
+
+/**
+ * Module providing the `AuditClient` of the services other than auth, which emits the records to the auth service over RabbitMQ.
+ * The importing application validates `RABBIT_MQ_URI` and `RABBIT_MQ_AUTH_QUEUE`.
+ */
+@Module({})
+export class AuditModule {
+  /**
+   * Registers the `AuditModule` for a service.
+   * @static
+   * @param {AuditModuleOptions} options Options naming the service.
+   * @returns {DynamicModule} A module exporting the `AuditClient`.
+   */
+  static register({ service }: AuditModuleOptions): DynamicModule {
+    return {
+      module: AuditModule,
+      imports: [RmqModule.register({ name: AUTH_SERVICE })],
+      providers: [
+        { provide: AUDIT_SERVICE_NAME, useValue: service },
+        { provide: AuditClient, useClass: RmqAuditClient },
+      ],
+      exports: [AuditClient],
+    };
+  }
+}
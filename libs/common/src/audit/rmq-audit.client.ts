@@ -0,0 +1,62 @@
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import { ClientProxy } from '@nestjs/microservices';
+import { lastValueFrom } from 'rxjs';
+import { AUDIT_RECORDED } from '../constants/events';
+import { AUTH_SERVICE } from '../constants/services';
+import { emitEvent } from '../events/event-client';
+import { AuditClient, AuditRecord } from './audit.client';
+
+/**
+ * Injection token of the name of the service emitting the audit records.
+ */
+export const AUDIT_SERVICE_NAME = 'AUDIT_SERVICE_NAME';
+
+/**
+ * Audit client emitting the records to the auth service as `AUDIT_RECORDED` events.
+ */
+@Injectable()
+export class RmqAuditClient extends AuditClient {
+  /**
+   * Logger instance for RmqAuditClient, used to report the records that could not be emitted.
+   * @private
+   * @readonly
+   */
+  private readonly logger = new Logger(RmqAuditClient.name, {
+    timestamp: true,
+  });
+
+  /**
+   * Constructor for `RmqAuditClient`.
+   * @param {ClientProxy} authClient - Injected `ClientProxy` for the `AUTH_SERVICE` microservice, storing the audit log.
+   * @param {string} service - Injected name of the service emitting the records.
+   */
+  constructor(
+    @Inject(AUTH_SERVICE) private readonly authClient: ClientProxy,
+    @Inject(AUDIT_SERVICE_NAME) private readonly service: string,
+  ) {
+    super();
+  }
+
+  /**
+   * Emits an audit record to the auth service.
+   * @async
+   * @param {AuditRecord} record The audited action.
+   * @returns {Promise<void>} A Promise that resolves once the event was published, or could not be.
+   */
+  async record(record: AuditRecord): Promise<void> {
+    try {
+      await lastValueFrom(
+        emitEvent(this.authClient, AUDIT_RECORDED, {
+          ...record,
+          service: this.service,
+          occurredAt: new Date().toISOString(),
+        }),
+        { defaultValue: undefined },
+      );
+    } catch (err) {
+      this.logger.error(
+        `Could not emit the audit record of ${record.action}: ${err.message}`,
+      );
+    }
+  }
+}
@@ -0,0 +1,97 @@
+import { ExecutionContext, ForbiddenException } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { AccessGuard, authorize } from './access.guard';
+import { Permission, Role } from './roles';
+import { Permissions, Roles } from './roles.decorator';
+
+describe('authorize', () => {
+  @Roles(Role.USER, Role.ADMIN)
+  class OrdersController {
+    getOrders() {
+      return undefined;
+    }
+
+    @Permissions(Permission.ORDERS_READ_ALL)
+    getAllOrders() {
+      return undefined;
+    }
+
+    @Roles(Role.ADMIN)
+    deleteOrder() {
+      return undefined;
+    }
+  }
+
+  class HealthController {
+    check() {
+      return undefined;
+    }
+  }
+
+  const reflector = new Reflector();
+  const createContext = (
+    controller: new () => unknown,
+    handler: string,
+    user?: unknown,
+  ) =>
+    ({
+      getType: () => 'http',
+      getClass: () => controller,
+      getHandler: () => controller.prototype[handler],
+      switchToHttp: () => ({ getRequest: () => ({ user }) }),
+    } as unknown as ExecutionContext);
+
+  it('lets any authenticated user access a route without requirements', () => {
+    expect(
+      authorize(reflector, createContext(HealthController, 'check'), {}),
+    ).toBe(true);
+  });
+
+  it('requires one of the roles of the controller', () => {
+    const context = createContext(OrdersController, 'getOrders');
+
+    expect(authorize(reflector, context, { roles: [Role.USER] })).toBe(true);
+    expect(() => authorize(reflector, context, { roles: [] })).toThrow(
+      ForbiddenException,
+    );
+  });
+
+  it('lets the roles of a handler override those of its controller', () => {
+    const context = createContext(OrdersController, 'deleteOrder');
+
+    expect(() => authorize(reflector, context, { roles: [Role.USER] })).toThrow(
+      ForbiddenException,
+    );
+    expect(authorize(reflector, context, { roles: [Role.ADMIN] })).toBe(true);
+  });
+
+  it('grants the permissions of the roles and those of the user', () => {
+    const context = createContext(OrdersController, 'getAllOrders');
+
+    expect(authorize(reflector, context, { roles: [Role.ADMIN] })).toBe(true);
+    expect(
+      authorize(reflector, context, {
+        roles: [Role.USER],
+        permissions: [Permission.ORDERS_READ_ALL],
+      }),
+    ).toBe(true);
+    expect(() => authorize(reflector, context, { roles: [Role.USER] })).toThrow(
+      ForbiddenException,
+    );
+  });
+
+  it('reads the user set on the request by the authenticating guard', () => {
+    const guard = new AccessGuard(reflector);
+
+    expect(() =>
+      guard.canActivate(createContext(OrdersController, 'getAllOrders')),
+    ).toThrow(ForbiddenException);
+    expect(
+      guard.canActivate(
+        createContext(OrdersController, 'getAllOrders', {
+          roles: [Role.ADMIN],
+        }),
+      ),
+    ).toBe(true);
+  });
+});
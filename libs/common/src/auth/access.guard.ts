@@ -0,0 +1,76 @@
+import {
+  CanActivate,
+  ExecutionContext,
+  ForbiddenException,
+  Injectable,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { AccessSubject, getPermissions } from './roles';
+import { PERMISSIONS_KEY, ROLES_KEY } from './roles.decorator';
+
+/**
+ * Checks that a user has one of the roles, and all the permissions, required by a route through `@Roles()` and `@Permissions()`.
+ * Routes without them are open to every authenticated user.
+ * @param {Reflector} reflector The `Reflector` reading the metadata of the route.
+ * @param {ExecutionContext} context The execution context of the route.
+ * @param {AccessSubject} user The authenticated user.
+ * @returns {boolean} `true` if the user is allowed to access the route.
+ * @throws {ForbiddenException} If the user lacks a required role or permission.
+ */
+export const authorize = (
+  reflector: Reflector,
+  context: ExecutionContext,
+  user: AccessSubject,
+): boolean => {
+  const targets = [context.getHandler(), context.getClass()];
+  const roles = reflector.getAllAndOverride<string[]>(ROLES_KEY, targets);
+  const permissions = reflector.getAllAndOverride<string[]>(
+    PERMISSIONS_KEY,
+    targets,
+  );
+  if (roles?.length && !roles.some((role) => user?.roles?.includes(role))) {
+    throw new ForbiddenException('Insufficient role.');
+  }
+  if (permissions?.length) {
+    const granted = getPermissions(user ?? {});
+    if (!permissions.every((permission) => granted.has(permission))) {
+      throw new ForbiddenException('Insufficient permissions.');
+    }
+  }
+  return true;
+};
+
+/**
+ * Injectable guard enforcing the `@Roles()` and `@Permissions()` decorators on the authenticated user.
+ * It must run after the guard authenticating the user, which sets it on the HTTP request or the RPC data.
+ * The `JwtAuthGuard` already enforces them, this guard is meant for the auth service, which authenticates its users with Passport.
+ * @example
+ * ```ts
+ * @Get()
+ * @UseGuards(JwtAuthGuard, AccessGuard)
+ * @Permissions(Permission.USERS_READ)
+ * async getUsers() { ... }
+ * ```
+ */
+@Injectable()
+export class AccessGuard implements CanActivate {
+  /**
+   * Constructor for `AccessGuard`.
+   * @param {Reflector} reflector - Injected `Reflector` instance, reading the roles and permissions required by the route.
+   */
+  constructor(private readonly reflector: Reflector) {}
+
+  /**
+   * Checks that the authenticated user has the roles and permissions required by the route.
+   * @param {ExecutionContext} context The execution context of the route.
+   * @returns {boolean} `true` if the user is allowed to access the route.
+   * @throws {ForbiddenException} If the user lacks a required role or permission.
+   */
+  canActivate(context: ExecutionContext): boolean {
+    const user =
+      context.getType() === 'rpc'
+        ? context.switchToRpc().getData().user
+        : context.switchToHttp().getRequest().user;
+    return authorize(this.reflector, context, user);
+  }
+}
@@ -1,19 +1,23 @@
 import { MiddlewareConsumer, Module, NestModule } from '@nestjs/common';
+import { JwtModule } from '@nestjs/jwt';
 import * as cookieParser from 'cookie-parser';
 import { AUTH_SERVICE } from '../constants/services';
 import { RmqModule } from '../rmq/rmq.module';
+import { JwksService } from './jwks.service';
 
 /**
  * Module for Authentication functionalities, focused on client-side (e.g., cookie) JWT handling.
  * This module is designed to manage aspects of authentication that are client-facing, such as parsing cookies
  * to extract JWTs. It integrates with the `RmqModule` for inter-service communication related to authentication.
+ * It also provides what the `JwtAuthGuard` needs to verify the JWTs locally: the `JwtService` and the `JwksService` caching the keys of the auth service.
  *
  * @exports {AuthModule} Exports the `AuthModule` class, making it available for import in other modules.
  * @implements {NestModule} Implements the NestJS {@link NestModule} interface to configure middleware for the module.
  */
 @Module({
-  imports: [RmqModule.register({ name: AUTH_SERVICE })],
-  exports: [RmqModule],
+  imports: [RmqModule.register({ name: AUTH_SERVICE }), JwtModule.register({})],
+  providers: [JwksService],
+  exports: [RmqModule, JwtModule, JwksService],
 })
 export class AuthModule implements NestModule {
   /**
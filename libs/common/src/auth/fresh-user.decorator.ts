@@ -0,0 +1,21 @@
+import { SetMetadata } from '@nestjs/common';
+
+/**
+ * Metadata key set by {@link FreshUser}.
+ */
+export const FRESH_USER_KEY = 'freshUser';
+
+/**
+ * Decorator making the `JwtAuthGuard` validate the token with the auth service (`USER_VALIDATE`) even when it verifies tokens locally.
+ * The user is then loaded from the database, so a route sees the current roles of the user rather than those held by the token,
+ * and rejects the users deleted since the token was issued.
+ * @returns {CustomDecorator<string>} A decorator setting the {@link FRESH_USER_KEY} metadata.
+ * @example
+ * ```ts
+ * @Post(':id/cancel')
+ * @UseGuards(JwtAuthGuard)
+ * @FreshUser()
+ * async cancelOrder(...) { ... }
+ * ```
+ */
+export const FreshUser = () => SetMetadata(FRESH_USER_KEY, true);
@@ -0,0 +1,81 @@
+import { Logger, UnauthorizedException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { generateKeyPairSync } from 'crypto';
+import { JWKS_DEFAULT_CACHE_TTL, JwksService } from './jwks.service';
+
+describe('JwksService', () => {
+  const createKey = (kid: string) => {
+    const { publicKey } = generateKeyPairSync('rsa', { modulusLength: 2048 });
+    return {
+      jwk: { ...publicKey.export({ format: 'jwk' }), kid },
+      pem: publicKey.export({ type: 'spki', format: 'pem' }).toString(),
+    };
+  };
+  const current = createKey('key-1');
+  const next = createKey('key-2');
+  let service: JwksService;
+  let fetchKeys: jest.SpyInstance;
+
+  beforeAll(() => jest.spyOn(Logger.prototype, 'warn').mockReturnValue());
+  beforeEach(() => {
+    jest.useFakeTimers().setSystemTime(new Date(1_000_000));
+    service = new JwksService({
+      get: () => undefined,
+    } as unknown as ConfigService);
+    fetchKeys = jest
+      .spyOn(service as any, 'fetchKeys')
+      .mockResolvedValue([current.jwk]);
+  });
+  afterEach(() => jest.useRealTimers());
+
+  it('caches the fetched keys', async () => {
+    await expect(service.getPublicKey('key-1')).resolves.toBe(current.pem);
+    await expect(service.getPublicKey('key-1')).resolves.toBe(current.pem);
+
+    expect(fetchKeys).toHaveBeenCalledTimes(1);
+  });
+
+  it('shares a fetch in progress between concurrent requests', async () => {
+    await Promise.all([
+      service.getPublicKey('key-1'),
+      service.getPublicKey('key-1'),
+    ]);
+
+    expect(fetchKeys).toHaveBeenCalledTimes(1);
+  });
+
+  it('fetches the keys again once the cache expired', async () => {
+    await service.getPublicKey('key-1');
+    jest.advanceTimersByTime(JWKS_DEFAULT_CACHE_TTL * 1000 + 1);
+    await service.getPublicKey('key-1');
+
+    expect(fetchKeys).toHaveBeenCalledTimes(2);
+  });
+
+  it('fetches the keys again when a token is signed with a rotated key', async () => {
+    await service.getPublicKey('key-1');
+    fetchKeys.mockResolvedValue([current.jwk, next.jwk]);
+    jest.advanceTimersByTime(10001);
+
+    await expect(service.getPublicKey('key-2')).resolves.toBe(next.pem);
+    expect(fetchKeys).toHaveBeenCalledTimes(2);
+  });
+
+  it('does not fetch the keys again for unknown keys more than every 10 seconds', async () => {
+    await service.getPublicKey('key-1');
+
+    await expect(service.getPublicKey('forged')).rejects.toBeInstanceOf(
+      UnauthorizedException,
+    );
+    expect(fetchKeys).toHaveBeenCalledTimes(1);
+  });
+
+  it('keeps using the cached keys when the auth service is unreachable', async () => {
+    await service.getPublicKey('key-1');
+    fetchKeys.mockRejectedValue(new Error('connect ECONNREFUSED'));
+    jest.advanceTimersByTime(JWKS_DEFAULT_CACHE_TTL * 1000 + 1);
+
+    await expect(service.getPublicKey('key-1')).resolves.toBe(current.pem);
+    expect(fetchKeys).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,159 @@
+import { Injectable, Logger, UnauthorizedException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { createPublicKey, JsonWebKey } from 'crypto';
+import * as http from 'http';
+import * as https from 'https';
+
+/**
+ * Default time (in seconds) during which the fetched keys are used without fetching the JWKS again.
+ */
+export const JWKS_DEFAULT_CACHE_TTL = 300;
+
+/**
+ * Minimum delay (in milliseconds) between two fetches of the JWKS, so that tokens with unknown keys cannot flood the auth service.
+ */
+const JWKS_MIN_REFRESH_INTERVAL = 10000;
+
+/**
+ * Timeout (in milliseconds) of a fetch of the JWKS.
+ */
+const JWKS_FETCH_TIMEOUT = 5000;
+
+/**
+ * Injectable service caching the public keys published by the auth service at `AUTH_JWKS_URI`.
+ * The keys are fetched again once `AUTH_JWKS_CACHE_TTL` seconds have passed, or when a token refers to an unknown key
+ * (i.e. the auth service rotated its key). When the auth service is unreachable, the cached keys keep being used.
+ */
+@Injectable()
+export class JwksService {
+  /**
+   * Logger instance for JwksService, used to report the failed fetches.
+   * @private
+   * @readonly
+   */
+  private readonly logger = new Logger(JwksService.name, { timestamp: true });
+
+  /**
+   * PEM encoded public keys, by key identifier.
+   * @private
+   */
+  private keys = new Map<string, string>();
+
+  /**
+   * Date (in milliseconds) of the last successful fetch.
+   * @private
+   */
+  private fetchedAt = 0;
+
+  /**
+   * Date (in milliseconds) of the last fetch attempt.
+   * @private
+   */
+  private attemptedAt = 0;
+
+  /**
+   * The fetch in progress, shared by the concurrent requests.
+   * @private
+   */
+  private refreshing?: Promise<void>;
+
+  /**
+   * Constructor for `JwksService`.
+   * @param {ConfigService} configService - Injected `ConfigService` instance, used to read `AUTH_JWKS_URI` and `AUTH_JWKS_CACHE_TTL`.
+   */
+  constructor(private readonly configService: ConfigService) {}
+
+  /**
+   * Returns the public key a token was signed with.
+   * @async
+   * @param {string} kid Identifier of the key, read from the `kid` header of the token.
+   * @returns {Promise<string>} A Promise that resolves to the PEM encoded public key.
+   * @throws {UnauthorizedException} If the key is not published by the auth service.
+   */
+  async getPublicKey(kid: string): Promise<string> {
+    const ttl =
+      (this.configService.get('AUTH_JWKS_CACHE_TTL') ??
+        JWKS_DEFAULT_CACHE_TTL) * 1000;
+    const now = Date.now();
+    if (
+      (now - this.fetchedAt > ttl || !this.keys.has(kid)) &&
+      now - this.attemptedAt > JWKS_MIN_REFRESH_INTERVAL
+    ) {
+      await this.refresh();
+    }
+    const key = this.keys.get(kid);
+    if (!key) {
+      throw new UnauthorizedException('Token signed with an unknown key.');
+    }
+    return key;
+  }
+
+  /**
+   * Fetches the JWKS, unless a fetch is already in progress.
+   * @private
+   * @returns {Promise<void>} A Promise that resolves once the keys are up to date, or the fetch failed.
+   */
+  private refresh(): Promise<void> {
+    this.refreshing ??= this.fetchKeys()
+      .then((keys) => {
+        this.keys = new Map(
+          keys
+            .filter((key) => key.kid)
+            .map((key) => [
+              key.kid,
+              createPublicKey({ key, format: 'jwk' })
+                .export({ type: 'spki', format: 'pem' })
+                .toString(),
+            ]),
+        );
+        this.fetchedAt = Date.now();
+      })
+      .catch((err) => {
+        this.logger.warn(
+          `Could not fetch the JWKS, using ${this.keys.size} cached key(s): ${err.message}`,
+        );
+      })
+      .finally(() => {
+        this.attemptedAt = Date.now();
+        this.refreshing = undefined;
+      });
+    return this.refreshing;
+  }
+
+  /**
+   * Downloads the keys published at `AUTH_JWKS_URI`.
+   * @private
+   * @returns {Promise<(JsonWebKey & { kid?: string })[]>} A Promise that resolves to the published keys.
+   */
+  private fetchKeys(): Promise<(JsonWebKey & { kid?: string })[]> {
+    const uri = this.configService.get<string>('AUTH_JWKS_URI');
+    const client = uri.startsWith('https:') ? https : http;
+    return new Promise((resolve, reject) => {
+      const request = client.get(
+        uri,
+        { timeout: JWKS_FETCH_TIMEOUT },
+        (response) => {
+          let body = '';
+          response.setEncoding('utf8');
+          response.on('data', (chunk) => (body += chunk));
+          response.on('end', () => {
+            if (response.statusCode !== 200) {
+              return reject(
+                new Error(`${uri} answered ${response.statusCode}`),
+              );
+            }
+            try {
+              resolve(JSON.parse(body).keys ?? []);
+            } catch (err) {
+              reject(err);
+            }
+          });
+        },
+      );
+      request.on('timeout', () =>
+        request.destroy(new Error(`${uri} timed out`)),
+      );
+      request.on('error', reject);
+    });
+  }
+}
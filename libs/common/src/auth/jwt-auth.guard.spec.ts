@@ -0,0 +1,24 @@
+import { getHttpCredentials } from './jwt-auth.guard';
+
+describe('getHttpCredentials', () => {
+  it('reads the JWT of the Authentication cookie first', () => {
+    expect(
+      getHttpCredentials({
+        cookies: { Authentication: 'cookie-jwt' },
+        headers: { authorization: 'Bearer header-jwt' },
+      }),
+    ).toBe('cookie-jwt');
+  });
+
+  it('reads the JWT or API key of the Authorization header of the clients without cookies', () => {
+    expect(
+      getHttpCredentials({ headers: { authorization: 'bearer ak_key' } }),
+    ).toBe('ak_key');
+  });
+
+  it('returns undefined when the request carries no credentials', () => {
+    expect(
+      getHttpCredentials({ headers: { authorization: 'Basic dXNlcg==' } }),
+    ).toBeUndefined();
+  });
+});
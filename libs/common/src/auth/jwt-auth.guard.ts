@@ -3,17 +3,48 @@ import {
   ExecutionContext,
   Inject,
   Injectable,
+  Optional,
   UnauthorizedException,
 } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Reflector } from '@nestjs/core';
+import { JwtService } from '@nestjs/jwt';
 import { ClientProxy } from '@nestjs/microservices';
-import { catchError, Observable, tap } from 'rxjs';
+import { catchError, from, map, Observable, tap } from 'rxjs';
+import { AuditClient, getAuditOrigin } from '../audit/audit.client';
 import { USER_VALIDATE } from '../constants/events';
 import { AUTH_SERVICE } from '../constants/services';
+import { sendMessage } from '../events/event-client';
+import { authorize } from './access.guard';
+import { FRESH_USER_KEY } from './fresh-user.decorator';
+import { JwksService } from './jwks.service';
+import {
+  API_KEY_PREFIX,
+  JWT_ALGORITHM,
+  TokenPayload,
+  TokenUser,
+} from './token-payload';
+import { UserView } from './user-view';
+
+/**
+ * Reads the credentials of an HTTP request: the JWT of the 'Authentication' cookie,
+ * or else the JWT or API key of the 'Authorization: Bearer' header, for the clients without cookies.
+ * @param request The HTTP request.
+ * @returns {string | undefined} The JWT or API key, or `undefined` if the request carries none.
+ */
+export const getHttpCredentials = (request: any): string | undefined =>
+  request?.cookies?.Authentication ??
+  request?.headers?.authorization?.match(/^Bearer\s+(\S+)$/i)?.[1];
 
 /**
  * Injectable guard implementing JWT (JSON Web Token) based authentication for NestJS applications.
  * This guard is designed to protect both HTTP endpoints and microservice RPC endpoints by verifying the validity of a JWT.
  * It utilizes a microservice client (`ClientProxy`) to communicate with an authentication service (`AUTH_SERVICE`) for token validation.
+ * When `AUTH_VERIFICATION` is `local`, the token is instead verified against the public keys of the auth service (see `JwksService`),
+ * without any round trip, unless the route requires a fresh user with `@FreshUser()`.
+ * Only the auth service knows the revoked sessions: a locally verified token stays accepted until it expires.
+ * The auth service audits the tokens it rejects, and the guard audits those it rejects locally when an `AuditClient` is provided (see `AuditModule`).
+ * Once authenticated, the user must also have the roles and permissions required by the `@Roles()` and `@Permissions()` decorators of the route.
  *
  * @implements {CanActivate} Implements the NestJS {@link CanActivate} interface, allowing it to act as a route guard.
  */
@@ -24,8 +55,20 @@ export class JwtAuthGuard implements CanActivate {
    * @param {ClientProxy} authClient - Injected `ClientProxy` for the `AUTH_SERVICE` microservice.
    *        This client is used to send a message to the authentication service to validate the JWT.
    *        @Inject(AUTH_SERVICE) - Inject decorator to obtain the `ClientProxy` configured for `AUTH_SERVICE` from dependency injection.
+   * @param {Reflector} reflector - Injected `Reflector` instance, reading the roles and permissions required by the route.
+   * @param {ConfigService} configService - Injected `ConfigService` instance, used to read the `AUTH_VERIFICATION` mode.
+   * @param {JwtService} jwtService - Injected `JwtService` instance, verifying the tokens locally.
+   * @param {JwksService} jwksService - Injected `JwksService` instance, providing the public keys of the auth service.
+   * @param {AuditClient} [auditClient] - Injected `AuditClient` instance, if the application imports the `AuditModule`.
    */
-  constructor(@Inject(AUTH_SERVICE) private authClient: ClientProxy) {}
+  constructor(
+    @Inject(AUTH_SERVICE) private authClient: ClientProxy,
+    private readonly reflector: Reflector,
+    private readonly configService: ConfigService,
+    private readonly jwtService: JwtService,
+    private readonly jwksService: JwksService,
+    @Optional() private readonly auditClient?: AuditClient,
+  ) {}
 
   /**
    * Determines whether the current request is authorized to access the route.
@@ -38,43 +81,107 @@ export class JwtAuthGuard implements CanActivate {
    *          - `false` or an Observable/Promise that resolves to `false` if the request is unauthorized.
    *          - An Observable that emits `true` or `false` upon JWT validation completion from the AUTH_SERVICE.
    * @throws {UnauthorizedException} If the JWT is invalid or not provided, or if the authentication service indicates that the token is invalid.
+   *         The exception carries the reason of the rejection.
+   * @throws {ForbiddenException} If the user lacks a role or a permission required by the route.
    *
    * **Workflow:**
    * 1. **Extract JWT:** Calls {@link getAuthentication} to extract the JWT from the context (either from HTTP cookies or RPC data).
-   * 2. **Send for Validation:** Uses the injected `authClient` to send a 'USER_VALIDATE' message to the AUTH_SERVICE microservice, including the JWT as payload.
+   * 2. **Validate:** In `local` mode, verifies the JWT signature and expiration with {@link verifyLocally}. Otherwise, or when the route
+   *    requires a fresh user, uses the injected `authClient` to send a 'USER_VALIDATE' message to the AUTH_SERVICE microservice, including the JWT as payload.
    * 3. **Handle Response:**
    *    - **Success (tap):** On successful validation by the AUTH_SERVICE, the response (user information) is added to the execution context using {@link addUser}, making it available to route handlers via `@CurrentUser()` decorator.
-   *    - **Error (catchError):** If the AUTH_SERVICE returns an error (e.g., JWT invalid, user not found), it catches the error and throws an {@link UnauthorizedException}, denying access to the route.
+   *    - **Error (catchError):** If the AUTH_SERVICE returns an error (e.g., JWT invalid, user not found), it catches the error and throws an {@link UnauthorizedException} with its reason, denying access to the route.
+   *      A token rejected locally is recorded in the audit log.
+   * 4. **Authorize (map):** Checks the roles and permissions of the user against those required by the route, throwing a `ForbiddenException` when they fall short.
    */
   canActivate(
     context: ExecutionContext,
   ): boolean | Promise<boolean> | Observable<boolean> {
     const authenticationJwt = this.getAuthentication(context); // Extract JWT from the context
-    return this.authClient
-      .send(USER_VALIDATE, {
-        // Send 'USER_VALIDATE' message to AUTH_SERVICE with JWT payload
-        Authentication: authenticationJwt,
-      })
-      .pipe(
-        tap((response) => {
-          // On successful validation response from AUTH_SERVICE
-          this.addUser(response, context);
-        }),
-        catchError(() => {
-          // On error response from AUTH_SERVICE (JWT invalid or validation failed)
-          throw new UnauthorizedException();
-        }),
-      );
+    const freshUser = this.reflector.getAllAndOverride<boolean>(
+      FRESH_USER_KEY,
+      [context.getHandler(), context.getClass()],
+    );
+    // API keys are opaque, only the auth service can validate them
+    const local =
+      this.configService.get('AUTH_VERIFICATION') === 'local' &&
+      !freshUser &&
+      !authenticationJwt.startsWith(API_KEY_PREFIX);
+    const user$: Observable<UserView | TokenUser> = local
+      ? from(this.verifyLocally(authenticationJwt))
+      : sendMessage(this.authClient, USER_VALIDATE, {
+          // Send 'USER_VALIDATE' message to AUTH_SERVICE with JWT payload
+          Authentication: authenticationJwt,
+        });
+    return user$.pipe(
+      tap((response) => {
+        // On successful validation response from AUTH_SERVICE
+        this.addUser(response, context);
+      }),
+      catchError(async (err) => {
+        // On error response from AUTH_SERVICE (JWT invalid or validation failed), or on a local verification failure
+        const reason =
+          typeof err?.message === 'string' ? err.message : undefined;
+        if (local) {
+          await this.auditFailure(context, reason);
+        }
+        throw new UnauthorizedException(reason);
+      }),
+      map((user) => authorize(this.reflector, context, user)),
+    );
+  }
+
+  /**
+   * Verifies the signature and expiration of a JWT with the public key it was signed with, and builds the user from its payload.
+   * @private
+   * @async
+   * @param {string} token The JWT.
+   * @returns {Promise<TokenUser>} A Promise that resolves to the user the token was issued to.
+   * @throws {UnauthorizedException} If the token is malformed, expired, or not signed by a key of the auth service.
+   */
+  private async verifyLocally(token: string): Promise<TokenUser> {
+    const decoded = this.jwtService.decode(token, { complete: true }) as {
+      header?: { kid?: string };
+    };
+    const publicKey = await this.jwksService.getPublicKey(decoded?.header?.kid);
+    const { userId, email, roles, permissions } =
+      await this.jwtService.verifyAsync<TokenPayload>(token, {
+        publicKey,
+        algorithms: [JWT_ALGORITHM],
+      });
+    return { _id: userId, email, roles, permissions };
+  }
+
+  /**
+   * Records a token rejected locally in the audit log, if an `AuditClient` is provided.
+   * @private
+   * @async
+   * @param {ExecutionContext} context The execution context.
+   * @param {string} [reason] The reason of the rejection.
+   * @returns {Promise<void>}
+   */
+  private async auditFailure(
+    context: ExecutionContext,
+    reason?: string,
+  ): Promise<void> {
+    await this.auditClient?.record({
+      action: 'token_validation',
+      outcome: 'failure',
+      reason,
+      ...(context.getType() === 'http'
+        ? getAuditOrigin(context.switchToHttp().getRequest())
+        : {}),
+    });
   }
 
   /**
-   * Extracts the JWT from the execution `context` based on the type (HTTP or RPC).
-   * For HTTP requests, it looks for the JWT in the 'Authentication' cookie.
+   * Extracts the JWT or API key from the execution `context` based on the type (HTTP or RPC).
+   * For HTTP requests, it looks for the JWT in the 'Authentication' cookie, then for a JWT or API key in the 'Authorization: Bearer' header.
    * For RPC requests, it looks for the JWT in the `data` payload under the 'Authentication' key.
    *
    * @private
    * @param {ExecutionContext} context The execution context.
-   * @returns {string} The extracted JWT string.
+   * @returns {string} The extracted JWT or API key.
    * @throws {UnauthorizedException} If no JWT is found in the appropriate location for the context type.
    */
   private getAuthentication(context: ExecutionContext): string {
@@ -83,9 +190,8 @@ export class JwtAuthGuard implements CanActivate {
       // For RPC context, extract JWT from data payload
       authentication = context.switchToRpc().getData().Authentication;
     } else if (context.getType() === 'http') {
-      // For HTTP context, extract JWT from cookies
-      authentication = context.switchToHttp().getRequest()
-        .cookies?.Authentication;
+      // For HTTP context, extract JWT from cookies, or from the Authorization header for the clients without cookies
+      authentication = getHttpCredentials(context.switchToHttp().getRequest());
     }
     if (!authentication) {
       // If no JWT found in either context, throw UnauthorizedException
@@ -100,11 +206,11 @@ export class JwtAuthGuard implements CanActivate {
    * The `user` object is added to either the HTTP requ`est object or the RPC `data` object, depending on the `context` type.
    *
    * @private
-   * @param {any} user The `user` object received from the authentication service upon successful JWT validation.
+   * @param {UserView | TokenUser} user The `user` object received from the authentication service, or built from a locally verified JWT.
    * @param {ExecutionContext} context The execution `context`.
    * @returns {void}
    */
-  private addUser(user: any, context: ExecutionContext): void {
+  private addUser(user: UserView | TokenUser, context: ExecutionContext): void {
     if (context.getType() === 'rpc') {
       // For RPC context, add user to the data payload
       context.switchToRpc().getData().user = user;
@@ -0,0 +1,44 @@
+import { SetMetadata } from '@nestjs/common';
+import { Permission, Role } from './roles';
+
+/**
+ * Metadata key of the roles required by a route, set by {@link Roles}.
+ */
+export const ROLES_KEY = 'roles';
+
+/**
+ * Metadata key of the permissions required by a route, set by {@link Permissions}.
+ */
+export const PERMISSIONS_KEY = 'permissions';
+
+/**
+ * Decorator restricting a route (or every route of a controller) to the users having at least one of the given roles.
+ * It is enforced by the `JwtAuthGuard`, or the `AccessGuard` of a service authenticating its users itself.
+ * @param {...Role[]} roles The accepted roles.
+ * @returns {CustomDecorator<string>} A decorator setting the {@link ROLES_KEY} metadata.
+ * @example
+ * ```ts
+ * @Get()
+ * @UseGuards(JwtAuthGuard)
+ * @Roles(Role.ADMIN)
+ * async getEverything() { ... }
+ * ```
+ */
+export const Roles = (...roles: Role[]) => SetMetadata(ROLES_KEY, roles);
+
+/**
+ * Decorator restricting a route (or every route of a controller) to the users having all the given permissions,
+ * granted by their roles or to them directly.
+ * It is enforced by the `JwtAuthGuard`, or the `AccessGuard` of a service authenticating its users itself.
+ * @param {...Permission[]} permissions The required permissions.
+ * @returns {CustomDecorator<string>} A decorator setting the {@link PERMISSIONS_KEY} metadata.
+ * @example
+ * ```ts
+ * @Get('all')
+ * @UseGuards(JwtAuthGuard)
+ * @Permissions(Permission.ORDERS_READ_ALL)
+ * async getAllOrders() { ... }
+ * ```
+ */
+export const Permissions = (...permissions: Permission[]) =>
+  SetMetadata(PERMISSIONS_KEY, permissions);
@@ -0,0 +1,66 @@
+/**
+ * Roles a user can be granted. Every user has the `USER` role.
+ */
+export enum Role {
+  USER = 'user',
+  ADMIN = 'admin',
+}
+
+/**
+ * Permissions guarding the routes, as `<resource>:<action>`.
+ */
+export enum Permission {
+  /**
+   * List the orders of every user.
+   */
+  ORDERS_READ_ALL = 'orders:read:all',
+  /**
+   * Mark the billed orders of every user as fulfilled once delivered.
+   */
+  ORDERS_FULFILL = 'orders:fulfill',
+  /**
+   * List the user accounts.
+   */
+  USERS_READ = 'users:read',
+  /**
+   * Lift the login lockout of a user account.
+   */
+  USERS_UNLOCK = 'users:unlock',
+  /**
+   * Search the security audit log.
+   */
+  AUDIT_READ = 'audit:read',
+}
+
+/**
+ * Permissions granted by each role.
+ */
+export const ROLE_PERMISSIONS: Record<Role, Permission[]> = {
+  [Role.USER]: [],
+  [Role.ADMIN]: Object.values(Permission),
+};
+
+/**
+ * Roles and permissions of an authenticated user, as returned by the `USER_VALIDATE` reply.
+ */
+export interface AccessSubject {
+  roles?: string[];
+  /**
+   * Permissions granted to the user on top of those of its roles.
+   */
+  permissions?: string[];
+}
+
+/**
+ * Returns the permissions of a user: those granted by its roles and those granted to it directly.
+ * @param {AccessSubject} user The authenticated user.
+ * @returns {Set<string>} The permissions of the user.
+ */
+export const getPermissions = ({
+  roles = [],
+  permissions = [],
+}: AccessSubject): Set<string> =>
+  new Set([
+    ...roles.flatMap((role) => ROLE_PERMISSIONS[role as Role] ?? []),
+    ...permissions,
+  ]);
@@ -0,0 +1,56 @@
+/**
+ * Algorithm signing the access tokens: RSA keys published by the auth service, so that any service can verify the tokens.
+ */
+export const JWT_ALGORITHM = 'RS256';
+
+/**
+ * Interface defining the payload structure for the access tokens signed by the auth service.
+ * It carries what the services need to authenticate and authorize a request without calling the auth service.
+ */
+export interface TokenPayload {
+  /**
+   * The unique identifier of the user, the string representation of its MongoDB ObjectId.
+   */
+  userId: string;
+
+  /**
+   * Email address of the user.
+   */
+  email: string;
+
+  /**
+   * Roles of the user when the token was issued.
+   */
+  roles: string[];
+
+  /**
+   * Permissions granted to the user on top of those of its roles, when the token was issued.
+   */
+  permissions: string[];
+
+  /**
+   * Identifier of the session the token belongs to. The auth service rejects the token once the session is revoked.
+   */
+  sessionId: string;
+
+  /**
+   * Token version of the user when the token was issued. The auth service rejects the token once the version is incremented.
+   */
+  tokenVersion: number;
+}
+
+/**
+ * The user set on the request by the `JwtAuthGuard` when it verifies the access token locally, built from its payload.
+ * It exposes the identifier as `_id`, like the user returned by the `USER_VALIDATE` reply.
+ */
+export interface TokenUser {
+  _id: string;
+  email: string;
+  roles: string[];
+  permissions: string[];
+}
+
+/**
+ * Prefix of the API keys issued by the auth service. Unlike JWTs, API keys can only be validated by the auth service.
+ */
+export const API_KEY_PREFIX = 'ak_';
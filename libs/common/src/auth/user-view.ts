@@ -0,0 +1,62 @@
+import { Expose, Transform } from 'class-transformer';
+
+/**
+ * Public view of a user, the only shape in which users leave the auth service (HTTP responses and the `USER_VALIDATE` reply).
+ * Credentials such as the password hash are not part of it, and are therefore stripped by `@Serialize(UserView)`.
+ */
+export class UserView {
+  /**
+   * The unique identifier of the user, as the string representation of its ObjectId.
+   */
+  @Expose()
+  @Transform(({ obj }) => obj._id?.toString())
+  _id: string;
+
+  /**
+   * Email address of the user.
+   */
+  @Expose()
+  email: string;
+
+  /**
+   * Roles of the user.
+   */
+  @Expose()
+  roles: string[];
+
+  /**
+   * Permissions granted to the user on top of those of its roles.
+   */
+  @Expose()
+  permissions: string[];
+
+  /**
+   * Whether the user verified their email address.
+   */
+  @Expose()
+  emailVerified: boolean;
+
+  /**
+   * Whether the user logs in with a second factor.
+   */
+  @Expose()
+  twoFactorEnabled: boolean;
+
+  /**
+   * Identifier of the API key the user was authenticated with, if any.
+   */
+  @Expose()
+  apiKeyId?: string;
+
+  /**
+   * Date at which the user registered.
+   */
+  @Expose()
+  createdAt?: Date;
+
+  /**
+   * Date at which the user was last updated.
+   */
+  @Expose()
+  updatedAt?: Date;
+}
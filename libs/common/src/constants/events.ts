@@ -1,2 +1,8 @@
 export const ORDER_CREATED = 'order_created';
+export const BILLING_COMPLETED = 'billing_completed';
+export const BILLING_FAILED = 'billing_failed';
 export const USER_VALIDATE = 'validate_user';
+export const ORDER_CANCELLED = 'order_cancelled';
+export const REFUND_COMPLETED = 'refund_completed';
+export const USER_DELETED = 'user_deleted';
+export const AUDIT_RECORDED = 'audit_recorded';
@@ -1,2 +1,3 @@
 export const QUEUE_BILLING = 'BILLING';
 export const QUEUE_AUTH = 'AUTH';
+export const QUEUE_ORDERS = 'ORDERS';
@@ -1,2 +1,3 @@
 export const BILLING_SERVICE = 'BILLING';
 export const AUTH_SERVICE = 'AUTH';
+export const ORDERS_SERVICE = 'ORDERS';
@@ -1,19 +1,32 @@
-import { Logger, NotFoundException } from '@nestjs/common';
+import { ConflictException, Logger, NotFoundException } from '@nestjs/common';
 import {
   FilterQuery,
   Model,
   Types,
   UpdateQuery,
   SaveOptions,
+  QueryOptions,
   Connection,
   ClientSession,
 } from 'mongoose';
 import { AbstractDocument } from './abstract.schema';
+import { getTransactionSession } from './unit-of-work';
+import {
+  afterCursor,
+  DEFAULT_PAGE_LIMIT,
+  encodeCursor,
+  Page,
+  PaginateOptions,
+  toTotalSort,
+} from './pagination';
 
 /**
  * Abstract base repository class providing common database operations.
  * This class is intended to be extended by concrete repositories for specific Mongoose models.
  * It encapsulates common CRUD operations and transaction management, promoting code reuse and consistency.
+ * Every document gets `createdAt`/`updatedAt` timestamps and a `version` incremented by each update.
+ * Documents are soft deleted: they get a `deletedAt` date and are excluded from the queries, unless the filter sets `deletedAt` itself.
+ * Operations run within a `UnitOfWork` join its transaction, without passing the session around.
  *
  * @typeparam TDocument The Mongoose document type that extends AbstractDocument.
  */
@@ -48,11 +61,20 @@ export abstract class AbstractRepository<TDocument extends AbstractDocument> {
     document: Omit<TDocument, '_id'>,
     options?: SaveOptions,
   ): Promise<TDocument> {
+    const now = new Date();
     const createdDocument = new this.model({
       ...document,
       _id: new Types.ObjectId(), // Generate a new ObjectId for the document
+      createdAt: now,
+      updatedAt: now,
+      version: 0,
     });
-    return (await createdDocument.save(options)) // Save the document to the database
+    return (
+      await createdDocument.save({
+        ...options,
+        session: options?.session ?? this.session,
+      })
+    ) // Save the document to the database
       .toJSON() as unknown as TDocument; // Convert Mongoose document to plain JSON object and assert type
   }
 
@@ -64,7 +86,11 @@ export abstract class AbstractRepository<TDocument extends AbstractDocument> {
    * @throws {NotFoundException} If no document is found matching the filter query.
    */
   async findOne(filterQuery: FilterQuery<TDocument>): Promise<TDocument> {
-    const document = await this.model.findOne(filterQuery, {}, { lean: true }); // Find one document matching the query, return plain JavaScript object
+    const document = await this.model.findOne(
+      this.withoutDeleted(filterQuery),
+      {},
+      { lean: true, session: this.session },
+    ); // Find one document matching the query, return plain JavaScript object
 
     if (!document) {
       this.logger.warn('Document not found with filterQuery', filterQuery); // Log a warning if document is not found
@@ -76,22 +102,48 @@ export abstract class AbstractRepository<TDocument extends AbstractDocument> {
 
   /**
    * Finds a single document and updates it based on the provided filter query and update data.
+   * The `updatedAt` timestamp is refreshed and the `version` incremented.
+   * When the filter query sets the `version` read with the document, the update is optimistic: it fails with a
+   * `ConflictException` if the document was updated in the meantime.
    * @async
    * @param {FilterQuery<TDocument>} filterQuery The filter query to select the document to update.
    * @param {UpdateQuery<TDocument>} update The update operations to apply to the document.
+   * @param {QueryOptions} [options] Optional query options to be passed to Mongoose (e.g. the `session` of a transaction).
    * @returns A Promise that resolves to the updated document.
    * @throws {NotFoundException} If no document is found matching the filter query.
+   * @throws {ConflictException} If the document exists, but no longer has the version set by the filter query.
    */
   async findOneAndUpdate(
     filterQuery: FilterQuery<TDocument>,
     update: UpdateQuery<TDocument>,
+    options?: QueryOptions,
   ) {
-    const document = await this.model.findOneAndUpdate(filterQuery, update, {
-      lean: true, // Return plain JavaScript object
-      new: true, // Return the modified document rather than the original
-    });
+    const document = await this.model.findOneAndUpdate(
+      this.withoutDeleted(filterQuery),
+      this.withVersionBump(update),
+      {
+        ...options,
+        session: options?.session ?? this.session,
+        lean: true, // Return plain JavaScript object
+        new: true, // Return the modified document rather than the original
+      },
+    );
 
     if (!document) {
+      if (filterQuery.version !== undefined) {
+        const { version, ...unversionedQuery } = filterQuery;
+        const exists = await this.model
+          .exists(
+            this.withoutDeleted(unversionedQuery as FilterQuery<TDocument>),
+          )
+          .session(options?.session ?? this.session ?? null);
+        if (exists) {
+          // The document exists, so it was updated since the version was read
+          throw new ConflictException(
+            `Document was modified concurrently (expected version ${version}).`,
+          );
+        }
+      }
       this.logger.warn(`Document not found with filterQuery:`, filterQuery); // Log a warning if document is not found
       throw new NotFoundException('Document not found.'); // Throw NotFoundException if document is not found
     }
@@ -111,13 +163,49 @@ export abstract class AbstractRepository<TDocument extends AbstractDocument> {
     filterQuery: FilterQuery<TDocument>,
     document: Partial<TDocument>,
   ) {
-    return this.model.findOneAndUpdate(filterQuery, document, {
-      lean: true, // Return plain JavaScript object
-      upsert: true, // Enable upsert option (insert if not found)
-      new: true, // Return the modified document after update/insert
+    return this.model.findOneAndUpdate(
+      this.withoutDeleted(filterQuery),
+      {
+        ...this.withVersionBump({ $set: document }),
+        $setOnInsert: { createdAt: new Date() },
+      },
+      {
+        lean: true, // Return plain JavaScript object
+        upsert: true, // Enable upsert option (insert if not found)
+        new: true, // Return the modified document after update/insert
+        session: this.session,
+      },
+    );
+  }
+
+  /**
+   * Soft deletes a single document: it is kept in the collection with a `deletedAt` date, and excluded from the queries.
+   * @async
+   * @param {FilterQuery<TDocument>} filterQuery The filter query to select the document to delete.
+   * @returns A Promise that resolves to the deleted document.
+   * @throws {NotFoundException} If no document is found matching the filter query.
+   * @throws {ConflictException} If the document exists, but no longer has the version set by the filter query.
+   */
+  async softDelete(filterQuery: FilterQuery<TDocument>) {
+    return this.findOneAndUpdate(filterQuery, {
+      $set: { deletedAt: new Date() },
     });
   }
 
+  /**
+   * Permanently deletes the documents matching the provided filter query, soft deleted ones included.
+   * Meant for data that must not be kept at all, such as the personal data of an erased user.
+   * @async
+   * @param {FilterQuery<TDocument>} filterQuery The filter query to select the documents to delete.
+   * @returns {Promise<number>} A Promise that resolves to the number of deleted documents.
+   */
+  async purge(filterQuery: FilterQuery<TDocument>): Promise<number> {
+    const { deletedCount } = await this.model.deleteMany(filterQuery, {
+      session: this.session,
+    });
+    return deletedCount;
+  }
+
   /**
    * Finds multiple documents based on the provided filter query.
    * @async
@@ -125,11 +213,69 @@ export abstract class AbstractRepository<TDocument extends AbstractDocument> {
    * @returns A Promise that resolves to an array of found documents.
    */
   async find(filterQuery: FilterQuery<TDocument>) {
-    return this.model.find(filterQuery, {}, { lean: true }); // Find documents matching the query, return plain JavaScript objects
+    return this.model.find(
+      this.withoutDeleted(filterQuery),
+      {},
+      { lean: true, session: this.session },
+    ); // Find documents matching the query, return plain JavaScript objects
+  }
+
+  /**
+   * Finds a page of documents matching the provided filter query, along with the total number of matches.
+   * Pages are addressed either by the `cursor` returned as `nextCursor` by the previous page, which stays stable
+   * while documents are inserted, or by an `offset`.
+   * @async
+   * @param {FilterQuery<TDocument>} filterQuery The filter query to select documents.
+   * @param {PaginateOptions} [options] The limit, cursor or offset, sort specification and projection of the page.
+   * @returns {Promise<Page<TDocument>>} A Promise that resolves to the page, with the cursor of the next one.
+   * @throws {BadRequestException} If the cursor is malformed.
+   */
+  async paginate(
+    filterQuery: FilterQuery<TDocument>,
+    {
+      limit = DEFAULT_PAGE_LIMIT,
+      cursor,
+      offset = 0,
+      sort,
+      projection,
+    }: PaginateOptions = {},
+  ): Promise<Page<TDocument>> {
+    const totalSort = toTotalSort(sort);
+    const liveQuery = this.withoutDeleted(filterQuery);
+    const query = cursor
+      ? { $and: [liveQuery, afterCursor(cursor, totalSort)] }
+      : liveQuery;
+    const [items, total] = await Promise.all([
+      this.model.find(
+        query,
+        // Cursors are built from the sorted fields, so they are always returned
+        projection && [...new Set([...projection, ...Object.keys(totalSort)])],
+        {
+          lean: true, // Return plain JavaScript objects
+          sort: totalSort,
+          skip: cursor ? 0 : offset,
+          limit: limit + 1, // Fetch one more document to know whether there is a next page
+          session: this.session,
+        },
+      ),
+      this.model.countDocuments(liveQuery).session(this.session ?? null),
+    ]);
+    const hasNext = items.length > limit;
+    const page = items.slice(0, limit) as TDocument[];
+    return {
+      items: page,
+      total,
+      limit,
+      nextCursor: hasNext
+        ? encodeCursor(page[page.length - 1], totalSort)
+        : undefined,
+    };
   }
 
   /**
    * Starts a new Mongoose transaction.
+   * The caller must commit or abort the transaction, then end the session.
+   * @deprecated Prefer `UnitOfWork.withTransaction`, which passes the session implicitly, retries transient errors and always ends the session.
    * @async
    * @returns {Promise<ClientSession>} A Promise that resolves to a ClientSession object, representing the started transaction.
    */
@@ -138,4 +284,42 @@ export abstract class AbstractRepository<TDocument extends AbstractDocument> {
     session.startTransaction(); // Start a transaction within the session
     return session; // Return the session object
   }
+
+  /**
+   * The session of the `UnitOfWork` transaction running in the current asynchronous context, if any.
+   * Subclasses pass it to the queries they run on the model directly.
+   * @protected
+   * @returns {ClientSession | undefined} The session of the current transaction, or `undefined` outside of a transaction.
+   */
+  protected get session(): ClientSession | undefined {
+    return getTransactionSession();
+  }
+
+  /**
+   * Excludes the soft deleted documents from a filter query, unless it sets `deletedAt` itself.
+   * @protected
+   * @param {FilterQuery<TDocument>} filterQuery The filter query.
+   * @returns {FilterQuery<TDocument>} The filter query matching the documents which are not deleted.
+   */
+  protected withoutDeleted(
+    filterQuery: FilterQuery<TDocument>,
+  ): FilterQuery<TDocument> {
+    return { deletedAt: null, ...filterQuery };
+  }
+
+  /**
+   * Adds the refresh of `updatedAt` and the increment of `version` to an update.
+   * @private
+   * @param {UpdateQuery<TDocument>} update The update operations.
+   * @returns {UpdateQuery<TDocument>} The update operations maintaining the timestamp and the version.
+   */
+  private withVersionBump(
+    update: UpdateQuery<TDocument>,
+  ): UpdateQuery<TDocument> {
+    return {
+      ...update,
+      $set: { ...update.$set, updatedAt: new Date() },
+      $inc: { ...update.$inc, version: 1 },
+    };
+  }
 }
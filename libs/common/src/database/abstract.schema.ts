@@ -1,8 +1,40 @@
 import { Prop, Schema } from '@nestjs/mongoose';
 import { SchemaTypes, Types } from 'mongoose';
 
+/**
+ * Base class of the documents managed by an `AbstractRepository`.
+ * The repository maintains the timestamps, the soft delete marker and the version of every document.
+ */
 @Schema()
 export class AbstractDocument {
   @Prop({ type: SchemaTypes.ObjectId })
   _id: Types.ObjectId;
+
+  /**
+   * Date at which the document was created.
+   * @type {Date}
+   */
+  @Prop()
+  createdAt?: Date;
+
+  /**
+   * Date at which the document was last updated.
+   * @type {Date}
+   */
+  @Prop()
+  updatedAt?: Date;
+
+  /**
+   * Date at which the document was soft deleted. Deleted documents are excluded from the repository queries.
+   * @type {Date}
+   */
+  @Prop()
+  deletedAt?: Date;
+
+  /**
+   * Version of the document, incremented by every update. Filtering an update on it makes it fail on a stale version.
+   * @type {number}
+   */
+  @Prop()
+  version?: number;
 }
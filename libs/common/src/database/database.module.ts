@@ -1,10 +1,12 @@
 import { Module } from '@nestjs/common';
 import { MongooseModule } from '@nestjs/mongoose';
 import { ConfigService } from '@nestjs/config';
+import { UnitOfWork } from './unit-of-work';
 
 /**
  * Module for configuring and establishing a database connection using Mongoose.
  * This module sets up the Mongoose module asynchronously, allowing for database connection configuration to be dynamically sourced from environment variables via `ConfigService`.
+ * It also provides the `UnitOfWork`, running transactions that span several repositories.
  * @exports {DatabaseModule} Exports the `DatabaseModule` class, making it available for import in other modules that require database access.
  */
 @Module({
@@ -26,5 +28,7 @@ import { ConfigService } from '@nestjs/config';
       inject: [ConfigService],
     }),
   ],
+  providers: [UnitOfWork],
+  exports: [UnitOfWork],
 })
 export class DatabaseModule {}
@@ -0,0 +1,112 @@
+import { BadRequestException, Logger } from '@nestjs/common';
+import { Connection, Model, Types } from 'mongoose';
+import { AbstractRepository } from './abstract.repository';
+import { AbstractDocument } from './abstract.schema';
+import { afterCursor, encodeCursor, toTotalSort } from './pagination';
+
+describe('pagination', () => {
+  describe('toTotalSort', () => {
+    it('breaks ties on _id, in the direction of the last key', () => {
+      expect(toTotalSort({ total: -1 })).toEqual({ total: -1, _id: -1 });
+      expect(toTotalSort()).toEqual({ _id: 1 });
+      expect(toTotalSort({ _id: -1 })).toEqual({ _id: -1 });
+    });
+  });
+
+  describe('cursors', () => {
+    const _id = new Types.ObjectId();
+    const createdAt = new Date('2024-05-01T10:00:00.000Z');
+
+    it('resumes after the last document of a page, keeping ObjectIds and dates', () => {
+      const sort = toTotalSort({ createdAt: -1 });
+      const cursor = encodeCursor({ _id, createdAt, total: 100 }, sort);
+
+      expect(cursor).toMatch(/^[\w-]+$/);
+      expect(afterCursor(cursor, sort)).toEqual({
+        $or: [
+          { createdAt: { $lt: createdAt } },
+          { createdAt, _id: { $lt: _id } },
+        ],
+      });
+    });
+
+    it('encodes a missing sorted field as null', () => {
+      const sort = toTotalSort({ phoneNumber: 1 });
+      const cursor = encodeCursor({ _id }, sort);
+
+      expect(afterCursor(cursor, sort).$or[0]).toEqual({
+        phoneNumber: { $gt: null },
+      });
+    });
+
+    it.each([
+      ['not base64url JSON', '%%%'],
+      ['not an array', Buffer.from('{}').toString('base64url')],
+      [
+        'built for another sort',
+        encodeCursor({ _id, createdAt }, toTotalSort({ createdAt: 1 })),
+      ],
+    ])('rejects a cursor which is %s', (_, cursor) => {
+      expect(() => afterCursor(cursor, { _id: 1 })).toThrow(
+        BadRequestException,
+      );
+    });
+
+    it.each([
+      ['a query operator', { $ne: null }],
+      ['an invalid ObjectId', { $oid: 'not-an-id' }],
+      ['an invalid date', { $date: 'yesterday' }],
+      ['a tag with other keys', { $oid: _id.toHexString(), $ne: null }],
+      ['an array', [1]],
+    ])('rejects a cursor holding %s', (_, value) => {
+      const cursor = Buffer.from(JSON.stringify([value, null])).toString(
+        'base64url',
+      );
+
+      expect(() =>
+        afterCursor(cursor, toTotalSort({ phoneNumber: 1 })),
+      ).toThrow(BadRequestException);
+    });
+  });
+
+  describe('AbstractRepository.paginate', () => {
+    class ItemsRepository extends AbstractRepository<AbstractDocument> {
+      protected readonly logger = new Logger(ItemsRepository.name);
+    }
+
+    const items = [1, 2, 3].map(() => ({ _id: new Types.ObjectId() }));
+    const model = {
+      find: jest.fn(),
+      countDocuments: jest.fn(() => ({ session: async () => items.length })),
+    };
+    const repository = new ItemsRepository(
+      model as unknown as Model<AbstractDocument>,
+      {} as Connection,
+    );
+
+    it('returns the cursor of the next page, which the next call resumes from', async () => {
+      model.find.mockResolvedValueOnce(items);
+
+      const first = await repository.paginate({}, { limit: 2 });
+
+      expect(first.items).toEqual(items.slice(0, 2));
+      expect(first.total).toBe(3);
+      expect(model.find.mock.calls[0][2]).toMatchObject({
+        limit: 3,
+        sort: { _id: 1 },
+      });
+
+      model.find.mockResolvedValueOnce(items.slice(2));
+      const second = await repository.paginate(
+        {},
+        { limit: 2, cursor: first.nextCursor },
+      );
+
+      expect(model.find.mock.calls[1][0]).toEqual({
+        $and: [{ deletedAt: null }, { $or: [{ _id: { $gt: items[1]._id } }] }],
+      });
+      expect(second.items).toEqual(items.slice(2));
+      expect(second.nextCursor).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,178 @@
+import { BadRequestException } from '@nestjs/common';
+import { FilterQuery, Types } from 'mongoose';
+
+/**
+ * Direction of a sorted field: `1` for ascending, `-1` for descending.
+ */
+export type SortDirection = 1 | -1;
+
+/**
+ * Sort specification, applied in key order (e.g. `{ total: -1 }`).
+ */
+export type SortSpec = Record<string, SortDirection>;
+
+/**
+ * Options of `AbstractRepository.paginate`.
+ */
+export interface PaginateOptions {
+  /**
+   * Maximum number of documents in the page. Defaults to {@link DEFAULT_PAGE_LIMIT}.
+   */
+  limit?: number;
+
+  /**
+   * Opaque cursor returned as `nextCursor` by the previous page. When set, `offset` is ignored.
+   */
+  cursor?: string;
+
+  /**
+   * Number of documents to skip, for offset pagination.
+   */
+  offset?: number;
+
+  /**
+   * Sort specification. The `_id` is always appended as the last key, so that the order is total and cursors are stable.
+   */
+  sort?: SortSpec;
+
+  /**
+   * Fields to return. The `_id` and the sorted fields are always returned, as cursors are built from them.
+   */
+  projection?: string[];
+}
+
+/**
+ * A page of documents returned by `AbstractRepository.paginate`.
+ */
+export interface Page<TDocument> {
+  /**
+   * Documents of the page.
+   */
+  items: TDocument[];
+
+  /**
+   * Number of documents matching the filter, across all pages.
+   */
+  total: number;
+
+  /**
+   * Maximum number of documents in the page.
+   */
+  limit: number;
+
+  /**
+   * Cursor of the next page, or `undefined` on the last page.
+   */
+  nextCursor?: string;
+}
+
+/**
+ * Number of documents in a page when no `limit` is given.
+ */
+export const DEFAULT_PAGE_LIMIT = 20;
+
+/**
+ * Completes a sort specification with the `_id`, making the order total.
+ * @param {SortSpec} [sort] The requested sort specification.
+ * @returns {SortSpec} The sort specification ending with `_id`, in the direction of the last requested key.
+ */
+export const toTotalSort = (sort: SortSpec = {}): SortSpec => {
+  const directions = Object.values(sort);
+  return {
+    ...sort,
+    _id: sort._id ?? directions[directions.length - 1] ?? 1,
+  };
+};
+
+/**
+ * Tags the ObjectIds and dates of cursor values, so they keep their type once serialized as JSON.
+ * @param {unknown} value A value of a sorted field.
+ * @returns {unknown} The JSON-safe value.
+ */
+const toCursorValue = (value: unknown): unknown => {
+  if (value instanceof Types.ObjectId) {
+    return { $oid: value.toHexString() };
+  }
+  if (value instanceof Date) {
+    return { $date: value.toISOString() };
+  }
+  return value ?? null;
+};
+
+/**
+ * Restores a value tagged by {@link toCursorValue}.
+ * Cursors come from the clients, so only the values {@link toCursorValue} produces are accepted:
+ * any other object could smuggle a query operator (e.g. `{ "$ne": null }`) into the filter.
+ * @param {any} value The JSON-safe value.
+ * @returns {unknown} The value of the sorted field.
+ * @throws {BadRequestException} If the value is neither a primitive, nor a valid tagged ObjectId or date.
+ */
+const fromCursorValue = (value: any): unknown => {
+  if (
+    value === null ||
+    ['string', 'number', 'boolean'].includes(typeof value)
+  ) {
+    return value;
+  }
+  const keys = typeof value === 'object' ? Object.keys(value) : [];
+  if (
+    keys.length === 1 &&
+    typeof value.$oid === 'string' &&
+    Types.ObjectId.isValid(value.$oid)
+  ) {
+    return new Types.ObjectId(value.$oid);
+  }
+  if (keys.length === 1 && typeof value.$date === 'string') {
+    const date = new Date(value.$date);
+    if (!isNaN(date.getTime())) {
+      return date;
+    }
+  }
+  throw new BadRequestException('Invalid cursor.');
+};
+
+/**
+ * Encodes the position of a document in a sorted result as an opaque cursor.
+ * @param {any} document The last document of a page.
+ * @param {SortSpec} sort The total sort specification of the result.
+ * @returns {string} The base64url encoded cursor.
+ */
+export const encodeCursor = (document: any, sort: SortSpec): string =>
+  Buffer.from(
+    JSON.stringify(
+      Object.keys(sort).map((field) => toCursorValue(document[field])),
+    ),
+  ).toString('base64url');
+
+/**
+ * Builds the filter selecting the documents sorted after a cursor.
+ * For a sort on `a` then `b`, it matches `a` after the cursor, or `a` equal and `b` after the cursor.
+ * @param {string} cursor The cursor returned by {@link encodeCursor}.
+ * @param {SortSpec} sort The total sort specification the cursor was built with.
+ * @returns {FilterQuery<any>} The filter to combine with the query.
+ * @throws {BadRequestException} If the cursor is malformed or does not match the sort specification.
+ */
+export const afterCursor = (
+  cursor: string,
+  sort: SortSpec,
+): FilterQuery<any> => {
+  const fields = Object.keys(sort);
+  let values: unknown[];
+  try {
+    values = JSON.parse(Buffer.from(cursor, 'base64url').toString());
+  } catch {
+    throw new BadRequestException('Invalid cursor.');
+  }
+  if (!Array.isArray(values) || values.length !== fields.length) {
+    throw new BadRequestException('Invalid cursor.');
+  }
+  values = values.map(fromCursorValue);
+  return {
+    $or: fields.map((field, index) => ({
+      ...Object.fromEntries(
+        fields.slice(0, index).map((previous, i) => [previous, values[i]]),
+      ),
+      [field]: { [sort[field] === 1 ? '$gt' : '$lt']: values[index] },
+    })),
+  };
+};
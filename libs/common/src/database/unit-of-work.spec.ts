@@ -0,0 +1,85 @@
+import { Logger } from '@nestjs/common';
+import { Connection } from 'mongoose';
+import {
+  getTransactionSession,
+  TRANSACTION_MAX_ATTEMPTS,
+  UnitOfWork,
+} from './unit-of-work';
+
+describe('UnitOfWork', () => {
+  const labelled = (label: string) =>
+    Object.assign(new Error(label), {
+      hasErrorLabel: (name: string) => name === label,
+    });
+  const session = {
+    startTransaction: jest.fn(),
+    commitTransaction: jest.fn(),
+    abortTransaction: jest.fn(),
+    inTransaction: jest.fn(() => true),
+    endSession: jest.fn(),
+  };
+  const connection = { startSession: jest.fn(async () => session) };
+  const unitOfWork = new UnitOfWork(connection as unknown as Connection);
+
+  beforeAll(() => jest.spyOn(Logger.prototype, 'warn').mockReturnValue());
+  beforeEach(() => jest.clearAllMocks());
+
+  it('commits the work and exposes its session to the repositories', async () => {
+    const work = jest.fn(async () => getTransactionSession());
+
+    await expect(unitOfWork.withTransaction(work)).resolves.toBe(session);
+    expect(session.commitTransaction).toHaveBeenCalledTimes(1);
+    expect(session.endSession).toHaveBeenCalled();
+    expect(getTransactionSession()).toBeUndefined();
+  });
+
+  it('runs the work again after a transient transaction error', async () => {
+    const work = jest
+      .fn()
+      .mockRejectedValueOnce(labelled('TransientTransactionError'))
+      .mockResolvedValueOnce('done');
+
+    await expect(unitOfWork.withTransaction(work)).resolves.toBe('done');
+    expect(work).toHaveBeenCalledTimes(2);
+    expect(session.abortTransaction).toHaveBeenCalledTimes(1);
+    expect(session.startTransaction).toHaveBeenCalledTimes(2);
+  });
+
+  it('gives up after the maximum number of attempts', async () => {
+    const error = labelled('TransientTransactionError');
+    const work = jest.fn().mockRejectedValue(error);
+
+    await expect(unitOfWork.withTransaction(work)).rejects.toBe(error);
+    expect(work).toHaveBeenCalledTimes(TRANSACTION_MAX_ATTEMPTS);
+    expect(session.endSession).toHaveBeenCalledTimes(1);
+  });
+
+  it('does not run the work again after another error', async () => {
+    const error = new Error('Order not found');
+    const work = jest.fn().mockRejectedValue(error);
+
+    await expect(unitOfWork.withTransaction(work)).rejects.toBe(error);
+    expect(work).toHaveBeenCalledTimes(1);
+    expect(session.abortTransaction).toHaveBeenCalledTimes(1);
+  });
+
+  it('retries a commit whose outcome is unknown', async () => {
+    session.commitTransaction.mockRejectedValueOnce(
+      labelled('UnknownTransactionCommitResult'),
+    );
+    const work = jest.fn().mockResolvedValue('done');
+
+    await expect(unitOfWork.withTransaction(work)).resolves.toBe('done');
+    expect(work).toHaveBeenCalledTimes(1);
+    expect(session.commitTransaction).toHaveBeenCalledTimes(2);
+  });
+
+  it('joins the transaction of an outer unit of work', async () => {
+    await unitOfWork.withTransaction(() =>
+      unitOfWork.withTransaction(async () => undefined),
+    );
+
+    expect(connection.startSession).toHaveBeenCalledTimes(1);
+    expect(session.commitTransaction).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,113 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectConnection } from '@nestjs/mongoose';
+import { AsyncLocalStorage } from 'async_hooks';
+import { ClientSession, Connection } from 'mongoose';
+
+/**
+ * Maximum number of times a transaction is run when it fails with a `TransientTransactionError`.
+ */
+export const TRANSACTION_MAX_ATTEMPTS = 3;
+
+/**
+ * Holds the session of the transaction running in the current asynchronous context.
+ */
+const transactionStorage = new AsyncLocalStorage<ClientSession>();
+
+/**
+ * Returns the session of the transaction run by {@link UnitOfWork.withTransaction} in the current asynchronous context.
+ * Repositories use it when no session is given explicitly, so every write of the unit of work joins its transaction.
+ * @returns {ClientSession | undefined} The session of the current transaction, or `undefined` outside of a transaction.
+ */
+export const getTransactionSession = (): ClientSession | undefined =>
+  transactionStorage.getStore();
+
+/**
+ * Injectable service running a unit of work in a MongoDB transaction spanning several repositories.
+ * The session is passed implicitly: any `AbstractRepository` (or `OutboxService`) called within the unit of work joins the transaction.
+ * @example
+ * ```ts
+ * const order = await this.unitOfWork.withTransaction(async () => {
+ *   const order = await this.ordersRepository.create({ ... });
+ *   await this.outboxService.enqueue(BILLING_SERVICE, ORDER_CREATED, { ... });
+ *   return order;
+ * });
+ * ```
+ */
+@Injectable()
+export class UnitOfWork {
+  private readonly logger = new Logger(UnitOfWork.name, { timestamp: true });
+
+  /**
+   * Constructor for `UnitOfWork`.
+   * @param {Connection} connection - Injected Mongoose connection, used to start the sessions.
+   */
+  constructor(@InjectConnection() private readonly connection: Connection) {}
+
+  /**
+   * Runs `work` in a transaction, committed if it resolves and aborted if it throws.
+   * The whole unit of work is run again when the transaction fails with a `TransientTransactionError` (e.g. a write conflict),
+   * up to {@link TRANSACTION_MAX_ATTEMPTS} times, and the commit is retried on an `UnknownTransactionCommitResult`.
+   * The session is always ended. Nested calls join the transaction of the outer unit of work.
+   * @async
+   * @param {(session: ClientSession) => Promise<T>} work - The unit of work. It may run several times, so it must not have side effects outside of the database.
+   * @returns {Promise<T>} A Promise that resolves to the result of `work` once the transaction is committed.
+   * @throws {Error} The error thrown by `work` or by the commit, once the transaction is aborted.
+   */
+  async withTransaction<T>(
+    work: (session: ClientSession) => Promise<T>,
+  ): Promise<T> {
+    const currentSession = getTransactionSession();
+    if (currentSession) {
+      return work(currentSession);
+    }
+    const session = await this.connection.startSession();
+    try {
+      for (let attempt = 1; ; attempt++) {
+        session.startTransaction();
+        try {
+          const result = await transactionStorage.run(session, () =>
+            work(session),
+          );
+          await this.commit(session);
+          return result;
+        } catch (err) {
+          if (session.inTransaction()) {
+            await session.abortTransaction();
+          }
+          if (
+            !err.hasErrorLabel?.('TransientTransactionError') ||
+            attempt >= TRANSACTION_MAX_ATTEMPTS
+          ) {
+            throw err;
+          }
+          this.logger.warn(
+            `Retrying transaction after a transient error (attempt ${attempt}): ${err.message}`,
+          );
+        }
+      }
+    } finally {
+      await session.endSession();
+    }
+  }
+
+  /**
+   * Commits a transaction, retrying while its outcome is unknown (e.g. after a network error).
+   * @private
+   * @async
+   * @param {ClientSession} session - The session of the transaction.
+   * @returns {Promise<void>} A Promise that resolves once the transaction is committed.
+   */
+  private async commit(session: ClientSession): Promise<void> {
+    for (;;) {
+      try {
+        await session.commitTransaction();
+        return;
+      } catch (err) {
+        if (!err.hasErrorLabel?.('UnknownTransactionCommitResult')) {
+          throw err;
+        }
+        this.logger.warn(`Retrying commit: ${err.message}`);
+      }
+    }
+  }
+}
@@ -0,0 +1,92 @@
+import {
+  IsDateString,
+  IsIn,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  MaxLength,
+} from 'class-validator';
+
+/**
+ * Outcomes of an audited action.
+ */
+export const AUDIT_OUTCOMES = ['success', 'failure'] as const;
+
+/**
+ * Outcome of an audited action.
+ */
+export type AuditOutcome = (typeof AUDIT_OUTCOMES)[number];
+
+/**
+ * Payload of the `AUDIT_RECORDED` event, emitted by the services through their `AuditClient`.
+ * The auth service appends it to the audit log.
+ */
+export class AuditRecordedEvent {
+  /**
+   * Name of the service the action happened in, e.g. `orders`.
+   * @type {string}
+   */
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(32)
+  service: string;
+
+  /**
+   * Name of the audited action, e.g. `login` or `token_validation`.
+   * @type {string}
+   */
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(64)
+  action: string;
+
+  /**
+   * Whether the action succeeded.
+   * @type {AuditOutcome}
+   */
+  @IsIn(AUDIT_OUTCOMES)
+  outcome: AuditOutcome;
+
+  /**
+   * Identifier of the user performing the action, or the email address given when the user is not known.
+   * @type {string}
+   */
+  @IsOptional()
+  @IsString()
+  @MaxLength(256)
+  actor?: string;
+
+  /**
+   * IP of the client.
+   * @type {string}
+   */
+  @IsOptional()
+  @IsString()
+  @MaxLength(64)
+  ip?: string;
+
+  /**
+   * `User-Agent` header of the client.
+   * @type {string}
+   */
+  @IsOptional()
+  @IsString()
+  @MaxLength(256)
+  userAgent?: string;
+
+  /**
+   * Reason of a failure.
+   * @type {string}
+   */
+  @IsOptional()
+  @IsString()
+  @MaxLength(256)
+  reason?: string;
+
+  /**
+   * Date at which the action happened, as an ISO 8601 string.
+   * @type {string}
+   */
+  @IsDateString()
+  occurredAt: string;
+}
@@ -0,0 +1,13 @@
+import { IsMongoId } from 'class-validator';
+
+/**
+ * Payload of the `BILLING_COMPLETED` event, emitted by the billing service once an order is billed.
+ */
+export class BillingCompletedEvent {
+  /**
+   * Identifier of the billed order.
+   * @type {string}
+   */
+  @IsMongoId()
+  orderId: string;
+}
@@ -0,0 +1,21 @@
+import { IsMongoId, IsNotEmpty, IsString } from 'class-validator';
+
+/**
+ * Payload of the `BILLING_FAILED` event, emitted by the billing service when an order cannot be billed.
+ */
+export class BillingFailedEvent {
+  /**
+   * Identifier of the order that could not be billed.
+   * @type {string}
+   */
+  @IsMongoId()
+  orderId: string;
+
+  /**
+   * Reason of the failure.
+   * @type {string}
+   */
+  @IsString()
+  @IsNotEmpty()
+  reason: string;
+}
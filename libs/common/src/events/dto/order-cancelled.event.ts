@@ -0,0 +1,40 @@
+import {
+  IsInt,
+  IsMongoId,
+  IsNotEmpty,
+  IsOptional,
+  IsPositive,
+  IsString,
+} from 'class-validator';
+
+/**
+ * Payload of the `ORDER_CANCELLED` event, emitted by the orders service when a user cancels an order,
+ * or when it fails an order billing did not answer for in time.
+ * The billing service refunds the order and confirms with a `REFUND_COMPLETED` event.
+ */
+export class OrderCancelledEvent {
+  /**
+   * Identifier of the cancelled order.
+   * @type {string}
+   */
+  @IsMongoId()
+  orderId: string;
+
+  /**
+   * Amount to refund, in minor units of the order currency. When omitted, everything paid for the order is refunded.
+   * @type {number}
+   */
+  @IsOptional()
+  @IsInt()
+  @IsPositive()
+  amount?: number;
+
+  /**
+   * Reason of the cancellation, given by the user or recorded by the timeout.
+   * @type {string}
+   */
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  reason?: string;
+}
@@ -0,0 +1,79 @@
+import { Type } from 'class-transformer';
+import {
+  ArrayNotEmpty,
+  IsInt,
+  IsMongoId,
+  IsPhoneNumber,
+  Matches,
+  Min,
+  ValidateNested,
+} from 'class-validator';
+import { OrderLineEvent } from './order-line.event';
+
+/**
+ * Payload of the `ORDER_CREATED` event, emitted by the orders service once an order is committed.
+ * It carries the full breakdown of the order. Amounts are integers in minor units of `currency` (e.g. cents).
+ * The orders service validated the user when the order was placed, so the event carries the owner of the order, not their credentials.
+ */
+export class OrderCreatedEvent {
+  /**
+   * Identifier of the created order.
+   * @type {string}
+   */
+  @IsMongoId()
+  orderId: string;
+
+  /**
+   * Identifier of the user who placed the order.
+   * @type {string}
+   */
+  @IsMongoId()
+  userId: string;
+
+  /**
+   * Ordered lines.
+   * @type {OrderLineEvent[]}
+   */
+  @ArrayNotEmpty()
+  @ValidateNested({ each: true })
+  @Type(() => OrderLineEvent)
+  lines: OrderLineEvent[];
+
+  /**
+   * ISO 4217 currency code of the amounts.
+   * @type {string}
+   */
+  @Matches(/^[A-Z]{3}$/)
+  currency: string;
+
+  /**
+   * Sum of the line totals, in minor units.
+   * @type {number}
+   */
+  @IsInt()
+  @Min(0)
+  subtotal: number;
+
+  /**
+   * Discount granted on the subtotal, in minor units.
+   * @type {number}
+   */
+  @IsInt()
+  @Min(0)
+  discount: number;
+
+  /**
+   * Amount to bill (`subtotal` - `discount`), in minor units.
+   * @type {number}
+   */
+  @IsInt()
+  @Min(0)
+  total: number;
+
+  /**
+   * Phone number of the customer.
+   * @type {string}
+   */
+  @IsPhoneNumber()
+  phoneNumber: string;
+}
@@ -0,0 +1,47 @@
+import { IsInt, IsNotEmpty, IsPositive, IsString, Min } from 'class-validator';
+
+/**
+ * Line of an order, as carried by the `ORDER_CREATED` event.
+ * Amounts are integers in minor units of the order currency (e.g. cents).
+ */
+export class OrderLineEvent {
+  /**
+   * Stock keeping unit of the ordered item.
+   * @type {string}
+   */
+  @IsString()
+  @IsNotEmpty()
+  sku: string;
+
+  /**
+   * Name of the ordered item.
+   * @type {string}
+   */
+  @IsString()
+  @IsNotEmpty()
+  name: string;
+
+  /**
+   * Ordered quantity.
+   * @type {number}
+   */
+  @IsInt()
+  @IsPositive()
+  quantity: number;
+
+  /**
+   * Unit price, in minor units.
+   * @type {number}
+   */
+  @IsInt()
+  @Min(0)
+  unitPrice: number;
+
+  /**
+   * Line total (`quantity` × `unitPrice`), in minor units.
+   * @type {number}
+   */
+  @IsInt()
+  @Min(0)
+  total: number;
+}
@@ -0,0 +1,21 @@
+import { IsInt, IsMongoId, Min } from 'class-validator';
+
+/**
+ * Payload of the `REFUND_COMPLETED` event, emitted by the billing service once a cancelled order is refunded.
+ */
+export class RefundCompletedEvent {
+  /**
+   * Identifier of the refunded order.
+   * @type {string}
+   */
+  @IsMongoId()
+  orderId: string;
+
+  /**
+   * Refunded amount, in minor units of the order currency. It is `0` when nothing was charged for the order.
+   * @type {number}
+   */
+  @IsInt()
+  @Min(0)
+  amount: number;
+}
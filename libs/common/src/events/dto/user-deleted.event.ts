@@ -0,0 +1,20 @@
+import { IsMongoId } from 'class-validator';
+
+/**
+ * Placeholder replacing the identifier of an erased user on the records kept after the `USER_DELETED` event,
+ * such as orders and invoices, so that they can no longer be linked to the person.
+ */
+export const ERASED_USER_ID = 'erased';
+
+/**
+ * Payload of the `USER_DELETED` event, emitted by the auth service once a user deleted their account.
+ * The orders and billing services anonymize the data they hold about the user.
+ */
+export class UserDeletedEvent {
+  /**
+   * Identifier of the deleted user.
+   * @type {string}
+   */
+  @IsMongoId()
+  userId: string;
+}
@@ -0,0 +1,14 @@
+import { IsNotEmpty, IsString } from 'class-validator';
+
+/**
+ * Payload of the `USER_VALIDATE` message, sent by the `JwtAuthGuard` to the auth service.
+ */
+export class ValidateUserReq {
+  /**
+   * The JWT or the API key to validate.
+   * @type {string}
+   */
+  @IsString()
+  @IsNotEmpty()
+  Authentication: string;
+}
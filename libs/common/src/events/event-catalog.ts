@@ -0,0 +1,83 @@
+import {
+  AUDIT_RECORDED,
+  BILLING_COMPLETED,
+  BILLING_FAILED,
+  ORDER_CANCELLED,
+  ORDER_CREATED,
+  REFUND_COMPLETED,
+  USER_DELETED,
+  USER_VALIDATE,
+} from '../constants/events';
+import { UserView } from '../auth/user-view';
+import { AuditRecordedEvent } from './dto/audit-recorded.event';
+import { BillingCompletedEvent } from './dto/billing-completed.event';
+import { BillingFailedEvent } from './dto/billing-failed.event';
+import { OrderCancelledEvent } from './dto/order-cancelled.event';
+import { OrderCreatedEvent } from './dto/order-created.event';
+import { RefundCompletedEvent } from './dto/refund-completed.event';
+import { UserDeletedEvent } from './dto/user-deleted.event';
+import { ValidateUserReq } from './dto/validate-user.req';
+import {
+  defineContract,
+  MessageContract,
+  VersionedPayload,
+} from './event-contract';
+
+/**
+ * Catalog of the messages exchanged between the microservices, keyed by pattern.
+ * Producers and consumers go through it (see `emitEvent`, `sendMessage`, `OutboxService.enqueue` and `EventValidationPipe`),
+ * so changing a DTO breaks the compilation of both sides until they are updated.
+ */
+export const EventCatalog = {
+  // v2: multi-line orders with amounts in minor units
+  // v3: the owner of the order instead of the forwarded user credentials
+  [ORDER_CREATED]: defineContract(ORDER_CREATED, 3, OrderCreatedEvent),
+  [BILLING_COMPLETED]: defineContract(
+    BILLING_COMPLETED,
+    1,
+    BillingCompletedEvent,
+  ),
+  [BILLING_FAILED]: defineContract(BILLING_FAILED, 1, BillingFailedEvent),
+  [ORDER_CANCELLED]: defineContract(ORDER_CANCELLED, 1, OrderCancelledEvent),
+  [REFUND_COMPLETED]: defineContract(REFUND_COMPLETED, 1, RefundCompletedEvent),
+  [USER_VALIDATE]: defineContract<ValidateUserReq, UserView>(
+    USER_VALIDATE,
+    1,
+    ValidateUserReq,
+  ),
+  [USER_DELETED]: defineContract(USER_DELETED, 1, UserDeletedEvent),
+  [AUDIT_RECORDED]: defineContract(AUDIT_RECORDED, 1, AuditRecordedEvent),
+};
+
+/**
+ * Union of the patterns declared in the {@link EventCatalog}.
+ */
+export type CatalogPattern = keyof typeof EventCatalog;
+
+/**
+ * Payload type of the message declared for `TPattern` in the {@link EventCatalog}.
+ */
+export type PayloadOf<TPattern extends CatalogPattern> =
+  (typeof EventCatalog)[TPattern] extends MessageContract<infer TPayload, any>
+    ? TPayload
+    : never;
+
+/**
+ * Response type of the message declared for `TPattern` in the {@link EventCatalog}.
+ */
+export type ResponseOf<TPattern extends CatalogPattern> =
+  (typeof EventCatalog)[TPattern] extends MessageContract<any, infer TResponse>
+    ? TResponse
+    : never;
+
+/**
+ * Stamps a payload with the schema version of the contract declared for `pattern`.
+ * @param {TPattern} pattern The pattern of the message.
+ * @param {PayloadOf<TPattern>} payload The payload to send.
+ * @returns The payload as it travels on the wire.
+ */
+export const toVersionedPayload = <TPattern extends CatalogPattern>(
+  pattern: TPattern,
+  payload: PayloadOf<TPattern>,
+): VersionedPayload<PayloadOf<TPattern>> =>
+  Object.assign({}, payload, { version: EventCatalog[pattern].version });
@@ -0,0 +1,38 @@
+import { ClientProxy } from '@nestjs/microservices';
+import { Observable } from 'rxjs';
+import {
+  CatalogPattern,
+  PayloadOf,
+  ResponseOf,
+  toVersionedPayload,
+} from './event-catalog';
+
+/**
+ * Emits an event declared in the `EventCatalog` through a `ClientProxy`.
+ * The payload must match the DTO of the contract, and is stamped with the contract's schema version.
+ * @param {ClientProxy} client The client to emit the event through.
+ * @param {TPattern} pattern The pattern of the event.
+ * @param {PayloadOf<TPattern>} payload The payload of the event.
+ * @returns {Observable<void>} A cold Observable completing once the event is published.
+ */
+export const emitEvent = <TPattern extends CatalogPattern>(
+  client: ClientProxy,
+  pattern: TPattern,
+  payload: PayloadOf<TPattern>,
+): Observable<void> =>
+  client.emit(pattern, toVersionedPayload(pattern, payload));
+
+/**
+ * Sends a request/response message declared in the `EventCatalog` through a `ClientProxy`.
+ * The payload must match the DTO of the contract, and is stamped with the contract's schema version.
+ * @param {ClientProxy} client The client to send the message through.
+ * @param {TPattern} pattern The pattern of the message.
+ * @param {PayloadOf<TPattern>} payload The payload of the message.
+ * @returns {Observable<ResponseOf<TPattern>>} A cold Observable emitting the response.
+ */
+export const sendMessage = <TPattern extends CatalogPattern>(
+  client: ClientProxy,
+  pattern: TPattern,
+  payload: PayloadOf<TPattern>,
+): Observable<ResponseOf<TPattern>> =>
+  client.send(pattern, toVersionedPayload(pattern, payload));
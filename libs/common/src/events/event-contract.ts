@@ -0,0 +1,53 @@
+import { Type } from '@nestjs/common';
+
+/**
+ * Contract of a message exchanged between microservices.
+ * It binds a pattern to the class-validator DTO describing its payload, and to a schema version
+ * sent along with every payload so consumers can reject messages produced against another version of the contract.
+ * @typeparam TPayload The payload type, described by the DTO class.
+ * @typeparam TResponse The response type for request/response messages, `void` for events.
+ */
+export interface MessageContract<TPayload, TResponse = void> {
+  /**
+   * The pattern the message is emitted or sent with (e.g. `ORDER_CREATED`).
+   */
+  pattern: string;
+
+  /**
+   * The schema version of the payload. Bump it on every breaking change of the DTO.
+   */
+  version: number;
+
+  /**
+   * The DTO class describing and validating the payload.
+   */
+  payload: Type<TPayload>;
+
+  /**
+   * Phantom property carrying the response type. It is never set at runtime.
+   */
+  readonly response?: TResponse;
+}
+
+/**
+ * Payload of a message as it travels on the wire: the DTO fields plus the schema version of the contract.
+ */
+export type VersionedPayload<TPayload> = TPayload & { version: number };
+
+/**
+ * Declares a message contract.
+ * @param {string} pattern The pattern the message is emitted or sent with.
+ * @param {number} version The schema version of the payload.
+ * @param {Type<TPayload>} payload The DTO class describing the payload.
+ * @returns {MessageContract<TPayload, TResponse>} The message contract.
+ * @example
+ * ```ts
+ * defineContract(ORDER_CREATED, 1, OrderCreatedEvent);
+ * defineContract<ValidateUserReq, UserView>(USER_VALIDATE, 1, ValidateUserReq);
+ * ```
+ */
+export const defineContract = <TPayload, TResponse = void>(
+  pattern: string,
+  version: number,
+  payload: Type<TPayload>,
+): MessageContract<TPayload, TResponse> => ({ pattern, version, payload });
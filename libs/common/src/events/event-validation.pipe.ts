@@ -0,0 +1,53 @@
+import { Injectable, PipeTransform } from '@nestjs/common';
+import { plainToInstance } from 'class-transformer';
+import { validate } from 'class-validator';
+import { CatalogPattern, EventCatalog, PayloadOf } from './event-catalog';
+import { MessageContract } from './event-contract';
+import { InvalidEventException } from './invalid-event.exception';
+
+/**
+ * Pipe validating a consumed payload against the contract declared for its pattern in the `EventCatalog`.
+ * It checks the schema version, then transforms the payload into the contract's DTO and validates it with class-validator.
+ * Properties not declared by the DTO (such as the `user` added by the `JwtAuthGuard`) are stripped from the result.
+ * @example
+ * ```ts
+ * @EventPattern(ORDER_CREATED)
+ * async handleOrderCreated(@Payload(new EventValidationPipe(ORDER_CREATED)) data: OrderCreatedEvent) { ... }
+ * ```
+ */
+@Injectable()
+export class EventValidationPipe<TPattern extends CatalogPattern>
+  implements PipeTransform<any, Promise<PayloadOf<TPattern>>>
+{
+  /**
+   * Constructor for `EventValidationPipe`.
+   * @param {TPattern} pattern The pattern whose contract the payload is validated against.
+   */
+  constructor(private readonly pattern: TPattern) {}
+
+  /**
+   * Validates the payload.
+   * @async
+   * @param {any} value The raw payload of the message.
+   * @returns {Promise<PayloadOf<TPattern>>} A Promise that resolves to the payload as an instance of the contract's DTO.
+   * @throws {InvalidEventException} If the version does not match the contract, or the payload fails validation.
+   */
+  async transform(value: any): Promise<PayloadOf<TPattern>> {
+    const contract: MessageContract<object, unknown> =
+      EventCatalog[this.pattern];
+    if (value?.version !== contract.version) {
+      throw new InvalidEventException(this.pattern, [
+        `expected version ${contract.version}, received ${value?.version}`,
+      ]);
+    }
+    const payload = plainToInstance(contract.payload, value);
+    const errors = await validate(payload, { whitelist: true });
+    if (errors.length) {
+      throw new InvalidEventException(
+        this.pattern,
+        errors.flatMap((error) => Object.values(error.constraints ?? {})),
+      );
+    }
+    return payload as unknown as PayloadOf<TPattern>;
+  }
+}
@@ -0,0 +1,16 @@
+import { RpcException } from '@nestjs/microservices';
+
+/**
+ * Exception thrown when a consumed payload does not match its contract (wrong schema version or failed validation).
+ * Such a message can never be processed, so the `RmqRetryFilter` dead-letters it right away instead of retrying it.
+ */
+export class InvalidEventException extends RpcException {
+  /**
+   * Constructor for `InvalidEventException`.
+   * @param {string} pattern The pattern of the rejected message.
+   * @param {string[]} errors The reasons of the rejection.
+   */
+  constructor(pattern: string, readonly errors: string[]) {
+    super(`Invalid payload for ${pattern}: ${errors.join(', ')}`);
+  }
+}
@@ -0,0 +1,89 @@
+import { CallHandler, ExecutionContext, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { RpcException } from '@nestjs/microservices';
+import { lastValueFrom, of, throwError } from 'rxjs';
+import { RmqService } from '../rmq/rmq.service';
+import { IdempotencyInterceptor } from './idempotency.interceptor';
+import { ProcessedMessagesRepository } from './processed-messages.repository';
+
+describe('IdempotencyInterceptor', () => {
+  class BillingController {
+    handleOrderCreated() {
+      return undefined;
+    }
+  }
+
+  const rmqContext = {
+    getMessage: () => ({ properties: { messageId: 'message-1' } }),
+  };
+  const context = {
+    getClass: () => BillingController,
+    getHandler: () => BillingController.prototype.handleOrderCreated,
+    switchToRpc: () => ({ getContext: () => rmqContext }),
+  } as unknown as ExecutionContext;
+  const consumer = 'BillingController.handleOrderCreated';
+  const processedMessagesRepository = {
+    acquire: jest.fn(),
+    complete: jest.fn().mockResolvedValue(undefined),
+    release: jest.fn().mockResolvedValue(undefined),
+  };
+  const rmqService = { ack: jest.fn() };
+  const interceptor = new IdempotencyInterceptor(
+    processedMessagesRepository as unknown as ProcessedMessagesRepository,
+    rmqService as unknown as RmqService,
+    { get: () => undefined } as unknown as ConfigService,
+  );
+  const handler = (result: any): CallHandler => ({
+    handle: jest.fn(() => result),
+  });
+
+  beforeAll(() => jest.spyOn(Logger.prototype, 'log').mockReturnValue());
+  beforeEach(() => jest.clearAllMocks());
+
+  it('marks a handled message as processed', async () => {
+    processedMessagesRepository.acquire.mockResolvedValueOnce('acquired');
+
+    await lastValueFrom(interceptor.intercept(context, handler(of('done'))));
+
+    expect(processedMessagesRepository.complete).toHaveBeenCalledWith(
+      'message-1',
+      consumer,
+    );
+  });
+
+  it('acknowledges and skips a duplicate', async () => {
+    processedMessagesRepository.acquire.mockResolvedValueOnce('processed');
+    const next = handler(of('done'));
+
+    await expect(
+      lastValueFrom(interceptor.intercept(context, next)),
+    ).resolves.toBeUndefined();
+    expect(next.handle).not.toHaveBeenCalled();
+    expect(rmqService.ack).toHaveBeenCalledWith(rmqContext);
+  });
+
+  it('fails a message being handled by another delivery, so that it is retried', async () => {
+    processedMessagesRepository.acquire.mockResolvedValueOnce('in-flight');
+
+    await expect(
+      lastValueFrom(interceptor.intercept(context, handler(of('done')))),
+    ).rejects.toBeInstanceOf(RpcException);
+    expect(rmqService.ack).not.toHaveBeenCalled();
+  });
+
+  it('releases the message when the handler fails', async () => {
+    processedMessagesRepository.acquire.mockResolvedValueOnce('acquired');
+    const error = new Error('Gateway timeout');
+
+    await expect(
+      lastValueFrom(
+        interceptor.intercept(context, handler(throwError(() => error))),
+      ),
+    ).rejects.toBe(error);
+    expect(processedMessagesRepository.release).toHaveBeenCalledWith(
+      'message-1',
+      consumer,
+    );
+    expect(processedMessagesRepository.complete).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,114 @@
+import {
+  CallHandler,
+  ExecutionContext,
+  Injectable,
+  Logger,
+  NestInterceptor,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { RmqContext, RpcException } from '@nestjs/microservices';
+import { catchError, from, Observable, of, switchMap } from 'rxjs';
+import { RmqService } from '../rmq/rmq.service';
+import { ProcessedMessagesRepository } from './processed-messages.repository';
+
+/**
+ * Default duration (in seconds) during which handled message ids are remembered.
+ */
+const DEFAULT_TTL = 7 * 24 * 60 * 60;
+
+/**
+ * Default duration (in seconds) during which a consumer holds a message it is handling.
+ */
+const DEFAULT_LOCK_TIMEOUT = 5 * 60;
+
+/**
+ * Interceptor making a RabbitMQ message handler idempotent.
+ * It records the `messageId` of every handled message in the `processed_messages` collection (see `ProcessedMessagesRepository`).
+ * A message already handled is acknowledged and skipped; a message being handled by another delivery is failed,
+ * so that the `RmqRetryFilter` retries it later. If the handler fails, the record is released so the retry is handled.
+ * Ids are remembered for `IDEMPOTENCY_TTL` seconds (7 days by default).
+ * Prefer the `@Idempotent()` decorator to applying this interceptor directly.
+ */
+@Injectable()
+export class IdempotencyInterceptor implements NestInterceptor {
+  /**
+   * Logger instance for IdempotencyInterceptor, used for logging skipped duplicates.
+   * @private
+   * @readonly
+   */
+  private readonly logger = new Logger(IdempotencyInterceptor.name, {
+    timestamp: true,
+  });
+
+  /**
+   * Constructor for `IdempotencyInterceptor`.
+   * @param {ProcessedMessagesRepository} processedMessagesRepository - Injected repository recording the handled message ids.
+   * @param {RmqService} rmqService - Injected `RmqService` instance, used to acknowledge skipped duplicates.
+   * @param {ConfigService} configService - Injected `ConfigService` instance, used to read the retention of the ids.
+   */
+  constructor(
+    private readonly processedMessagesRepository: ProcessedMessagesRepository,
+    private readonly rmqService: RmqService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  /**
+   * Handles the message only if its `messageId` has not been handled yet by this consumer.
+   * Messages without a `messageId` are handled as usual.
+   * @param {ExecutionContext} context The execution context of the RabbitMQ handler.
+   * @param {CallHandler} next The handler of the message.
+   * @returns {Observable<any>} The handler's result, or an Observable emitting `undefined` for a duplicate.
+   */
+  intercept(context: ExecutionContext, next: CallHandler): Observable<any> {
+    const rmqContext = context.switchToRpc().getContext<RmqContext>();
+    const { messageId } = rmqContext.getMessage().properties;
+    if (!messageId) {
+      return next.handle();
+    }
+    const consumer = `${context.getClass().name}.${context.getHandler().name}`;
+    const ttl =
+      Number(this.configService.get('IDEMPOTENCY_TTL')) || DEFAULT_TTL;
+
+    return from(
+      this.processedMessagesRepository.acquire(
+        messageId,
+        consumer,
+        DEFAULT_LOCK_TIMEOUT * 1000,
+        ttl * 1000,
+      ),
+    ).pipe(
+      switchMap((result) => {
+        if (result === 'processed') {
+          this.logger.log(
+            `Skipping duplicate message ${messageId} (${consumer})`,
+          );
+          this.rmqService.ack(rmqContext);
+          return of(undefined);
+        }
+        if (result === 'in-flight') {
+          throw new RpcException(
+            `Message ${messageId} is already being handled`,
+          );
+        }
+        return next.handle().pipe(
+          switchMap(async (response) => {
+            await this.processedMessagesRepository.complete(
+              messageId,
+              consumer,
+            );
+            return response;
+          }),
+          catchError((err) =>
+            from(
+              this.processedMessagesRepository.release(messageId, consumer),
+            ).pipe(
+              switchMap(() => {
+                throw err;
+              }),
+            ),
+          ),
+        );
+      }),
+    );
+  }
+}
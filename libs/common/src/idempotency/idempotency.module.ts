@@ -0,0 +1,23 @@
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import {
+  ProcessedMessage,
+  ProcessedMessageSchema,
+} from './processed-message.schema';
+import { ProcessedMessagesRepository } from './processed-messages.repository';
+
+/**
+ * Module providing the storage of handled message ids used by the `@Idempotent()` decorator.
+ * The importing module must import the `DatabaseModule`.
+ * @exports {ProcessedMessagesRepository} Exports the `ProcessedMessagesRepository` class, injected into the `IdempotencyInterceptor`.
+ */
+@Module({
+  imports: [
+    MongooseModule.forFeature([
+      { name: ProcessedMessage.name, schema: ProcessedMessageSchema },
+    ]),
+  ],
+  providers: [ProcessedMessagesRepository],
+  exports: [ProcessedMessagesRepository],
+})
+export class IdempotencyModule {}
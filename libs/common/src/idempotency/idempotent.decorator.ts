@@ -0,0 +1,16 @@
+import { applyDecorators, UseInterceptors } from '@nestjs/common';
+import { IdempotencyInterceptor } from './idempotency.interceptor';
+
+/**
+ * Decorator making a RabbitMQ message handler idempotent: a message redelivered with the same `messageId` is acknowledged and skipped.
+ * The module of the controller must import the `IdempotencyModule` and the `RmqModule`.
+ * @returns {MethodDecorator & ClassDecorator} A decorator applying the `IdempotencyInterceptor`.
+ * @example
+ * ```ts
+ * @EventPattern(ORDER_CREATED)
+ * @Idempotent()
+ * async handleOrderCreated(@Payload() data: OrderCreatedEvent, @Ctx() context: RmqContext) { ... }
+ * ```
+ */
+export const Idempotent = () =>
+  applyDecorators(UseInterceptors(IdempotencyInterceptor));
@@ -0,0 +1,69 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { AbstractDocument } from '../database/abstract.schema';
+
+/**
+ * Processing status of a `ProcessedMessage`.
+ */
+export enum ProcessedMessageStatus {
+  /**
+   * A consumer is handling the message.
+   */
+  PROCESSING = 'PROCESSING',
+  /**
+   * The message has been handled successfully.
+   */
+  PROCESSED = 'PROCESSED',
+}
+
+/**
+ * Mongoose schema definition for the `ProcessedMessage` document.
+ * It records that a consumer handled (or is handling) a message, identified by its RabbitMQ `messageId`.
+ * Records are removed by MongoDB once `expireAt` is reached, through a TTL index.
+ * @Schema({ versionKey: false, collection: 'processed_messages' }) Decorator that stores the records in the `processed_messages` collection and disables the version key (__v).
+ */
+@Schema({ versionKey: false, collection: 'processed_messages' })
+export class ProcessedMessage extends AbstractDocument {
+  /**
+   * The `messageId` property of the RabbitMQ message.
+   * @type {string}
+   */
+  @Prop({ required: true })
+  messageId: string;
+
+  /**
+   * The consumer of the message, as `<Controller>.<handler>`. A message can be handled once per consumer.
+   * @type {string}
+   */
+  @Prop({ required: true })
+  consumer: string;
+
+  /**
+   * Processing status of the message.
+   * @type {ProcessedMessageStatus}
+   */
+  @Prop({ type: String, enum: ProcessedMessageStatus, required: true })
+  status: ProcessedMessageStatus;
+
+  /**
+   * Date until which the consumer holds the message. Afterwards, a redelivery takes over a record still `PROCESSING`.
+   * @type {Date}
+   */
+  @Prop({ required: true })
+  lockedUntil: Date;
+
+  /**
+   * Date at which MongoDB removes the record.
+   * @type {Date}
+   */
+  @Prop({ required: true })
+  expireAt: Date;
+}
+
+/**
+ * Mongoose `SchemaFactory` for the `ProcessedMessage` class.
+ * The unique index makes concurrent deliveries of the same message race on insertion, and the TTL index purges old records.
+ */
+export const ProcessedMessageSchema =
+  SchemaFactory.createForClass(ProcessedMessage);
+ProcessedMessageSchema.index({ messageId: 1, consumer: 1 }, { unique: true });
+ProcessedMessageSchema.index({ expireAt: 1 }, { expireAfterSeconds: 0 });
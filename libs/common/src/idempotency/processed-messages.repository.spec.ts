@@ -0,0 +1,95 @@
+import { Connection, Model } from 'mongoose';
+import {
+  ProcessedMessage,
+  ProcessedMessageStatus,
+} from './processed-message.schema';
+import { ProcessedMessagesRepository } from './processed-messages.repository';
+
+describe('ProcessedMessagesRepository', () => {
+  const consumer = 'BillingController.handleOrderCreated';
+  const model = {
+    findOneAndUpdate: jest.fn(),
+    findOne: jest.fn(),
+    deleteOne: jest.fn(),
+  };
+  const repository = new ProcessedMessagesRepository(
+    model as unknown as Model<ProcessedMessage>,
+    {} as Connection,
+  );
+  const create = jest.spyOn(repository, 'create');
+  const duplicateKey = Object.assign(new Error('E11000 duplicate key'), {
+    code: 11000,
+  });
+
+  beforeEach(() => {
+    jest.resetAllMocks();
+    jest.useFakeTimers().setSystemTime(new Date(1_000_000));
+  });
+  afterEach(() => jest.useRealTimers());
+
+  it('acquires a message seen for the first time', async () => {
+    create.mockResolvedValueOnce(undefined);
+
+    await expect(
+      repository.acquire('message-1', consumer, 1000, 60000),
+    ).resolves.toBe('acquired');
+    expect(create).toHaveBeenCalledWith({
+      messageId: 'message-1',
+      consumer,
+      status: ProcessedMessageStatus.PROCESSING,
+      lockedUntil: new Date(1_000_000 + 1000),
+      expireAt: new Date(1_000_000 + 60000),
+    });
+    expect(model.findOneAndUpdate).not.toHaveBeenCalled();
+  });
+
+  it('takes over a message whose consumer let its lock expire', async () => {
+    create.mockRejectedValueOnce(duplicateKey);
+    model.findOneAndUpdate.mockResolvedValueOnce({ messageId: 'message-1' });
+
+    await expect(
+      repository.acquire('message-1', consumer, 1000, 60000),
+    ).resolves.toBe('acquired');
+    expect(model.findOneAndUpdate).toHaveBeenCalledWith(
+      {
+        messageId: 'message-1',
+        consumer,
+        status: ProcessedMessageStatus.PROCESSING,
+        lockedUntil: { $lte: new Date(1_000_000) },
+      },
+      { $set: { lockedUntil: new Date(1_000_000 + 1000) } },
+      { lean: true },
+    );
+  });
+
+  it.each([
+    [ProcessedMessageStatus.PROCESSED, 'processed'],
+    [ProcessedMessageStatus.PROCESSING, 'in-flight'],
+  ])('reports a known message which is %s as %s', async (status, expected) => {
+    create.mockRejectedValueOnce(duplicateKey);
+    model.findOneAndUpdate.mockResolvedValueOnce(null);
+    model.findOne.mockResolvedValueOnce({ status });
+
+    await expect(
+      repository.acquire('message-1', consumer, 1000, 60000),
+    ).resolves.toBe(expected);
+  });
+
+  it('rethrows the errors other than a duplicate key', async () => {
+    create.mockRejectedValueOnce(new Error('Connection closed'));
+
+    await expect(
+      repository.acquire('message-1', consumer, 1000, 60000),
+    ).rejects.toThrow('Connection closed');
+  });
+
+  it('only releases a message which is still being handled', async () => {
+    await repository.release('message-1', consumer);
+
+    expect(model.deleteOne).toHaveBeenCalledWith({
+      messageId: 'message-1',
+      consumer,
+      status: ProcessedMessageStatus.PROCESSING,
+    });
+  });
+});
@@ -0,0 +1,131 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectConnection, InjectModel } from '@nestjs/mongoose';
+import { Connection, Model } from 'mongoose';
+import { AbstractRepository } from '../database/abstract.repository';
+import {
+  ProcessedMessage,
+  ProcessedMessageStatus,
+} from './processed-message.schema';
+
+/**
+ * Outcome of an attempt to acquire a message for processing.
+ * - `acquired`: the caller must handle the message.
+ * - `processed`: the message has already been handled, it is a duplicate.
+ * - `in-flight`: another delivery of the message is being handled right now.
+ */
+export type AcquireResult = 'acquired' | 'processed' | 'in-flight';
+
+/**
+ * Injectable repository for managing `ProcessedMessage` entities in MongoDB.
+ * Extends the `AbstractRepository` with the operations used by the `IdempotencyInterceptor`.
+ */
+@Injectable()
+export class ProcessedMessagesRepository extends AbstractRepository<ProcessedMessage> {
+  /**
+   * Logger instance for ProcessedMessagesRepository, used for logging repository operations and potential issues.
+   * @protected
+   * @readonly
+   */
+  protected readonly logger = new Logger(ProcessedMessagesRepository.name, {
+    timestamp: true,
+  });
+
+  /**
+   * Constructor for `ProcessedMessagesRepository`.
+   * @param {Model<ProcessedMessage>} processedMessageModel - Injected Mongoose model for the `ProcessedMessage` entity.
+   * @param {Connection} connection - Injected Mongoose connection, used for transaction management.
+   */
+  constructor(
+    @InjectModel(ProcessedMessage.name)
+    processedMessageModel: Model<ProcessedMessage>,
+    @InjectConnection() connection: Connection,
+  ) {
+    super(processedMessageModel, connection);
+  }
+
+  /**
+   * Acquires a message for processing by a consumer.
+   * The record is inserted as `PROCESSING`; the unique index guarantees a single delivery wins.
+   * A record left `PROCESSING` by a consumer that crashed is taken over once its lock expires.
+   * @async
+   * @param {string} messageId The `messageId` of the message.
+   * @param {string} consumer The consumer handling the message.
+   * @param {number} lockTimeout Duration (in milliseconds) during which the consumer holds the message.
+   * @param {number} ttl Duration (in milliseconds) during which the record is kept.
+   * @returns {Promise<AcquireResult>} A Promise that resolves to the outcome of the attempt.
+   */
+  async acquire(
+    messageId: string,
+    consumer: string,
+    lockTimeout: number,
+    ttl: number,
+  ): Promise<AcquireResult> {
+    const now = Date.now();
+    const lockedUntil = new Date(now + lockTimeout);
+    try {
+      await this.create({
+        messageId,
+        consumer,
+        status: ProcessedMessageStatus.PROCESSING,
+        lockedUntil,
+        expireAt: new Date(now + ttl),
+      });
+      return 'acquired';
+    } catch (err) {
+      if (err?.code !== 11000) {
+        throw err;
+      }
+    }
+    // The message is already known: take it over if its previous consumer gave up on it.
+    const takenOver = await this.model.findOneAndUpdate(
+      {
+        messageId,
+        consumer,
+        status: ProcessedMessageStatus.PROCESSING,
+        lockedUntil: { $lte: new Date(now) },
+      },
+      { $set: { lockedUntil } },
+      { lean: true },
+    );
+    if (takenOver) {
+      return 'acquired';
+    }
+    const record = await this.model.findOne(
+      { messageId, consumer },
+      {},
+      { lean: true },
+    );
+    return record?.status === ProcessedMessageStatus.PROCESSED
+      ? 'processed'
+      : 'in-flight';
+  }
+
+  /**
+   * Marks a message as handled by a consumer.
+   * @async
+   * @param {string} messageId The `messageId` of the message.
+   * @param {string} consumer The consumer that handled the message.
+   * @returns {Promise<void>}
+   */
+  async complete(messageId: string, consumer: string): Promise<void> {
+    await this.model.updateOne(
+      { messageId, consumer },
+      { $set: { status: ProcessedMessageStatus.PROCESSED } },
+    );
+  }
+
+  /**
+   * Releases a message whose handling failed, so that its next delivery is handled again.
+   * @async
+   * @param {string} messageId The `messageId` of the message.
+   * @param {string} consumer The consumer that failed to handle the message.
+   * @returns {Promise<void>}
+   */
+  async release(messageId: string, consumer: string): Promise<void> {
+    await this.model.deleteOne({
+      messageId,
+      consumer,
+      status: ProcessedMessageStatus.PROCESSING,
+    });
+  }
+}
@@ -1,10 +1,68 @@
+export * from './audit/audit.client';
+export * from './audit/audit.module';
+export * from './audit/rmq-audit.client';
+export * from './auth/access.guard';
 export * from './auth/auth.module';
+export * from './auth/fresh-user.decorator';
+export * from './auth/jwks.service';
 export * from './auth/jwt-auth.guard';
+export * from './auth/roles';
+export * from './auth/roles.decorator';
+export * from './auth/token-payload';
+export * from './auth/user-view';
 export * from './constants/events';
 export * from './constants/queues';
 export * from './constants/services';
 export * from './database/database.module';
 export * from './database/abstract.repository';
 export * from './database/abstract.schema';
+export * from './database/pagination';
+export * from './database/unit-of-work';
+export * from './events/dto/audit-recorded.event';
+export * from './events/dto/billing-completed.event';
+export * from './events/dto/billing-failed.event';
+export * from './events/dto/order-cancelled.event';
+export * from './events/dto/order-created.event';
+export * from './events/dto/order-line.event';
+export * from './events/dto/refund-completed.event';
+export * from './events/dto/user-deleted.event';
+export * from './events/dto/validate-user.req';
+export * from './events/event-catalog';
+export * from './events/event-client';
+export * from './events/event-contract';
+export * from './events/event-validation.pipe';
+export * from './events/invalid-event.exception';
+export * from './idempotency/idempotency.interceptor';
+export * from './idempotency/idempotency.module';
+export * from './idempotency/idempotent.decorator';
+export * from './idempotency/processed-message.schema';
+export * from './idempotency/processed-messages.repository';
+export * from './mailer/console.mailer';
+export * from './mailer/file.mailer';
+export * from './mailer/mailer';
+export * from './mailer/mailer.module';
+export * from './migrations/backfill';
+export * from './migrations/migration';
+export * from './migrations/migration-record.schema';
+export * from './migrations/migration.runner';
+export * from './migrations/migrations.module';
+export * from './migrations/migrations.repository';
+export * from './outbox/outbox-message.schema';
+export * from './outbox/outbox.module';
+export * from './outbox/outbox.relay';
+export * from './outbox/outbox.service';
+export * from './rate-limit/memory-rate-limit.store';
+export * from './rate-limit/mongo-rate-limit.store';
+export * from './rate-limit/rate-limit-counter.schema';
+export * from './rate-limit/rate-limit-counters.repository';
+export * from './rate-limit/rate-limit.decorator';
+export * from './rate-limit/rate-limit.guard';
+export * from './rate-limit/rate-limit.module';
+export * from './rate-limit/rate-limit.store';
 export * from './rmq/rmq.module';
 export * from './rmq/rmq.service';
+export * from './rmq/rmq.server';
+export * from './rmq/rmq.topology';
+export * from './rmq/rmq-message-id.serializer';
+export * from './rmq/rmq-retry.filter';
+export * from './serialization/serialize.interceptor';
@@ -0,0 +1,40 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Mail, Mailer } from './mailer';
+
+/**
+ * Mailer printing the emails to the application logs instead of sending them, for local development.
+ */
+@Injectable()
+export class ConsoleMailer extends Mailer {
+  /**
+   * Logger instance for ConsoleMailer, used to print the emails.
+   * @private
+   * @readonly
+   */
+  private readonly logger = new Logger(ConsoleMailer.name, {
+    timestamp: true,
+  });
+
+  /**
+   * Constructor for `ConsoleMailer`.
+   * @param {ConfigService} configService - Injected `ConfigService` instance, used to read `MAILER_FROM`.
+   */
+  constructor(private readonly configService: ConfigService) {
+    super();
+  }
+
+  /**
+   * Prints an email to the logs.
+   * @async
+   * @param {Mail} mail The email to print.
+   * @returns {Promise<void>}
+   */
+  async send({ to, subject, text }: Mail): Promise<void> {
+    this.logger.log(
+      `From: ${this.configService.get(
+        'MAILER_FROM',
+      )}\nTo: ${to}\nSubject: ${subject}\n\n${text}`,
+    );
+  }
+}
@@ -0,0 +1,45 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { randomUUID } from 'crypto';
+import { mkdir, writeFile } from 'fs/promises';
+import { join } from 'path';
+import { Mail, Mailer } from './mailer';
+
+/**
+ * Mailer writing every email to a `.eml` file of the `MAILER_FILE_DIR` directory, for local testing.
+ * The files can be opened with any email client, or read by end-to-end tests to pick up the links they contain.
+ */
+@Injectable()
+export class FileMailer extends Mailer {
+  /**
+   * Constructor for `FileMailer`.
+   * @param {ConfigService} configService - Injected `ConfigService` instance, used to read `MAILER_FROM` and `MAILER_FILE_DIR`.
+   */
+  constructor(private readonly configService: ConfigService) {
+    super();
+  }
+
+  /**
+   * Writes an email to a new file, named after the date it was sent so that the files sort chronologically.
+   * @async
+   * @param {Mail} mail The email to write.
+   * @returns {Promise<void>} A Promise that resolves once the file is written.
+   */
+  async send({ to, subject, text }: Mail): Promise<void> {
+    const directory = this.configService.get<string>('MAILER_FILE_DIR');
+    const date = new Date();
+    await mkdir(directory, { recursive: true });
+    await writeFile(
+      join(directory, `${date.getTime()}-${randomUUID()}.eml`),
+      [
+        `From: ${this.configService.get('MAILER_FROM')}`,
+        `To: ${to}`,
+        `Subject: ${subject}`,
+        `Date: ${date.toUTCString()}`,
+        'Content-Type: text/plain; charset=utf-8',
+        '',
+        text,
+      ].join('\r\n'),
+    );
+  }
+}
@@ -0,0 +1,46 @@
+import { Module, Type } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { ConsoleMailer } from './console.mailer';
+import { FileMailer } from './file.mailer';
+import { Mailer } from './mailer';
+
+/**
+ * Mailer implementations, by value of the `MAILER_TRANSPORT` setting.
+ */
+export const MAILER_TRANSPORTS: Record<string, Type<Mailer>> = {
+  console: ConsoleMailer,
+  file: FileMailer,
+};
+
+/**
+ * Module providing the `Mailer` selected by the `MAILER_TRANSPORT` setting (`console` by default).
+ * The importing application validates `MAILER_TRANSPORT`, `MAILER_FROM` and, for the `file` transport, `MAILER_FILE_DIR`.
+ * @exports {Mailer} Exports the `Mailer`, injected by the services sending emails.
+ */
+@Module({
+  providers: [
+    ...Object.values(MAILER_TRANSPORTS),
+    {
+      provide: Mailer,
+      /**
+       * Factory function resolving the transport configured by `MAILER_TRANSPORT`.
+       * @param {ConfigService} configService The `ConfigService` instance injected for configuration access.
+       * @param {Mailer[]} mailers The instances of the `MAILER_TRANSPORTS`, in the same order.
+       * @returns {Mailer} The configured transport.
+       */
+      useFactory: (configService: ConfigService, ...mailers: Mailer[]) => {
+        const transport = configService.get<string>('MAILER_TRANSPORT');
+        const index = Object.keys(MAILER_TRANSPORTS).indexOf(
+          transport ?? 'console',
+        );
+        if (index < 0) {
+          throw new Error(`Unknown mailer transport "${transport}".`);
+        }
+        return mailers[index];
+      },
+      inject: [ConfigService, ...Object.values(MAILER_TRANSPORTS)],
+    },
+  ],
+  exports: [Mailer],
+})
+export class MailerModule {}
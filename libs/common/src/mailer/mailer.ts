@@ -0,0 +1,34 @@
+/**
+ * An email sent by a `Mailer`.
+ */
+export interface Mail {
+  /**
+   * Email address of the recipient.
+   */
+  to: string;
+
+  /**
+   * Subject line of the email.
+   */
+  subject: string;
+
+  /**
+   * Plain text body of the email.
+   */
+  text: string;
+}
+
+/**
+ * Transport used to send emails, injected by services with `Mailer` as token.
+ * The implementation is picked by the `MailerModule` from the `MAILER_TRANSPORT` setting, so that a transport
+ * backed by an email provider can be plugged in without touching the services sending the emails.
+ */
+export abstract class Mailer {
+  /**
+   * Sends an email.
+   * @async
+   * @param {Mail} mail The email to send.
+   * @returns {Promise<void>} A Promise that resolves once the transport accepted the email.
+   */
+  abstract send(mail: Mail): Promise<void>;
+}
@@ -0,0 +1,29 @@
+import { Connection, Types } from 'mongoose';
+
+/**
+ * Sets the `createdAt`, `updatedAt` and `version` maintained by `AbstractRepository` on the documents created without them.
+ * The creation date is read from the timestamp embedded in the ObjectId of each document.
+ * @async
+ * @param {Connection} connection The Mongoose connection of the application.
+ * @param {string} collection The name of the collection.
+ * @returns {Promise<void>}
+ */
+export const backfillDocumentMetadata = async (
+  connection: Connection,
+  collection: string,
+): Promise<void> => {
+  const documents = connection
+    .collection(collection)
+    .find({ createdAt: { $exists: false } }, { projection: { _id: 1 } });
+  for await (const { _id } of documents) {
+    const createdAt =
+      _id instanceof Types.ObjectId ? _id.getTimestamp() : new Date();
+    await connection.collection(collection).updateOne(
+      { _id, createdAt: { $exists: false } },
+      {
+        $set: { createdAt, updatedAt: createdAt },
+        $max: { version: 0 },
+      },
+    );
+  }
+};
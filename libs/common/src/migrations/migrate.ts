@@ -0,0 +1,69 @@
+import { Module } from '@nestjs/common';
+import { ConfigModule } from '@nestjs/config';
+import { NestFactory } from '@nestjs/core';
+import * as path from 'path';
+import { DatabaseModule } from '../database/database.module';
+import { Migration } from './migration';
+import { MigrationRunner } from './migration.runner';
+import { MigrationsModule } from './migrations.module';
+
+/**
+ * Command line interface of the migrations, run with `pnpm migrate <app> [up|down|status] [arg]`.
+ * - `up [version]` applies the pending migrations, up to `version` when given.
+ * - `down [steps]` reverts the last `steps` applied migrations (one by default).
+ * - `status` lists the migrations and when they were applied.
+ *
+ * The migrations are loaded from `apps/<app>/src/migrations`, and the database is configured from `apps/<app>/.env`.
+ */
+const bootstrap = async () => {
+  const [app, command = 'up', arg] = process.argv.slice(2);
+  if (!app || !/^[a-z-]+$/.test(app)) {
+    throw new Error('Usage: pnpm migrate <app> [up|down|status] [arg]');
+  }
+  const { migrations }: { migrations: Migration[] } = await import(
+    path.join(process.cwd(), 'apps', app, 'src', 'migrations')
+  );
+
+  @Module({
+    imports: [
+      ConfigModule.forRoot({
+        isGlobal: true,
+        envFilePath: `./apps/${app}/.env`,
+      }),
+      DatabaseModule,
+      MigrationsModule.register({ app, migrations, runOnBoot: false }),
+    ],
+  })
+  class MigrateModule {}
+
+  const context = await NestFactory.createApplicationContext(MigrateModule);
+  try {
+    const runner = context.get(MigrationRunner);
+    switch (command) {
+      case 'up':
+        await runner.up(arg ? Number(arg) : undefined);
+        break;
+      case 'down':
+        await runner.down(arg ? Number(arg) : undefined);
+        break;
+      case 'status':
+        for (const { version, name, appliedAt } of await runner.status()) {
+          console.log(
+            `${app}#${version} ${name}: ${
+              appliedAt ? `applied ${appliedAt.toISOString()}` : 'pending'
+            }`,
+          );
+        }
+        break;
+      default:
+        throw new Error(`Unknown migration command: ${command}`);
+    }
+  } finally {
+    await context.close();
+  }
+};
+
+bootstrap().catch((err) => {
+  console.error(err);
+  process.exit(1);
+});
@@ -0,0 +1,46 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { AbstractDocument } from '../database/abstract.schema';
+
+/**
+ * Mongoose schema definition for the `MigrationRecord` document.
+ * It records that a migration of an application has been applied.
+ * @Schema({ versionKey: false, collection: 'migrations' }) Decorator that stores the records in the `migrations` collection and disables the version key (__v).
+ */
+@Schema({ versionKey: false, collection: 'migrations' })
+export class MigrationRecord extends AbstractDocument {
+  /**
+   * Name of the application the migration belongs to.
+   * @type {string}
+   */
+  @Prop({ required: true })
+  app: string;
+
+  /**
+   * Version of the applied migration.
+   * @type {number}
+   */
+  @Prop({ required: true })
+  migration: number;
+
+  /**
+   * Name of the applied migration.
+   * @type {string}
+   */
+  @Prop({ required: true })
+  name: string;
+
+  /**
+   * Date at which the migration was applied.
+   * @type {Date}
+   */
+  @Prop({ required: true })
+  appliedAt: Date;
+}
+
+/**
+ * Mongoose `SchemaFactory` for the `MigrationRecord` class.
+ * A migration is applied at most once per application.
+ */
+export const MigrationRecordSchema =
+  SchemaFactory.createForClass(MigrationRecord);
+MigrationRecordSchema.index({ app: 1, migration: 1 }, { unique: true });
@@ -0,0 +1,60 @@
+import { Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Connection } from 'mongoose';
+import { Migration } from './migration';
+import { MigrationRunner } from './migration.runner';
+import { MigrationsRepository } from './migrations.repository';
+
+describe('MigrationRunner', () => {
+  const migration = (version: number): Migration => ({
+    version,
+    name: `migration-${version}`,
+    up: jest.fn(),
+    down: jest.fn(),
+  });
+  const migrationsRepository = {
+    find: jest.fn(),
+    record: jest.fn(),
+  };
+  const createRunner = (migrations: Migration[]) =>
+    new MigrationRunner(
+      { app: 'auth', migrations },
+      migrationsRepository as unknown as MigrationsRepository,
+      {} as ConfigService,
+      {} as Connection,
+    );
+
+  beforeAll(() => jest.spyOn(Logger.prototype, 'log').mockReturnValue());
+
+  beforeEach(() => jest.clearAllMocks());
+
+  it('applies and records the pending migrations in version order', async () => {
+    const [first, second] = [migration(1), migration(2)];
+    migrationsRepository.find.mockResolvedValueOnce([{ migration: 1 }]);
+    migrationsRepository.record.mockResolvedValue(true);
+
+    const applied = await createRunner([second, first]).up();
+
+    expect(applied).toEqual([second]);
+    expect(first.up).not.toHaveBeenCalled();
+    expect(migrationsRepository.record).toHaveBeenCalledWith(
+      'auth',
+      2,
+      'migration-2',
+    );
+  });
+
+  it('goes on when another instance recorded a migration meanwhile', async () => {
+    const [first, second] = [migration(1), migration(2)];
+    migrationsRepository.find.mockResolvedValueOnce([]);
+    migrationsRepository.record
+      .mockResolvedValueOnce(false)
+      .mockResolvedValueOnce(true);
+
+    await expect(createRunner([first, second]).up()).resolves.toEqual([
+      first,
+      second,
+    ]);
+    expect(second.up).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,168 @@
+import {
+  Inject,
+  Injectable,
+  Logger,
+  OnApplicationBootstrap,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectConnection } from '@nestjs/mongoose';
+import { Connection } from 'mongoose';
+import { Migration, MIGRATIONS_OPTIONS, MigrationsOptions } from './migration';
+import { MigrationsRepository } from './migrations.repository';
+
+/**
+ * State of a migration, as reported by {@link MigrationRunner.status}.
+ */
+export interface MigrationState {
+  version: number;
+  name: string;
+  /**
+   * Date at which the migration was applied, or `undefined` if it is pending.
+   */
+  appliedAt?: Date;
+}
+
+/**
+ * Injectable service applying and reverting the migrations of an application, and recording their state.
+ * When `MIGRATE_ON_BOOT` is set, the pending migrations are applied while the application boots.
+ */
+@Injectable()
+export class MigrationRunner implements OnApplicationBootstrap {
+  private readonly logger = new Logger(MigrationRunner.name, {
+    timestamp: true,
+  });
+
+  /**
+   * Constructor for `MigrationRunner`.
+   * @param {MigrationsOptions} options - The application and its migrations.
+   * @param {MigrationsRepository} migrationsRepository - Injected `MigrationsRepository` instance, recording the applied migrations.
+   * @param {ConfigService} configService - Injected `ConfigService` instance, used to read `MIGRATE_ON_BOOT`.
+   * @param {Connection} connection - Injected Mongoose connection, passed to the migrations.
+   */
+  constructor(
+    @Inject(MIGRATIONS_OPTIONS) private readonly options: MigrationsOptions,
+    private readonly migrationsRepository: MigrationsRepository,
+    private readonly configService: ConfigService,
+    @InjectConnection() private readonly connection: Connection,
+  ) {}
+
+  /**
+   * Applies the pending migrations at boot, when enabled by `MIGRATE_ON_BOOT`.
+   * @async
+   * @returns {Promise<void>}
+   */
+  async onApplicationBootstrap(): Promise<void> {
+    const migrateOnBoot = String(this.configService.get('MIGRATE_ON_BOOT'));
+    if (this.options.runOnBoot !== false && migrateOnBoot === 'true') {
+      await this.up();
+    }
+  }
+
+  /**
+   * Applies the pending migrations in ascending version order, up to `target` when given.
+   * Each migration is recorded once applied, so a failure leaves the previous ones applied and stops the run.
+   * Instances migrating on boot may run concurrently: a migration recorded meanwhile by another instance counts as applied.
+   * @async
+   * @param {number} [target] The last version to apply. Defaults to the latest one.
+   * @returns {Promise<Migration[]>} A Promise that resolves to the applied migrations.
+   */
+  async up(target = Infinity): Promise<Migration[]> {
+    const applied = await this.getAppliedVersions();
+    const pending = this.getMigrations().filter(
+      ({ version }) => version <= target && !applied.has(version),
+    );
+    for (const migration of pending) {
+      this.logger.log(`Applying ${this.describe(migration)}`);
+      await migration.up(this.connection);
+      const recorded = await this.migrationsRepository.record(
+        this.options.app,
+        migration.version,
+        migration.name,
+      );
+      if (!recorded) {
+        this.logger.log(
+          `${this.describe(migration)} was applied by another instance`,
+        );
+      }
+    }
+    this.logger.log(
+      `${this.options.app}: ${pending.length} migration(s) applied`,
+    );
+    return pending;
+  }
+
+  /**
+   * Reverts the last `steps` applied migrations, in descending version order.
+   * @async
+   * @param {number} [steps=1] The number of migrations to revert.
+   * @returns {Promise<Migration[]>} A Promise that resolves to the reverted migrations.
+   */
+  async down(steps = 1): Promise<Migration[]> {
+    const applied = await this.getAppliedVersions();
+    const reverted = this.getMigrations()
+      .filter(({ version }) => applied.has(version))
+      .reverse()
+      .slice(0, steps);
+    for (const migration of reverted) {
+      this.logger.log(`Reverting ${this.describe(migration)}`);
+      await migration.down(this.connection);
+      await this.migrationsRepository.remove(
+        this.options.app,
+        migration.version,
+      );
+    }
+    this.logger.log(
+      `${this.options.app}: ${reverted.length} migration(s) reverted`,
+    );
+    return reverted;
+  }
+
+  /**
+   * Lists the migrations of the application with their state.
+   * @async
+   * @returns {Promise<MigrationState[]>} A Promise that resolves to the migrations, in ascending version order.
+   */
+  async status(): Promise<MigrationState[]> {
+    const records = await this.migrationsRepository.find({
+      app: this.options.app,
+    });
+    return this.getMigrations().map(({ version, name }) => ({
+      version,
+      name,
+      appliedAt: records.find((record) => record.migration === version)
+        ?.appliedAt,
+    }));
+  }
+
+  /**
+   * Returns the migrations of the application in ascending version order.
+   * @private
+   * @returns {Migration[]} The sorted migrations.
+   */
+  private getMigrations(): Migration[] {
+    return [...this.options.migrations].sort((a, b) => a.version - b.version);
+  }
+
+  /**
+   * Reads the versions of the applied migrations.
+   * @private
+   * @async
+   * @returns {Promise<Set<number>>} A Promise that resolves to the applied versions.
+   */
+  private async getAppliedVersions(): Promise<Set<number>> {
+    const records = await this.migrationsRepository.find({
+      app: this.options.app,
+    });
+    return new Set(records.map((record) => record.migration));
+  }
+
+  /**
+   * Describes a migration for the logs.
+   * @private
+   * @param {Migration} migration The migration.
+   * @returns {string} The description (e.g. `auth#1 users-unique-email`).
+   */
+  private describe({ version, name }: Migration): string {
+    return `${this.options.app}#${version} ${name}`;
+  }
+}
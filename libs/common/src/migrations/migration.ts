@@ -0,0 +1,58 @@
+import { Connection } from 'mongoose';
+
+/**
+ * A versioned change of the database of an application (indexes, backfills, document reshaping...).
+ * Migrations are applied in ascending `version` order by the `MigrationRunner`, and recorded in the `migrations` collection.
+ * `up` may be interrupted, or run concurrently by several instances migrating on boot, so it must be idempotent.
+ */
+export interface Migration {
+  /**
+   * Version of the migration, unique within the application (e.g. `1`, `2`...).
+   */
+  version: number;
+
+  /**
+   * Short description of the migration (e.g. `users-unique-email`).
+   */
+  name: string;
+
+  /**
+   * Applies the migration.
+   * @param {Connection} connection The Mongoose connection of the application.
+   * @returns {Promise<void>}
+   */
+  up(connection: Connection): Promise<void>;
+
+  /**
+   * Reverts the migration.
+   * @param {Connection} connection The Mongoose connection of the application.
+   * @returns {Promise<void>}
+   */
+  down(connection: Connection): Promise<void>;
+}
+
+/**
+ * Options of `MigrationsModule.register`.
+ */
+export interface MigrationsOptions {
+  /**
+   * Name of the application the migrations belong to (e.g. `auth`). Migration states are recorded per application.
+   */
+  app: string;
+
+  /**
+   * Migrations of the application.
+   */
+  migrations: Migration[];
+
+  /**
+   * Whether the pending migrations are applied at boot when `MIGRATE_ON_BOOT` is set. Defaults to `true`.
+   * The migration CLI disables it, as it applies the migrations itself.
+   */
+  runOnBoot?: boolean;
+}
+
+/**
+ * Injection token of the {@link MigrationsOptions}.
+ */
+export const MIGRATIONS_OPTIONS = 'MIGRATIONS_OPTIONS';
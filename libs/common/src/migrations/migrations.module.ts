@@ -0,0 +1,43 @@
+import { DynamicModule, Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import { MIGRATIONS_OPTIONS, MigrationsOptions } from './migration';
+import {
+  MigrationRecord,
+  MigrationRecordSchema,
+} from './migration-record.schema';
+import { MigrationRunner } from './migration.runner';
+import { MigrationsRepository } from './migrations.repository';
+
+/**
+ * Module providing the `MigrationRunner` of an application.
+ * The importing module must import the `DatabaseModule` and a global `ConfigModule`.
+ */
+@Module({})
+export class MigrationsModule {
+  /**
+   * Registers the migrations of an application.
+   * @param {MigrationsOptions} options The application and its migrations.
+   * @returns {DynamicModule} A dynamic module exporting the `MigrationRunner`.
+   *
+   * @example
+   * ```ts
+   * imports: [MigrationsModule.register({ app: 'auth', migrations })]
+   * ```
+   */
+  static register(options: MigrationsOptions): DynamicModule {
+    return {
+      module: MigrationsModule,
+      imports: [
+        MongooseModule.forFeature([
+          { name: MigrationRecord.name, schema: MigrationRecordSchema },
+        ]),
+      ],
+      providers: [
+        { provide: MIGRATIONS_OPTIONS, useValue: options },
+        MigrationsRepository,
+        MigrationRunner,
+      ],
+      exports: [MigrationRunner],
+    };
+  }
+}
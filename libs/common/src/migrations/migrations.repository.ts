@@ -0,0 +1,65 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectConnection, InjectModel } from '@nestjs/mongoose';
+import { Connection, Model } from 'mongoose';
+import { AbstractRepository } from '../database/abstract.repository';
+import { MigrationRecord } from './migration-record.schema';
+
+/**
+ * Injectable repository for managing `MigrationRecord` entities in MongoDB.
+ * Extends the `AbstractRepository` to inherit common database operations.
+ */
+@Injectable()
+export class MigrationsRepository extends AbstractRepository<MigrationRecord> {
+  /**
+   * Logger instance for MigrationsRepository, used for logging repository operations and potential issues.
+   * @protected
+   * @readonly
+   */
+  protected readonly logger = new Logger(MigrationsRepository.name, {
+    timestamp: true,
+  });
+
+  /**
+   * Constructor for `MigrationsRepository`.
+   * @param {Model<MigrationRecord>} migrationModel - Injected Mongoose model for the `MigrationRecord` entity.
+   * @param {Connection} connection - Injected Mongoose connection.
+   */
+  constructor(
+    @InjectModel(MigrationRecord.name) migrationModel: Model<MigrationRecord>,
+    @InjectConnection() connection: Connection,
+  ) {
+    super(migrationModel, connection);
+  }
+
+  /**
+   * Records an applied migration.
+   * Instances migrating on boot may apply the same migration concurrently: the record of the first one is kept.
+   * @async
+   * @param {string} app Name of the application.
+   * @param {number} migration Version of the applied migration.
+   * @param {string} name Name of the applied migration.
+   * @returns {Promise<boolean>} A Promise that resolves to `false` if the migration was already recorded.
+   */
+  async record(app: string, migration: number, name: string): Promise<boolean> {
+    try {
+      await this.create({ app, migration, name, appliedAt: new Date() });
+      return true;
+    } catch (err) {
+      if (err?.code !== 11000) {
+        throw err;
+      }
+      return false;
+    }
+  }
+
+  /**
+   * Removes the record of a reverted migration, so that it can be applied again.
+   * @async
+   * @param {string} app Name of the application.
+   * @param {number} migration Version of the reverted migration.
+   * @returns {Promise<void>}
+   */
+  async remove(app: string, migration: number): Promise<void> {
+    await this.model.deleteOne({ app, migration });
+  }
+}
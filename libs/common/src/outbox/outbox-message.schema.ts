@@ -0,0 +1,89 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { SchemaTypes } from 'mongoose';
+import { AbstractDocument } from '../database/abstract.schema';
+
+/**
+ * Dispatch status of an `OutboxMessage`.
+ */
+export enum OutboxStatus {
+  /**
+   * The message is committed but has not been published yet.
+   */
+  PENDING = 'PENDING',
+  /**
+   * The message has been published to its service.
+   */
+  DISPATCHED = 'DISPATCHED',
+}
+
+/**
+ * Mongoose schema definition for the `OutboxMessage` document.
+ * An outbox message is an event written in the same transaction as the business document it relates to,
+ * and published later by the `OutboxRelay`. This guarantees an event is emitted if, and only if, the transaction commits.
+ * @Schema({ versionKey: false, collection: 'outbox' }) Decorator that stores the messages in the `outbox` collection and disables the version key (__v).
+ */
+@Schema({ versionKey: false, collection: 'outbox' })
+export class OutboxMessage extends AbstractDocument {
+  /**
+   * Injection token of the `ClientProxy` the message is published through (e.g. `BILLING_SERVICE`).
+   * @type {string}
+   */
+  @Prop({ required: true })
+  service: string;
+
+  /**
+   * Event pattern of the message (e.g. `ORDER_CREATED`).
+   * @type {string}
+   */
+  @Prop({ required: true })
+  pattern: string;
+
+  /**
+   * Payload of the event.
+   * @type {Record<string, any>}
+   */
+  @Prop({ type: SchemaTypes.Mixed, required: true })
+  payload: Record<string, any>;
+
+  /**
+   * Dispatch status of the message.
+   * @type {OutboxStatus}
+   */
+  @Prop({ type: String, enum: OutboxStatus, default: OutboxStatus.PENDING })
+  status: OutboxStatus;
+
+  /**
+   * Number of dispatch attempts made by the relay.
+   * @type {number}
+   */
+  @Prop({ default: 0 })
+  attempts: number;
+
+  /**
+   * Date until which a relay instance holds the message. Other instances skip it until then.
+   * @type {Date}
+   */
+  @Prop()
+  lockedUntil?: Date;
+
+  /**
+   * Date at which the message was published.
+   * @type {Date}
+   */
+  @Prop()
+  dispatchedAt?: Date;
+
+  /**
+   * Error message of the last failed dispatch attempt.
+   * @type {string}
+   */
+  @Prop()
+  lastError?: string;
+}
+
+/**
+ * Mongoose `SchemaFactory` for the `OutboxMessage` class.
+ * The compound index lets the relay find the oldest pending messages efficiently.
+ */
+export const OutboxMessageSchema = SchemaFactory.createForClass(OutboxMessage);
+OutboxMessageSchema.index({ status: 1, _id: 1 });
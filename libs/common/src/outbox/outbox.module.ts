@@ -0,0 +1,24 @@
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import { OutboxMessage, OutboxMessageSchema } from './outbox-message.schema';
+import { OutboxRelay } from './outbox.relay';
+import { OutboxRepository } from './outbox.repository';
+import { OutboxService } from './outbox.service';
+
+/**
+ * Module providing the transactional outbox.
+ * It registers the `OutboxMessage` model, exports the `OutboxService` used to store events within a transaction,
+ * and runs the `OutboxRelay` publishing them. The importing module must import the `DatabaseModule`,
+ * and register (through `RmqModule.register`) every client the events are published through.
+ * @exports {OutboxService} Exports the `OutboxService` class, allowing other modules to store events in the outbox.
+ */
+@Module({
+  imports: [
+    MongooseModule.forFeature([
+      { name: OutboxMessage.name, schema: OutboxMessageSchema },
+    ]),
+  ],
+  providers: [OutboxRepository, OutboxService, OutboxRelay],
+  exports: [OutboxService],
+})
+export class OutboxModule {}
@@ -0,0 +1,94 @@
+import { Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { ModuleRef } from '@nestjs/core';
+import { RmqRecord } from '@nestjs/microservices';
+import { Types } from 'mongoose';
+import { of, throwError } from 'rxjs';
+import { OutboxStatus } from './outbox-message.schema';
+import { OutboxRelay } from './outbox.relay';
+import { OutboxRepository } from './outbox.repository';
+
+describe('OutboxRelay', () => {
+  const message = () => ({
+    _id: new Types.ObjectId(),
+    service: 'billing',
+    pattern: 'order_created',
+    payload: { orderId: 'order-1' },
+    attempts: 1,
+  });
+  const outboxRepository = {
+    claimNext: jest.fn(),
+    findOneAndUpdate: jest.fn(),
+  };
+  const client = { emit: jest.fn() };
+  const moduleRef = { get: jest.fn(() => client) };
+  const relay = new OutboxRelay(
+    outboxRepository as unknown as OutboxRepository,
+    moduleRef as unknown as ModuleRef,
+    {} as ConfigService,
+  );
+
+  beforeAll(() => jest.spyOn(Logger.prototype, 'warn').mockReturnValue());
+  beforeEach(() => jest.resetAllMocks());
+
+  it('publishes the claimed messages with their outbox id and marks them as dispatched', async () => {
+    const first = message();
+    const second = message();
+    outboxRepository.claimNext
+      .mockResolvedValueOnce(first)
+      .mockResolvedValueOnce(second)
+      .mockResolvedValueOnce(null);
+    moduleRef.get.mockReturnValue(client);
+    client.emit.mockReturnValue(of(undefined));
+
+    await relay.dispatchPending();
+
+    expect(moduleRef.get).toHaveBeenCalledWith('billing', { strict: false });
+    const [pattern, record] = client.emit.mock.calls[0];
+    expect(pattern).toBe('order_created');
+    expect(record).toBeInstanceOf(RmqRecord);
+    expect(record.data).toEqual(first.payload);
+    expect(record.options.messageId).toBe(first._id.toHexString());
+    expect(outboxRepository.findOneAndUpdate).toHaveBeenCalledWith(
+      { _id: second._id },
+      {
+        $set: expect.objectContaining({
+          status: OutboxStatus.DISPATCHED,
+          lockedUntil: null,
+        }),
+      },
+    );
+    expect(outboxRepository.claimNext).toHaveBeenCalledTimes(3);
+  });
+
+  it('releases the lock and stops the run when a publish fails', async () => {
+    const failing = message();
+    outboxRepository.claimNext.mockResolvedValueOnce(failing);
+    moduleRef.get.mockReturnValue(client);
+    client.emit.mockReturnValue(
+      throwError(() => new Error('Connection closed')),
+    );
+
+    await relay.dispatchPending();
+
+    expect(outboxRepository.findOneAndUpdate).toHaveBeenCalledWith(
+      { _id: failing._id },
+      { $set: { lockedUntil: null, lastError: 'Connection closed' } },
+    );
+    expect(outboxRepository.claimNext).toHaveBeenCalledTimes(1);
+  });
+
+  it('does not start a run while another one is in progress', async () => {
+    let release: (value: null) => void;
+    outboxRepository.claimNext.mockReturnValueOnce(
+      new Promise((resolve) => (release = resolve)),
+    );
+
+    const run = relay.dispatchPending();
+    await relay.dispatchPending();
+    release(null);
+    await run;
+
+    expect(outboxRepository.claimNext).toHaveBeenCalledTimes(1);
+  });
+});
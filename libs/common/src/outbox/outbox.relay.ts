@@ -0,0 +1,152 @@
+import {
+  Injectable,
+  Logger,
+  OnApplicationBootstrap,
+  OnApplicationShutdown,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { ModuleRef } from '@nestjs/core';
+import { ClientProxy, RmqRecordBuilder } from '@nestjs/microservices';
+import { lastValueFrom } from 'rxjs';
+import { OutboxMessage, OutboxStatus } from './outbox-message.schema';
+import { OutboxRepository } from './outbox.repository';
+
+/**
+ * Default interval (in milliseconds) between two polls of the outbox.
+ */
+const DEFAULT_POLL_INTERVAL = 1000;
+
+/**
+ * Default duration (in milliseconds) during which a claimed message is held by a relay instance.
+ */
+const DEFAULT_LOCK_TIMEOUT = 30000;
+
+/**
+ * Injectable worker publishing the pending messages of the transactional outbox.
+ * It polls the `outbox` collection every `OUTBOX_POLL_INTERVAL` milliseconds, publishes each pending message through
+ * the `ClientProxy` registered under its `service` token, and marks it as dispatched once the broker accepted it.
+ * A message is only marked after a successful publish, so a crash or a restart leads to a new publish (at-least-once delivery).
+ * Each message is published with its outbox id as `messageId`, so consumers can discard such duplicates.
+ * Messages are claimed with an expiring lock, so several instances of an application can run the relay side by side.
+ */
+@Injectable()
+export class OutboxRelay
+  implements OnApplicationBootstrap, OnApplicationShutdown
+{
+  /**
+   * Logger instance for OutboxRelay, used for logging failed dispatches.
+   * @private
+   * @readonly
+   */
+  private readonly logger = new Logger(OutboxRelay.name, { timestamp: true });
+
+  /**
+   * Handle of the polling interval, cleared on shutdown.
+   * @private
+   */
+  private timer: NodeJS.Timer;
+
+  /**
+   * Whether a dispatch run is in progress, so that slow runs do not overlap.
+   * @private
+   */
+  private running = false;
+
+  /**
+   * Constructor for `OutboxRelay`.
+   * @param {OutboxRepository} outboxRepository - Injected `OutboxRepository` instance, used to claim and update messages.
+   * @param {ModuleRef} moduleRef - Injected `ModuleRef`, used to resolve the `ClientProxy` of each message's service.
+   * @param {ConfigService} configService - Injected `ConfigService` instance, used to read the polling interval.
+   */
+  constructor(
+    private readonly outboxRepository: OutboxRepository,
+    private readonly moduleRef: ModuleRef,
+    private readonly configService: ConfigService,
+  ) {}
+
+  /**
+   * Starts polling the outbox once the application has bootstrapped.
+   * Messages left pending by a previous run of the application are dispatched by the first poll.
+   */
+  onApplicationBootstrap() {
+    const interval =
+      Number(this.configService.get('OUTBOX_POLL_INTERVAL')) ||
+      DEFAULT_POLL_INTERVAL;
+    this.timer = setInterval(() => this.dispatchPending(), interval);
+  }
+
+  /**
+   * Stops polling the outbox when the application shuts down.
+   */
+  onApplicationShutdown() {
+    clearInterval(this.timer);
+  }
+
+  /**
+   * Dispatches pending messages one by one until none is left, or until a dispatch fails.
+   * @async
+   * @returns {Promise<void>} A Promise that resolves once the run is over. Errors are logged, never thrown.
+   */
+  async dispatchPending(): Promise<void> {
+    if (this.running) {
+      return;
+    }
+    this.running = true;
+    try {
+      let message: OutboxMessage;
+      while (
+        (message = await this.outboxRepository.claimNext(DEFAULT_LOCK_TIMEOUT))
+      ) {
+        if (!(await this.dispatch(message))) {
+          // Stop the run, the broker is likely unavailable. The message is retried on the next poll.
+          break;
+        }
+      }
+    } catch (err) {
+      this.logger.error('Failed to read the outbox', err?.stack);
+    } finally {
+      this.running = false;
+    }
+  }
+
+  /**
+   * Publishes a claimed message and records the outcome.
+   * On success the message is marked as dispatched; on failure its lock is released and the error recorded.
+   * @private
+   * @async
+   * @param {OutboxMessage} message The claimed message.
+   * @returns {Promise<boolean>} A Promise that resolves to `true` if the message was published.
+   */
+  private async dispatch(message: OutboxMessage): Promise<boolean> {
+    try {
+      const client = this.moduleRef.get<ClientProxy>(message.service, {
+        strict: false,
+      });
+      // Publish with the outbox id as message id, so consumers recognize the message if it is published again
+      const record = new RmqRecordBuilder(message.payload)
+        .setOptions({ messageId: message._id.toHexString() })
+        .build();
+      await lastValueFrom(client.emit(message.pattern, record));
+    } catch (err) {
+      this.logger.warn(
+        `Failed to dispatch outbox message ${message._id} (attempt ${message.attempts}): ${err?.message}`,
+      );
+      await this.outboxRepository.findOneAndUpdate(
+        { _id: message._id },
+        { $set: { lockedUntil: null, lastError: err?.message } },
+      );
+      return false;
+    }
+    await this.outboxRepository.findOneAndUpdate(
+      { _id: message._id },
+      {
+        $set: {
+          status: OutboxStatus.DISPATCHED,
+          dispatchedAt: new Date(),
+          lockedUntil: null,
+        },
+      },
+    );
+    return true;
+  }
+}
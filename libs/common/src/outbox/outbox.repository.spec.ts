@@ -0,0 +1,29 @@
+import { Connection, Model } from 'mongoose';
+import { OutboxMessage, OutboxStatus } from './outbox-message.schema';
+import { OutboxRepository } from './outbox.repository';
+
+describe('OutboxRepository', () => {
+  const model = { findOneAndUpdate: jest.fn() };
+  const repository = new OutboxRepository(
+    model as unknown as Model<OutboxMessage>,
+    {} as Connection,
+  );
+
+  beforeEach(() => jest.useFakeTimers().setSystemTime(new Date(1_000_000)));
+  afterEach(() => jest.useRealTimers());
+
+  it('claims the oldest pending message which is unlocked or whose lock expired', async () => {
+    await repository.claimNext(30000);
+
+    const [filter, update, options] = model.findOneAndUpdate.mock.calls[0];
+    expect(filter).toEqual({
+      status: OutboxStatus.PENDING,
+      $or: [{ lockedUntil: null }, { lockedUntil: { $lte: new Date() } }],
+    });
+    expect(update).toEqual({
+      $set: { lockedUntil: new Date(1_000_000 + 30000) },
+      $inc: { attempts: 1 },
+    });
+    expect(options).toMatchObject({ new: true, sort: { _id: 1 } });
+  });
+});
@@ -0,0 +1,56 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectConnection, InjectModel } from '@nestjs/mongoose';
+import { Connection, Model } from 'mongoose';
+import { AbstractRepository } from '../database/abstract.repository';
+import { OutboxMessage, OutboxStatus } from './outbox-message.schema';
+
+/**
+ * Injectable repository for managing `OutboxMessage` entities in MongoDB.
+ * Extends the `AbstractRepository` with the locking queries used by the `OutboxRelay`.
+ */
+@Injectable()
+export class OutboxRepository extends AbstractRepository<OutboxMessage> {
+  /**
+   * Logger instance for OutboxRepository, used for logging repository operations and potential issues.
+   * @protected
+   * @readonly
+   */
+  protected readonly logger = new Logger(OutboxRepository.name, {
+    timestamp: true,
+  });
+
+  /**
+   * Constructor for `OutboxRepository`.
+   * @param {Model<OutboxMessage>} outboxModel - Injected Mongoose model for the `OutboxMessage` entity.
+   * @param {Connection} connection - Injected Mongoose connection, used for transaction management.
+   */
+  constructor(
+    @InjectModel(OutboxMessage.name) outboxModel: Model<OutboxMessage>,
+    @InjectConnection() connection: Connection,
+  ) {
+    super(outboxModel, connection);
+  }
+
+  /**
+   * Atomically claims the oldest pending message that is not held by another relay instance.
+   * The message is locked for `lockTimeout` milliseconds and its attempt counter is incremented.
+   * If the relay dies while holding it, the lock expires and the message is claimed again (at-least-once delivery).
+   * @async
+   * @param {number} lockTimeout Duration of the lock, in milliseconds.
+   * @returns {Promise<OutboxMessage | null>} A Promise that resolves to the claimed message, or `null` if none is pending.
+   */
+  async claimNext(lockTimeout: number): Promise<OutboxMessage | null> {
+    const now = new Date();
+    return this.model.findOneAndUpdate(
+      {
+        status: OutboxStatus.PENDING,
+        $or: [{ lockedUntil: null }, { lockedUntil: { $lte: now } }],
+      },
+      {
+        $set: { lockedUntil: new Date(now.getTime() + lockTimeout) },
+        $inc: { attempts: 1 },
+      },
+      { lean: true, new: true, sort: { _id: 1 } },
+    );
+  }
+}
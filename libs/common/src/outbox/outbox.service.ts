@@ -0,0 +1,51 @@
+import { Injectable } from '@nestjs/common';
+import { ClientSession } from 'mongoose';
+import {
+  CatalogPattern,
+  PayloadOf,
+  toVersionedPayload,
+} from '../events/event-catalog';
+import { OutboxMessage, OutboxStatus } from './outbox-message.schema';
+import { OutboxRepository } from './outbox.repository';
+
+/**
+ * Injectable service for writing events to the transactional outbox.
+ * Events are stored in the `outbox` collection within the caller's transaction (or its `UnitOfWork`), and published by the `OutboxRelay` once committed.
+ */
+@Injectable()
+export class OutboxService {
+  /**
+   * Constructor for `OutboxService`.
+   * @param {OutboxRepository} outboxRepository - Injected `OutboxRepository` instance.
+   */
+  constructor(private readonly outboxRepository: OutboxRepository) {}
+
+  /**
+   * Stores an event in the outbox, to be published through the `ClientProxy` registered as `service`.
+   * The payload must match the contract declared for `pattern` in the `EventCatalog`, and is stamped with its schema version.
+   * @async
+   * @param {string} service Injection token of the `ClientProxy` to publish the event through (e.g. `BILLING_SERVICE`).
+   * @param {TPattern} pattern Event pattern (e.g. `ORDER_CREATED`).
+   * @param {PayloadOf<TPattern>} payload Event payload.
+   * @param {ClientSession} [session] The session of the transaction the event belongs to. The event is only published if it commits.
+   *        Defaults to the transaction of the running `UnitOfWork`.
+   * @returns {Promise<OutboxMessage>} A Promise that resolves to the stored outbox message.
+   */
+  async enqueue<TPattern extends CatalogPattern>(
+    service: string,
+    pattern: TPattern,
+    payload: PayloadOf<TPattern>,
+    session?: ClientSession,
+  ): Promise<OutboxMessage> {
+    return this.outboxRepository.create(
+      {
+        service,
+        pattern,
+        payload: toVersionedPayload(pattern, payload),
+        status: OutboxStatus.PENDING,
+        attempts: 0,
+      },
+      { session },
+    );
+  }
+}
@@ -0,0 +1,53 @@
+import { Injectable } from '@nestjs/common';
+import {
+  getRateLimitWindow,
+  RateLimitHit,
+  RateLimitStore,
+} from './rate-limit.store';
+
+/**
+ * Rate limiting store keeping the counters in the memory of the process.
+ * It is fast and needs no database, but every instance of a service counts on its own and the counters are lost on restart.
+ */
+@Injectable()
+export class MemoryRateLimitStore extends RateLimitStore {
+  /**
+   * Counters of the current windows, by key.
+   * @private
+   * @readonly
+   */
+  private readonly counters = new Map<string, RateLimitHit>();
+
+  /**
+   * Counts a hit on a key, dropping the expired counters on the way so that the map does not grow unbounded.
+   * @async
+   * @param {string} key The key being limited.
+   * @param {number} window Duration of the windows, in seconds.
+   * @returns {Promise<RateLimitHit>} A Promise that resolves to the state of the counter of the current window.
+   */
+  async hit(key: string, window: number): Promise<RateLimitHit> {
+    const now = new Date();
+    this.counters.forEach((counter, counterKey) => {
+      if (counter.resetAt <= now) {
+        this.counters.delete(counterKey);
+      }
+    });
+    const counter = this.counters.get(key) ?? {
+      count: 0,
+      resetAt: getRateLimitWindow(window).end,
+    };
+    counter.count++;
+    this.counters.set(key, counter);
+    return { ...counter };
+  }
+
+  /**
+   * Clears the counter of a key.
+   * @async
+   * @param {string} key The key being limited.
+   * @returns {Promise<void>}
+   */
+  async reset(key: string): Promise<void> {
+    this.counters.delete(key);
+  }
+}
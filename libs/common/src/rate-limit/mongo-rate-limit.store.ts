@@ -0,0 +1,51 @@
+import { Injectable } from '@nestjs/common';
+import { RateLimitCountersRepository } from './rate-limit-counters.repository';
+import {
+  getRateLimitWindow,
+  RateLimitHit,
+  RateLimitStore,
+} from './rate-limit.store';
+
+/**
+ * Rate limiting store keeping the counters in the `rate_limits` MongoDB collection.
+ * The counters are shared by every instance of a service and survive restarts, at the cost of a write per hit.
+ */
+@Injectable()
+export class MongoRateLimitStore extends RateLimitStore {
+  /**
+   * Constructor for `MongoRateLimitStore`.
+   * @param {RateLimitCountersRepository} rateLimitCountersRepository - Injected repository storing the counters.
+   */
+  constructor(
+    private readonly rateLimitCountersRepository: RateLimitCountersRepository,
+  ) {
+    super();
+  }
+
+  /**
+   * Counts a hit on a key.
+   * @async
+   * @param {string} key The key being limited.
+   * @param {number} window Duration of the windows, in seconds.
+   * @returns {Promise<RateLimitHit>} A Promise that resolves to the state of the counter of the current window.
+   */
+  async hit(key: string, window: number): Promise<RateLimitHit> {
+    const { start, end } = getRateLimitWindow(window);
+    const count = await this.rateLimitCountersRepository.increment(
+      key,
+      start,
+      end,
+    );
+    return { count, resetAt: end };
+  }
+
+  /**
+   * Clears the counters of a key.
+   * @async
+   * @param {string} key The key being limited.
+   * @returns {Promise<void>}
+   */
+  async reset(key: string): Promise<void> {
+    await this.rateLimitCountersRepository.clear(key);
+  }
+}
@@ -0,0 +1,48 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { AbstractDocument } from '../database/abstract.schema';
+
+/**
+ * Mongoose schema definition for the `RateLimitCounter` document.
+ * It counts the hits on a rate limited key during one fixed window.
+ * Records are removed by MongoDB once `expireAt` is reached, through a TTL index.
+ * @Schema({ versionKey: false, collection: 'rate_limits' }) Decorator that stores the counters in the `rate_limits` collection and disables the version key (__v).
+ */
+@Schema({ versionKey: false, collection: 'rate_limits' })
+export class RateLimitCounter extends AbstractDocument {
+  /**
+   * The key being limited.
+   * @type {string}
+   */
+  @Prop({ required: true })
+  key: string;
+
+  /**
+   * Start of the window counted by the record.
+   * @type {Date}
+   */
+  @Prop({ required: true })
+  windowStart: Date;
+
+  /**
+   * Number of hits counted in the window.
+   * @type {number}
+   */
+  @Prop({ required: true })
+  count: number;
+
+  /**
+   * End of the window, at which MongoDB removes the record.
+   * @type {Date}
+   */
+  @Prop({ required: true })
+  expireAt: Date;
+}
+
+/**
+ * Mongoose `SchemaFactory` for the `RateLimitCounter` class.
+ * The unique index makes concurrent hits on a new window race on a single record, and the TTL index purges the past windows.
+ */
+export const RateLimitCounterSchema =
+  SchemaFactory.createForClass(RateLimitCounter);
+RateLimitCounterSchema.index({ key: 1, windowStart: 1 }, { unique: true });
+RateLimitCounterSchema.index({ expireAt: 1 }, { expireAfterSeconds: 0 });
@@ -0,0 +1,77 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectConnection, InjectModel } from '@nestjs/mongoose';
+import { Connection, Model } from 'mongoose';
+import { AbstractRepository } from '../database/abstract.repository';
+import { RateLimitCounter } from './rate-limit-counter.schema';
+
+/**
+ * Injectable repository for managing `RateLimitCounter` entities in MongoDB.
+ * Extends the `AbstractRepository` with the atomic increment used by the `MongoRateLimitStore`.
+ */
+@Injectable()
+export class RateLimitCountersRepository extends AbstractRepository<RateLimitCounter> {
+  /**
+   * Logger instance for RateLimitCountersRepository.
+   * @protected
+   * @readonly
+   */
+  protected readonly logger = new Logger(RateLimitCountersRepository.name, {
+    timestamp: true,
+  });
+
+  /**
+   * Constructor for `RateLimitCountersRepository`.
+   * @param {Model<RateLimitCounter>} rateLimitCounterModel - Injected Mongoose model for the `RateLimitCounter` entity.
+   * @param {Connection} connection - Injected Mongoose connection.
+   */
+  constructor(
+    @InjectModel(RateLimitCounter.name)
+    rateLimitCounterModel: Model<RateLimitCounter>,
+    @InjectConnection() connection: Connection,
+  ) {
+    super(rateLimitCounterModel, connection);
+  }
+
+  /**
+   * Increments the counter of a key for a window, creating it on the first hit.
+   * @async
+   * @param {string} key The key being limited.
+   * @param {Date} windowStart Start of the window.
+   * @param {Date} windowEnd End of the window, at which the counter is removed.
+   * @returns {Promise<number>} A Promise that resolves to the number of hits in the window, including this one.
+   */
+  async increment(
+    key: string,
+    windowStart: Date,
+    windowEnd: Date,
+  ): Promise<number> {
+    const update = () =>
+      this.model.findOneAndUpdate(
+        { key, windowStart },
+        {
+          $inc: { count: 1 },
+          $setOnInsert: { expireAt: windowEnd },
+        },
+        { upsert: true, new: true, lean: true },
+      );
+    try {
+      return (await update()).count;
+    } catch (err) {
+      if (err?.code !== 11000) {
+        throw err;
+      }
+      // Another hit created the counter concurrently: it now exists, so the increment matches it.
+      return (await update()).count;
+    }
+  }
+
+  /**
+   * Removes the counters of a key.
+   * @async
+   * @param {string} key The key being limited.
+   * @returns {Promise<void>}
+   */
+  async clear(key: string): Promise<void> {
+    await this.model.deleteMany({ key });
+  }
+}
@@ -0,0 +1,43 @@
+import { SetMetadata } from '@nestjs/common';
+
+/**
+ * Metadata key of the rate limit of a route, set by {@link RateLimit}.
+ */
+export const RATE_LIMIT_KEY = 'rate_limit';
+
+/**
+ * Rate limit of a route.
+ */
+export interface RateLimitOptions {
+  /**
+   * Maximum number of requests accepted per window.
+   */
+  limit: number;
+
+  /**
+   * Duration of the windows, in seconds.
+   */
+  window: number;
+
+  /**
+   * What the requests are counted by: the client IP (default), or the authenticated user,
+   * which requires the guard authenticating the user to run before the `RateLimitGuard`.
+   */
+  by?: 'ip' | 'user';
+}
+
+/**
+ * Decorator limiting the number of requests a client can make to a route (or to every route of a controller).
+ * It is enforced by the `RateLimitGuard`, the module of the controller importing the `RateLimitModule`.
+ * @param {RateLimitOptions} options The rate limit of the route.
+ * @returns {CustomDecorator<string>} A decorator setting the {@link RATE_LIMIT_KEY} metadata.
+ * @example
+ * ```ts
+ * @Post()
+ * @UseGuards(JwtAuthGuard, RateLimitGuard)
+ * @RateLimit({ limit: 30, window: 60, by: 'user' })
+ * async createOrder() { ... }
+ * ```
+ */
+export const RateLimit = (options: RateLimitOptions) =>
+  SetMetadata(RATE_LIMIT_KEY, options);
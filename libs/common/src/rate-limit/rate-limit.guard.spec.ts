@@ -0,0 +1,82 @@
+import { ExecutionContext, HttpException, HttpStatus } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { MemoryRateLimitStore } from './memory-rate-limit.store';
+import { RateLimitOptions } from './rate-limit.decorator';
+import { RateLimitGuard } from './rate-limit.guard';
+
+describe('RateLimitGuard', () => {
+  class OrdersController {
+    createOrder() {
+      return undefined;
+    }
+  }
+
+  const createContext = (request: any, headers: Record<string, any>) =>
+    ({
+      getType: () => 'http',
+      getClass: () => OrdersController,
+      getHandler: () => OrdersController.prototype.createOrder,
+      switchToHttp: () => ({
+        getRequest: () => request,
+        getResponse: () => ({
+          setHeader: (name: string, value: any) => (headers[name] = value),
+        }),
+      }),
+    } as unknown as ExecutionContext);
+
+  const createGuard = (options?: RateLimitOptions) =>
+    new RateLimitGuard(
+      { getAllAndOverride: () => options } as unknown as Reflector,
+      new MemoryRateLimitStore(),
+    );
+
+  it('lets the requests within the limit through and reports the remaining ones', async () => {
+    const guard = createGuard({ limit: 2, window: 60 });
+    const headers = {};
+
+    await expect(
+      guard.canActivate(createContext({ ip: '10.0.0.1' }, headers)),
+    ).resolves.toBe(true);
+    expect(headers).toMatchObject({
+      'X-RateLimit-Limit': 2,
+      'X-RateLimit-Remaining': 1,
+    });
+  });
+
+  it('rejects the requests beyond the limit with 429 and Retry-After', async () => {
+    const guard = createGuard({ limit: 1, window: 60 });
+    const headers: Record<string, any> = {};
+    const context = createContext({ ip: '10.0.0.1' }, headers);
+
+    await guard.canActivate(context);
+    const rejection = guard.canActivate(context);
+
+    await expect(rejection).rejects.toBeInstanceOf(HttpException);
+    await rejection.catch((err: HttpException) =>
+      expect(err.getStatus()).toBe(HttpStatus.TOO_MANY_REQUESTS),
+    );
+    expect(headers['Retry-After']).toBeGreaterThanOrEqual(0);
+    expect(headers['X-RateLimit-Remaining']).toBe(0);
+  });
+
+  it('counts the clients separately', async () => {
+    const guard = createGuard({ limit: 1, window: 60, by: 'user' });
+
+    await guard.canActivate(
+      createContext({ ip: '10.0.0.1', user: { _id: 'a' } }, {}),
+    );
+    await expect(
+      guard.canActivate(
+        createContext({ ip: '10.0.0.1', user: { _id: 'b' } }, {}),
+      ),
+    ).resolves.toBe(true);
+  });
+
+  it('does not limit the routes without @RateLimit()', async () => {
+    const guard = createGuard();
+
+    await expect(
+      guard.canActivate(createContext({ ip: '10.0.0.1' }, {})),
+    ).resolves.toBe(true);
+  });
+});
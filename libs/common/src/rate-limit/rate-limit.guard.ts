@@ -0,0 +1,87 @@
+import {
+  CanActivate,
+  ExecutionContext,
+  HttpException,
+  HttpStatus,
+  Injectable,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { RATE_LIMIT_KEY, RateLimitOptions } from './rate-limit.decorator';
+import { RateLimitStore } from './rate-limit.store';
+
+/**
+ * Guard rejecting the HTTP requests exceeding the `@RateLimit()` of their route with `429 Too Many Requests`.
+ * Requests are counted per route and per client, in the `RateLimitStore` provided by the `RateLimitModule`.
+ * Every response carries the `X-RateLimit-Limit`, `X-RateLimit-Remaining` and `X-RateLimit-Reset` headers,
+ * and rejected ones the `Retry-After` header. Routes without `@RateLimit()` and non-HTTP contexts are not limited.
+ * Behind a reverse proxy, the Express `trust proxy` setting must be enabled for the client IP to be the real one.
+ */
+@Injectable()
+export class RateLimitGuard implements CanActivate {
+  /**
+   * Constructor for `RateLimitGuard`.
+   * @param {Reflector} reflector - Injected `Reflector`, used to read the `@RateLimit()` of the route.
+   * @param {RateLimitStore} rateLimitStore - Injected store of the counters.
+   */
+  constructor(
+    private readonly reflector: Reflector,
+    private readonly rateLimitStore: RateLimitStore,
+  ) {}
+
+  /**
+   * Counts the request and rejects it if its client exceeded the limit of the route.
+   * @async
+   * @param {ExecutionContext} context The execution context of the request.
+   * @returns {Promise<boolean>} A Promise that resolves to `true` if the request is within the limit.
+   * @throws {HttpException} With status `429 Too Many Requests` if the limit is exceeded.
+   */
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const options = this.reflector.getAllAndOverride<RateLimitOptions>(
+      RATE_LIMIT_KEY,
+      [context.getHandler(), context.getClass()],
+    );
+    if (!options || context.getType() !== 'http') {
+      return true;
+    }
+    const request = context.switchToHttp().getRequest();
+    const response = context.switchToHttp().getResponse();
+    const route = `${context.getClass().name}.${context.getHandler().name}`;
+    const { count, resetAt } = await this.rateLimitStore.hit(
+      `${route}:${this.getClient(request, options)}`,
+      options.window,
+    );
+    const resetIn = Math.max(
+      Math.ceil((resetAt.getTime() - Date.now()) / 1000),
+      0,
+    );
+
+    response.setHeader('X-RateLimit-Limit', options.limit);
+    response.setHeader(
+      'X-RateLimit-Remaining',
+      Math.max(options.limit - count, 0),
+    );
+    response.setHeader('X-RateLimit-Reset', resetIn);
+    if (count > options.limit) {
+      response.setHeader('Retry-After', resetIn);
+      throw new HttpException(
+        'Too many requests, retry later.',
+        HttpStatus.TOO_MANY_REQUESTS,
+      );
+    }
+    return true;
+  }
+
+  /**
+   * Identifies the client the request is counted for.
+   * @private
+   * @param {any} request The Express request.
+   * @param {RateLimitOptions} options The rate limit of the route.
+   * @returns {string} `user:<id>` for a request counted by user and authenticated, `ip:<address>` otherwise.
+   */
+  private getClient(request: any, { by = 'ip' }: RateLimitOptions): string {
+    if (by === 'user' && request.user?._id) {
+      return `user:${request.user._id}`;
+    }
+    return `ip:${request.ip}`;
+  }
+}
@@ -0,0 +1,62 @@
+import { Module, Type } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { MongooseModule } from '@nestjs/mongoose';
+import { MemoryRateLimitStore } from './memory-rate-limit.store';
+import { MongoRateLimitStore } from './mongo-rate-limit.store';
+import {
+  RateLimitCounter,
+  RateLimitCounterSchema,
+} from './rate-limit-counter.schema';
+import { RateLimitCountersRepository } from './rate-limit-counters.repository';
+import { RateLimitGuard } from './rate-limit.guard';
+import { RateLimitStore } from './rate-limit.store';
+
+/**
+ * Rate limiting stores, by value of the `RATE_LIMIT_STORE` setting.
+ */
+export const RATE_LIMIT_STORES: Record<string, Type<RateLimitStore>> = {
+  memory: MemoryRateLimitStore,
+  mongo: MongoRateLimitStore,
+};
+
+/**
+ * Module providing the `RateLimitGuard` and the `RateLimitStore` selected by the `RATE_LIMIT_STORE` setting (`memory` by default).
+ * The importing module must import the `DatabaseModule`, and its application validate `RATE_LIMIT_STORE`.
+ * @exports {RateLimitGuard} Exports the `RateLimitGuard` class, applied with `@UseGuards()` next to `@RateLimit()`.
+ * @exports {RateLimitStore} Exports the `RateLimitStore`, injected by the `RateLimitGuard`.
+ */
+@Module({
+  imports: [
+    MongooseModule.forFeature([
+      { name: RateLimitCounter.name, schema: RateLimitCounterSchema },
+    ]),
+  ],
+  providers: [
+    RateLimitGuard,
+    RateLimitCountersRepository,
+    ...Object.values(RATE_LIMIT_STORES),
+    {
+      provide: RateLimitStore,
+      /**
+       * Factory function resolving the store configured by `RATE_LIMIT_STORE`.
+       * @param {ConfigService} configService The `ConfigService` instance injected for configuration access.
+       * @param {RateLimitStore[]} stores The instances of the `RATE_LIMIT_STORES`, in the same order.
+       * @returns {RateLimitStore} The configured store.
+       */
+      useFactory: (
+        configService: ConfigService,
+        ...stores: RateLimitStore[]
+      ) => {
+        const store = configService.get<string>('RATE_LIMIT_STORE');
+        const index = Object.keys(RATE_LIMIT_STORES).indexOf(store ?? 'memory');
+        if (index < 0) {
+          throw new Error(`Unknown rate limit store "${store}".`);
+        }
+        return stores[index];
+      },
+      inject: [ConfigService, ...Object.values(RATE_LIMIT_STORES)],
+    },
+  ],
+  exports: [RateLimitGuard, RateLimitStore],
+})
+export class RateLimitModule {}
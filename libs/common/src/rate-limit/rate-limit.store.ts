@@ -0,0 +1,51 @@
+/**
+ * State of a rate limiting counter after a hit.
+ */
+export interface RateLimitHit {
+  /**
+   * Number of hits counted in the current window, including this one.
+   */
+  count: number;
+
+  /**
+   * Date at which the current window ends and the counter starts over.
+   */
+  resetAt: Date;
+}
+
+/**
+ * Storage of the counters of the `RateLimitGuard`, injected with `RateLimitStore` as token.
+ * The implementation is picked by the `RateLimitModule` from the `RATE_LIMIT_STORE` setting.
+ * Counters use fixed windows: every key is counted from zero again at the start of each window.
+ */
+export abstract class RateLimitStore {
+  /**
+   * Counts a hit on a key.
+   * @async
+   * @param {string} key The key being limited (e.g. the client IP and the route).
+   * @param {number} window Duration of the windows, in seconds.
+   * @returns {Promise<RateLimitHit>} A Promise that resolves to the state of the counter of the current window.
+   */
+  abstract hit(key: string, window: number): Promise<RateLimitHit>;
+
+  /**
+   * Clears the counters of a key.
+   * @async
+   * @param {string} key The key being limited.
+   * @returns {Promise<void>}
+   */
+  abstract reset(key: string): Promise<void>;
+}
+
+/**
+ * Returns the bounds of the fixed window containing the current date.
+ * @param {number} window Duration of the windows, in seconds.
+ * @returns {{ start: Date; end: Date }} The start (inclusive) and end (exclusive) of the current window.
+ */
+export const getRateLimitWindow = (
+  window: number,
+): { start: Date; end: Date } => {
+  const duration = window * 1000;
+  const start = Math.floor(Date.now() / duration) * duration;
+  return { start: new Date(start), end: new Date(start + duration) };
+};
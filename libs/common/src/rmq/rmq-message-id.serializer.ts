@@ -0,0 +1,32 @@
+import { randomUUID } from 'crypto';
+import {
+  OutgoingEvent,
+  OutgoingRequest,
+  ProducerSerializer,
+  RmqRecord,
+} from '@nestjs/microservices';
+
+/**
+ * RabbitMQ producer serializer stamping every outgoing message with a unique `messageId` property.
+ * It behaves like the default NestJS RMQ serializer (unwrapping `RmqRecord` data and options),
+ * and keeps the `messageId` of records that already carry one, such as outbox messages re-published after a crash.
+ * Consumers rely on the `messageId` to detect redeliveries (see `@Idempotent()`).
+ */
+export class RmqMessageIdSerializer implements ProducerSerializer {
+  /**
+   * Serializes an outgoing packet.
+   * @param {OutgoingEvent | OutgoingRequest} packet The packet emitted or sent by a `ClientProxy`.
+   * @returns The packet with its message properties in `options`, as expected by `ClientRMQ`.
+   */
+  serialize(packet: OutgoingEvent | OutgoingRequest) {
+    const { data, options } =
+      packet.data instanceof RmqRecord
+        ? packet.data
+        : { data: packet.data, options: undefined };
+    return {
+      ...packet,
+      data,
+      options: { ...options, messageId: options?.messageId ?? randomUUID() },
+    };
+  }
+}
@@ -0,0 +1,46 @@
+import {
+  ArgumentsHost,
+  ForbiddenException,
+  Logger,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { RmqContext } from '@nestjs/microservices';
+import { InvalidEventException } from '../events/invalid-event.exception';
+import { RmqRetryFilter } from './rmq-retry.filter';
+import { RmqService } from './rmq.service';
+
+describe('RmqRetryFilter', () => {
+  const context = {} as RmqContext;
+  const host = {
+    getType: () => 'rpc',
+    switchToRpc: () => ({ getContext: () => context }),
+  } as unknown as ArgumentsHost;
+  const rmqService = { retry: jest.fn(), deadLetter: jest.fn() };
+  const filter = new RmqRetryFilter(rmqService as unknown as RmqService);
+
+  // The unknown exceptions are logged by the BaseRpcExceptionFilter
+  beforeAll(() => jest.spyOn(Logger.prototype, 'error').mockReturnValue());
+  beforeEach(() => jest.clearAllMocks());
+
+  it('retries a message which failed to be processed', () => {
+    const error = new Error('Gateway timeout');
+
+    filter.catch(error, host);
+
+    expect(rmqService.retry).toHaveBeenCalledWith(context, error);
+    expect(rmqService.deadLetter).not.toHaveBeenCalled();
+  });
+
+  it.each([
+    new InvalidEventException('order_created', [
+      'orderId must be a mongodb id',
+    ]),
+    new UnauthorizedException('jwt expired'),
+    new ForbiddenException(),
+  ])('dead-letters a message which can never succeed (%s)', (exception) => {
+    filter.catch(exception, host);
+
+    expect(rmqService.deadLetter).toHaveBeenCalledWith(context, exception);
+    expect(rmqService.retry).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,70 @@
+import {
+  ArgumentsHost,
+  Catch,
+  ForbiddenException,
+  Injectable,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { BaseRpcExceptionFilter, RmqContext } from '@nestjs/microservices';
+import { Observable } from 'rxjs';
+import { InvalidEventException } from '../events/invalid-event.exception';
+import { RmqService } from './rmq.service';
+
+/**
+ * Exception filter for RabbitMQ event handlers that schedules failed messages for a delayed retry.
+ * Any exception thrown by a guard, pipe or the handler itself is caught, and the message is handed to `RmqService.retry`,
+ * which re-publishes it with a backoff or dead-letters it after the maximum number of attempts.
+ * Messages which can never succeed are dead-lettered right away instead: payloads rejected with an `InvalidEventException`,
+ * and credentials rejected by a guard (`UnauthorizedException`, `ForbiddenException`), which do not become valid on a retry.
+ * The exception is then processed as usual by `BaseRpcExceptionFilter`.
+ * It is meant for event handlers consuming a queue with acknowledgements enabled.
+ * @example
+ * ```ts
+ * @EventPattern(ORDER_CREATED)
+ * @UseFilters(RmqRetryFilter)
+ * async handleOrderCreated(@Payload() data: any, @Ctx() context: RmqContext) { ... }
+ * ```
+ */
+@Catch()
+@Injectable()
+export class RmqRetryFilter extends BaseRpcExceptionFilter {
+  /**
+   * Constructor for `RmqRetryFilter`.
+   * @param {RmqService} rmqService - Injected `RmqService` instance, used to retry the failed message.
+   */
+  constructor(private readonly rmqService: RmqService) {
+    super();
+  }
+
+  /**
+   * Retries or dead-letters the message being handled, then delegates to `BaseRpcExceptionFilter`.
+   * @param {any} exception The exception thrown while handling the message.
+   * @param {ArgumentsHost} host The arguments host, giving access to the `RmqContext`.
+   * @returns {Observable<any>} An Observable erroring with the serialized exception.
+   */
+  catch(exception: any, host: ArgumentsHost): Observable<any> {
+    if (host.getType() === 'rpc') {
+      const context = host.switchToRpc().getContext<RmqContext>();
+      if (!this.isRetryable(exception)) {
+        this.rmqService.deadLetter(context, exception);
+      } else {
+        this.rmqService.retry(context, exception);
+      }
+    }
+    return super.catch(exception, host);
+  }
+
+  /**
+   * Tells whether retrying a message could make it succeed.
+   * @private
+   * @param {any} exception The exception thrown while handling the message.
+   * @returns {boolean} `false` for invalid payloads and rejected credentials, `true` otherwise.
+   */
+  private isRetryable(exception: any): boolean {
+    return !(
+      exception instanceof InvalidEventException ||
+      exception instanceof UnauthorizedException ||
+      exception instanceof ForbiddenException
+    );
+  }
+}
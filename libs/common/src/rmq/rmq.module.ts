@@ -1,7 +1,9 @@
 import { DynamicModule, Module } from '@nestjs/common';
 import { ClientsModule, Transport } from '@nestjs/microservices';
 import { ConfigService } from '@nestjs/config';
+import { RmqMessageIdSerializer } from './rmq-message-id.serializer';
 import { RmqService } from './rmq.service';
+import { RMQ_QUEUE_OPTIONS } from './rmq.topology';
 
 /**
  * Interface defining the options for registering the `RmqModule`.
@@ -48,13 +50,20 @@ export class RmqModule {
              * @param {ConfigService} config The `ConfigService` instance injected for configuration access.
              * @returns An object containing the `transport` and `options` for the RabbitMQ client.
              */
-            useFactory: (config: ConfigService) => ({
-              transport: Transport.RMQ,
-              options: {
-                urls: [config.get<string>('RABBIT_MQ_URI')],
-                queue: config.get<string>(`RABBIT_MQ_${name}_QUEUE`),
-              },
-            }),
+            useFactory: (config: ConfigService) => {
+              const queue = config.get<string>(`RABBIT_MQ_${name}_QUEUE`);
+              return {
+                transport: Transport.RMQ,
+                options: {
+                  urls: [config.get<string>('RABBIT_MQ_URI')],
+                  queue,
+                  // Must match the options asserted by the consumer of the queue (see `RmqService.getOptions`).
+                  queueOptions: RMQ_QUEUE_OPTIONS,
+                  // Stamps every message with a unique id, used by consumers to detect redeliveries
+                  serializer: new RmqMessageIdSerializer(),
+                },
+              };
+            },
             inject: [ConfigService],
           },
         ]),
@@ -0,0 +1,35 @@
+import { RmqOptions, ServerRMQ } from '@nestjs/microservices';
+import { assertRmqTopology, RmqTopology } from './rmq.topology';
+
+/**
+ * RabbitMQ server strategy declaring the retry and dead-letter topology of its queue before consuming it.
+ * It extends the NestJS `ServerRMQ` transport, so message handling is unchanged.
+ */
+export class RmqServer extends ServerRMQ {
+  /**
+   * Constructor for `RmqServer`.
+   * @param {RmqOptions['options']} options The RabbitMQ options of the listener (urls, queue, queueOptions, noAck...).
+   * @param {RmqTopology} [topology] The retry and dead-letter topology to declare. When omitted, only the service queue is asserted.
+   */
+  constructor(
+    options: RmqOptions['options'],
+    private readonly topology?: RmqTopology,
+  ) {
+    super(options);
+  }
+
+  /**
+   * Declares the topology and then sets up the channel as `ServerRMQ` does (assert queue, prefetch, consume).
+   * Called by amqp-connection-manager every time the channel is (re)created.
+   * @async
+   * @param {any} channel The amqplib channel being set up.
+   * @param {() => void} callback The callback to invoke once the server is listening.
+   * @returns {Promise<void>}
+   */
+  async setupChannel(channel: any, callback: () => void): Promise<void> {
+    if (this.topology) {
+      await assertRmqTopology(channel, this.topology);
+    }
+    return super.setupChannel(channel, callback);
+  }
+}
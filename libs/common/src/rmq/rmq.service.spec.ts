@@ -0,0 +1,137 @@
+import { ConfigService } from '@nestjs/config';
+import { RmqContext } from '@nestjs/microservices';
+import {
+  RMQ_ATTEMPTS_HEADER,
+  RMQ_LAST_ERROR_HEADER,
+  RMQ_RETRY_DELAYS_PATTERN,
+} from './rmq.topology';
+import { RmqService } from './rmq.service';
+
+describe('RmqService', () => {
+  const channel = {
+    ack: jest.fn(),
+    nack: jest.fn(),
+    publish: jest.fn(),
+    sendToQueue: jest.fn(),
+  };
+  const message = (headers?: Record<string, any>) => ({
+    content: Buffer.from('{}'),
+    fields: { routingKey: 'billing' },
+    properties: { messageId: 'message-1', headers },
+  });
+  const createContext = (headers?: Record<string, any>) =>
+    new RmqContext([message(headers), channel, 'order_created']);
+  const createService = (settings: Record<string, any> = {}) =>
+    new RmqService({
+      get: (key: string) => settings[key],
+    } as unknown as ConfigService);
+
+  beforeEach(() => jest.clearAllMocks());
+
+  it('counts the attempts in the attempts header', () => {
+    const service = createService();
+
+    expect(service.getAttempts(createContext())).toBe(0);
+    expect(
+      service.getAttempts(createContext({ [RMQ_ATTEMPTS_HEADER]: 2 })),
+    ).toBe(2);
+  });
+
+  it('re-publishes a failed message with the backoff step of its attempt', () => {
+    const service = createService({ RABBIT_MQ_RETRY_DELAYS: '100,500' });
+    const context = createContext({ [RMQ_ATTEMPTS_HEADER]: 1 });
+
+    service.retry(context, new Error('Gateway timeout'));
+
+    expect(channel.publish).toHaveBeenCalledWith(
+      'billing.retry',
+      '500',
+      expect.any(Buffer),
+      expect.objectContaining({
+        messageId: 'message-1',
+        headers: {
+          [RMQ_ATTEMPTS_HEADER]: 2,
+          [RMQ_LAST_ERROR_HEADER]: 'Gateway timeout',
+        },
+      }),
+    );
+    expect(channel.sendToQueue).not.toHaveBeenCalled();
+    expect(channel.ack).toHaveBeenCalledWith(context.getMessage());
+  });
+
+  it('sticks to the last backoff step when there are more attempts than steps', () => {
+    const service = createService({
+      RABBIT_MQ_RETRY_DELAYS: '100,500',
+      RABBIT_MQ_MAX_ATTEMPTS: 10,
+    });
+
+    service.retry(createContext({ [RMQ_ATTEMPTS_HEADER]: 5 }));
+
+    expect(channel.publish).toHaveBeenCalledWith(
+      'billing.retry',
+      '500',
+      expect.any(Buffer),
+      expect.anything(),
+    );
+  });
+
+  it('dead-letters a message once its attempts are exhausted', () => {
+    const service = createService({ RABBIT_MQ_RETRY_DELAYS: '100,500' });
+    const context = createContext({ [RMQ_ATTEMPTS_HEADER]: 2 });
+
+    expect(service.isLastAttempt(context)).toBe(true);
+    service.retry(context, new Error('Gateway timeout'));
+
+    expect(channel.publish).not.toHaveBeenCalled();
+    expect(channel.sendToQueue).toHaveBeenCalledWith(
+      'billing.dlq',
+      expect.any(Buffer),
+      expect.objectContaining({
+        headers: {
+          [RMQ_ATTEMPTS_HEADER]: 3,
+          [RMQ_LAST_ERROR_HEADER]: 'Gateway timeout',
+        },
+      }),
+    );
+    expect(channel.ack).toHaveBeenCalledWith(context.getMessage());
+  });
+
+  it('dead-letters a message to retry when no backoff step is configured', () => {
+    const service = createService({
+      RABBIT_MQ_RETRY_DELAYS: ',',
+      RABBIT_MQ_MAX_ATTEMPTS: 4,
+    });
+
+    service.retry(createContext(), new Error('Gateway timeout'));
+
+    expect(channel.publish).not.toHaveBeenCalled();
+    expect(channel.sendToQueue).toHaveBeenCalledWith(
+      'billing.dlq',
+      expect.any(Buffer),
+      expect.anything(),
+    );
+  });
+
+  it('accepts only non-empty lists of positive delays', () => {
+    expect(RMQ_RETRY_DELAYS_PATTERN.test('1000, 5000,25000')).toBe(true);
+    expect(RMQ_RETRY_DELAYS_PATTERN.test('')).toBe(false);
+    expect(RMQ_RETRY_DELAYS_PATTERN.test('1000,,5000')).toBe(false);
+    expect(RMQ_RETRY_DELAYS_PATTERN.test('0,1000')).toBe(false);
+    expect(RMQ_RETRY_DELAYS_PATTERN.test('1s,5s')).toBe(false);
+  });
+
+  it('dead-letters a message rejected without requeue', () => {
+    const service = createService();
+    const context = createContext();
+
+    service.nack(context);
+
+    expect(channel.nack).not.toHaveBeenCalled();
+    expect(channel.sendToQueue).toHaveBeenCalledWith(
+      'billing.dlq',
+      expect.any(Buffer),
+      expect.anything(),
+    );
+    expect(channel.ack).toHaveBeenCalledWith(context.getMessage());
+  });
+});
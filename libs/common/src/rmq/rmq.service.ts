@@ -1,14 +1,35 @@
-import { Injectable } from '@nestjs/common';
+import { Injectable, Logger } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
-import { RmqContext, RmqOptions, Transport } from '@nestjs/microservices';
+import {
+  CustomStrategy,
+  RmqContext,
+  RmqOptions,
+  Transport,
+} from '@nestjs/microservices';
+import { RmqServer } from './rmq.server';
+import {
+  getRmqTopology,
+  RMQ_ATTEMPTS_HEADER,
+  RMQ_DEFAULT_RETRY_DELAYS,
+  RMQ_LAST_ERROR_HEADER,
+  RMQ_QUEUE_OPTIONS,
+} from './rmq.topology';
 
 /**
  * Injectable service for providing RabbitMQ connection options.
  * This service encapsulates the logic for generating configurations needed to connect to RabbitMQ,
  * leveraging the `ConfigService` to retrieve necessary connection details from the application's configuration.
+ * It also exposes the acknowledgement helpers (`ack`, `nack`, `retry`, `deadLetter`) used by message handlers.
  */
 @Injectable()
 export class RmqService {
+  /**
+   * Logger instance for RmqService, used to trace retried and dead-lettered messages.
+   * @private
+   * @readonly
+   */
+  private readonly logger = new Logger(RmqService.name, { timestamp: true });
+
   /**
    * Constructor for RmqService.
    * @param {ConfigService} configService - Injected `ConfigService` instance.
@@ -25,6 +46,9 @@ export class RmqService {
    * @returns {RmqOptions} An `RmqOptions` object configured with connection details for RabbitMQ, ready to be used in a NestJS microservice client or listener.
    */
   getOptions(queue: string, acknowledgements = false): RmqOptions {
+    const queueName = this.configService.get<string>(
+      `RABBIT_MQ_${queue}_QUEUE`,
+    );
     return {
       // Specifies the transport protocol as RabbitMQ
       transport: Transport.RMQ,
@@ -32,7 +56,10 @@ export class RmqService {
         // Retrieves the RabbitMQ connection URI from the configuration
         urls: [this.configService.get<string>('RABBIT_MQ_URI')],
         // Dynamically retrieves the queue name from configuration based on the provided queue parameter
-        queue: this.configService.get<string>(`RABBIT_MQ_${queue}_QUEUE`),
+        queue: queueName,
+        // Declares the queue without dead-letter arguments, so queues created before the retry topology keep being asserted.
+        // Must match the options used by producers.
+        queueOptions: RMQ_QUEUE_OPTIONS,
         // Sets whether message acknowledgements are enabled or disabled. When true, acknowledgements are disabled.
         noAck: acknowledgements,
         // Configures messages to be persistent, ensuring they survive broker restarts.
@@ -41,6 +68,22 @@ export class RmqService {
     };
   }
 
+  /**
+   * Returns a RabbitMQ listener strategy for a given `queue`, to be passed to `app.connectMicroservice`.
+   * When acknowledgements are enabled, the listener declares the retry exchange, the delay queues and the dead-letter queue
+   * of its queue before consuming it, so that handlers can use {@link retry} and {@link nack}.
+   * @param queue - The name of the RabbitMQ queue to listen to, resolved from the configuration as in {@link getOptions}.
+   * @param [acknowledgements=false] - When `true`, acknowledgements are disabled (`noAck: true`) and no retry topology is declared.
+   * @returns {CustomStrategy} A custom strategy wrapping an {@link RmqServer}.
+   */
+  getServer(queue: string, acknowledgements = false): CustomStrategy {
+    const { options } = this.getOptions(queue, acknowledgements);
+    const topology = acknowledgements
+      ? undefined
+      : getRmqTopology(options.queue, this.getRetryDelays());
+    return { strategy: new RmqServer(options, topology) };
+  }
+
   /**
    * Acknowledges a RabbitMQ message.
    * This method manually acknowledges a message in RabbitMQ to confirm successful processing.
@@ -52,4 +95,139 @@ export class RmqService {
     const originalMessage = context.getMessage();
     channel.ack(originalMessage);
   }
+
+  /**
+   * Negatively acknowledges a RabbitMQ message.
+   * Without requeue, the message is dead-lettered into the `<queue>.dlq` queue declared by {@link getServer} (see {@link deadLetter}):
+   * the service queues carry no dead-letter arguments, so a plain rejection would drop it.
+   * @param {RmqContext} context - The `RmqContext` object provided by NestJS, containing channel and message details.
+   * @param [requeue=false] - When `true`, the message is put back on the service queue instead of being dead-lettered.
+   */
+  nack(context: RmqContext, requeue = false) {
+    if (!requeue) {
+      return this.deadLetter(context);
+    }
+    const channel = context.getChannelRef();
+    const originalMessage = context.getMessage();
+    channel.nack(originalMessage, false, true);
+  }
+
+  /**
+   * Schedules a failed message for a delayed retry, or dead-letters it once the attempts are exhausted.
+   * The number of failed attempts is recorded in the `x-attempts` header. While it is lower than `RABBIT_MQ_MAX_ATTEMPTS`,
+   * the message is re-published to the `<queue>.retry` exchange and comes back to the service queue after the matching
+   * backoff step of `RABBIT_MQ_RETRY_DELAYS`. Afterwards it is dead-lettered by {@link deadLetter}.
+   * Without any backoff step, no delay queue is bound to the retry exchange, so the message is dead-lettered rather than lost.
+   * In both cases the original delivery is acknowledged, so it never blocks the service queue.
+   * @param {RmqContext} context - The `RmqContext` object provided by NestJS, containing channel and message details.
+   * @param {any} [error] - The error that made the processing fail, recorded on the message.
+   */
+  retry(context: RmqContext, error?: any) {
+    const channel = context.getChannelRef();
+    const originalMessage = context.getMessage();
+    const { content, fields, properties } = originalMessage;
+    // Messages reach the service queue through the default exchange (or back from a delay queue), routed by queue name.
+    const topology = getRmqTopology(fields.routingKey, this.getRetryDelays());
+    const attempts = this.getAttempts(context) + 1;
+    // Pick the backoff step of this attempt, sticking to the last step when there are more attempts than steps.
+    const delay =
+      topology.delays[Math.min(attempts, topology.delays.length) - 1];
+    if (attempts >= this.getMaxAttempts() || delay === undefined) {
+      return this.deadLetter(context, error, attempts);
+    }
+    const headers = {
+      ...properties.headers,
+      [RMQ_ATTEMPTS_HEADER]: attempts,
+      [RMQ_LAST_ERROR_HEADER]: error?.message ?? String(error),
+    };
+    this.logger.warn(
+      `Retrying message ${context.getPattern()} in ${delay}ms (attempt ${attempts})`,
+    );
+    channel.publish(topology.retryExchange, String(delay), content, {
+      ...properties,
+      headers,
+      persistent: true,
+    });
+    channel.ack(originalMessage);
+  }
+
+  /**
+   * Publishes a message that cannot be processed to `<queue>.dlq`, with the error in the `x-last-error` header,
+   * then acknowledges the original delivery.
+   * @param {RmqContext} context - The `RmqContext` object provided by NestJS, containing channel and message details.
+   * @param {any} [error] - The error that made the processing fail, recorded on the message.
+   * @param [attempts] - The number of failed attempts to record in the `x-attempts` header. Defaults to this one.
+   */
+  deadLetter(
+    context: RmqContext,
+    error?: any,
+    attempts = this.getAttempts(context) + 1,
+  ) {
+    const channel = context.getChannelRef();
+    const originalMessage = context.getMessage();
+    const { content, fields, properties } = originalMessage;
+    const { deadLetterQueue } = getRmqTopology(fields.routingKey, []);
+    this.logger.error(
+      `Dead-lettering message ${context.getPattern()} after ${attempts} attempts`,
+      error?.stack,
+    );
+    channel.sendToQueue(deadLetterQueue, content, {
+      ...properties,
+      headers: {
+        ...properties.headers,
+        [RMQ_ATTEMPTS_HEADER]: attempts,
+        [RMQ_LAST_ERROR_HEADER]: error?.message ?? String(error),
+      },
+      persistent: true,
+    });
+    channel.ack(originalMessage);
+  }
+
+  /**
+   * Returns the number of failed processing attempts recorded on a message.
+   * @param {RmqContext} context - The `RmqContext` object provided by NestJS.
+   * @returns {number} The value of the `x-attempts` header, or `0` for a first delivery.
+   */
+  getAttempts(context: RmqContext): number {
+    const { headers } = context.getMessage().properties;
+    return Number(headers?.[RMQ_ATTEMPTS_HEADER] ?? 0);
+  }
+
+  /**
+   * Tells whether the current delivery of a message is its last attempt, i.e. whether a failure would dead-letter it.
+   * @param {RmqContext} context - The `RmqContext` object provided by NestJS.
+   * @returns {boolean} `true` if the message is dead-lettered should this attempt fail.
+   */
+  isLastAttempt(context: RmqContext): boolean {
+    return this.getAttempts(context) + 1 >= this.getMaxAttempts();
+  }
+
+  /**
+   * Reads the backoff steps from the comma separated `RABBIT_MQ_RETRY_DELAYS` setting (in milliseconds).
+   * @private
+   * @returns {number[]} The configured backoff steps, or {@link RMQ_DEFAULT_RETRY_DELAYS}.
+   */
+  private getRetryDelays(): number[] {
+    const delays = this.configService.get<string>('RABBIT_MQ_RETRY_DELAYS');
+    if (!delays) {
+      return RMQ_DEFAULT_RETRY_DELAYS;
+    }
+    return String(delays)
+      .split(',')
+      .map((delay) => Number(delay.trim()))
+      .filter((delay) => delay > 0);
+  }
+
+  /**
+   * Reads the maximum number of processing attempts from the `RABBIT_MQ_MAX_ATTEMPTS` setting.
+   * Defaults to one first attempt plus one retry per backoff step.
+   * @private
+   * @returns {number} The number of attempts after which a message is dead-lettered.
+   */
+  private getMaxAttempts(): number {
+    const maxAttempts = Number(
+      this.configService.get('RABBIT_MQ_MAX_ATTEMPTS'),
+    );
+    return maxAttempts > 0 ? maxAttempts : this.getRetryDelays().length + 1;
+  }
 }
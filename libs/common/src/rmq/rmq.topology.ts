@@ -0,0 +1,110 @@
+/**
+ * Header carrying the number of failed processing attempts of a message.
+ * It is set by `RmqService.retry` every time a message is re-published for a delayed retry.
+ */
+export const RMQ_ATTEMPTS_HEADER = 'x-attempts';
+
+/**
+ * Header carrying the error message of the last failed processing attempt.
+ */
+export const RMQ_LAST_ERROR_HEADER = 'x-last-error';
+
+/**
+ * Default backoff steps (in milliseconds) used when `RABBIT_MQ_RETRY_DELAYS` is not configured.
+ * Each step is five times the previous one, giving an exponential backoff of 1s, 5s and 25s.
+ */
+export const RMQ_DEFAULT_RETRY_DELAYS = [1000, 5000, 25000];
+
+/**
+ * Format of the `RABBIT_MQ_RETRY_DELAYS` setting: a comma separated, non-empty list of positive integers (e.g. `1000,5000,25000`).
+ * The configuration schemas of the services validate the setting against it.
+ */
+export const RMQ_RETRY_DELAYS_PATTERN = /^\s*[1-9]\d*(\s*,\s*[1-9]\d*)*\s*$/;
+
+/**
+ * Describes the RabbitMQ entities declared around a service queue to support delayed retries and dead-lettering.
+ */
+export interface RmqTopology {
+  /**
+   * The name of the service queue consumed by the microservice (e.g. `billing`).
+   */
+  queue: string;
+
+  /**
+   * The direct exchange receiving messages scheduled for a retry, routed by delay (e.g. `billing.retry`).
+   */
+  retryExchange: string;
+
+  /**
+   * The queue collecting messages that could not be processed (e.g. `billing.dlq`).
+   */
+  deadLetterQueue: string;
+
+  /**
+   * The distinct backoff steps (in milliseconds). A delay queue is declared for each of them.
+   */
+  delays: number[];
+}
+
+/**
+ * Builds the retry and dead-letter topology for a service `queue`.
+ * @param {string} queue The name of the service queue.
+ * @param {number[]} delays The backoff steps (in milliseconds) used for delayed retries.
+ * @returns {RmqTopology} The names of the exchange and queues declared around the service queue.
+ */
+export const getRmqTopology = (
+  queue: string,
+  delays: number[],
+): RmqTopology => ({
+  queue,
+  retryExchange: `${queue}.retry`,
+  deadLetterQueue: `${queue}.dlq`,
+  delays: [...new Set(delays)],
+});
+
+/**
+ * Returns the name of the delay queue holding messages retried after `delay` milliseconds.
+ * @param {string} queue The name of the service queue.
+ * @param {number} delay The backoff step in milliseconds.
+ * @returns {string} The delay queue name (e.g. `billing.retry.5000`).
+ */
+export const getDelayQueue = (queue: string, delay: number): string =>
+  `${queue}.retry.${delay}`;
+
+/**
+ * Options used to assert a service queue.
+ * The queue is declared without dead-letter arguments, as it was before the retry topology, so that queues already
+ * existing on the broker keep being asserted: RabbitMQ refuses to re-declare a queue with other arguments (`PRECONDITION_FAILED`).
+ * Messages are dead-lettered into `<queue>.dlq` by `RmqService.deadLetter` instead, and broker-side dead-lettering
+ * (e.g. of messages rejected by another client) can be enabled with a RabbitMQ policy, which needs no re-declaration.
+ * Producers (`RmqModule.register`) and consumers (`RmqService.getOptions`) must assert the queue with the same options.
+ */
+export const RMQ_QUEUE_OPTIONS = { durable: true };
+
+/**
+ * Declares the retry exchange, the delay queues and the dead-letter queue of a `topology` on an AMQP `channel`.
+ * Each delay queue expires its messages after its delay and dead-letters them back to the service queue,
+ * which is how a message re-published to the retry exchange is delivered again after the backoff step.
+ * All declarations are idempotent, so this can safely run every time a channel is (re)created.
+ * @async
+ * @param {any} channel The amqplib channel used to declare the entities.
+ * @param {RmqTopology} topology The topology to declare.
+ * @returns {Promise<void>} A Promise that resolves once every entity has been declared.
+ */
+export const assertRmqTopology = async (
+  channel: any,
+  { queue, retryExchange, deadLetterQueue, delays }: RmqTopology,
+): Promise<void> => {
+  await channel.assertQueue(deadLetterQueue, { durable: true });
+  await channel.assertExchange(retryExchange, 'direct', { durable: true });
+  for (const delay of delays) {
+    const delayQueue = getDelayQueue(queue, delay);
+    await channel.assertQueue(delayQueue, {
+      durable: true,
+      messageTtl: delay,
+      deadLetterExchange: '',
+      deadLetterRoutingKey: queue,
+    });
+    await channel.bindQueue(delayQueue, retryExchange, String(delay));
+  }
+};
@@ -0,0 +1,61 @@
+import { CallHandler, ExecutionContext } from '@nestjs/common';
+import { Types } from 'mongoose';
+import { lastValueFrom, of } from 'rxjs';
+import { UserView } from '../auth/user-view';
+import { serialize, SerializeInterceptor } from './serialize.interceptor';
+
+describe('serialize', () => {
+  const _id = new Types.ObjectId();
+  const user = {
+    _id,
+    email: 'user@example.com',
+    password: '$2b$10$hash',
+    roles: ['user'],
+    permissions: [],
+    version: 0,
+  };
+
+  it('keeps the exposed fields and strips the password', () => {
+    const view = serialize(UserView, user);
+
+    expect(view).toEqual({
+      _id: _id.toHexString(),
+      email: 'user@example.com',
+      roles: ['user'],
+      permissions: [],
+    });
+    expect(view).not.toHaveProperty('password');
+  });
+
+  it('converts every item of an array', () => {
+    const views = serialize(UserView, [user, user]);
+
+    expect(views).toHaveLength(2);
+    views.forEach((view) => expect(view).not.toHaveProperty('password'));
+  });
+
+  it('converts the items of a page and keeps its metadata', () => {
+    const page = serialize(UserView, { items: [user], total: 1, next: null });
+
+    expect(page.total).toBe(1);
+    expect(page.next).toBeNull();
+    expect(page.items[0]).not.toHaveProperty('password');
+  });
+
+  it('passes empty values through', () => {
+    expect(serialize(UserView, null)).toBeNull();
+    expect(serialize(UserView, undefined)).toBeUndefined();
+  });
+
+  it('is applied by SerializeInterceptor to the value of the handler', async () => {
+    const interceptor = new SerializeInterceptor(UserView);
+    const next: CallHandler = { handle: () => of(user) };
+
+    const view = await lastValueFrom(
+      interceptor.intercept({} as ExecutionContext, next),
+    );
+
+    expect(view).not.toHaveProperty('password');
+    expect(view.email).toBe('user@example.com');
+  });
+});
@@ -0,0 +1,72 @@
+import {
+  CallHandler,
+  ExecutionContext,
+  NestInterceptor,
+  UseInterceptors,
+} from '@nestjs/common';
+import {
+  ClassConstructor,
+  instanceToPlain,
+  plainToInstance,
+} from 'class-transformer';
+import { map, Observable } from 'rxjs';
+
+/**
+ * Converts a value returned by a handler into its public view.
+ * Only the properties of the view marked with `@Expose()` are kept, so a field added to a document never leaks by default.
+ * Arrays are converted item by item, and pages (`{ items, total, ... }`) have their items converted.
+ * @param {ClassConstructor<T>} view The class of the view, whose exposed properties are kept.
+ * @param {any} data The value returned by the handler.
+ * @returns {any} The plain view of the value.
+ */
+export const serialize = <T>(view: ClassConstructor<T>, data: any): any => {
+  if (data === null || data === undefined) {
+    return data;
+  }
+  if (Array.isArray(data)) {
+    return data.map((item) => serialize(view, item));
+  }
+  if (Array.isArray(data.items) && typeof data.total === 'number') {
+    return { ...data, items: serialize(view, data.items) };
+  }
+  return instanceToPlain(
+    plainToInstance(view, data, { excludeExtraneousValues: true }),
+  );
+};
+
+/**
+ * Interceptor converting the value returned by a handler into its public view with {@link serialize}.
+ * It applies to HTTP routes and message patterns alike.
+ */
+export class SerializeInterceptor<T> implements NestInterceptor {
+  /**
+   * Constructor for `SerializeInterceptor`.
+   * @param {ClassConstructor<T>} view The class of the view, whose exposed properties are kept.
+   */
+  constructor(readonly view: ClassConstructor<T>) {}
+
+  /**
+   * Converts the value emitted by the handler.
+   * @param {ExecutionContext} _context The execution context of the handler.
+   * @param {CallHandler} next The handler.
+   * @returns {Observable<any>} An Observable emitting the plain view of the value.
+   */
+  intercept(_context: ExecutionContext, next: CallHandler): Observable<any> {
+    return next.handle().pipe(map((data) => serialize(this.view, data)));
+  }
+}
+
+/**
+ * Decorator converting the values returned by a handler (or every handler of a controller) into a public view.
+ * The handler must return its value rather than send it with `response.send`, which bypasses the interceptors.
+ * @param {ClassConstructor<T>} view The class of the view, whose properties marked with `@Expose()` are kept.
+ * @returns {MethodDecorator & ClassDecorator} A decorator applying a `SerializeInterceptor`.
+ * @example
+ * ```ts
+ * @Post()
+ * @Serialize(UserView)
+ * async createUser(@Body() request: CreateUserReq): Promise<User> { ... }
+ * ```
+ */
+export const Serialize = <T>(view: ClassConstructor<T>) =>
+  UseInterceptors(new SerializeInterceptor(view));